@@ -10,7 +10,9 @@ import {
   getAccountTypeLabel,
   getAccountCategory,
 } from '../types/accounts';
+import { Liability, getLiabilityTypeLabel } from '../types/liabilities';
 import AccountModal from '../components/AccountModal';
+import LiabilityModal from '../components/LiabilityModal';
 
 export default function AccountsPage() {
   const { data: session, status } = useSession();
@@ -21,6 +23,9 @@ export default function AccountsPage() {
   const [showModal, setShowModal] = useState(false);
   const [editingAccount, setEditingAccount] = useState<Account | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [liabilities, setLiabilities] = useState<Liability[]>([]);
+  const [showLiabilityModal, setShowLiabilityModal] = useState(false);
+  const [editingLiability, setEditingLiability] = useState<Liability | null>(null);
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -31,6 +36,7 @@ export default function AccountsPage() {
   useEffect(() => {
     if (session?.user?.email) {
       fetchAccounts();
+      fetchLiabilities();
     }
   }, [session]);
 
@@ -52,6 +58,21 @@ export default function AccountsPage() {
     }
   };
 
+  const fetchLiabilities = async () => {
+    try {
+      const response = await fetch('/api/liabilities');
+      const data = await response.json();
+
+      if (data.success) {
+        setLiabilities(data.liabilities || []);
+      } else {
+        setError(data.error || 'Failed to load liabilities');
+      }
+    } catch {
+      setError('Failed to load liabilities');
+    }
+  };
+
   const handleAddAccount = () => {
     setEditingAccount(null);
     setShowModal(true);
@@ -95,6 +116,49 @@ export default function AccountsPage() {
     }
   };
 
+  const handleAddLiability = () => {
+    setEditingLiability(null);
+    setShowLiabilityModal(true);
+  };
+
+  const handleEditLiability = (liability: Liability) => {
+    setEditingLiability(liability);
+    setShowLiabilityModal(true);
+  };
+
+  const handleDeleteLiability = async (liabilityId: string) => {
+    if (!confirm('Are you sure you want to delete this liability?')) {
+      return;
+    }
+
+    try {
+      setDeletingId(liabilityId);
+      const response = await fetch(`/api/liabilities/${liabilityId}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        await fetchLiabilities();
+      } else {
+        alert(data.error || 'Failed to delete liability');
+      }
+    } catch {
+      alert('Failed to delete liability');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleLiabilityModalClose = async (saved: boolean) => {
+    setShowLiabilityModal(false);
+    setEditingLiability(null);
+    if (saved) {
+      await fetchLiabilities();
+    }
+  };
+
   if (status === 'loading' || loading) {
     return (
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -112,7 +176,8 @@ export default function AccountsPage() {
     return null;
   }
 
-  const summary = calculateAccountSummary(accounts);
+  const summary = calculateAccountSummary(accounts, liabilities);
+  const activeLiabilities = liabilities.filter((l) => l.status === 'active');
   const activeAccounts = accounts.filter((a) => a.status === 'active');
   const closedAccounts = accounts.filter((a) => a.status === 'closed');
 
@@ -131,15 +196,23 @@ export default function AccountsPage() {
         <div>
           <h1 className="text-3xl font-bold text-zinc-900 dark:text-white">Accounts</h1>
           <p className="mt-2 text-zinc-600 dark:text-zinc-400">
-            Manage your retirement, investment, and cash accounts
+            Manage your retirement, investment, and cash accounts and the debts you owe
           </p>
         </div>
-        <button
-          onClick={handleAddAccount}
-          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors"
-        >
-          Add Account
-        </button>
+        <div className="flex gap-3">
+          <button
+            onClick={handleAddLiability}
+            className="px-4 py-2 text-sm font-medium text-zinc-700 dark:text-zinc-300 border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-md transition-colors"
+          >
+            Add Liability
+          </button>
+          <button
+            onClick={handleAddAccount}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors"
+          >
+            Add Account
+          </button>
+        </div>
       </div>
 
       {error && (
@@ -149,7 +222,7 @@ export default function AccountsPage() {
       )}
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-8">
         <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6">
           <p className="text-sm text-zinc-600 dark:text-zinc-400">Total Net Worth</p>
           <p className="text-2xl font-bold text-zinc-900 dark:text-white mt-2">
@@ -174,6 +247,12 @@ export default function AccountsPage() {
             ${summary.totalCash.toLocaleString()}
           </p>
         </div>
+        <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6">
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">Liabilities</p>
+          <p className="text-2xl font-bold text-red-600 dark:text-red-400 mt-2">
+            ${summary.totalLiabilities.toLocaleString()}
+          </p>
+        </div>
       </div>
 
       {/* Retirement Accounts */}
@@ -369,6 +448,79 @@ export default function AccountsPage() {
         </div>
       )}
 
+      {/* Liabilities */}
+      {activeLiabilities.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-xl font-semibold text-zinc-900 dark:text-white mb-4">Liabilities</h2>
+          <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 overflow-hidden">
+            <table className="min-w-full divide-y divide-zinc-200 dark:divide-zinc-800">
+              <thead className="bg-zinc-50 dark:bg-zinc-800/50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    Liability
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    Type
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    APR
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    Monthly Payment
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    Balance
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-zinc-900 divide-y divide-zinc-200 dark:divide-zinc-800">
+                {activeLiabilities.map((liability) => (
+                  <tr key={liability.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-zinc-900 dark:text-white">
+                      {liability.liabilityName}
+                      {liability.lender && (
+                        <div className="text-xs font-normal text-zinc-500 dark:text-zinc-400">{liability.lender}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-zinc-600 dark:text-zinc-400">
+                      {getLiabilityTypeLabel(liability.liabilityType)}
+                      {liability.repaymentPlan === 'income-driven' && ' (income-driven)'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-zinc-600 dark:text-zinc-400">
+                      {liability.apr}%
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-zinc-600 dark:text-zinc-400">
+                      ${liability.minimumPayment.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-red-600 dark:text-red-400 font-medium">
+                      ${liability.balance.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => handleEditLiability(liability)}
+                        className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300 mr-4"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDeleteLiability(liability.id)}
+                        disabled={deletingId === liability.id}
+                        className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300 disabled:opacity-50"
+                      >
+                        {deletingId === liability.id ? 'Deleting...' : 'Delete'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Empty State */}
       {activeAccounts.length === 0 && (
         <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-12 text-center">
@@ -393,6 +545,9 @@ export default function AccountsPage() {
       {showModal && (
         <AccountModal account={editingAccount} onClose={handleModalClose} />
       )}
+      {showLiabilityModal && (
+        <LiabilityModal liability={editingLiability} onClose={handleLiabilityModalClose} />
+      )}
     </div>
   );
 }
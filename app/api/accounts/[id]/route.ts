@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '../../auth/[...nextauth]/route';
 import { getUserData, saveUserData, deleteUserData } from '@/app/lib/data-store';
-import { Account, AccountResponse, AccountStatus } from '@/app/types/accounts';
+import { Account, AccountResponse, AccountStatus, COST_BASIS_ACCOUNT_TYPES } from '@/app/types/accounts';
+import { isValidHouseholdMember } from '@/app/types/partner';
 
 const DATA_TYPE = 'account';
 
@@ -22,6 +23,22 @@ function validateAccountUpdate(data: any): string | null {
     }
   }
 
+  if (data.costBasis !== undefined) {
+    if (typeof data.costBasis !== 'number' || data.costBasis < 0) {
+      return 'costBasis must be a non-negative number';
+    }
+  }
+
+  if (data.returnRate !== undefined && data.returnRate !== null) {
+    if (typeof data.returnRate !== 'number' || data.returnRate < -100 || data.returnRate > 100) {
+      return 'returnRate must be a number between -100 and 100';
+    }
+  }
+
+  if (data.owner !== undefined && !isValidHouseholdMember(data.owner)) {
+    return 'owner must be self or partner';
+  }
+
   if (data.asOfDate !== undefined && typeof data.asOfDate !== 'string') {
     return 'asOfDate must be a string';
   }
@@ -77,6 +94,9 @@ export async function GET(
       accountName: accountRecord.data.accountName,
       institution: accountRecord.data.institution,
       balance: accountRecord.data.balance,
+      costBasis: accountRecord.data.costBasis,
+      returnRate: accountRecord.data.returnRate,
+      owner: accountRecord.data.owner,
       asOfDate: accountRecord.data.asOfDate,
       status: accountRecord.data.status || 'active',
       notes: accountRecord.data.notes,
@@ -152,6 +172,24 @@ export async function PUT(
       updates.balance = body.balance;
     }
 
+    if (body.costBasis !== undefined) {
+      if (!COST_BASIS_ACCOUNT_TYPES.includes(existingRecord.data.accountType)) {
+        return NextResponse.json<AccountResponse>(
+          { success: false, error: 'costBasis is only supported for brokerage and Roth IRA accounts' },
+          { status: 400 }
+        );
+      }
+      updates.costBasis = body.costBasis;
+    }
+
+    if (body.returnRate !== undefined) {
+      updates.returnRate = body.returnRate ?? undefined;
+    }
+
+    if (body.owner !== undefined) {
+      updates.owner = body.owner;
+    }
+
     if (body.asOfDate !== undefined) {
       updates.asOfDate = body.asOfDate;
     }
@@ -178,6 +216,9 @@ export async function PUT(
       accountName: accountData.accountName,
       institution: accountData.institution,
       balance: accountData.balance,
+      costBasis: accountData.costBasis,
+      returnRate: accountData.returnRate,
+      owner: accountData.owner,
       asOfDate: accountData.asOfDate,
       status: accountData.status,
       notes: accountData.notes,
@@ -8,7 +8,9 @@ import {
   AccountsListResponse,
   AccountType,
   AccountStatus,
+  COST_BASIS_ACCOUNT_TYPES,
 } from '@/app/types/accounts';
+import { isValidHouseholdMember } from '@/app/types/partner';
 import { v4 as uuidv4 } from 'uuid';
 
 const DATA_TYPE = 'account';
@@ -78,6 +80,25 @@ function validateAccountData(data: unknown, isUpdate = false): string | null {
     return 'balance cannot be negative';
   }
 
+  if (dataObj.costBasis !== undefined) {
+    if (typeof dataObj.costBasis !== 'number' || dataObj.costBasis < 0) {
+      return 'costBasis must be a non-negative number';
+    }
+    if (!isUpdate && !COST_BASIS_ACCOUNT_TYPES.includes(dataObj.accountType as AccountType)) {
+      return 'costBasis is only supported for brokerage and Roth IRA accounts';
+    }
+  }
+
+  if (dataObj.returnRate !== undefined) {
+    if (typeof dataObj.returnRate !== 'number' || dataObj.returnRate < -100 || dataObj.returnRate > 100) {
+      return 'returnRate must be a number between -100 and 100';
+    }
+  }
+
+  if (dataObj.owner !== undefined && !isValidHouseholdMember(dataObj.owner)) {
+    return 'owner must be self or partner';
+  }
+
   if (dataObj.institution !== undefined && dataObj.institution !== null && typeof dataObj.institution !== 'string') {
     return 'institution must be a string';
   }
@@ -115,6 +136,9 @@ export async function GET(request: NextRequest) {
       accountName: record.data.accountName,
       institution: record.data.institution,
       balance: record.data.balance,
+      costBasis: record.data.costBasis,
+      returnRate: record.data.returnRate,
+      owner: record.data.owner,
       asOfDate: record.data.asOfDate,
       status: record.data.status || 'active',
       notes: record.data.notes,
@@ -175,6 +199,9 @@ export async function POST(request: NextRequest) {
       accountName: body.accountName.trim(),
       institution: body.institution?.trim() || undefined,
       balance: body.balance,
+      costBasis: body.costBasis,
+      returnRate: body.returnRate,
+      owner: body.owner,
       asOfDate: body.asOfDate,
       status: 'active' as AccountStatus,
       notes: body.notes?.trim() || undefined,
@@ -0,0 +1,209 @@
+/**
+ * Tests for liabilities/[id] API route
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, PUT, DELETE } from '../route';
+import { getUserData, saveUserData, deleteUserData } from '@/app/lib/data-store';
+import { getServerSession } from 'next-auth';
+
+// Mock next-auth
+jest.mock('next-auth', () => ({
+  __esModule: true,
+  default: jest.fn(() => ({ GET: jest.fn(), POST: jest.fn() })),
+  getServerSession: jest.fn(),
+}));
+
+// Mock data-store
+jest.mock('@/app/lib/data-store', () => ({
+  getUserData: jest.fn(),
+  saveUserData: jest.fn(),
+  deleteUserData: jest.fn(),
+}));
+
+const mockGetUserData = getUserData as jest.MockedFunction<typeof getUserData>;
+const mockSaveUserData = saveUserData as jest.MockedFunction<typeof saveUserData>;
+const mockDeleteUserData = deleteUserData as jest.MockedFunction<typeof deleteUserData>;
+const mockGetServerSession = getServerSession as jest.MockedFunction<typeof getServerSession>;
+
+describe('Liabilities [id] API Route', () => {
+  const mockSession = {
+    user: {
+      id: 'user-123',
+      email: 'test@example.com',
+    },
+  };
+
+  const mockLiabilityRecord = {
+    userId: 'user-123',
+    recordKey: 'liability#123',
+    dataType: 'liability',
+    recordId: '123',
+    data: {
+      liabilityType: 'auto',
+      liabilityName: 'Car Loan',
+      lender: 'Credit Union',
+      balance: 18000,
+      apr: 6.5,
+      minimumPayment: 450,
+      asOfDate: '2024-01-01',
+      status: 'active',
+    },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  const params = Promise.resolve({ id: '123' });
+
+  const put = (body: unknown) =>
+    PUT(
+      new NextRequest('http://localhost:3000/api/liabilities/123', {
+        method: 'PUT',
+        body: JSON.stringify(body),
+      }),
+      { params }
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('GET /api/liabilities/[id]', () => {
+    it('should return 401 if not authenticated', async () => {
+      mockGetServerSession.mockResolvedValue(null);
+
+      const request = new NextRequest('http://localhost:3000/api/liabilities/123');
+      const response = await GET(request, { params });
+      const data = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data.error).toBe('Unauthorized');
+    });
+
+    it('should return liability if it exists', async () => {
+      mockGetServerSession.mockResolvedValue(mockSession as never);
+      mockGetUserData.mockResolvedValue(mockLiabilityRecord as never);
+
+      const request = new NextRequest('http://localhost:3000/api/liabilities/123');
+      const response = await GET(request, { params });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.liability.id).toBe('123');
+      expect(data.liability.liabilityName).toBe('Car Loan');
+      expect(data.liability.apr).toBe(6.5);
+      expect(mockGetUserData).toHaveBeenCalledWith('user-123', 'liability', '123');
+    });
+
+    it('should return 404 if liability does not exist', async () => {
+      mockGetServerSession.mockResolvedValue(mockSession as never);
+      mockGetUserData.mockResolvedValue(null);
+
+      const request = new NextRequest('http://localhost:3000/api/liabilities/123');
+      const response = await GET(request, { params });
+      const data = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(data.error).toBe('Liability not found');
+    });
+  });
+
+  describe('PUT /api/liabilities/[id]', () => {
+    it('should update the liability', async () => {
+      mockGetServerSession.mockResolvedValue(mockSession as never);
+      mockGetUserData.mockResolvedValue(mockLiabilityRecord as never);
+      mockSaveUserData.mockResolvedValue('123');
+
+      const response = await put({ balance: 15000, minimumPayment: 500, lender: '  ' });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.liability.balance).toBe(15000);
+      expect(data.liability.minimumPayment).toBe(500);
+      expect(data.liability.lender).toBeUndefined();
+      expect(data.liability.liabilityName).toBe('Car Loan');
+      expect(mockSaveUserData).toHaveBeenCalledWith(
+        'user-123',
+        'liability',
+        expect.objectContaining({ balance: 15000, minimumPayment: 500, apr: 6.5 }),
+        '123'
+      );
+    });
+
+    it('should mark a liability paid off', async () => {
+      mockGetServerSession.mockResolvedValue(mockSession as never);
+      mockGetUserData.mockResolvedValue(mockLiabilityRecord as never);
+      mockSaveUserData.mockResolvedValue('123');
+
+      const response = await put({ status: 'paid-off', balance: 0 });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.liability.status).toBe('paid-off');
+    });
+
+    it('should return 400 for invalid updates', async () => {
+      mockGetServerSession.mockResolvedValue(mockSession as never);
+      mockGetUserData.mockResolvedValue(mockLiabilityRecord as never);
+
+      const invalidStatus = await put({ status: 'closed' });
+      expect(invalidStatus.status).toBe(400);
+      expect((await invalidStatus.json()).error).toBe('status must be active or paid-off');
+
+      const invalidApr = await put({ apr: 150 });
+      expect((await invalidApr.json()).error).toBe('apr must be a number between 0 and 100');
+
+      const idrOnAuto = await put({ repaymentPlan: 'income-driven' });
+      expect(idrOnAuto.status).toBe(400);
+      expect((await idrOnAuto.json()).error).toBe('Income-driven repayment is only supported for student loans');
+
+      expect(mockSaveUserData).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 if liability does not exist', async () => {
+      mockGetServerSession.mockResolvedValue(mockSession as never);
+      mockGetUserData.mockResolvedValue(null);
+
+      const response = await put({ balance: 100 });
+      const data = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(data.error).toBe('Liability not found');
+    });
+  });
+
+  describe('DELETE /api/liabilities/[id]', () => {
+    it('should delete the liability', async () => {
+      mockGetServerSession.mockResolvedValue(mockSession as never);
+      mockGetUserData.mockResolvedValue(mockLiabilityRecord as never);
+      mockDeleteUserData.mockResolvedValue(undefined);
+
+      const request = new NextRequest('http://localhost:3000/api/liabilities/123', { method: 'DELETE' });
+      const response = await DELETE(request, { params });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.success).toBe(true);
+      expect(mockDeleteUserData).toHaveBeenCalledWith('user-123', 'liability', '123');
+    });
+
+    it('should return 404 if liability does not exist', async () => {
+      mockGetServerSession.mockResolvedValue(mockSession as never);
+      mockGetUserData.mockResolvedValue(null);
+
+      const request = new NextRequest('http://localhost:3000/api/liabilities/123', { method: 'DELETE' });
+      const response = await DELETE(request, { params });
+      const data = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(data.error).toBe('Liability not found');
+      expect(mockDeleteUserData).not.toHaveBeenCalled();
+    });
+  });
+});
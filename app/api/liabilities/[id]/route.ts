@@ -0,0 +1,225 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../../auth/[...nextauth]/route';
+import { getUserData, saveUserData, deleteUserData } from '@/app/lib/data-store';
+import { Liability, LiabilityResponse, LiabilityStatus, validateLiabilityData } from '@/app/types/liabilities';
+
+const DATA_TYPE = 'liability';
+
+/**
+ * GET /api/liabilities/[id] - Get a specific liability
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json<LiabilityResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+    const { id } = await params;
+
+    const liabilityRecord = await getUserData(userId, DATA_TYPE, id);
+
+    if (!liabilityRecord) {
+      return NextResponse.json<LiabilityResponse>(
+        { success: false, error: 'Liability not found' },
+        { status: 404 }
+      );
+    }
+
+    const liability: Liability = {
+      id,
+      userId,
+      liabilityType: liabilityRecord.data.liabilityType,
+      liabilityName: liabilityRecord.data.liabilityName,
+      lender: liabilityRecord.data.lender,
+      balance: liabilityRecord.data.balance,
+      apr: liabilityRecord.data.apr,
+      minimumPayment: liabilityRecord.data.minimumPayment,
+      repaymentPlan: liabilityRecord.data.repaymentPlan,
+      idrPercent: liabilityRecord.data.idrPercent,
+      forgivenessYears: liabilityRecord.data.forgivenessYears,
+      asOfDate: liabilityRecord.data.asOfDate,
+      status: liabilityRecord.data.status || 'active',
+      notes: liabilityRecord.data.notes,
+      createdAt: liabilityRecord.createdAt,
+      updatedAt: liabilityRecord.updatedAt,
+    };
+
+    return NextResponse.json<LiabilityResponse>(
+      { success: true, liability },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error getting liability:', error);
+    return NextResponse.json<LiabilityResponse>(
+      { success: false, error: 'Failed to get liability' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/liabilities/[id] - Update a liability
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json<LiabilityResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+    const { id } = await params;
+    const body = await request.json();
+
+    // Get existing liability
+    const existingRecord = await getUserData(userId, DATA_TYPE, id);
+
+    if (!existingRecord) {
+      return NextResponse.json<LiabilityResponse>(
+        { success: false, error: 'Liability not found' },
+        { status: 404 }
+      );
+    }
+
+    // Validate updates
+    const validationError = validateLiabilityData(body, true);
+    if (validationError) {
+      return NextResponse.json<LiabilityResponse>(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    // Merge updates
+    const updates: Record<string, unknown> = {};
+
+    if (body.liabilityName !== undefined) {
+      updates.liabilityName = body.liabilityName.trim();
+    }
+
+    if (body.lender !== undefined) {
+      updates.lender = body.lender?.trim() || undefined;
+    }
+
+    for (const field of ['balance', 'apr', 'minimumPayment', 'idrPercent', 'forgivenessYears', 'asOfDate'] as const) {
+      if (body[field] !== undefined) {
+        updates[field] = body[field];
+      }
+    }
+
+    if (body.repaymentPlan !== undefined) {
+      if (body.repaymentPlan === 'income-driven' && existingRecord.data.liabilityType !== 'student') {
+        return NextResponse.json<LiabilityResponse>(
+          { success: false, error: 'Income-driven repayment is only supported for student loans' },
+          { status: 400 }
+        );
+      }
+      updates.repaymentPlan = body.repaymentPlan;
+    }
+
+    if (body.status !== undefined) {
+      updates.status = body.status as LiabilityStatus;
+    }
+
+    if (body.notes !== undefined) {
+      updates.notes = body.notes?.trim() || undefined;
+    }
+
+    const liabilityData = {
+      ...existingRecord.data,
+      ...updates,
+    };
+
+    await saveUserData(userId, DATA_TYPE, liabilityData, id);
+
+    const liability: Liability = {
+      id,
+      userId,
+      liabilityType: liabilityData.liabilityType,
+      liabilityName: liabilityData.liabilityName,
+      lender: liabilityData.lender,
+      balance: liabilityData.balance,
+      apr: liabilityData.apr,
+      minimumPayment: liabilityData.minimumPayment,
+      repaymentPlan: liabilityData.repaymentPlan,
+      idrPercent: liabilityData.idrPercent,
+      forgivenessYears: liabilityData.forgivenessYears,
+      asOfDate: liabilityData.asOfDate,
+      status: liabilityData.status,
+      notes: liabilityData.notes,
+    };
+
+    return NextResponse.json<LiabilityResponse>(
+      { success: true, liability },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error updating liability:', error);
+    return NextResponse.json<LiabilityResponse>(
+      { success: false, error: 'Failed to update liability' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/liabilities/[id] - Delete a liability
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json<LiabilityResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+    const { id } = await params;
+
+    // Verify liability exists
+    const existingRecord = await getUserData(userId, DATA_TYPE, id);
+
+    if (!existingRecord) {
+      return NextResponse.json<LiabilityResponse>(
+        { success: false, error: 'Liability not found' },
+        { status: 404 }
+      );
+    }
+
+    await deleteUserData(userId, DATA_TYPE, id);
+
+    return NextResponse.json<LiabilityResponse>(
+      { success: true },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting liability:', error);
+    return NextResponse.json<LiabilityResponse>(
+      { success: false, error: 'Failed to delete liability' },
+      { status: 500 }
+    );
+  }
+}
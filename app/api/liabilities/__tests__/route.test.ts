@@ -0,0 +1,228 @@
+/**
+ * Tests for liabilities API route
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, POST } from '../route';
+import { queryUserData, saveUserData } from '@/app/lib/data-store';
+import { getServerSession } from 'next-auth';
+
+// Mock uuid
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => 'test-liability-id-123'),
+}));
+
+// Mock next-auth
+jest.mock('next-auth', () => ({
+  __esModule: true,
+  default: jest.fn(() => ({ GET: jest.fn(), POST: jest.fn() })),
+  getServerSession: jest.fn(),
+}));
+
+// Mock data-store
+jest.mock('@/app/lib/data-store', () => ({
+  queryUserData: jest.fn(),
+  saveUserData: jest.fn(),
+}));
+
+const mockQueryUserData = queryUserData as jest.MockedFunction<typeof queryUserData>;
+const mockSaveUserData = saveUserData as jest.MockedFunction<typeof saveUserData>;
+const mockGetServerSession = getServerSession as jest.MockedFunction<typeof getServerSession>;
+
+describe('Liabilities API Route', () => {
+  const mockSession = {
+    user: {
+      id: 'user-123',
+      email: 'test@example.com',
+    },
+  };
+
+  const mockLiabilityRecords = [
+    {
+      userId: 'user-123',
+      recordKey: 'liability#1',
+      dataType: 'liability',
+      recordId: '1',
+      data: {
+        liabilityType: 'auto',
+        liabilityName: 'Car Loan',
+        balance: 18000,
+        apr: 6.5,
+        minimumPayment: 450,
+        asOfDate: '2024-01-01',
+        status: 'active',
+      },
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    },
+    {
+      userId: 'user-123',
+      recordKey: 'liability#2',
+      dataType: 'liability',
+      recordId: '2',
+      data: {
+        liabilityType: 'student',
+        liabilityName: 'Student Loans',
+        balance: 40000,
+        apr: 5,
+        minimumPayment: 420,
+        repaymentPlan: 'income-driven',
+        asOfDate: '2024-01-01',
+      },
+      createdAt: '2024-01-02T00:00:00.000Z',
+      updatedAt: '2024-01-02T00:00:00.000Z',
+    },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('GET /api/liabilities', () => {
+    it('should return 401 if not authenticated', async () => {
+      mockGetServerSession.mockResolvedValue(null);
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data.success).toBe(false);
+      expect(data.error).toBe('Unauthorized');
+    });
+
+    it('should return all liabilities for authenticated user', async () => {
+      mockGetServerSession.mockResolvedValue(mockSession as never);
+      mockQueryUserData.mockResolvedValue(mockLiabilityRecords as never);
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.success).toBe(true);
+      expect(data.liabilities.length).toBe(2);
+      expect(data.liabilities[0].id).toBe('2'); // Sorted newest first
+      expect(data.liabilities[0].repaymentPlan).toBe('income-driven');
+      expect(data.liabilities[0].status).toBe('active'); // Defaults when missing
+      expect(data.liabilities[1].id).toBe('1');
+      expect(mockQueryUserData).toHaveBeenCalledWith('user-123', 'liability');
+    });
+
+    it('should handle database errors gracefully', async () => {
+      mockGetServerSession.mockResolvedValue(mockSession as never);
+      mockQueryUserData.mockRejectedValue(new Error('Database error'));
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(response.status).toBe(500);
+      expect(data.success).toBe(false);
+      expect(data.error).toBe('Failed to get liabilities');
+      expect(console.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/liabilities', () => {
+    const validLiabilityData = {
+      liabilityType: 'credit-card',
+      liabilityName: 'Visa',
+      lender: 'Chase',
+      balance: 5000,
+      apr: 22.9,
+      minimumPayment: 150,
+      asOfDate: '2024-01-01',
+    };
+
+    const post = (body: unknown) =>
+      POST(
+        new NextRequest('http://localhost:3000/api/liabilities', {
+          method: 'POST',
+          body: JSON.stringify(body),
+        })
+      );
+
+    it('should return 401 if not authenticated', async () => {
+      mockGetServerSession.mockResolvedValue(null);
+
+      const response = await post(validLiabilityData);
+      const data = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data.error).toBe('Unauthorized');
+    });
+
+    it('should create a new liability with valid data', async () => {
+      mockGetServerSession.mockResolvedValue(mockSession as never);
+      mockSaveUserData.mockResolvedValue('test-liability-id-123');
+
+      const response = await post(validLiabilityData);
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.success).toBe(true);
+      expect(data.liability.id).toBe('test-liability-id-123');
+      expect(data.liability.liabilityType).toBe('credit-card');
+      expect(data.liability.status).toBe('active');
+      expect(mockSaveUserData).toHaveBeenCalledWith(
+        'user-123',
+        'liability',
+        expect.objectContaining({
+          liabilityType: 'credit-card',
+          liabilityName: 'Visa',
+          balance: 5000,
+          apr: 22.9,
+          minimumPayment: 150,
+          status: 'active',
+        }),
+        'test-liability-id-123'
+      );
+    });
+
+    it('should return 400 for invalid data', async () => {
+      mockGetServerSession.mockResolvedValue(mockSession as never);
+
+      const cases: [Record<string, unknown>, string][] = [
+        [{ ...validLiabilityData, liabilityType: 'mortgage' }, 'Invalid liabilityType'],
+        [{ ...validLiabilityData, liabilityName: '   ' }, 'liabilityName is required'],
+        [{ ...validLiabilityData, apr: undefined }, 'apr is required and must be a number'],
+        [{ ...validLiabilityData, balance: -1 }, 'balance must be a non-negative number'],
+        [
+          { ...validLiabilityData, repaymentPlan: 'income-driven' },
+          'Income-driven repayment is only supported for student loans',
+        ],
+      ];
+
+      for (const [body, error] of cases) {
+        const response = await post(body);
+        const data = await response.json();
+
+        expect(response.status).toBe(400);
+        expect(data.error).toBe(error);
+      }
+      expect(mockSaveUserData).not.toHaveBeenCalled();
+    });
+
+    it('should create a student loan on income-driven repayment', async () => {
+      mockGetServerSession.mockResolvedValue(mockSession as never);
+      mockSaveUserData.mockResolvedValue('test-liability-id-123');
+
+      const response = await post({
+        ...validLiabilityData,
+        liabilityType: 'student',
+        repaymentPlan: 'income-driven',
+        idrPercent: 10,
+        forgivenessYears: 15,
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.liability.repaymentPlan).toBe('income-driven');
+      expect(data.liability.forgivenessYears).toBe(15);
+    });
+  });
+});
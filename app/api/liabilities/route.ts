@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../auth/[...nextauth]/route';
+import { saveUserData, queryUserData } from '@/app/lib/data-store';
+import {
+  Liability,
+  LiabilityResponse,
+  LiabilitiesListResponse,
+  LiabilityStatus,
+  LiabilityType,
+  validateLiabilityData,
+} from '@/app/types/liabilities';
+import { v4 as uuidv4 } from 'uuid';
+
+const DATA_TYPE = 'liability';
+
+/**
+ * GET /api/liabilities - Get all liabilities for the user
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json<LiabilitiesListResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+
+    // Query all liabilities for this user
+    const liabilityRecords = await queryUserData(userId, DATA_TYPE);
+
+    const liabilities: Liability[] = liabilityRecords.map((record) => ({
+      id: record.recordId,
+      userId,
+      liabilityType: record.data.liabilityType,
+      liabilityName: record.data.liabilityName,
+      lender: record.data.lender,
+      balance: record.data.balance,
+      apr: record.data.apr,
+      minimumPayment: record.data.minimumPayment,
+      repaymentPlan: record.data.repaymentPlan,
+      idrPercent: record.data.idrPercent,
+      forgivenessYears: record.data.forgivenessYears,
+      asOfDate: record.data.asOfDate,
+      status: record.data.status || 'active',
+      notes: record.data.notes,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    }));
+
+    // Sort by creation date, newest first
+    liabilities.sort((a, b) => {
+      if (!a.createdAt || !b.createdAt) return 0;
+      return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+    });
+
+    return NextResponse.json<LiabilitiesListResponse>(
+      { success: true, liabilities },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error getting liabilities:', error);
+    return NextResponse.json<LiabilitiesListResponse>(
+      { success: false, error: 'Failed to get liabilities' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/liabilities - Create a new liability
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json<LiabilityResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+    const body = await request.json();
+
+    // Validate
+    const validationError = validateLiabilityData(body, false);
+    if (validationError) {
+      return NextResponse.json<LiabilityResponse>(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    // Create liability
+    const liabilityId = uuidv4();
+
+    const liabilityData = {
+      liabilityType: body.liabilityType as LiabilityType,
+      liabilityName: body.liabilityName.trim(),
+      lender: body.lender?.trim() || undefined,
+      balance: body.balance,
+      apr: body.apr,
+      minimumPayment: body.minimumPayment,
+      repaymentPlan: body.repaymentPlan,
+      idrPercent: body.idrPercent,
+      forgivenessYears: body.forgivenessYears,
+      asOfDate: body.asOfDate,
+      status: 'active' as LiabilityStatus,
+      notes: body.notes?.trim() || undefined,
+    };
+
+    await saveUserData(userId, DATA_TYPE, liabilityData, liabilityId);
+
+    const liability: Liability = {
+      id: liabilityId,
+      userId,
+      ...liabilityData,
+    };
+
+    return NextResponse.json<LiabilityResponse>(
+      { success: true, liability },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating liability:', error);
+    return NextResponse.json<LiabilityResponse>(
+      { success: false, error: 'Failed to create liability' },
+      { status: 500 }
+    );
+  }
+}
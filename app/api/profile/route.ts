@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '../auth/[...nextauth]/route';
 import { getUserData, saveUserData } from '@/app/lib/data-store';
 import { UserProfile, ProfileResponse, MaritalStatus } from '@/app/types/profile';
+import { isValidStateCode } from '@/app/types/stateTaxes';
+import { isValidSex, isValidHealthStatus } from '@/app/types/mortality';
 
 const PROFILE_RECORD_ID = 'profile';
 
@@ -50,6 +52,11 @@ export async function GET(request: NextRequest) {
       dateOfBirth: profileRecord.data.dateOfBirth,
       maritalStatus: profileRecord.data.maritalStatus,
       numberOfDependents: profileRecord.data.numberOfDependents,
+      stateOfResidence: profileRecord.data.stateOfResidence,
+      spouseDateOfBirth: profileRecord.data.spouseDateOfBirth,
+      sex: profileRecord.data.sex,
+      healthStatus: profileRecord.data.healthStatus,
+      smoker: profileRecord.data.smoker,
       currentAge: profileRecord.data.dateOfBirth ? calculateAge(profileRecord.data.dateOfBirth) : undefined,
       onboardingComplete: profileRecord.data.onboardingComplete || false,
       createdAt: profileRecord.createdAt,
@@ -85,7 +92,17 @@ export async function POST(request: NextRequest) {
 
     const userId = session.user.id;
     const body = await request.json();
-    const { firstname, dateOfBirth, maritalStatus, numberOfDependents } = body;
+    const {
+      firstname,
+      dateOfBirth,
+      maritalStatus,
+      spouseDateOfBirth,
+      numberOfDependents,
+      stateOfResidence,
+      sex,
+      healthStatus,
+      smoker,
+    } = body;
 
     // Validation
     if (!firstname || typeof firstname !== 'string' || firstname.trim() === '') {
@@ -116,6 +133,44 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (stateOfResidence !== undefined && !isValidStateCode(stateOfResidence)) {
+      return NextResponse.json<ProfileResponse>(
+        { success: false, error: 'stateOfResidence must be a valid two-letter state code' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      spouseDateOfBirth !== undefined &&
+      (typeof spouseDateOfBirth !== 'string' || isNaN(new Date(spouseDateOfBirth).getTime()))
+    ) {
+      return NextResponse.json<ProfileResponse>(
+        { success: false, error: 'spouseDateOfBirth must be a valid date' },
+        { status: 400 }
+      );
+    }
+
+    if (sex !== undefined && !isValidSex(sex)) {
+      return NextResponse.json<ProfileResponse>(
+        { success: false, error: 'sex must be male or female' },
+        { status: 400 }
+      );
+    }
+
+    if (healthStatus !== undefined && !isValidHealthStatus(healthStatus)) {
+      return NextResponse.json<ProfileResponse>(
+        { success: false, error: 'healthStatus must be excellent, good, average, fair or poor' },
+        { status: 400 }
+      );
+    }
+
+    if (smoker !== undefined && typeof smoker !== 'boolean') {
+      return NextResponse.json<ProfileResponse>(
+        { success: false, error: 'smoker must be a boolean' },
+        { status: 400 }
+      );
+    }
+
     // Validate age
     const age = calculateAge(dateOfBirth);
     if (age < 13 || age > 120) {
@@ -129,7 +184,12 @@ export async function POST(request: NextRequest) {
       firstname: firstname.trim(),
       dateOfBirth,
       maritalStatus: maritalStatus as MaritalStatus,
+      spouseDateOfBirth,
       numberOfDependents,
+      stateOfResidence,
+      sex,
+      healthStatus,
+      smoker,
       onboardingComplete: true,
     };
 
@@ -141,6 +201,11 @@ export async function POST(request: NextRequest) {
       dateOfBirth: profileData.dateOfBirth,
       maritalStatus: profileData.maritalStatus,
       numberOfDependents: profileData.numberOfDependents,
+      stateOfResidence: profileData.stateOfResidence,
+      spouseDateOfBirth: profileData.spouseDateOfBirth,
+      sex: profileData.sex,
+      healthStatus: profileData.healthStatus,
+      smoker: profileData.smoker,
       currentAge: calculateAge(profileData.dateOfBirth),
       onboardingComplete: profileData.onboardingComplete,
     };
@@ -225,6 +290,49 @@ export async function PUT(request: NextRequest) {
       updates.maritalStatus = body.maritalStatus;
     }
 
+    if (body.spouseDateOfBirth !== undefined) {
+      if (
+        body.spouseDateOfBirth !== null &&
+        (typeof body.spouseDateOfBirth !== 'string' || isNaN(new Date(body.spouseDateOfBirth).getTime()))
+      ) {
+        return NextResponse.json<ProfileResponse>(
+          { success: false, error: 'Invalid spouseDateOfBirth' },
+          { status: 400 }
+        );
+      }
+      updates.spouseDateOfBirth = body.spouseDateOfBirth ?? undefined;
+    }
+
+    if (body.sex !== undefined) {
+      if (body.sex !== null && !isValidSex(body.sex)) {
+        return NextResponse.json<ProfileResponse>(
+          { success: false, error: 'Invalid sex' },
+          { status: 400 }
+        );
+      }
+      updates.sex = body.sex ?? undefined;
+    }
+
+    if (body.healthStatus !== undefined) {
+      if (body.healthStatus !== null && !isValidHealthStatus(body.healthStatus)) {
+        return NextResponse.json<ProfileResponse>(
+          { success: false, error: 'Invalid healthStatus' },
+          { status: 400 }
+        );
+      }
+      updates.healthStatus = body.healthStatus ?? undefined;
+    }
+
+    if (body.smoker !== undefined) {
+      if (typeof body.smoker !== 'boolean') {
+        return NextResponse.json<ProfileResponse>(
+          { success: false, error: 'Invalid smoker' },
+          { status: 400 }
+        );
+      }
+      updates.smoker = body.smoker;
+    }
+
     if (body.numberOfDependents !== undefined) {
       if (typeof body.numberOfDependents !== 'number' || body.numberOfDependents < 0 || body.numberOfDependents > 20) {
         return NextResponse.json<ProfileResponse>(
@@ -235,6 +343,16 @@ export async function PUT(request: NextRequest) {
       updates.numberOfDependents = body.numberOfDependents;
     }
 
+    if (body.stateOfResidence !== undefined) {
+      if (!isValidStateCode(body.stateOfResidence)) {
+        return NextResponse.json<ProfileResponse>(
+          { success: false, error: 'Invalid stateOfResidence' },
+          { status: 400 }
+        );
+      }
+      updates.stateOfResidence = body.stateOfResidence;
+    }
+
     // Merge with existing data
     const profileData = {
       ...existingRecord.data,
@@ -249,6 +367,11 @@ export async function PUT(request: NextRequest) {
       dateOfBirth: profileData.dateOfBirth,
       maritalStatus: profileData.maritalStatus,
       numberOfDependents: profileData.numberOfDependents,
+      stateOfResidence: profileData.stateOfResidence,
+      spouseDateOfBirth: profileData.spouseDateOfBirth,
+      sex: profileData.sex,
+      healthStatus: profileData.healthStatus,
+      smoker: profileData.smoker,
       currentAge: calculateAge(profileData.dateOfBirth),
       onboardingComplete: profileData.onboardingComplete,
     };
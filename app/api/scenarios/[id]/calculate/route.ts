@@ -6,17 +6,24 @@ import { isValidUuid } from '@/app/lib/validation';
 import { Scenario } from '@/app/types/scenarios';
 import { UserProfile } from '@/app/types/profile';
 import { Account } from '@/app/types/accounts';
+import { Liability } from '@/app/types/liabilities';
 import {
   StoredProjectionResponse,
   calculateScenarioProjection,
+  calculateAge,
 } from '@/app/types/projections';
+import { getProjectionEndYear } from '@/app/types/mortality';
 import { v4 as uuidv4 } from 'uuid';
 
 const SCENARIO_DATA_TYPE = 'scenario';
 const PROFILE_DATA_TYPE = 'user-profile';
 const ACCOUNT_DATA_TYPE = 'account';
+const LIABILITY_DATA_TYPE = 'liability';
 const PROJECTION_DATA_TYPE = 'projection';
 
+// Monthly steps are meant for near-term cash flow; later years stay annual
+const MAX_MONTHLY_HORIZON_MONTHS = 120;
+
 /**
  * POST /api/scenarios/[id]/calculate - Calculate a scenario projection and store it
  */
@@ -66,8 +73,24 @@ export async function POST(
       retirementAge: scenarioRecord.data.retirementAge,
       socialSecurityAge: scenarioRecord.data.socialSecurityAge,
       socialSecurityIncome: scenarioRecord.data.socialSecurityIncome,
+      socialSecurityPia: scenarioRecord.data.socialSecurityPia,
+      partner: scenarioRecord.data.partner,
+      lifeExpectancy: scenarioRecord.data.lifeExpectancy,
+      bucketAgeBasis: scenarioRecord.data.bucketAgeBasis,
+      planningHorizonPercentile: scenarioRecord.data.planningHorizonPercentile,
+      incomeGrowth: scenarioRecord.data.incomeGrowth,
+      seppPlan: scenarioRecord.data.seppPlan,
+      pensions: scenarioRecord.data.pensions,
+      incomeStreams: scenarioRecord.data.incomeStreams,
+      properties: scenarioRecord.data.properties,
       investmentReturnRate: scenarioRecord.data.investmentReturnRate,
+      accountTypeReturnRates: scenarioRecord.data.accountTypeReturnRates,
+      assetAllocation: scenarioRecord.data.assetAllocation,
+      withdrawalStrategy: scenarioRecord.data.withdrawalStrategy,
+      rothConversions: scenarioRecord.data.rothConversions,
       inflationRate: scenarioRecord.data.inflationRate,
+      relocationAge: scenarioRecord.data.relocationAge,
+      relocationState: scenarioRecord.data.relocationState,
       assumptionBuckets: scenarioRecord.data.assumptionBuckets || [],
       lumpSumEvents: scenarioRecord.data.lumpSumEvents || [],
       mortgages: scenarioRecord.data.mortgages || [],
@@ -91,13 +114,19 @@ export async function POST(
       dateOfBirth: profileRecord.data.dateOfBirth,
       maritalStatus: profileRecord.data.maritalStatus,
       numberOfDependents: profileRecord.data.numberOfDependents,
+      stateOfResidence: profileRecord.data.stateOfResidence,
+      spouseDateOfBirth: profileRecord.data.spouseDateOfBirth,
+      sex: profileRecord.data.sex,
+      healthStatus: profileRecord.data.healthStatus,
+      smoker: profileRecord.data.smoker,
       onboardingComplete: profileRecord.data.onboardingComplete,
       createdAt: profileRecord.createdAt,
       updatedAt: profileRecord.updatedAt,
     };
 
-    // Get user's accounts
+    // Get user's accounts and liabilities
     const accountRecords = await listUserData(userId, ACCOUNT_DATA_TYPE);
+    const liabilityRecords = await listUserData(userId, LIABILITY_DATA_TYPE);
 
     const accounts: Account[] = accountRecords.map((record) => ({
       id: record.recordId,
@@ -106,6 +135,9 @@ export async function POST(
       accountName: record.data.accountName,
       institution: record.data.institution,
       balance: record.data.balance,
+      costBasis: record.data.costBasis,
+      returnRate: record.data.returnRate,
+      owner: record.data.owner,
       asOfDate: record.data.asOfDate,
       status: record.data.status || 'active',
       notes: record.data.notes,
@@ -113,10 +145,34 @@ export async function POST(
       updatedAt: record.updatedAt,
     }));
 
+    const liabilities: Liability[] = liabilityRecords.map((record) => ({
+      id: record.recordId,
+      userId,
+      liabilityType: record.data.liabilityType,
+      liabilityName: record.data.liabilityName,
+      lender: record.data.lender,
+      balance: record.data.balance,
+      apr: record.data.apr,
+      minimumPayment: record.data.minimumPayment,
+      repaymentPlan: record.data.repaymentPlan,
+      idrPercent: record.data.idrPercent,
+      forgivenessYears: record.data.forgivenessYears,
+      asOfDate: record.data.asOfDate,
+      status: record.data.status || 'active',
+    }));
+
     // Determine start and end years
     const currentYear = new Date().getFullYear();
     const startYear = body.startYear || currentYear;
-    const endYear = body.endYear || currentYear + 60; // Default to 60 years ahead
+    // Default to the scenario's planning horizon, or 60 years ahead without one
+    const endYear =
+      body.endYear ||
+      getProjectionEndYear(
+        currentYear,
+        calculateAge(userProfile.dateOfBirth),
+        scenario.planningHorizonPercentile,
+        userProfile
+      );
 
     // Validate year range
     if (startYear > endYear) {
@@ -133,6 +189,29 @@ export async function POST(
       );
     }
 
+    // Validate resolution (monthly steps the first months for near-term cash flow)
+    if (body.resolution !== undefined && body.resolution !== 'annual' && body.resolution !== 'monthly') {
+      return NextResponse.json<StoredProjectionResponse>(
+        { success: false, error: 'Resolution must be either "annual" or "monthly"' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.monthlyHorizonMonths !== undefined &&
+      (!Number.isInteger(body.monthlyHorizonMonths) ||
+        body.monthlyHorizonMonths < 1 ||
+        body.monthlyHorizonMonths > MAX_MONTHLY_HORIZON_MONTHS)
+    ) {
+      return NextResponse.json<StoredProjectionResponse>(
+        {
+          success: false,
+          error: `Monthly horizon must be a whole number of months between 1 and ${MAX_MONTHLY_HORIZON_MONTHS}`,
+        },
+        { status: 400 }
+      );
+    }
+
     // Calculate the projection with error handling
     let projection;
     try {
@@ -141,7 +220,8 @@ export async function POST(
         userProfile,
         accounts,
         startYear,
-        endYear
+        endYear,
+        { resolution: body.resolution, monthlyHorizonMonths: body.monthlyHorizonMonths, liabilities }
       );
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error during calculation';
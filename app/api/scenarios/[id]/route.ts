@@ -10,16 +10,22 @@ import {
   ScenarioResponse,
   validateUpdateScenario,
   validateBuckets,
+  validateMergedScenario,
 } from '@/app/types/scenarios';
 import { Mortgage } from '@/app/types/mortgages';
 import { calculateScenarioProjection, calculateAge } from '@/app/types/projections';
 import { UserProfile } from '@/app/types/profile';
 import { Account } from '@/app/types/accounts';
+import { Liability } from '@/app/types/liabilities';
+import { getBucketDateOfBirth } from '@/app/types/partner';
+import { getProjectionEndYear } from '@/app/types/mortality';
+import { summarizeContributionLimitWarnings } from '@/app/types/contributionLimits';
 import { v4 as uuidv4 } from 'uuid';
 
 const DATA_TYPE = 'scenario';
 const PROFILE_DATA_TYPE = 'user-profile';
 const ACCOUNT_DATA_TYPE = 'account';
+const LIABILITY_DATA_TYPE = 'liability';
 
 /**
  * Helper to calculate projection end year based on user's age and scenario assumptions
@@ -76,8 +82,24 @@ export async function GET(
       retirementAge: scenarioRecord.data.retirementAge,
       socialSecurityAge: scenarioRecord.data.socialSecurityAge,
       socialSecurityIncome: scenarioRecord.data.socialSecurityIncome,
+      socialSecurityPia: scenarioRecord.data.socialSecurityPia,
+      partner: scenarioRecord.data.partner,
+      lifeExpectancy: scenarioRecord.data.lifeExpectancy,
+      bucketAgeBasis: scenarioRecord.data.bucketAgeBasis,
+      planningHorizonPercentile: scenarioRecord.data.planningHorizonPercentile,
+      incomeGrowth: scenarioRecord.data.incomeGrowth,
+      seppPlan: scenarioRecord.data.seppPlan,
+      pensions: scenarioRecord.data.pensions,
+      incomeStreams: scenarioRecord.data.incomeStreams,
+      properties: scenarioRecord.data.properties,
       investmentReturnRate: scenarioRecord.data.investmentReturnRate,
+      accountTypeReturnRates: scenarioRecord.data.accountTypeReturnRates,
+      assetAllocation: scenarioRecord.data.assetAllocation,
+      withdrawalStrategy: scenarioRecord.data.withdrawalStrategy,
+      rothConversions: scenarioRecord.data.rothConversions,
       inflationRate: scenarioRecord.data.inflationRate,
+      relocationAge: scenarioRecord.data.relocationAge,
+      relocationState: scenarioRecord.data.relocationState,
       assumptionBuckets: scenarioRecord.data.assumptionBuckets || [],
       lumpSumEvents: scenarioRecord.data.lumpSumEvents || [],
       mortgages: scenarioRecord.data.mortgages || [],
@@ -195,14 +217,78 @@ export async function PUT(
       updates.socialSecurityIncome = body.socialSecurityIncome;
     }
 
+    if (body.socialSecurityPia !== undefined) {
+      updates.socialSecurityPia = body.socialSecurityPia ?? undefined;
+    }
+
+    if (body.partner !== undefined) {
+      updates.partner = body.partner ?? undefined;
+    }
+
+    if (body.lifeExpectancy !== undefined) {
+      updates.lifeExpectancy = body.lifeExpectancy ?? undefined;
+    }
+
+    if (body.bucketAgeBasis !== undefined) {
+      updates.bucketAgeBasis = body.bucketAgeBasis;
+    }
+
+    if (body.planningHorizonPercentile !== undefined) {
+      updates.planningHorizonPercentile = body.planningHorizonPercentile ?? undefined;
+    }
+
+    if (body.incomeGrowth !== undefined) {
+      updates.incomeGrowth = body.incomeGrowth ?? undefined;
+    }
+
+    if (body.seppPlan !== undefined) {
+      updates.seppPlan = body.seppPlan ?? undefined;
+    }
+
+    if (body.pensions !== undefined) {
+      updates.pensions = body.pensions;
+    }
+
+    if (body.incomeStreams !== undefined) {
+      updates.incomeStreams = body.incomeStreams;
+    }
+
+    if (body.properties !== undefined) {
+      updates.properties = body.properties;
+    }
+
     if (body.investmentReturnRate !== undefined) {
       updates.investmentReturnRate = body.investmentReturnRate;
     }
 
+    if (body.accountTypeReturnRates !== undefined) {
+      updates.accountTypeReturnRates = body.accountTypeReturnRates;
+    }
+
+    if (body.assetAllocation !== undefined) {
+      updates.assetAllocation = body.assetAllocation ?? undefined;
+    }
+
+    if (body.withdrawalStrategy !== undefined) {
+      updates.withdrawalStrategy = body.withdrawalStrategy;
+    }
+
+    if (body.rothConversions !== undefined) {
+      updates.rothConversions = body.rothConversions;
+    }
+
     if (body.inflationRate !== undefined) {
       updates.inflationRate = body.inflationRate;
     }
 
+    if (body.relocationAge !== undefined) {
+      updates.relocationAge = body.relocationAge ?? undefined;
+    }
+
+    if (body.relocationState !== undefined) {
+      updates.relocationState = body.relocationState ?? undefined;
+    }
+
     if (body.assumptionBuckets !== undefined) {
       // Ensure all buckets have IDs
       const assumptionBuckets = body.assumptionBuckets.map((bucket: AssumptionBucket) => ({
@@ -242,6 +328,15 @@ export async function PUT(
       updates.mortgages = mortgages;
     }
 
+    // Fields that depend on each other are checked against the stored scenario
+    const mergedError = validateMergedScenario({ ...existingRecord.data, ...updates });
+    if (mergedError) {
+      return NextResponse.json<ScenarioResponse>(
+        { success: false, error: mergedError },
+        { status: 400 }
+      );
+    }
+
     if (body.isDefault !== undefined) {
       // If setting this scenario as default, unset any other default
       if (body.isDefault === true && !existingRecord.data.isDefault) {
@@ -278,12 +373,29 @@ export async function PUT(
       body.retirementAge !== undefined ||
       body.socialSecurityAge !== undefined ||
       body.socialSecurityIncome !== undefined ||
+      body.socialSecurityPia !== undefined ||
+      body.partner !== undefined ||
+      body.lifeExpectancy !== undefined ||
+      body.bucketAgeBasis !== undefined ||
+      body.planningHorizonPercentile !== undefined ||
+      body.incomeGrowth !== undefined ||
+      body.seppPlan !== undefined ||
+      body.pensions !== undefined ||
+      body.incomeStreams !== undefined ||
+      body.properties !== undefined ||
       body.investmentReturnRate !== undefined ||
-      body.inflationRate !== undefined
+      body.accountTypeReturnRates !== undefined ||
+      body.assetAllocation !== undefined ||
+      body.withdrawalStrategy !== undefined ||
+      body.rothConversions !== undefined ||
+      body.inflationRate !== undefined ||
+      body.relocationAge !== undefined ||
+      body.relocationState !== undefined
     ) {
       try {
         const profileRecord = await getUserData(userId, PROFILE_DATA_TYPE, 'profile');
         const accountRecords = await listUserData(userId, ACCOUNT_DATA_TYPE);
+        const liabilityRecords = await listUserData(userId, LIABILITY_DATA_TYPE);
 
         if (profileRecord?.data) {
           // Build user profile from stored data
@@ -293,6 +405,11 @@ export async function PUT(
             dateOfBirth: profileRecord.data.dateOfBirth,
             maritalStatus: profileRecord.data.maritalStatus || 'single',
             numberOfDependents: profileRecord.data.numberOfDependents || 0,
+            stateOfResidence: profileRecord.data.stateOfResidence,
+            spouseDateOfBirth: profileRecord.data.spouseDateOfBirth,
+            sex: profileRecord.data.sex,
+            healthStatus: profileRecord.data.healthStatus,
+            smoker: profileRecord.data.smoker,
             onboardingComplete: profileRecord.data.onboardingComplete,
           };
 
@@ -304,6 +421,9 @@ export async function PUT(
             accountName: record.data.accountName,
             institution: record.data.institution,
             balance: record.data.balance,
+            costBasis: record.data.costBasis,
+            returnRate: record.data.returnRate,
+            owner: record.data.owner,
             asOfDate: record.data.asOfDate,
             status: record.data.status || 'active',
             notes: record.data.notes,
@@ -311,6 +431,22 @@ export async function PUT(
             updatedAt: record.updatedAt,
           }));
 
+          const liabilities: Liability[] = liabilityRecords.map((record) => ({
+            id: record.recordId,
+            userId,
+            liabilityType: record.data.liabilityType,
+            liabilityName: record.data.liabilityName,
+            lender: record.data.lender,
+            balance: record.data.balance,
+            apr: record.data.apr,
+            minimumPayment: record.data.minimumPayment,
+            repaymentPlan: record.data.repaymentPlan,
+            idrPercent: record.data.idrPercent,
+            forgivenessYears: record.data.forgivenessYears,
+            asOfDate: record.data.asOfDate,
+            status: record.data.status || 'active',
+          }));
+
           // Create temporary scenario with updated assumptions
           const tempScenario: Scenario = {
             id,
@@ -321,8 +457,24 @@ export async function PUT(
             retirementAge: scenarioData.retirementAge,
             socialSecurityAge: scenarioData.socialSecurityAge,
             socialSecurityIncome: scenarioData.socialSecurityIncome,
+            socialSecurityPia: scenarioData.socialSecurityPia,
+            partner: scenarioData.partner,
+            lifeExpectancy: scenarioData.lifeExpectancy,
+            bucketAgeBasis: scenarioData.bucketAgeBasis,
+            planningHorizonPercentile: scenarioData.planningHorizonPercentile,
+            incomeGrowth: scenarioData.incomeGrowth,
+            seppPlan: scenarioData.seppPlan,
+            pensions: scenarioData.pensions,
+            incomeStreams: scenarioData.incomeStreams,
+            properties: scenarioData.properties,
             investmentReturnRate: scenarioData.investmentReturnRate,
+            accountTypeReturnRates: scenarioData.accountTypeReturnRates,
+            assetAllocation: scenarioData.assetAllocation,
+            withdrawalStrategy: scenarioData.withdrawalStrategy,
+            rothConversions: scenarioData.rothConversions,
             inflationRate: scenarioData.inflationRate,
+            relocationAge: scenarioData.relocationAge,
+            relocationState: scenarioData.relocationState,
             assumptionBuckets: scenarioData.assumptionBuckets || [],
             lumpSumEvents: scenarioData.lumpSumEvents || [],
             mortgages: scenarioData.mortgages || [],
@@ -330,15 +482,25 @@ export async function PUT(
 
           // Calculate projection from current year to the end age specified in assumptions
           const currentYear = new Date().getFullYear();
-          const endAge = Math.max(...tempScenario.assumptionBuckets.map((b) => b.endAge));
-          const endYear = calculateProjectionEndYear(userProfile.dateOfBirth, endAge);
+          // A planning horizon percentile replaces the last bucket's end age
+          const endYear = getProjectionEndYear(
+            currentYear,
+            calculateAge(userProfile.dateOfBirth),
+            tempScenario.planningHorizonPercentile,
+            userProfile,
+            calculateProjectionEndYear(
+              getBucketDateOfBirth(userProfile, tempScenario.bucketAgeBasis),
+              Math.max(...tempScenario.assumptionBuckets.map((b) => b.endAge))
+            )
+          );
 
           projection = calculateScenarioProjection(
             tempScenario,
             userProfile,
             accounts,
             currentYear,
-            endYear
+            endYear,
+            { liabilities }
           );
         }
       } catch (projectionError) {
@@ -363,16 +525,37 @@ export async function PUT(
       retirementAge: updatedScenarioData.retirementAge,
       socialSecurityAge: updatedScenarioData.socialSecurityAge,
       socialSecurityIncome: updatedScenarioData.socialSecurityIncome,
+      socialSecurityPia: updatedScenarioData.socialSecurityPia,
+      partner: updatedScenarioData.partner,
+      lifeExpectancy: updatedScenarioData.lifeExpectancy,
+      bucketAgeBasis: updatedScenarioData.bucketAgeBasis,
+      planningHorizonPercentile: updatedScenarioData.planningHorizonPercentile,
+      incomeGrowth: updatedScenarioData.incomeGrowth,
+      seppPlan: updatedScenarioData.seppPlan,
+      pensions: updatedScenarioData.pensions,
+      incomeStreams: updatedScenarioData.incomeStreams,
+      properties: updatedScenarioData.properties,
       investmentReturnRate: updatedScenarioData.investmentReturnRate,
+      accountTypeReturnRates: updatedScenarioData.accountTypeReturnRates,
+      assetAllocation: updatedScenarioData.assetAllocation,
+      withdrawalStrategy: updatedScenarioData.withdrawalStrategy,
+      rothConversions: updatedScenarioData.rothConversions,
       inflationRate: updatedScenarioData.inflationRate,
+      relocationAge: updatedScenarioData.relocationAge,
+      relocationState: updatedScenarioData.relocationState,
       assumptionBuckets: updatedScenarioData.assumptionBuckets || [],
       lumpSumEvents: updatedScenarioData.lumpSumEvents || [],
       mortgages: updatedScenarioData.mortgages || [],
       projection: updatedScenarioData.projection,
     };
 
+    // Contributions over IRS limits do not block saving; they are reported as warnings
+    const warnings = scenario.projection?.warnings
+      ? summarizeContributionLimitWarnings(scenario.projection.warnings)
+      : undefined;
+
     return NextResponse.json<ScenarioResponse>(
-      { success: true, scenario },
+      { success: true, scenario, warnings },
       { status: 200 }
     );
   } catch (error) {
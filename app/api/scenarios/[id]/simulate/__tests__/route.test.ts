@@ -0,0 +1,233 @@
+/**
+ * Tests for scenarios/[id]/simulate API route
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { getUserData, saveUserData, listUserData } from '@/app/lib/data-store';
+import { getServerSession } from 'next-auth';
+import { getPlanningHorizonAge } from '@/app/types/mortality';
+
+// Mock uuid
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => 'test-simulation-id-123'),
+}));
+
+// Mock next-auth
+jest.mock('next-auth', () => ({
+  __esModule: true,
+  default: jest.fn(() => ({ GET: jest.fn(), POST: jest.fn() })),
+  getServerSession: jest.fn(),
+}));
+
+// Mock data-store
+jest.mock('@/app/lib/data-store', () => ({
+  getUserData: jest.fn(),
+  saveUserData: jest.fn(),
+  listUserData: jest.fn(),
+}));
+
+const mockGetUserData = getUserData as jest.MockedFunction<typeof getUserData>;
+const mockSaveUserData = saveUserData as jest.MockedFunction<typeof saveUserData>;
+const mockListUserData = listUserData as jest.MockedFunction<typeof listUserData>;
+const mockGetServerSession = getServerSession as jest.MockedFunction<typeof getServerSession>;
+
+describe('Scenario Simulate API Route', () => {
+  const scenarioId = '123e4567-e89b-12d3-a456-426614174000';
+  const currentYear = new Date().getFullYear();
+
+  const mockSession = {
+    user: {
+      id: 'user-123',
+      email: 'test@example.com',
+    },
+  };
+
+  const mockScenarioRecord = {
+    userId: 'user-123',
+    recordKey: `scenario#${scenarioId}`,
+    dataType: 'scenario',
+    recordId: scenarioId,
+    data: {
+      name: 'Retire at 65',
+      isDefault: true,
+      retirementAge: 65,
+      investmentReturnRate: 5,
+      inflationRate: 3,
+      assumptionBuckets: [
+        {
+          id: 'bucket-1',
+          order: 0,
+          startAge: 60,
+          endAge: 999,
+          assumptions: { annualIncome: 0, annualSpending: 40000 },
+        },
+      ],
+    },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  const mockProfileRecord = {
+    userId: 'user-123',
+    recordKey: 'user-profile#profile',
+    dataType: 'user-profile',
+    recordId: 'profile',
+    data: {
+      firstname: 'Test',
+      dateOfBirth: `${currentYear - 60}-01-01`,
+      maritalStatus: 'single',
+      numberOfDependents: 0,
+      onboardingComplete: true,
+    },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  const mockAccountRecord = {
+    userId: 'user-123',
+    recordKey: 'account#acct-1',
+    dataType: 'account',
+    recordId: 'acct-1',
+    data: {
+      accountType: 'brokerage',
+      accountName: 'Brokerage',
+      balance: 1000000,
+      costBasis: 1000000,
+      asOfDate: '2024-01-01',
+      status: 'active',
+    },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  const mockLiabilityRecord = {
+    userId: 'user-123',
+    recordKey: 'liability#loan-1',
+    dataType: 'liability',
+    recordId: 'loan-1',
+    data: {
+      liabilityType: 'personal',
+      liabilityName: 'Personal Loan',
+      balance: 500000,
+      apr: 0,
+      minimumPayment: 5000,
+      asOfDate: '2024-01-01',
+      status: 'active',
+    },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  const simulate = (body: unknown, id = scenarioId) =>
+    POST(
+      new NextRequest(`http://localhost:3000/api/scenarios/${id}/simulate`, {
+        method: 'POST',
+        body: JSON.stringify(body),
+      }),
+      { params: Promise.resolve({ id }) }
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockGetServerSession.mockResolvedValue(mockSession as never);
+    mockGetUserData.mockImplementation(async (_userId, dataType) =>
+      dataType === 'scenario' ? mockScenarioRecord : mockProfileRecord
+    );
+    mockListUserData.mockImplementation(async (_userId, dataType) =>
+      dataType === 'account' ? [mockAccountRecord] : []
+    );
+    mockSaveUserData.mockResolvedValue('test-simulation-id-123');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return 401 if not authenticated', async () => {
+    mockGetServerSession.mockResolvedValue(null);
+
+    const response = await simulate({});
+    const data = await response.json();
+
+    expect(response.status).toBe(401);
+    expect(data.error).toBe('Unauthorized');
+  });
+
+  it('should return 400 for an invalid scenario ID', async () => {
+    const response = await simulate({}, 'not-a-uuid');
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject more simulations than the cap without running any', async () => {
+    const response = await simulate({ numSimulations: 5001 });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('numSimulations must be an integer between 1 and 5000');
+    expect(mockGetUserData).not.toHaveBeenCalled();
+    expect(mockSaveUserData).not.toHaveBeenCalled();
+  });
+
+  it('should reject simulations over the path-year budget without running any', async () => {
+    const response = await simulate({ numSimulations: 5000 });
+    const data = await response.json();
+
+    // The default 60-year horizon covers 61 projection years
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('A 61-year simulation can run at most 1967 paths');
+    expect(mockSaveUserData).not.toHaveBeenCalled();
+  });
+
+  it('should lower the probability of success when debt payments add to spending', async () => {
+    const body = { numSimulations: 50, seed: 42, endYear: currentYear + 30 };
+
+    const withoutDebt = await (await simulate(body)).json();
+
+    mockListUserData.mockImplementation(async (_userId, dataType) =>
+      dataType === 'account' ? [mockAccountRecord] : dataType === 'liability' ? [mockLiabilityRecord] : []
+    );
+    const withDebt = await (await simulate(body)).json();
+
+    expect(mockListUserData).toHaveBeenCalledWith('user-123', 'liability');
+    expect(withDebt.storedSimulation.simulation.probabilityOfSuccess).toBeLessThan(
+      withoutDebt.storedSimulation.simulation.probabilityOfSuccess
+    );
+  });
+
+  it('should end at the scenario planning horizon when no end year is given', async () => {
+    mockGetUserData.mockImplementation(async (_userId, dataType) =>
+      dataType === 'scenario'
+        ? { ...mockScenarioRecord, data: { ...mockScenarioRecord.data, planningHorizonPercentile: 90 } }
+        : mockProfileRecord
+    );
+
+    const response = await simulate({ numSimulations: 2, seed: 42 });
+    const data = await response.json();
+    const expectedEndYear = currentYear + getPlanningHorizonAge(60, 90) - 60;
+
+    expect(response.status).toBe(201);
+    expect(data.storedSimulation.endYear).toBe(expectedEndYear);
+    expect(data.storedSimulation.simulation.years).toHaveLength(expectedEndYear - currentYear + 1);
+  });
+
+  it('should run and store a simulation', async () => {
+    const response = await simulate({ numSimulations: 5, seed: 42, endYear: currentYear + 20 });
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.success).toBe(true);
+    expect(data.storedSimulation.id).toBe('test-simulation-id-123');
+    expect(data.storedSimulation.simulation.settings.numSimulations).toBe(5);
+    expect(data.storedSimulation.simulation.years).toHaveLength(21);
+    expect(mockSaveUserData).toHaveBeenCalledWith(
+      'user-123',
+      'simulation',
+      expect.objectContaining({ scenarioId, endYear: currentYear + 20 }),
+      'test-simulation-id-123'
+    );
+  });
+});
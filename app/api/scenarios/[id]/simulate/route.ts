@@ -0,0 +1,265 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../../../auth/[...nextauth]/route';
+import { getUserData, saveUserData, listUserData } from '@/app/lib/data-store';
+import { isValidUuid } from '@/app/lib/validation';
+import { Scenario } from '@/app/types/scenarios';
+import { UserProfile } from '@/app/types/profile';
+import { Account } from '@/app/types/accounts';
+import { Liability } from '@/app/types/liabilities';
+import { calculateAge } from '@/app/types/projections';
+import { getProjectionEndYear } from '@/app/types/mortality';
+import {
+  StoredSimulationResponse,
+  resolveMonteCarloSettings,
+  runMonteCarloSimulation,
+  validateMonteCarloSettings,
+  validateSimulationBudget,
+} from '@/app/types/simulations';
+import { v4 as uuidv4 } from 'uuid';
+
+const SCENARIO_DATA_TYPE = 'scenario';
+const PROFILE_DATA_TYPE = 'user-profile';
+const ACCOUNT_DATA_TYPE = 'account';
+const LIABILITY_DATA_TYPE = 'liability';
+const SIMULATION_DATA_TYPE = 'simulation';
+
+/**
+ * POST /api/scenarios/[id]/simulate - Run a Monte Carlo simulation of a scenario and store it
+ * Body (all optional): { numSimulations, returnMean, returnVolatility, inflationMean,
+ *                        inflationVolatility, correlation, seed, startYear, endYear }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json<StoredSimulationResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+    const { id: scenarioId } = await params;
+
+    // Validate UUID format for ID
+    if (!isValidUuid(scenarioId)) {
+      return NextResponse.json<StoredSimulationResponse>(
+        { success: false, error: 'Invalid scenario ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    const settingsError = validateMonteCarloSettings(body);
+    if (settingsError) {
+      return NextResponse.json<StoredSimulationResponse>(
+        { success: false, error: settingsError },
+        { status: 400 }
+      );
+    }
+
+    // Get the scenario
+    const scenarioRecord = await getUserData(userId, SCENARIO_DATA_TYPE, scenarioId);
+
+    if (!scenarioRecord) {
+      return NextResponse.json<StoredSimulationResponse>(
+        { success: false, error: 'Scenario not found' },
+        { status: 404 }
+      );
+    }
+
+    const scenario: Scenario = {
+      id: scenarioId,
+      userId,
+      name: scenarioRecord.data.name,
+      isDefault: scenarioRecord.data.isDefault || false,
+      description: scenarioRecord.data.description,
+      retirementAge: scenarioRecord.data.retirementAge,
+      socialSecurityAge: scenarioRecord.data.socialSecurityAge,
+      socialSecurityIncome: scenarioRecord.data.socialSecurityIncome,
+      socialSecurityPia: scenarioRecord.data.socialSecurityPia,
+      partner: scenarioRecord.data.partner,
+      lifeExpectancy: scenarioRecord.data.lifeExpectancy,
+      bucketAgeBasis: scenarioRecord.data.bucketAgeBasis,
+      planningHorizonPercentile: scenarioRecord.data.planningHorizonPercentile,
+      incomeGrowth: scenarioRecord.data.incomeGrowth,
+      seppPlan: scenarioRecord.data.seppPlan,
+      pensions: scenarioRecord.data.pensions,
+      incomeStreams: scenarioRecord.data.incomeStreams,
+      properties: scenarioRecord.data.properties,
+      investmentReturnRate: scenarioRecord.data.investmentReturnRate,
+      accountTypeReturnRates: scenarioRecord.data.accountTypeReturnRates,
+      assetAllocation: scenarioRecord.data.assetAllocation,
+      withdrawalStrategy: scenarioRecord.data.withdrawalStrategy,
+      rothConversions: scenarioRecord.data.rothConversions,
+      inflationRate: scenarioRecord.data.inflationRate,
+      relocationAge: scenarioRecord.data.relocationAge,
+      relocationState: scenarioRecord.data.relocationState,
+      assumptionBuckets: scenarioRecord.data.assumptionBuckets || [],
+      lumpSumEvents: scenarioRecord.data.lumpSumEvents || [],
+      mortgages: scenarioRecord.data.mortgages || [],
+      createdAt: scenarioRecord.createdAt,
+      updatedAt: scenarioRecord.updatedAt,
+    };
+
+    // Get the user profile
+    const profileRecord = await getUserData(userId, PROFILE_DATA_TYPE, 'profile');
+
+    if (!profileRecord) {
+      return NextResponse.json<StoredSimulationResponse>(
+        { success: false, error: 'User profile not found. Please complete your profile first.' },
+        { status: 404 }
+      );
+    }
+
+    const userProfile: UserProfile = {
+      userId,
+      firstname: profileRecord.data.firstname,
+      dateOfBirth: profileRecord.data.dateOfBirth,
+      maritalStatus: profileRecord.data.maritalStatus,
+      numberOfDependents: profileRecord.data.numberOfDependents,
+      stateOfResidence: profileRecord.data.stateOfResidence,
+      spouseDateOfBirth: profileRecord.data.spouseDateOfBirth,
+      sex: profileRecord.data.sex,
+      healthStatus: profileRecord.data.healthStatus,
+      smoker: profileRecord.data.smoker,
+      onboardingComplete: profileRecord.data.onboardingComplete,
+      createdAt: profileRecord.createdAt,
+      updatedAt: profileRecord.updatedAt,
+    };
+
+    // Get user's accounts and liabilities
+    const accountRecords = await listUserData(userId, ACCOUNT_DATA_TYPE);
+    const liabilityRecords = await listUserData(userId, LIABILITY_DATA_TYPE);
+
+    const accounts: Account[] = accountRecords.map((record) => ({
+      id: record.recordId,
+      userId,
+      accountType: record.data.accountType,
+      accountName: record.data.accountName,
+      institution: record.data.institution,
+      balance: record.data.balance,
+      costBasis: record.data.costBasis,
+      returnRate: record.data.returnRate,
+      owner: record.data.owner,
+      asOfDate: record.data.asOfDate,
+      status: record.data.status || 'active',
+      notes: record.data.notes,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    }));
+
+    const liabilities: Liability[] = liabilityRecords.map((record) => ({
+      id: record.recordId,
+      userId,
+      liabilityType: record.data.liabilityType,
+      liabilityName: record.data.liabilityName,
+      lender: record.data.lender,
+      balance: record.data.balance,
+      apr: record.data.apr,
+      minimumPayment: record.data.minimumPayment,
+      repaymentPlan: record.data.repaymentPlan,
+      idrPercent: record.data.idrPercent,
+      forgivenessYears: record.data.forgivenessYears,
+      asOfDate: record.data.asOfDate,
+      status: record.data.status || 'active',
+    }));
+
+    // Determine start and end years
+    const currentYear = new Date().getFullYear();
+    const startYear = body.startYear || currentYear;
+    // Default to the scenario's planning horizon, or 60 years ahead without one
+    const endYear =
+      body.endYear ||
+      getProjectionEndYear(
+        currentYear,
+        calculateAge(userProfile.dateOfBirth),
+        scenario.planningHorizonPercentile,
+        userProfile
+      );
+
+    // Validate year range
+    if (startYear > endYear) {
+      return NextResponse.json<StoredSimulationResponse>(
+        { success: false, error: 'Start year must be less than or equal to end year' },
+        { status: 400 }
+      );
+    }
+
+    if (endYear - startYear > 100) {
+      return NextResponse.json<StoredSimulationResponse>(
+        { success: false, error: 'Year range must be 100 years or less' },
+        { status: 400 }
+      );
+    }
+
+    const settings = resolveMonteCarloSettings(scenario, body);
+
+    const budgetError = validateSimulationBudget(settings.numSimulations, startYear, endYear);
+    if (budgetError) {
+      return NextResponse.json<StoredSimulationResponse>(
+        { success: false, error: budgetError },
+        { status: 400 }
+      );
+    }
+
+    // Run the simulation with error handling
+    let simulation;
+    try {
+      simulation = runMonteCarloSimulation(
+        scenario,
+        userProfile,
+        accounts,
+        startYear,
+        endYear,
+        settings,
+        liabilities
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error during simulation';
+      return NextResponse.json<StoredSimulationResponse>(
+        { success: false, error: `Failed to run simulation: ${errorMessage}` },
+        { status: 400 }
+      );
+    }
+
+    // Store the simulation alongside stored projections
+    const now = new Date().toISOString();
+    const simulationData = {
+      scenarioId,
+      scenarioName: scenario.name,
+      calculatedAt: now,
+      startYear,
+      endYear,
+      simulation,
+    };
+
+    const simulationId = uuidv4();
+    await saveUserData(userId, SIMULATION_DATA_TYPE, simulationData, simulationId);
+
+    const storedSimulation = {
+      id: simulationId,
+      userId,
+      ...simulationData,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return NextResponse.json<StoredSimulationResponse>(
+      { success: true, storedSimulation },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error running scenario simulation:', error);
+    return NextResponse.json<StoredSimulationResponse>(
+      { success: false, error: 'Failed to run simulation' },
+      { status: 500 }
+    );
+  }
+}
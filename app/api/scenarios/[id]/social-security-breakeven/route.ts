@@ -0,0 +1,218 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../../../auth/[...nextauth]/route';
+import { getUserData, listUserData } from '@/app/lib/data-store';
+import { isValidUuid } from '@/app/lib/validation';
+import { Scenario } from '@/app/types/scenarios';
+import { UserProfile } from '@/app/types/profile';
+import { Account } from '@/app/types/accounts';
+import { Liability } from '@/app/types/liabilities';
+import { calculateAge } from '@/app/types/projections';
+import { getProjectionEndYear } from '@/app/types/mortality';
+import {
+  SocialSecurityBreakevenResponse,
+  BREAKEVEN_CLAIMING_AGES,
+  compareClaimingAges,
+} from '@/app/types/socialSecurityBreakeven';
+
+const SCENARIO_DATA_TYPE = 'scenario';
+const PROFILE_DATA_TYPE = 'user-profile';
+const ACCOUNT_DATA_TYPE = 'account';
+const LIABILITY_DATA_TYPE = 'liability';
+
+/**
+ * POST /api/scenarios/[id]/social-security-breakeven - Project a scenario at claiming ages
+ * 62, 67 and 70 side by side
+ * Body (all optional): { startYear, endYear }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json<SocialSecurityBreakevenResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+    const { id: scenarioId } = await params;
+
+    // Validate UUID format for ID
+    if (!isValidUuid(scenarioId)) {
+      return NextResponse.json<SocialSecurityBreakevenResponse>(
+        { success: false, error: 'Invalid scenario ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    // Get the scenario
+    const scenarioRecord = await getUserData(userId, SCENARIO_DATA_TYPE, scenarioId);
+
+    if (!scenarioRecord) {
+      return NextResponse.json<SocialSecurityBreakevenResponse>(
+        { success: false, error: 'Scenario not found' },
+        { status: 404 }
+      );
+    }
+
+    const scenario: Scenario = {
+      id: scenarioId,
+      userId,
+      name: scenarioRecord.data.name,
+      isDefault: scenarioRecord.data.isDefault || false,
+      description: scenarioRecord.data.description,
+      retirementAge: scenarioRecord.data.retirementAge,
+      socialSecurityAge: scenarioRecord.data.socialSecurityAge,
+      socialSecurityIncome: scenarioRecord.data.socialSecurityIncome,
+      socialSecurityPia: scenarioRecord.data.socialSecurityPia,
+      partner: scenarioRecord.data.partner,
+      lifeExpectancy: scenarioRecord.data.lifeExpectancy,
+      bucketAgeBasis: scenarioRecord.data.bucketAgeBasis,
+      planningHorizonPercentile: scenarioRecord.data.planningHorizonPercentile,
+      incomeGrowth: scenarioRecord.data.incomeGrowth,
+      seppPlan: scenarioRecord.data.seppPlan,
+      pensions: scenarioRecord.data.pensions,
+      incomeStreams: scenarioRecord.data.incomeStreams,
+      properties: scenarioRecord.data.properties,
+      investmentReturnRate: scenarioRecord.data.investmentReturnRate,
+      accountTypeReturnRates: scenarioRecord.data.accountTypeReturnRates,
+      assetAllocation: scenarioRecord.data.assetAllocation,
+      withdrawalStrategy: scenarioRecord.data.withdrawalStrategy,
+      rothConversions: scenarioRecord.data.rothConversions,
+      inflationRate: scenarioRecord.data.inflationRate,
+      relocationAge: scenarioRecord.data.relocationAge,
+      relocationState: scenarioRecord.data.relocationState,
+      assumptionBuckets: scenarioRecord.data.assumptionBuckets || [],
+      lumpSumEvents: scenarioRecord.data.lumpSumEvents || [],
+      mortgages: scenarioRecord.data.mortgages || [],
+      createdAt: scenarioRecord.createdAt,
+      updatedAt: scenarioRecord.updatedAt,
+    };
+
+    // Get the user profile
+    const profileRecord = await getUserData(userId, PROFILE_DATA_TYPE, 'profile');
+
+    if (!profileRecord) {
+      return NextResponse.json<SocialSecurityBreakevenResponse>(
+        { success: false, error: 'User profile not found. Please complete your profile first.' },
+        { status: 404 }
+      );
+    }
+
+    const userProfile: UserProfile = {
+      userId,
+      firstname: profileRecord.data.firstname,
+      dateOfBirth: profileRecord.data.dateOfBirth,
+      maritalStatus: profileRecord.data.maritalStatus,
+      numberOfDependents: profileRecord.data.numberOfDependents,
+      stateOfResidence: profileRecord.data.stateOfResidence,
+      spouseDateOfBirth: profileRecord.data.spouseDateOfBirth,
+      sex: profileRecord.data.sex,
+      healthStatus: profileRecord.data.healthStatus,
+      smoker: profileRecord.data.smoker,
+      onboardingComplete: profileRecord.data.onboardingComplete,
+      createdAt: profileRecord.createdAt,
+      updatedAt: profileRecord.updatedAt,
+    };
+
+    // Get user's accounts and liabilities
+    const accountRecords = await listUserData(userId, ACCOUNT_DATA_TYPE);
+    const liabilityRecords = await listUserData(userId, LIABILITY_DATA_TYPE);
+
+    const accounts: Account[] = accountRecords.map((record) => ({
+      id: record.recordId,
+      userId,
+      accountType: record.data.accountType,
+      accountName: record.data.accountName,
+      institution: record.data.institution,
+      balance: record.data.balance,
+      costBasis: record.data.costBasis,
+      returnRate: record.data.returnRate,
+      owner: record.data.owner,
+      asOfDate: record.data.asOfDate,
+      status: record.data.status || 'active',
+      notes: record.data.notes,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    }));
+
+    const liabilities: Liability[] = liabilityRecords.map((record) => ({
+      id: record.recordId,
+      userId,
+      liabilityType: record.data.liabilityType,
+      liabilityName: record.data.liabilityName,
+      lender: record.data.lender,
+      balance: record.data.balance,
+      apr: record.data.apr,
+      minimumPayment: record.data.minimumPayment,
+      repaymentPlan: record.data.repaymentPlan,
+      idrPercent: record.data.idrPercent,
+      forgivenessYears: record.data.forgivenessYears,
+      asOfDate: record.data.asOfDate,
+      status: record.data.status || 'active',
+    }));
+
+    // Determine start and end years
+    const currentYear = new Date().getFullYear();
+    const startYear = body.startYear || currentYear;
+    // Default to the scenario's planning horizon, or 60 years ahead (covers late breakevens) without one
+    const endYear =
+      body.endYear ||
+      getProjectionEndYear(
+        currentYear,
+        calculateAge(userProfile.dateOfBirth),
+        scenario.planningHorizonPercentile,
+        userProfile
+      );
+
+    // Validate year range
+    if (startYear > endYear) {
+      return NextResponse.json<SocialSecurityBreakevenResponse>(
+        { success: false, error: 'Start year must be less than or equal to end year' },
+        { status: 400 }
+      );
+    }
+
+    if (endYear - startYear > 100) {
+      return NextResponse.json<SocialSecurityBreakevenResponse>(
+        { success: false, error: 'Year range must be 100 years or less' },
+        { status: 400 }
+      );
+    }
+
+    // Run the comparison with error handling
+    let breakeven;
+    try {
+      breakeven = compareClaimingAges(
+        scenario,
+        userProfile,
+        accounts,
+        startYear,
+        endYear,
+        BREAKEVEN_CLAIMING_AGES,
+        liabilities
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error during comparison';
+      return NextResponse.json<SocialSecurityBreakevenResponse>(
+        { success: false, error: `Failed to compare claiming ages: ${errorMessage}` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json<SocialSecurityBreakevenResponse>({ success: true, breakeven });
+  } catch (error) {
+    console.error('Error comparing Social Security claiming ages:', error);
+    return NextResponse.json<SocialSecurityBreakevenResponse>(
+      { success: false, error: 'Failed to compare claiming ages' },
+      { status: 500 }
+    );
+  }
+}
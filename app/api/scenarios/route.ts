@@ -15,11 +15,16 @@ import { Mortgage } from '@/app/types/mortgages';
 import { calculateScenarioProjection, calculateAge } from '@/app/types/projections';
 import { UserProfile } from '@/app/types/profile';
 import { Account } from '@/app/types/accounts';
+import { Liability } from '@/app/types/liabilities';
+import { getBucketDateOfBirth } from '@/app/types/partner';
+import { getProjectionEndYear } from '@/app/types/mortality';
+import { summarizeContributionLimitWarnings } from '@/app/types/contributionLimits';
 import { v4 as uuidv4 } from 'uuid';
 
 const DATA_TYPE = 'scenario';
 const PROFILE_DATA_TYPE = 'user-profile';
 const ACCOUNT_DATA_TYPE = 'account';
+const LIABILITY_DATA_TYPE = 'liability';
 
 /**
  * Helper to calculate projection end year based on user's age and scenario assumptions
@@ -57,8 +62,24 @@ export async function GET() {
       retirementAge: record.data.retirementAge,
       socialSecurityAge: record.data.socialSecurityAge,
       socialSecurityIncome: record.data.socialSecurityIncome,
+      socialSecurityPia: record.data.socialSecurityPia,
+      partner: record.data.partner,
+      lifeExpectancy: record.data.lifeExpectancy,
+      bucketAgeBasis: record.data.bucketAgeBasis,
+      planningHorizonPercentile: record.data.planningHorizonPercentile,
+      incomeGrowth: record.data.incomeGrowth,
+      seppPlan: record.data.seppPlan,
+      pensions: record.data.pensions,
+      incomeStreams: record.data.incomeStreams,
+      properties: record.data.properties,
       investmentReturnRate: record.data.investmentReturnRate,
+      accountTypeReturnRates: record.data.accountTypeReturnRates,
+      assetAllocation: record.data.assetAllocation,
+      withdrawalStrategy: record.data.withdrawalStrategy,
+      rothConversions: record.data.rothConversions,
       inflationRate: record.data.inflationRate,
+      relocationAge: record.data.relocationAge,
+      relocationState: record.data.relocationState,
       assumptionBuckets: record.data.assumptionBuckets || [],
       lumpSumEvents: record.data.lumpSumEvents || [],
       mortgages: record.data.mortgages || [],
@@ -144,10 +165,10 @@ export async function POST(request: NextRequest) {
       id: uuidv4(),
     }));
 
-    // Generate IDs for mortgages
-    const mortgages = (body.mortgages || []).map((mortgage: Omit<Mortgage, 'id'>) => ({
+    // Generate IDs for mortgages (a client ID is kept so properties can link to their mortgage)
+    const mortgages = (body.mortgages || []).map((mortgage: Omit<Mortgage, 'id'> & { id?: string }) => ({
       ...mortgage,
-      id: uuidv4(),
+      id: mortgage.id || uuidv4(),
     }));
 
     // Check if this is the first scenario for this user
@@ -172,6 +193,7 @@ export async function POST(request: NextRequest) {
     try {
       const profileRecord = await getUserData(userId, PROFILE_DATA_TYPE, 'profile');
       const accountRecords = await listUserData(userId, ACCOUNT_DATA_TYPE);
+      const liabilityRecords = await listUserData(userId, LIABILITY_DATA_TYPE);
 
       if (profileRecord?.data) {
         // Build user profile from stored data
@@ -181,6 +203,11 @@ export async function POST(request: NextRequest) {
           dateOfBirth: profileRecord.data.dateOfBirth,
           maritalStatus: profileRecord.data.maritalStatus || 'single',
           numberOfDependents: profileRecord.data.numberOfDependents || 0,
+          stateOfResidence: profileRecord.data.stateOfResidence,
+          spouseDateOfBirth: profileRecord.data.spouseDateOfBirth,
+          sex: profileRecord.data.sex,
+          healthStatus: profileRecord.data.healthStatus,
+          smoker: profileRecord.data.smoker,
           onboardingComplete: profileRecord.data.onboardingComplete,
         };
 
@@ -192,6 +219,9 @@ export async function POST(request: NextRequest) {
           accountName: record.data.accountName,
           institution: record.data.institution,
           balance: record.data.balance,
+          costBasis: record.data.costBasis,
+          returnRate: record.data.returnRate,
+          owner: record.data.owner,
           asOfDate: record.data.asOfDate,
           status: record.data.status || 'active',
           notes: record.data.notes,
@@ -199,6 +229,22 @@ export async function POST(request: NextRequest) {
           updatedAt: record.updatedAt,
         }));
 
+        const liabilities: Liability[] = liabilityRecords.map((record) => ({
+          id: record.recordId,
+          userId,
+          liabilityType: record.data.liabilityType,
+          liabilityName: record.data.liabilityName,
+          lender: record.data.lender,
+          balance: record.data.balance,
+          apr: record.data.apr,
+          minimumPayment: record.data.minimumPayment,
+          repaymentPlan: record.data.repaymentPlan,
+          idrPercent: record.data.idrPercent,
+          forgivenessYears: record.data.forgivenessYears,
+          asOfDate: record.data.asOfDate,
+          status: record.data.status || 'active',
+        }));
+
         // Create temporary scenario for calculation
         const tempScenario: Scenario = {
           id: 'temp',
@@ -209,8 +255,24 @@ export async function POST(request: NextRequest) {
           retirementAge: body.retirementAge,
           socialSecurityAge: body.socialSecurityAge,
           socialSecurityIncome: body.socialSecurityIncome,
+          socialSecurityPia: body.socialSecurityPia,
+          partner: body.partner,
+          lifeExpectancy: body.lifeExpectancy,
+          bucketAgeBasis: body.bucketAgeBasis,
+          planningHorizonPercentile: body.planningHorizonPercentile,
+          incomeGrowth: body.incomeGrowth,
+          seppPlan: body.seppPlan,
+          pensions: body.pensions,
+          incomeStreams: body.incomeStreams,
+          properties: body.properties,
           investmentReturnRate: body.investmentReturnRate,
+          accountTypeReturnRates: body.accountTypeReturnRates,
+          assetAllocation: body.assetAllocation,
+          withdrawalStrategy: body.withdrawalStrategy,
+          rothConversions: body.rothConversions,
           inflationRate: body.inflationRate,
+          relocationAge: body.relocationAge ?? undefined,
+          relocationState: body.relocationState ?? undefined,
           assumptionBuckets,
           lumpSumEvents,
           mortgages,
@@ -218,15 +280,25 @@ export async function POST(request: NextRequest) {
 
         // Calculate projection from current year to the end age specified in assumptions
         const currentYear = new Date().getFullYear();
-        const endAge = Math.max(...assumptionBuckets.map((b: AssumptionBucket) => b.endAge));
-        const endYear = calculateProjectionEndYear(userProfile.dateOfBirth, endAge);
+        // A planning horizon percentile replaces the last bucket's end age
+        const endYear = getProjectionEndYear(
+          currentYear,
+          calculateAge(userProfile.dateOfBirth),
+          tempScenario.planningHorizonPercentile,
+          userProfile,
+          calculateProjectionEndYear(
+            getBucketDateOfBirth(userProfile, tempScenario.bucketAgeBasis),
+            Math.max(...assumptionBuckets.map((b: AssumptionBucket) => b.endAge))
+          )
+        );
 
         projection = calculateScenarioProjection(
           tempScenario,
           userProfile,
           accounts,
           currentYear,
-          endYear
+          endYear,
+          { liabilities }
         );
       }
     } catch (projectionError) {
@@ -241,8 +313,24 @@ export async function POST(request: NextRequest) {
       retirementAge: body.retirementAge,
       socialSecurityAge: body.socialSecurityAge,
       socialSecurityIncome: body.socialSecurityIncome,
+      socialSecurityPia: body.socialSecurityPia,
+      partner: body.partner,
+      lifeExpectancy: body.lifeExpectancy,
+      bucketAgeBasis: body.bucketAgeBasis,
+      planningHorizonPercentile: body.planningHorizonPercentile,
+      incomeGrowth: body.incomeGrowth,
+      seppPlan: body.seppPlan,
+      pensions: body.pensions,
+      incomeStreams: body.incomeStreams,
+      properties: body.properties,
       investmentReturnRate: body.investmentReturnRate,
+      accountTypeReturnRates: body.accountTypeReturnRates,
+      assetAllocation: body.assetAllocation,
+      withdrawalStrategy: body.withdrawalStrategy,
+      rothConversions: body.rothConversions,
       inflationRate: body.inflationRate,
+      relocationAge: body.relocationAge ?? undefined,
+      relocationState: body.relocationState ?? undefined,
       assumptionBuckets,
       lumpSumEvents,
       mortgages,
@@ -257,8 +345,13 @@ export async function POST(request: NextRequest) {
       ...scenarioData,
     };
 
+    // Contributions over IRS limits do not block saving; they are reported as warnings
+    const warnings = scenario.projection?.warnings
+      ? summarizeContributionLimitWarnings(scenario.projection.warnings)
+      : undefined;
+
     return NextResponse.json<ScenarioResponse>(
-      { success: true, scenario },
+      { success: true, scenario, warnings },
       { status: 201 }
     );
   } catch (error) {
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../../auth/[...nextauth]/route';
+import { getUserData } from '@/app/lib/data-store';
+import { validateAssumptionBucket } from '@/app/types/scenarios';
+import { calculateAge } from '@/app/types/projections';
+import {
+  MIN_CLAIMING_AGE,
+  MAX_CLAIMING_AGE,
+  calculateAnnualBenefit,
+  getSocialSecurityBirthYear,
+} from '@/app/types/socialSecurity';
+import { PiaEstimateResponse, estimatePia } from '@/app/types/ssaEarnings';
+
+const DATA_TYPE = 'ssa-earnings';
+const EARNINGS_RECORD_ID = 'earnings';
+const PROFILE_DATA_TYPE = 'user-profile';
+
+/**
+ * POST /api/ssa-earnings/estimate - Compute PIA from the imported earnings record
+ * Body (all optional): { retirementAge, assumptionBuckets, socialSecurityAge }
+ * Future earnings are projected from each bucket's annualIncome until retirementAge; the
+ * annual benefit is included when a claiming age is given
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json<PiaEstimateResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+    const body = await request.json().catch(() => ({}));
+
+    if (
+      body.retirementAge !== undefined &&
+      (typeof body.retirementAge !== 'number' || body.retirementAge < 0 || body.retirementAge > 120)
+    ) {
+      return NextResponse.json<PiaEstimateResponse>(
+        { success: false, error: 'retirementAge must be a number between 0 and 120' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.socialSecurityAge !== undefined &&
+      (typeof body.socialSecurityAge !== 'number' ||
+        body.socialSecurityAge < MIN_CLAIMING_AGE ||
+        body.socialSecurityAge > MAX_CLAIMING_AGE)
+    ) {
+      return NextResponse.json<PiaEstimateResponse>(
+        { success: false, error: `socialSecurityAge must be between ${MIN_CLAIMING_AGE} and ${MAX_CLAIMING_AGE}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.assumptionBuckets !== undefined) {
+      if (!Array.isArray(body.assumptionBuckets)) {
+        return NextResponse.json<PiaEstimateResponse>(
+          { success: false, error: 'Assumption buckets must be an array' },
+          { status: 400 }
+        );
+      }
+
+      for (const bucket of body.assumptionBuckets) {
+        const bucketError = validateAssumptionBucket(bucket);
+        if (bucketError) {
+          return NextResponse.json<PiaEstimateResponse>(
+            { success: false, error: bucketError },
+            { status: 400 }
+          );
+        }
+      }
+    }
+
+    const earningsRecord = await getUserData(userId, DATA_TYPE, EARNINGS_RECORD_ID);
+
+    if (!earningsRecord) {
+      return NextResponse.json<PiaEstimateResponse>(
+        { success: false, error: 'SSA earnings record not found. Please import your earnings first.' },
+        { status: 404 }
+      );
+    }
+
+    const profileRecord = await getUserData(userId, PROFILE_DATA_TYPE, 'profile');
+
+    if (!profileRecord) {
+      return NextResponse.json<PiaEstimateResponse>(
+        { success: false, error: 'User profile not found. Please complete your profile first.' },
+        { status: 404 }
+      );
+    }
+
+    const dateOfBirth: string = profileRecord.data.dateOfBirth;
+    const birthYear = getSocialSecurityBirthYear(dateOfBirth);
+    const currentAge = calculateAge(dateOfBirth);
+
+    const estimate = estimatePia(
+      earningsRecord.data.earnings || [],
+      birthYear,
+      currentAge,
+      body.assumptionBuckets || [],
+      body.retirementAge ?? currentAge
+    );
+
+    if (body.socialSecurityAge !== undefined) {
+      estimate.annualBenefit = calculateAnnualBenefit(estimate.pia, body.socialSecurityAge, birthYear);
+    }
+
+    return NextResponse.json<PiaEstimateResponse>(
+      { success: true, estimate },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error estimating PIA:', error);
+    return NextResponse.json<PiaEstimateResponse>(
+      { success: false, error: 'Failed to estimate PIA' },
+      { status: 500 }
+    );
+  }
+}
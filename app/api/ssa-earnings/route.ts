@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../auth/[...nextauth]/route';
+import { getUserData, saveUserData, deleteUserData } from '@/app/lib/data-store';
+import {
+  SsaEarningsRecord,
+  SsaEarningsResponse,
+  detectSsaEarningsFormat,
+  parseSsaEarnings,
+  validateSsaEarningsUpload,
+} from '@/app/types/ssaEarnings';
+
+const DATA_TYPE = 'ssa-earnings';
+const EARNINGS_RECORD_ID = 'earnings';
+
+/**
+ * GET /api/ssa-earnings - Get the user's imported SSA earnings record
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json<SsaEarningsResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+    const record = await getUserData(userId, DATA_TYPE, EARNINGS_RECORD_ID);
+
+    if (!record) {
+      return NextResponse.json<SsaEarningsResponse>(
+        { success: true, earningsRecord: undefined },
+        { status: 200 }
+      );
+    }
+
+    const earningsRecord: SsaEarningsRecord = {
+      userId,
+      format: record.data.format,
+      earnings: record.data.earnings || [],
+      importedAt: record.data.importedAt,
+    };
+
+    return NextResponse.json<SsaEarningsResponse>(
+      { success: true, earningsRecord },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error getting SSA earnings:', error);
+    return NextResponse.json<SsaEarningsResponse>(
+      { success: false, error: 'Failed to get SSA earnings' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/ssa-earnings - Import an SSA earnings record (replaces any previous import)
+ * Body: { content, format? } where content is the XML download or text extracted from the PDF
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json<SsaEarningsResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+
+    // Parse JSON body with error handling
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json<SsaEarningsResponse>(
+        { success: false, error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateSsaEarningsUpload(body);
+    if (validationError) {
+      return NextResponse.json<SsaEarningsResponse>(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const format = body.format ?? detectSsaEarningsFormat(body.content);
+    const earnings = parseSsaEarnings(body.content, format);
+
+    if (earnings.length === 0) {
+      return NextResponse.json<SsaEarningsResponse>(
+        { success: false, error: 'No yearly earnings found in the uploaded record' },
+        { status: 400 }
+      );
+    }
+
+    const earningsData = {
+      format,
+      earnings,
+      importedAt: new Date().toISOString(),
+    };
+
+    await saveUserData(userId, DATA_TYPE, earningsData, EARNINGS_RECORD_ID);
+
+    return NextResponse.json<SsaEarningsResponse>(
+      { success: true, earningsRecord: { userId, ...earningsData } },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error importing SSA earnings:', error);
+    return NextResponse.json<SsaEarningsResponse>(
+      { success: false, error: 'Failed to import SSA earnings' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/ssa-earnings - Remove the imported SSA earnings record
+ */
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json<SsaEarningsResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+    const record = await getUserData(userId, DATA_TYPE, EARNINGS_RECORD_ID);
+
+    if (!record) {
+      return NextResponse.json<SsaEarningsResponse>(
+        { success: false, error: 'SSA earnings record not found' },
+        { status: 404 }
+      );
+    }
+
+    await deleteUserData(userId, DATA_TYPE, EARNINGS_RECORD_ID);
+
+    return NextResponse.json<SsaEarningsResponse>(
+      { success: true },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting SSA earnings:', error);
+    return NextResponse.json<SsaEarningsResponse>(
+      { success: false, error: 'Failed to delete SSA earnings' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Account, AccountType, getAccountTypeLabel } from '../types/accounts';
+import { Account, AccountType, COST_BASIS_ACCOUNT_TYPES, getAccountTypeLabel } from '../types/accounts';
+import { HouseholdMember } from '../types/partner';
 
 interface AccountModalProps {
   account: Account | null; // null for new account, populated for edit
@@ -15,6 +16,9 @@ export default function AccountModal({ account, onClose }: AccountModalProps) {
   const [accountName, setAccountName] = useState(account?.accountName || '');
   const [institution, setInstitution] = useState(account?.institution || '');
   const [balance, setBalance] = useState(account?.balance.toString() || '');
+  const [costBasis, setCostBasis] = useState(account?.costBasis?.toString() || '');
+  const [returnRate, setReturnRate] = useState(account?.returnRate?.toString() || '');
+  const [owner, setOwner] = useState<HouseholdMember>(account?.owner || 'self');
   const [asOfDate, setAsOfDate] = useState(
     account?.asOfDate || new Date().toISOString().split('T')[0]
   );
@@ -41,6 +45,20 @@ export default function AccountModal({ account, onClose }: AccountModalProps) {
       return 'Please enter a valid balance (0 or greater)';
     }
 
+    if (COST_BASIS_ACCOUNT_TYPES.includes(accountType) && costBasis !== '') {
+      const costBasisNum = parseFloat(costBasis);
+      if (isNaN(costBasisNum) || costBasisNum < 0) {
+        return 'Please enter a valid cost basis (0 or greater)';
+      }
+    }
+
+    if (returnRate !== '') {
+      const returnRateNum = parseFloat(returnRate);
+      if (isNaN(returnRateNum) || returnRateNum < -100 || returnRateNum > 100) {
+        return 'Please enter a return rate between -100 and 100';
+      }
+    }
+
     if (!asOfDate) {
       return 'As of date is required';
     }
@@ -68,10 +86,23 @@ export default function AccountModal({ account, onClose }: AccountModalProps) {
         accountName: accountName.trim(),
         institution: institution.trim() || undefined,
         balance: parseFloat(balance),
+        owner,
         asOfDate,
         notes: notes.trim() || undefined,
       };
 
+      // Empty return rate uses the scenario's rate for this account type
+      if (returnRate !== '') {
+        body.returnRate = parseFloat(returnRate);
+      } else if (isEditing) {
+        body.returnRate = null;
+      }
+
+      // Cost basis applies to brokerage (capital gains) and Roth IRA (contributions) accounts
+      if (COST_BASIS_ACCOUNT_TYPES.includes(accountType) && costBasis !== '') {
+        body.costBasis = parseFloat(costBasis);
+      }
+
       // Only include accountType when creating (not editing)
       if (!isEditing) {
         body.accountType = accountType;
@@ -172,6 +203,28 @@ export default function AccountModal({ account, onClose }: AccountModalProps) {
             />
           </div>
 
+          <div>
+            <label
+              htmlFor="owner"
+              className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2"
+            >
+              Owner
+            </label>
+            <select
+              id="owner"
+              value={owner}
+              onChange={(e) => setOwner(e.target.value as HouseholdMember)}
+              className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+              disabled={isLoading}
+            >
+              <option value="self">Me</option>
+              <option value="partner">Spouse / Partner</option>
+            </select>
+            <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+              Required minimum distributions are figured on each owner&apos;s retirement accounts
+            </p>
+          </div>
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
               <label
@@ -217,6 +270,60 @@ export default function AccountModal({ account, onClose }: AccountModalProps) {
             </div>
           </div>
 
+          <div>
+            <label
+              htmlFor="returnRate"
+              className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2"
+            >
+              Annual Return / APY (%)
+            </label>
+            <input
+              type="number"
+              id="returnRate"
+              value={returnRate}
+              onChange={(e) => setReturnRate(e.target.value)}
+              className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+              placeholder="Use scenario rate"
+              step="0.01"
+              min="-100"
+              max="100"
+              disabled={isLoading}
+            />
+            <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+              Optional; overrides the scenario&apos;s return rate for this account
+            </p>
+          </div>
+
+          {COST_BASIS_ACCOUNT_TYPES.includes(accountType) && (
+            <div>
+              <label
+                htmlFor="costBasis"
+                className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2"
+              >
+                {accountType === 'roth-ira' ? 'Contribution Basis' : 'Cost Basis'}
+              </label>
+              <div className="relative">
+                <span className="absolute left-3 top-2 text-zinc-500 dark:text-zinc-400">$</span>
+                <input
+                  type="number"
+                  id="costBasis"
+                  value={costBasis}
+                  onChange={(e) => setCostBasis(e.target.value)}
+                  className="w-full pl-7 pr-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                  placeholder="Same as balance"
+                  step="0.01"
+                  min="0"
+                  disabled={isLoading}
+                />
+              </div>
+              <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                {accountType === 'roth-ira'
+                  ? 'Total contributions; can be withdrawn before 59½ without the early withdrawal penalty'
+                  : 'Total amount invested; used to estimate capital gains on withdrawals'}
+              </p>
+            </div>
+          )}
+
           <div>
             <label
               htmlFor="notes"
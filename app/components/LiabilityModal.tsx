@@ -0,0 +1,416 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  DEFAULT_FORGIVENESS_YEARS,
+  DEFAULT_IDR_PERCENT,
+  Liability,
+  LiabilityType,
+  RepaymentPlan,
+  getLiabilityTypeLabel,
+} from '../types/liabilities';
+
+interface LiabilityModalProps {
+  liability: Liability | null; // null for new liability, populated for edit
+  onClose: (saved: boolean) => void;
+}
+
+export default function LiabilityModal({ liability, onClose }: LiabilityModalProps) {
+  const isEditing = liability !== null;
+
+  const [liabilityType, setLiabilityType] = useState<LiabilityType>(liability?.liabilityType || 'auto');
+  const [liabilityName, setLiabilityName] = useState(liability?.liabilityName || '');
+  const [lender, setLender] = useState(liability?.lender || '');
+  const [balance, setBalance] = useState(liability?.balance.toString() || '');
+  const [apr, setApr] = useState(liability?.apr.toString() || '');
+  const [minimumPayment, setMinimumPayment] = useState(liability?.minimumPayment.toString() || '');
+  const [repaymentPlan, setRepaymentPlan] = useState<RepaymentPlan>(liability?.repaymentPlan || 'standard');
+  const [idrPercent, setIdrPercent] = useState(liability?.idrPercent?.toString() || '');
+  const [forgivenessYears, setForgivenessYears] = useState(liability?.forgivenessYears?.toString() || '');
+  const [asOfDate, setAsOfDate] = useState(
+    liability?.asOfDate || new Date().toISOString().split('T')[0]
+  );
+  const [notes, setNotes] = useState(liability?.notes || '');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const liabilityTypes: LiabilityType[] = ['auto', 'student', 'personal', 'credit-card', 'heloc'];
+  const incomeDriven = liabilityType === 'student' && repaymentPlan === 'income-driven';
+
+  const validateForm = (): string | null => {
+    if (!liabilityName.trim()) {
+      return 'Liability name is required';
+    }
+
+    const balanceNum = parseFloat(balance);
+    if (isNaN(balanceNum) || balanceNum < 0) {
+      return 'Please enter a valid balance (0 or greater)';
+    }
+
+    const aprNum = parseFloat(apr);
+    if (isNaN(aprNum) || aprNum < 0 || aprNum > 100) {
+      return 'Please enter an APR between 0 and 100';
+    }
+
+    const minimumPaymentNum = parseFloat(minimumPayment);
+    if (isNaN(minimumPaymentNum) || minimumPaymentNum < 0) {
+      return 'Please enter a valid monthly payment (0 or greater)';
+    }
+
+    if (incomeDriven && idrPercent !== '') {
+      const idrPercentNum = parseFloat(idrPercent);
+      if (isNaN(idrPercentNum) || idrPercentNum < 0 || idrPercentNum > 25) {
+        return 'Please enter a share of discretionary income between 0 and 25%';
+      }
+    }
+
+    if (incomeDriven && forgivenessYears !== '') {
+      const forgivenessYearsNum = Number(forgivenessYears);
+      if (!Number.isInteger(forgivenessYearsNum) || forgivenessYearsNum < 1 || forgivenessYearsNum > 30) {
+        return 'Please enter between 1 and 30 years until forgiveness';
+      }
+    }
+
+    if (!asOfDate) {
+      return 'As of date is required';
+    }
+
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const validationError = validateForm();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const url = isEditing ? `/api/liabilities/${liability.id}` : '/api/liabilities';
+      const method = isEditing ? 'PUT' : 'POST';
+
+      const body: Record<string, unknown> = {
+        liabilityName: liabilityName.trim(),
+        lender: lender.trim() || undefined,
+        balance: parseFloat(balance),
+        apr: parseFloat(apr),
+        minimumPayment: parseFloat(minimumPayment),
+        asOfDate,
+        notes: notes.trim() || undefined,
+      };
+
+      // Income-driven repayment applies to student loans only
+      if (liabilityType === 'student') {
+        body.repaymentPlan = repaymentPlan;
+        if (incomeDriven && idrPercent !== '') {
+          body.idrPercent = parseFloat(idrPercent);
+        }
+        if (incomeDriven && forgivenessYears !== '') {
+          body.forgivenessYears = Number(forgivenessYears);
+        }
+      }
+
+      // Only include liabilityType when creating (not editing)
+      if (!isEditing) {
+        body.liabilityType = liabilityType;
+      }
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to save liability');
+      }
+
+      onClose(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save liability');
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-zinc-900 rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-zinc-200 dark:border-zinc-800">
+          <h2 className="text-2xl font-bold text-zinc-900 dark:text-white">
+            {isEditing ? 'Edit Liability' : 'Add New Liability'}
+          </h2>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {!isEditing && (
+            <div>
+              <label
+                htmlFor="liabilityType"
+                className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2"
+              >
+                Liability Type
+              </label>
+              <select
+                id="liabilityType"
+                value={liabilityType}
+                onChange={(e) => setLiabilityType(e.target.value as LiabilityType)}
+                className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                disabled={isLoading}
+              >
+                {liabilityTypes.map((type) => (
+                  <option key={type} value={type}>
+                    {getLiabilityTypeLabel(type)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label
+              htmlFor="liabilityName"
+              className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2"
+            >
+              Liability Name *
+            </label>
+            <input
+              type="text"
+              id="liabilityName"
+              value={liabilityName}
+              onChange={(e) => setLiabilityName(e.target.value)}
+              className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+              placeholder="e.g., Car Loan, Visa"
+              disabled={isLoading}
+              required
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="lender"
+              className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2"
+            >
+              Lender
+            </label>
+            <input
+              type="text"
+              id="lender"
+              value={lender}
+              onChange={(e) => setLender(e.target.value)}
+              className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+              placeholder="e.g., Chase, Navient"
+              disabled={isLoading}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label
+                htmlFor="balance"
+                className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2"
+              >
+                Balance Owed *
+              </label>
+              <input
+                type="number"
+                id="balance"
+                value={balance}
+                onChange={(e) => setBalance(e.target.value)}
+                className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                placeholder="0.00"
+                step="0.01"
+                min="0"
+                disabled={isLoading}
+                required
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="apr"
+                className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2"
+              >
+                APR (%) *
+              </label>
+              <input
+                type="number"
+                id="apr"
+                value={apr}
+                onChange={(e) => setApr(e.target.value)}
+                className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                placeholder="e.g., 6.9"
+                step="0.01"
+                min="0"
+                max="100"
+                disabled={isLoading}
+                required
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="minimumPayment"
+                className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2"
+              >
+                Monthly Payment *
+              </label>
+              <input
+                type="number"
+                id="minimumPayment"
+                value={minimumPayment}
+                onChange={(e) => setMinimumPayment(e.target.value)}
+                className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                placeholder="0.00"
+                step="0.01"
+                min="0"
+                disabled={isLoading}
+                required
+              />
+            </div>
+          </div>
+
+          {liabilityType === 'student' && (
+            <div>
+              <label
+                htmlFor="repaymentPlan"
+                className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2"
+              >
+                Repayment Plan
+              </label>
+              <select
+                id="repaymentPlan"
+                value={repaymentPlan}
+                onChange={(e) => setRepaymentPlan(e.target.value as RepaymentPlan)}
+                className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                disabled={isLoading}
+              >
+                <option value="standard">Standard</option>
+                <option value="income-driven">Income-driven</option>
+              </select>
+              <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                Income-driven plans pay a share of income above 150% of the poverty guideline, never more than
+                the monthly payment above
+              </p>
+            </div>
+          )}
+
+          {incomeDriven && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label
+                  htmlFor="idrPercent"
+                  className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2"
+                >
+                  Share of Discretionary Income (%)
+                </label>
+                <input
+                  type="number"
+                  id="idrPercent"
+                  value={idrPercent}
+                  onChange={(e) => setIdrPercent(e.target.value)}
+                  className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                  placeholder={DEFAULT_IDR_PERCENT.toString()}
+                  step="0.5"
+                  min="0"
+                  max="25"
+                  disabled={isLoading}
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="forgivenessYears"
+                  className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2"
+                >
+                  Years Until Forgiveness
+                </label>
+                <input
+                  type="number"
+                  id="forgivenessYears"
+                  value={forgivenessYears}
+                  onChange={(e) => setForgivenessYears(e.target.value)}
+                  className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                  placeholder={DEFAULT_FORGIVENESS_YEARS.toString()}
+                  step="1"
+                  min="1"
+                  max="30"
+                  disabled={isLoading}
+                />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label
+              htmlFor="asOfDate"
+              className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2"
+            >
+              As of Date *
+            </label>
+            <input
+              type="date"
+              id="asOfDate"
+              value={asOfDate}
+              onChange={(e) => setAsOfDate(e.target.value)}
+              max={new Date().toISOString().split('T')[0]}
+              className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+              disabled={isLoading}
+              required
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="notes"
+              className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2"
+            >
+              Notes
+            </label>
+            <textarea
+              id="notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+              placeholder="Any additional information about this debt..."
+              rows={3}
+              disabled={isLoading}
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md">
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-4 pt-4 border-t border-zinc-200 dark:border-zinc-800">
+            <button
+              type="button"
+              onClick={() => onClose(false)}
+              className="px-4 py-2 text-sm font-medium text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-md transition-colors"
+              disabled={isLoading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Saving...' : isEditing ? 'Save Changes' : 'Add Liability'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,35 @@ import {
 } from '../types/scenarios';
 import { AccountType } from '../types/accounts';
 import { Mortgage } from '../types/mortgages';
+import { StateCode, STATE_TAX_RULES } from '../types/stateTaxes';
+import {
+  AssetClass,
+  AssetAllocation,
+  AssetClassReturns,
+  GlidePathPoint,
+  ASSET_CLASSES,
+  DEFAULT_ASSET_CLASS_RETURNS,
+} from '../types/allocations';
+import {
+  WithdrawalStrategyType,
+  CONVENTIONAL_WITHDRAWAL_ORDER,
+  DEFAULT_FILL_BRACKET_RATE,
+} from '../types/withdrawals';
+import { RothConversionPlan } from '../types/rothConversions';
+import { MIN_CLAIMING_AGE, MAX_CLAIMING_AGE } from '../types/socialSecurity';
+import { HouseholdMember, PartnerAssumptions } from '../types/partner';
+import { MIN_PLANNING_HORIZON_PERCENTILE, MAX_PLANNING_HORIZON_PERCENTILE } from '../types/mortality';
+import { EmployerMatch, MatchTier } from '../types/employerMatch';
+import {
+  IncomeGrowth,
+  IncomeGrowthType,
+  DEFAULT_INCOME_GROWTH,
+  DEFAULT_CAREER_TAPER_YEARS,
+} from '../types/incomeGrowth';
+import { SeppMethod } from '../types/earlyWithdrawals';
+import { Pension, PensionType, ColaType, PensionTaxTreatment } from '../types/pensions';
+import { IncomeStream, IncomeTaxCharacter } from '../types/incomeStreams';
+import { Property, ProceedsAccountType } from '../types/realEstate';
 
 interface ScenarioModalProps {
   scenario: Scenario | null;
@@ -28,6 +57,22 @@ interface MortgageForm extends Omit<Mortgage, 'id'> {
   tempId: string;
 }
 
+interface RothConversionPlanForm extends RothConversionPlan {
+  tempId: string;
+}
+
+interface PensionForm extends Pension {
+  tempId: string;
+}
+
+interface IncomeStreamForm extends IncomeStream {
+  tempId: string;
+}
+
+interface PropertyForm extends Property {
+  tempId: string;
+}
+
 export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps) {
   const isEditing = scenario !== null;
 
@@ -36,11 +81,53 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
   const [retirementAge, setRetirementAge] = useState<number | undefined>(scenario?.retirementAge);
   const [socialSecurityAge, setSocialSecurityAge] = useState<number | undefined>(scenario?.socialSecurityAge);
   const [socialSecurityIncome, setSocialSecurityIncome] = useState<number | undefined>(scenario?.socialSecurityIncome);
+  const [socialSecurityPia, setSocialSecurityPia] = useState<number | undefined>(scenario?.socialSecurityPia);
+  const [isEstimatingPia, setIsEstimatingPia] = useState(false);
   const [investmentReturnRate, setInvestmentReturnRate] = useState<number | undefined>(scenario?.investmentReturnRate ?? 7);
+  const [accountTypeReturnRates, setAccountTypeReturnRates] = useState<Partial<Record<AccountType, number>>>(
+    scenario?.accountTypeReturnRates || {}
+  );
+  const [assetClassReturns, setAssetClassReturns] = useState<AssetClassReturns>(
+    scenario?.assetAllocation?.returns || DEFAULT_ASSET_CLASS_RETURNS
+  );
+  const [glidePath, setGlidePath] = useState<GlidePathPoint[]>(scenario?.assetAllocation?.glidePath || []);
+  const [withdrawalStrategyType, setWithdrawalStrategyType] = useState<WithdrawalStrategyType>(
+    scenario?.withdrawalStrategy?.type || 'conventional'
+  );
+  const [bracketRate, setBracketRate] = useState<number>(
+    scenario?.withdrawalStrategy?.bracketRate ?? DEFAULT_FILL_BRACKET_RATE
+  );
+  const [customWithdrawalOrder, setCustomWithdrawalOrder] = useState<AccountType[]>(
+    scenario?.withdrawalStrategy?.customOrder || CONVENTIONAL_WITHDRAWAL_ORDER
+  );
   const [inflationRate, setInflationRate] = useState<number | undefined>(scenario?.inflationRate ?? 2.5);
+  const [relocationAge, setRelocationAge] = useState<number | undefined>(scenario?.relocationAge);
+  const [relocationState, setRelocationState] = useState<StateCode | ''>(scenario?.relocationState || '');
+  const [partner, setPartner] = useState<PartnerAssumptions>(scenario?.partner || {});
+  const [lifeExpectancy, setLifeExpectancy] = useState<number | undefined>(scenario?.lifeExpectancy);
+  const [bucketAgeBasis, setBucketAgeBasis] = useState<HouseholdMember>(scenario?.bucketAgeBasis || 'self');
+  const [planningHorizonPercentile, setPlanningHorizonPercentile] = useState<number | undefined>(
+    scenario?.planningHorizonPercentile
+  );
+  const [incomeGrowth, setIncomeGrowth] = useState<IncomeGrowth>(scenario?.incomeGrowth || DEFAULT_INCOME_GROWTH);
+  const [seppStartAge, setSeppStartAge] = useState<number | undefined>(scenario?.seppPlan?.startAge);
+  const [seppAmount, setSeppAmount] = useState<number | undefined>(scenario?.seppPlan?.annualAmount);
+  const [seppMethod, setSeppMethod] = useState<SeppMethod | ''>(scenario?.seppPlan?.method || '');
   const [buckets, setBuckets] = useState<AssumptionBucketForm[]>([]);
   const [lumpSumEvents, setLumpSumEvents] = useState<LumpSumEventForm[]>([]);
   const [mortgages, setMortgages] = useState<MortgageForm[]>([]);
+  const [rothConversions, setRothConversions] = useState<RothConversionPlanForm[]>(
+    (scenario?.rothConversions || []).map((plan) => ({ ...plan, tempId: crypto.randomUUID() }))
+  );
+  const [pensions, setPensions] = useState<PensionForm[]>(
+    (scenario?.pensions || []).map((pension) => ({ ...pension, tempId: crypto.randomUUID() }))
+  );
+  const [incomeStreams, setIncomeStreams] = useState<IncomeStreamForm[]>(
+    (scenario?.incomeStreams || []).map((stream) => ({ ...stream, tempId: crypto.randomUUID() }))
+  );
+  const [properties, setProperties] = useState<PropertyForm[]>(
+    (scenario?.properties || []).map((property) => ({ ...property, tempId: crypto.randomUUID() }))
+  );
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -105,6 +192,89 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
     return labels[type];
   };
 
+  // Update a partner assumption (empty clears it)
+  const updatePartner = (field: keyof PartnerAssumptions, value: string) => {
+    setPartner((current) => {
+      const updated = { ...current };
+      if (value === '') {
+        delete updated[field];
+      } else {
+        updated[field] = Number(value);
+      }
+      return updated;
+    });
+  };
+
+  // Update an income growth setting (empty clears optional career curve fields)
+  const applyIncomeGrowthField = (growth: IncomeGrowth, field: keyof IncomeGrowth, value: string): IncomeGrowth => {
+    if (field === 'type') {
+      return { ...growth, type: value as IncomeGrowthType };
+    }
+    if (value === '') {
+      return field === 'rate' ? { ...growth, rate: 0 } : { ...growth, [field]: undefined };
+    }
+    return { ...growth, [field]: Number(value) };
+  };
+
+  // Update the return rate override for an account type (empty clears the override)
+  const updateAccountTypeReturnRate = (accountType: AccountType, value: string) => {
+    setAccountTypeReturnRates((prev) => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[accountType];
+      } else {
+        next[accountType] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const getAssetClassLabel = (assetClass: AssetClass): string => {
+    const labels: Record<AssetClass, string> = {
+      stocks: 'Stocks',
+      bonds: 'Bonds',
+      cash: 'Cash',
+    };
+    return labels[assetClass];
+  };
+
+  // Add a glide path point 10 years after the last one (or 90/10 at 30 for the first)
+  const handleAddGlidePathPoint = () => {
+    const lastPoint = glidePath[glidePath.length - 1];
+    setGlidePath([
+      ...glidePath,
+      lastPoint
+        ? { age: lastPoint.age + 10, allocation: { ...lastPoint.allocation } }
+        : { age: 30, allocation: { stocks: 90, bonds: 10, cash: 0 } },
+    ]);
+  };
+
+  const handleRemoveGlidePathPoint = (index: number) => {
+    setGlidePath(glidePath.filter((_, i) => i !== index));
+  };
+
+  // Update a glide path point's age or one of its asset class percentages
+  const updateGlidePathPoint = (index: number, field: 'age' | AssetClass, value: string) => {
+    setGlidePath(
+      glidePath.map((point, i) => {
+        if (i !== index) return point;
+        if (field === 'age') {
+          return { ...point, age: Number(value) };
+        }
+        return { ...point, allocation: { ...point.allocation, [field]: Number(value) } };
+      })
+    );
+  };
+
+  // Move an account type one position earlier or later in the custom withdrawal order
+  const moveWithdrawalOrderItem = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= customWithdrawalOrder.length) return;
+    const next = [...customWithdrawalOrder];
+    [next[index], next[target]] = [next[target], next[index]];
+    setCustomWithdrawalOrder(next);
+  };
+
   // Add a new assumption bucket
   const handleAddBucket = () => {
     const lastBucket = buckets[buckets.length - 1];
@@ -160,6 +330,68 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
       buckets.map((bucket) => {
         if (bucket.tempId !== tempId) return bucket;
 
+        // Handle pinned allocation: clearing every asset class removes the pin
+        if (field.startsWith('assetAllocation.')) {
+          const assetClass = field.split('.')[1] as AssetClass;
+          const allocation: AssetAllocation = {
+            stocks: 0,
+            bonds: 0,
+            cash: 0,
+            ...bucket.assumptions.assetAllocation,
+            [assetClass]: value === '' ? 0 : Number(value),
+          };
+          const isCleared = ASSET_CLASSES.every((c) => allocation[c] === 0);
+          return {
+            ...bucket,
+            assumptions: {
+              ...bucket.assumptions,
+              assetAllocation: isCleared ? undefined : allocation,
+            },
+          };
+        }
+
+        // Handle income growth override: choosing the scenario default removes it
+        if (field.startsWith('incomeGrowth.')) {
+          const growthField = field.split('.')[1] as keyof IncomeGrowth;
+          const isCleared = growthField === 'type' && value === '';
+          return {
+            ...bucket,
+            assumptions: {
+              ...bucket.assumptions,
+              incomeGrowth: isCleared
+                ? undefined
+                : applyIncomeGrowthField(bucket.assumptions.incomeGrowth || incomeGrowth, growthField, value),
+            },
+          };
+        }
+
+        // Handle employer match: tiers and the non-elective percentage (clearing all removes it)
+        if (field.startsWith('employerMatch.')) {
+          const [, key, tierIndex, tierField] = field.split('.');
+          const match: EmployerMatch = { ...bucket.assumptions.employerMatch };
+          const numberValue = value === '' ? undefined : Number(value);
+
+          if (key === 'tiers') {
+            // A half-entered tier stays in the form; validation asks for the missing percentage
+            const tiers = [...(match.tiers || [])];
+            tiers[Number(tierIndex)] = { ...tiers[Number(tierIndex)], [tierField]: numberValue } as MatchTier;
+            match.tiers = tiers;
+          } else {
+            match.nonElectivePercent = numberValue;
+          }
+
+          const isCleared =
+            !(match.tiers || []).some((tier) => tier?.matchPercent !== undefined || tier?.salaryPercent !== undefined) &&
+            match.nonElectivePercent === undefined;
+          return {
+            ...bucket,
+            assumptions: {
+              ...bucket.assumptions,
+              employerMatch: isCleared ? undefined : match,
+            },
+          };
+        }
+
         // Handle nested contributions
         if (field.startsWith('contributions.')) {
           const accountType = field.split('.')[1] as AccountType;
@@ -218,6 +450,133 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
     );
   };
 
+  // Add Roth conversion plan (fill the 12% bracket for ten years after the last plan)
+  const handleAddRothConversion = () => {
+    const lastPlan = rothConversions[rothConversions.length - 1];
+    const startAge = lastPlan ? lastPlan.endAge + 1 : retirementAge ?? 60;
+    setRothConversions([
+      ...rothConversions,
+      {
+        tempId: crypto.randomUUID(),
+        type: 'fill-bracket',
+        startAge,
+        endAge: startAge + 9,
+        bracketRate: 12,
+      },
+    ]);
+  };
+
+  // Remove Roth conversion plan
+  const handleRemoveRothConversion = (tempId: string) => {
+    setRothConversions(rothConversions.filter((plan) => plan.tempId !== tempId));
+  };
+
+  // Update Roth conversion plan field
+  const updateRothConversion = (
+    tempId: string,
+    field: keyof RothConversionPlan,
+    value: RothConversionPlan[keyof RothConversionPlan]
+  ) => {
+    setRothConversions(
+      rothConversions.map((plan) =>
+        plan.tempId === tempId ? { ...plan, [field]: value } : plan
+      )
+    );
+  };
+
+  // Add pension (paid for life from the retirement age, taxable, no COLA)
+  const handleAddPension = () => {
+    setPensions([
+      ...pensions,
+      {
+        tempId: crypto.randomUUID(),
+        name: '',
+        type: 'pension',
+        owner: 'self',
+        startAge: retirementAge ?? 65,
+        annualAmount: 0,
+        colaType: 'none',
+        survivorPercent: 0,
+        taxTreatment: 'taxable',
+      },
+    ]);
+  };
+
+  // Remove pension
+  const handleRemovePension = (tempId: string) => {
+    setPensions(pensions.filter((pension) => pension.tempId !== tempId));
+  };
+
+  // Update pension field
+  const updatePension = (tempId: string, field: keyof Pension, value: Pension[keyof Pension]) => {
+    setPensions(
+      pensions.map((pension) =>
+        pension.tempId === tempId ? { ...pension, [field]: value } : pension
+      )
+    );
+  };
+
+  // Add income stream (W-2 income growing with inflation, spent rather than saved)
+  const handleAddIncomeStream = () => {
+    setIncomeStreams([
+      ...incomeStreams,
+      {
+        tempId: crypto.randomUUID(),
+        name: '',
+        startAge: retirementAge ?? 65,
+        annualAmount: 0,
+        taxCharacter: 'w2',
+      },
+    ]);
+  };
+
+  // Remove income stream
+  const handleRemoveIncomeStream = (tempId: string) => {
+    setIncomeStreams(incomeStreams.filter((stream) => stream.tempId !== tempId));
+  };
+
+  // Update income stream field
+  const updateIncomeStream = (
+    tempId: string,
+    field: keyof IncomeStream,
+    value: IncomeStream[keyof IncomeStream]
+  ) => {
+    setIncomeStreams(
+      incomeStreams.map((stream) =>
+        stream.tempId === tempId ? { ...stream, [field]: value } : stream
+      )
+    );
+  };
+
+  // Add property (kept for the whole projection, appreciating 3% a year)
+  const handleAddProperty = () => {
+    setProperties([
+      ...properties,
+      {
+        tempId: crypto.randomUUID(),
+        name: '',
+        purchasePrice: 0,
+        currentValue: 0,
+        appreciationRate: 3,
+        primaryResidence: properties.length === 0,
+      },
+    ]);
+  };
+
+  // Remove property
+  const handleRemoveProperty = (tempId: string) => {
+    setProperties(properties.filter((property) => property.tempId !== tempId));
+  };
+
+  // Update property field
+  const updateProperty = (tempId: string, field: keyof Property, value: Property[keyof Property]) => {
+    setProperties(
+      properties.map((property) =>
+        property.tempId === tempId ? { ...property, [field]: value } : property
+      )
+    );
+  };
+
   // Add mortgage
   const handleAddMortgage = () => {
     const currentYear = new Date().getFullYear();
@@ -264,6 +623,14 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
       return 'At least one assumption bucket is required';
     }
 
+    if ((relocationAge === undefined) !== (relocationState === '')) {
+      return 'Relocation age and state must both be set to model a move';
+    }
+
+    if ((seppStartAge === undefined) !== (seppAmount === undefined)) {
+      return 'SEPP start age and annual payment must both be set to model a 72(t) plan';
+    }
+
     // Validate bucket ages
     for (let i = 0; i < buckets.length; i++) {
       const bucket = buckets[i];
@@ -275,6 +642,68 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
       }
     }
 
+    // Validate glide path
+    for (let i = 0; i < glidePath.length; i++) {
+      const point = glidePath[i];
+      if (i > 0 && point.age <= glidePath[i - 1].age) {
+        return `Glide path point ${i + 1}: Ages must be in increasing order`;
+      }
+      const total = ASSET_CLASSES.reduce((sum, c) => sum + point.allocation[c], 0);
+      if (Math.abs(total - 100) > 0.01) {
+        return `Glide path point ${i + 1}: Allocation must add up to 100%`;
+      }
+    }
+
+    // Validate pinned bucket allocations
+    for (let i = 0; i < buckets.length; i++) {
+      const allocation = buckets[i].assumptions.assetAllocation;
+      if (allocation) {
+        const total = ASSET_CLASSES.reduce((sum, c) => sum + allocation[c], 0);
+        if (Math.abs(total - 100) > 0.01) {
+          return `Bucket ${i + 1}: Allocation must add up to 100%`;
+        }
+      }
+    }
+
+    // Validate Roth conversions
+    for (let i = 0; i < rothConversions.length; i++) {
+      const plan = rothConversions[i];
+      if (plan.endAge < plan.startAge) {
+        return `Roth conversion ${i + 1}: End age must be at or after start age`;
+      }
+      if (plan.type === 'fixed' && !(plan.amount && plan.amount > 0)) {
+        return `Roth conversion ${i + 1}: Amount must be greater than 0`;
+      }
+    }
+
+    // Validate pensions
+    for (let i = 0; i < pensions.length; i++) {
+      const pension = pensions[i];
+      if (!pension.name.trim()) {
+        return `Pension ${i + 1}: Name is required`;
+      }
+      if (pension.annualAmount <= 0) {
+        return `Pension ${i + 1}: Annual amount must be greater than 0`;
+      }
+      if (pension.endAge !== undefined && pension.endAge < pension.startAge) {
+        return `Pension ${i + 1}: End age must be at or after start age`;
+      }
+    }
+
+    // Validate income streams
+    for (let i = 0; i < incomeStreams.length; i++) {
+      const stream = incomeStreams[i];
+      if (!stream.name.trim()) {
+        return `Income stream ${i + 1}: Name is required`;
+      }
+      if (stream.annualAmount <= 0) {
+        return `Income stream ${i + 1}: Annual amount must be greater than 0`;
+      }
+      if (stream.endAge !== undefined && stream.endAge < stream.startAge) {
+        return `Income stream ${i + 1}: End age must be at or after start age`;
+      }
+    }
+
     // Validate lump sum events
     for (let i = 0; i < lumpSumEvents.length; i++) {
       const event = lumpSumEvents[i];
@@ -284,6 +713,12 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
       if (event.amount <= 0) {
         return `Lump sum event ${i + 1}: Amount must be greater than 0`;
       }
+      if ((event.repeatEveryYears === undefined) !== (event.repeatUntilAge === undefined)) {
+        return `Lump sum event ${i + 1}: Repeat interval and until age must both be set to repeat an event`;
+      }
+      if (event.repeatUntilAge !== undefined && event.repeatUntilAge < event.age) {
+        return `Lump sum event ${i + 1}: Repeat until age must be at or after the event's age`;
+      }
     }
 
     // Validate mortgages
@@ -306,9 +741,72 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
       }
     }
 
+    // Validate properties
+    for (let i = 0; i < properties.length; i++) {
+      const property = properties[i];
+      if (!property.name.trim()) {
+        return `Property ${i + 1}: Name is required`;
+      }
+      if (property.currentValue <= 0) {
+        return `Property ${i + 1}: Current value must be greater than 0`;
+      }
+      if (property.purchasePrice < 0) {
+        return `Property ${i + 1}: Purchase price must be non-negative`;
+      }
+      if (property.mortgageId && !mortgages.some((mortgage) => mortgage.tempId === property.mortgageId)) {
+        return `Property ${i + 1}: Linked mortgage was removed`;
+      }
+      if (
+        property.mortgageId &&
+        properties.some((other, j) => j !== i && other.mortgageId === property.mortgageId)
+      ) {
+        return `Property ${i + 1}: Mortgage is already linked to another property`;
+      }
+    }
+
     return null;
   };
 
+  // Calculate PIA from the imported SSA earnings record plus this form's bucket income
+  const handleEstimatePia = async () => {
+    setError(null);
+    setIsEstimatingPia(true);
+
+    try {
+      const claimingAge =
+        socialSecurityAge !== undefined &&
+        socialSecurityAge >= MIN_CLAIMING_AGE &&
+        socialSecurityAge <= MAX_CLAIMING_AGE
+          ? socialSecurityAge
+          : undefined;
+
+      const response = await fetch('/api/ssa-earnings/estimate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          retirementAge,
+          socialSecurityAge: claimingAge,
+          assumptionBuckets: buckets,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to estimate PIA');
+      }
+
+      setSocialSecurityPia(data.estimate.pia);
+      if (data.estimate.annualBenefit !== undefined) {
+        setSocialSecurityIncome(Math.round(data.estimate.annualBenefit));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to estimate PIA');
+    } finally {
+      setIsEstimatingPia(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -331,11 +829,77 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
         retirementAge,
         socialSecurityAge,
         socialSecurityIncome,
+        socialSecurityPia: socialSecurityPia ?? (isEditing ? null : undefined),
         investmentReturnRate,
+        accountTypeReturnRates,
+        assetAllocation: glidePath.length > 0 ? { returns: assetClassReturns, glidePath } : null,
+        withdrawalStrategy: {
+          type: withdrawalStrategyType,
+          bracketRate: withdrawalStrategyType === 'fill-bracket' ? bracketRate : undefined,
+          customOrder: withdrawalStrategyType === 'custom' ? customWithdrawalOrder : undefined,
+        },
         inflationRate,
+        relocationAge: relocationAge ?? null,
+        relocationState: relocationState || null,
+        partner: Object.keys(partner).length > 0 ? partner : isEditing ? null : undefined,
+        lifeExpectancy: lifeExpectancy ?? (isEditing ? null : undefined),
+        bucketAgeBasis,
+        planningHorizonPercentile: planningHorizonPercentile ?? (isEditing ? null : undefined),
+        incomeGrowth,
+        seppPlan:
+          seppStartAge !== undefined && seppAmount !== undefined
+            ? { startAge: seppStartAge, annualAmount: seppAmount, method: seppMethod || undefined }
+            : isEditing
+              ? null
+              : undefined,
         assumptionBuckets: buckets.map(({ tempId, ...bucket }) => bucket),
+        rothConversions: rothConversions.map((plan) => ({
+          type: plan.type,
+          startAge: plan.startAge,
+          endAge: plan.endAge,
+          amount: plan.type === 'fixed' ? plan.amount : undefined,
+          bracketRate: plan.type === 'fill-bracket' ? plan.bracketRate ?? 12 : undefined,
+        })),
+        pensions: pensions.map((pension) => ({
+          name: pension.name.trim(),
+          type: pension.type,
+          owner: pension.owner,
+          startAge: pension.startAge,
+          endAge: pension.endAge,
+          annualAmount: pension.annualAmount,
+          colaType: pension.colaType,
+          colaRate: pension.colaType !== 'none' ? pension.colaRate : undefined,
+          survivorPercent: pension.survivorPercent,
+          taxTreatment: pension.taxTreatment,
+          taxablePercent: pension.taxTreatment === 'partially-taxable' ? pension.taxablePercent ?? 100 : undefined,
+        })),
+        incomeStreams: incomeStreams.map((stream) => ({
+          name: stream.name.trim(),
+          startAge: stream.startAge,
+          endAge: stream.endAge,
+          annualAmount: stream.annualAmount,
+          growthRate: stream.growthRate,
+          taxCharacter: stream.taxCharacter,
+          targetAccount: stream.targetAccount,
+        })),
         lumpSumEvents: lumpSumEvents.map(({ tempId, ...event }) => event),
-        mortgages: mortgages.map(({ tempId, ...mortgage }) => mortgage),
+        // Form IDs are kept as mortgage IDs so properties can link to their mortgage
+        mortgages: mortgages.map(({ tempId, ...mortgage }) => ({ ...mortgage, id: tempId })),
+        properties: properties.map((property) => ({
+          name: property.name.trim(),
+          purchasePrice: property.purchasePrice,
+          currentValue: property.currentValue,
+          appreciationRate: property.appreciationRate,
+          annualPropertyTax: property.annualPropertyTax,
+          annualMaintenance: property.annualMaintenance,
+          annualRentalIncome: property.annualRentalIncome,
+          vacancyRate: property.annualRentalIncome ? property.vacancyRate : undefined,
+          primaryResidence: property.primaryResidence,
+          mortgageId: property.mortgageId,
+          saleAge: property.saleAge,
+          sellingCostPercent: property.saleAge !== undefined ? property.sellingCostPercent : undefined,
+          proceedsAccount: property.saleAge !== undefined ? property.proceedsAccount : undefined,
+        })),
       };
 
       const response = await fetch(url, {
@@ -467,9 +1031,37 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
                   className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
                   min="0"
                   placeholder="0"
+                  disabled={isLoading || socialSecurityPia !== undefined}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                  Primary Insurance Amount ($/month)
+                </label>
+                <input
+                  type="number"
+                  value={socialSecurityPia ?? ''}
+                  onChange={(e) => setSocialSecurityPia(e.target.value === '' ? undefined : Number(e.target.value))}
+                  className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                  min="0"
+                  placeholder="From your SSA statement"
                   disabled={isLoading}
                 />
+                <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                  When set, the benefit is calculated from your claiming age (62-70)
+                </p>
+                <button
+                  type="button"
+                  onClick={handleEstimatePia}
+                  className="mt-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                  disabled={isLoading || isEstimatingPia}
+                >
+                  {isEstimatingPia ? 'Calculating...' : 'Calculate from SSA earnings record'}
+                </button>
               </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
                   Investment Return Rate (%)
@@ -505,39 +1097,552 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
                   disabled={isLoading}
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                  Planning Horizon (survival percentile)
+                </label>
+                <input
+                  type="number"
+                  value={planningHorizonPercentile ?? ''}
+                  onChange={(e) =>
+                    setPlanningHorizonPercentile(e.target.value === '' ? undefined : Number(e.target.value))
+                  }
+                  className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                  min={MIN_PLANNING_HORIZON_PERCENTILE}
+                  max={MAX_PLANNING_HORIZON_PERCENTILE}
+                  placeholder="Use bucket end age"
+                  disabled={isLoading}
+                />
+                <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                  e.g. 90 plans to the age you have a 10% chance of outliving
+                </p>
+              </div>
             </div>
-          </div>
 
-          {/* Assumption Buckets */}
-          <div className="space-y-4">
-            <div className="flex justify-between items-center">
-              <h3 className="text-lg font-semibold text-zinc-900 dark:text-white">
-                Assumption Buckets
-              </h3>
-              <button
-                type="button"
-                onClick={handleAddBucket}
-                disabled={isLoading}
-                className="px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md transition-colors disabled:opacity-50"
-              >
-                + Add Another Bucket
-              </button>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                  Income Growth
+                </label>
+                <select
+                  value={incomeGrowth.type}
+                  onChange={(e) => setIncomeGrowth(applyIncomeGrowthField(incomeGrowth, 'type', e.target.value))}
+                  className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                  disabled={isLoading}
+                >
+                  <option value="fixed">Fixed raise</option>
+                  <option value="real">Raise above inflation</option>
+                  <option value="career-curve">Career curve (raises taper off)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                  {incomeGrowth.type === 'fixed' ? 'Annual Raise (%)' : 'Raise Above Inflation (%)'}
+                </label>
+                <input
+                  type="number"
+                  value={incomeGrowth.rate}
+                  onChange={(e) => setIncomeGrowth(applyIncomeGrowthField(incomeGrowth, 'rate', e.target.value))}
+                  className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                  min="-20"
+                  max="50"
+                  step="0.1"
+                  disabled={isLoading}
+                />
+              </div>
             </div>
 
-            <div className="space-y-6">
-              {buckets.map((bucket, index) => (
-                <div
-                  key={bucket.tempId}
-                  className="p-6 border border-zinc-200 dark:border-zinc-700 rounded-lg bg-zinc-50 dark:bg-zinc-800/50 space-y-4"
-                >
-                  <div className="flex justify-between items-center mb-4">
-                    <h4 className="font-semibold text-zinc-900 dark:text-white">
-                      Bucket {index + 1}: Ages {bucket.startAge} - {bucket.endAge}
-                    </h4>
-                    {buckets.length > 1 && (
-                      <button
-                        type="button"
-                        onClick={() => handleRemoveBucket(bucket.tempId)}
+            {incomeGrowth.type === 'career-curve' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                    Raises Taper From Age
+                  </label>
+                  <input
+                    type="number"
+                    value={incomeGrowth.taperStartAge ?? ''}
+                    onChange={(e) =>
+                      setIncomeGrowth(applyIncomeGrowthField(incomeGrowth, 'taperStartAge', e.target.value))
+                    }
+                    className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                    min="0"
+                    max="120"
+                    placeholder="45"
+                    disabled={isLoading}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                    Taper Over (years)
+                  </label>
+                  <input
+                    type="number"
+                    value={incomeGrowth.taperYears ?? ''}
+                    onChange={(e) =>
+                      setIncomeGrowth(applyIncomeGrowthField(incomeGrowth, 'taperYears', e.target.value))
+                    }
+                    className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                    min="0"
+                    max="50"
+                    placeholder={String(DEFAULT_CAREER_TAPER_YEARS)}
+                    disabled={isLoading}
+                  />
+                  <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                    After the taper, income keeps pace with inflation
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                  Relocation Age
+                </label>
+                <input
+                  type="number"
+                  value={relocationAge ?? ''}
+                  onChange={(e) => setRelocationAge(e.target.value === '' ? undefined : Number(e.target.value))}
+                  className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                  min="0"
+                  max="120"
+                  placeholder="No move"
+                  disabled={isLoading}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                  Relocation State
+                </label>
+                <select
+                  value={relocationState}
+                  onChange={(e) => setRelocationState(e.target.value as StateCode | '')}
+                  className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                  disabled={isLoading}
+                >
+                  <option value="">No move</option>
+                  {(Object.keys(STATE_TAX_RULES) as StateCode[]).map((code) => (
+                    <option key={code} value={code}>
+                      {STATE_TAX_RULES[code].name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                  72(t) SEPP Start Age
+                </label>
+                <input
+                  type="number"
+                  value={seppStartAge ?? ''}
+                  onChange={(e) => setSeppStartAge(e.target.value === '' ? undefined : Number(e.target.value))}
+                  className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                  min="0"
+                  max="59"
+                  placeholder="No SEPP"
+                  disabled={isLoading}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                  SEPP Payment ($/year)
+                </label>
+                <input
+                  type="number"
+                  value={seppAmount ?? ''}
+                  onChange={(e) => setSeppAmount(e.target.value === '' ? undefined : Number(e.target.value))}
+                  className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                  min="0"
+                  placeholder="No SEPP"
+                  disabled={isLoading}
+                />
+                <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                  Penalty-free traditional IRA payments for 5 years or until 59½, whichever is later
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                  SEPP Method
+                </label>
+                <select
+                  value={seppMethod}
+                  onChange={(e) => setSeppMethod(e.target.value as SeppMethod | '')}
+                  className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                  disabled={isLoading}
+                >
+                  <option value="">Fixed payment</option>
+                  <option value="amortization">Amortization (fixed)</option>
+                  <option value="annuitization">Annuitization (fixed)</option>
+                  <option value="rmd">RMD (recalculated yearly)</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="border-t border-zinc-200 dark:border-zinc-700 pt-4">
+              <h3 className="text-sm font-semibold text-zinc-900 dark:text-white mb-1">Spouse / Partner</h3>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                Used when your profile is married with a spouse date of birth
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                  Partner Income ($/year)
+                </label>
+                <input
+                  type="number"
+                  value={partner.annualIncome ?? ''}
+                  onChange={(e) => updatePartner('annualIncome', e.target.value)}
+                  className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                  min="0"
+                  placeholder="0"
+                  disabled={isLoading}
+                />
+                <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                  Until their retirement age
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                  Partner Retirement Age
+                </label>
+                <input
+                  type="number"
+                  value={partner.retirementAge ?? ''}
+                  onChange={(e) => updatePartner('retirementAge', e.target.value)}
+                  className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                  min="0"
+                  max="120"
+                  placeholder="65"
+                  disabled={isLoading}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                  Partner Social Security Age
+                </label>
+                <input
+                  type="number"
+                  value={partner.socialSecurityAge ?? ''}
+                  onChange={(e) => updatePartner('socialSecurityAge', e.target.value)}
+                  className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                  min="0"
+                  max="70"
+                  placeholder="67"
+                  disabled={isLoading}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                  Partner Social Security Income ($)
+                </label>
+                <input
+                  type="number"
+                  value={partner.socialSecurityIncome ?? ''}
+                  onChange={(e) => updatePartner('socialSecurityIncome', e.target.value)}
+                  className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                  min="0"
+                  placeholder="0"
+                  disabled={isLoading}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                  Partner PIA ($/month)
+                </label>
+                <input
+                  type="number"
+                  value={partner.socialSecurityPia ?? ''}
+                  onChange={(e) => updatePartner('socialSecurityPia', e.target.value)}
+                  className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                  min="0"
+                  placeholder="From their SSA statement"
+                  disabled={isLoading}
+                />
+                <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                  Enables spousal and survivor benefits
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                  Partner Life Expectancy
+                </label>
+                <input
+                  type="number"
+                  value={partner.lifeExpectancy ?? ''}
+                  onChange={(e) => updatePartner('lifeExpectancy', e.target.value)}
+                  className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                  min="0"
+                  max="120"
+                  placeholder="No limit"
+                  disabled={isLoading}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                  Your Life Expectancy
+                </label>
+                <input
+                  type="number"
+                  value={lifeExpectancy ?? ''}
+                  onChange={(e) => setLifeExpectancy(e.target.value === '' ? undefined : Number(e.target.value))}
+                  className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                  min="0"
+                  max="120"
+                  placeholder="No limit"
+                  disabled={isLoading}
+                />
+                <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                  Your partner continues as survivor afterward
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                  Bucket Ages Follow
+                </label>
+                <select
+                  value={bucketAgeBasis}
+                  onChange={(e) => setBucketAgeBasis(e.target.value as HouseholdMember)}
+                  className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                  disabled={isLoading}
+                >
+                  <option value="self">My age</option>
+                  <option value="partner">Partner&apos;s age</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-3">
+                Return Rate by Account Type (%)
+              </label>
+              <div className="grid grid-cols-3 gap-4">
+                {accountTypes.map((accountType) => (
+                  <div key={accountType}>
+                    <label className="block text-xs text-zinc-600 dark:text-zinc-400 mb-1">
+                      {getAccountTypeLabel(accountType)}
+                    </label>
+                    <input
+                      type="number"
+                      value={accountTypeReturnRates[accountType] ?? ''}
+                      onChange={(e) => updateAccountTypeReturnRate(accountType, e.target.value)}
+                      className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                      min="-100"
+                      max="100"
+                      step="0.1"
+                      placeholder={
+                        accountType === 'savings' || accountType === 'checking'
+                          ? '0'
+                          : String(investmentReturnRate ?? 0)
+                      }
+                      disabled={isLoading}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="flex justify-between items-center mb-3">
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                  Asset Allocation Glide Path
+                </label>
+                <button
+                  type="button"
+                  onClick={handleAddGlidePathPoint}
+                  disabled={isLoading}
+                  className="px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md transition-colors disabled:opacity-50"
+                >
+                  + Add Point
+                </button>
+              </div>
+              <p className="mb-3 text-xs text-zinc-500 dark:text-zinc-400">
+                When set, investment accounts earn the blended return of the allocation at each age
+                instead of the investment return rate. Allocation shifts linearly between points.
+              </p>
+              {glidePath.length > 0 && (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-3 gap-4">
+                    {ASSET_CLASSES.map((assetClass) => (
+                      <div key={assetClass}>
+                        <label className="block text-xs text-zinc-600 dark:text-zinc-400 mb-1">
+                          {getAssetClassLabel(assetClass)} Return (%)
+                        </label>
+                        <input
+                          type="number"
+                          value={assetClassReturns[assetClass]}
+                          onChange={(e) =>
+                            setAssetClassReturns({ ...assetClassReturns, [assetClass]: Number(e.target.value) })
+                          }
+                          className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                          min="-100"
+                          max="100"
+                          step="0.1"
+                          disabled={isLoading}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  {glidePath.map((point, index) => (
+                    <div key={index} className="grid grid-cols-5 gap-4 items-end">
+                      <div>
+                        <label className="block text-xs text-zinc-600 dark:text-zinc-400 mb-1">Age</label>
+                        <input
+                          type="number"
+                          value={point.age}
+                          onChange={(e) => updateGlidePathPoint(index, 'age', e.target.value)}
+                          className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                          min="0"
+                          max="120"
+                          disabled={isLoading}
+                        />
+                      </div>
+                      {ASSET_CLASSES.map((assetClass) => (
+                        <div key={assetClass}>
+                          <label className="block text-xs text-zinc-600 dark:text-zinc-400 mb-1">
+                            {getAssetClassLabel(assetClass)} (%)
+                          </label>
+                          <input
+                            type="number"
+                            value={point.allocation[assetClass]}
+                            onChange={(e) => updateGlidePathPoint(index, assetClass, e.target.value)}
+                            className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            min="0"
+                            max="100"
+                            disabled={isLoading}
+                          />
+                        </div>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveGlidePathPoint(index)}
+                        disabled={isLoading}
+                        className="py-2 text-sm text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                Withdrawal Strategy
+              </label>
+              <select
+                value={withdrawalStrategyType}
+                onChange={(e) => setWithdrawalStrategyType(e.target.value as WithdrawalStrategyType)}
+                className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md text-zinc-900 dark:text-white dark:bg-zinc-800"
+                disabled={isLoading}
+              >
+                <option value="conventional">Conventional (cash, taxable, tax-deferred, Roth)</option>
+                <option value="proportional">Proportional across all accounts</option>
+                <option value="fill-bracket">Fill tax bracket from traditional accounts first</option>
+                <option value="custom">Custom order</option>
+              </select>
+              {withdrawalStrategyType === 'fill-bracket' && (
+                <div className="mt-3">
+                  <label className="block text-xs text-zinc-600 dark:text-zinc-400 mb-1">
+                    Bracket to Fill (%)
+                  </label>
+                  <select
+                    value={bracketRate}
+                    onChange={(e) => setBracketRate(Number(e.target.value))}
+                    className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                    disabled={isLoading}
+                  >
+                    {[10, 12, 22, 24, 32, 35].map((rate) => (
+                      <option key={rate} value={rate}>
+                        {rate}%
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                    Shortfalls are covered from traditional IRA and 401(k) up to the top of this
+                    bracket, then in conventional order.
+                  </p>
+                </div>
+              )}
+              {withdrawalStrategyType === 'custom' && (
+                <ol className="mt-3 space-y-2">
+                  {customWithdrawalOrder.map((accountType, index) => (
+                    <li
+                      key={accountType}
+                      className="flex justify-between items-center px-3 py-2 border border-zinc-200 dark:border-zinc-700 rounded-md text-sm text-zinc-900 dark:text-white"
+                    >
+                      <span>
+                        {index + 1}. {getAccountTypeLabel(accountType)}
+                      </span>
+                      <span className="space-x-2">
+                        <button
+                          type="button"
+                          onClick={() => moveWithdrawalOrderItem(index, -1)}
+                          disabled={isLoading || index === 0}
+                          className="text-blue-600 dark:text-blue-400 disabled:opacity-30"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveWithdrawalOrderItem(index, 1)}
+                          disabled={isLoading || index === customWithdrawalOrder.length - 1}
+                          className="text-blue-600 dark:text-blue-400 disabled:opacity-30"
+                        >
+                          ↓
+                        </button>
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </div>
+
+          {/* Assumption Buckets */}
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-semibold text-zinc-900 dark:text-white">
+                Assumption Buckets
+              </h3>
+              <button
+                type="button"
+                onClick={handleAddBucket}
+                disabled={isLoading}
+                className="px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md transition-colors disabled:opacity-50"
+              >
+                + Add Another Bucket
+              </button>
+            </div>
+
+            <div className="space-y-6">
+              {buckets.map((bucket, index) => (
+                <div
+                  key={bucket.tempId}
+                  className="p-6 border border-zinc-200 dark:border-zinc-700 rounded-lg bg-zinc-50 dark:bg-zinc-800/50 space-y-4"
+                >
+                  <div className="flex justify-between items-center mb-4">
+                    <h4 className="font-semibold text-zinc-900 dark:text-white">
+                      Bucket {index + 1}: Ages {bucket.startAge} - {bucket.endAge}
+                    </h4>
+                    {buckets.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveBucket(bucket.tempId)}
                         disabled={isLoading}
                         className="text-sm text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300"
                       >
@@ -585,34 +1690,16 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
                   </div>
 
                   {/* Income */}
-                  <div>
-                    <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
-                      Annual Income ($)
-                    </label>
-                    <input
-                      type="number"
-                      value={bucket.assumptions.annualIncome ?? ''}
-                      onChange={(e) =>
-                        updateAssumption(bucket.tempId, 'annualIncome', e.target.value)
-                      }
-                      className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md text-zinc-900 dark:text-white dark:bg-zinc-800"
-                      min="0"
-                      placeholder="0"
-                      disabled={isLoading}
-                    />
-                  </div>
-
-                  {/* Spending */}
                   <div className="grid grid-cols-3 gap-4">
                     <div>
                       <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
-                        Annual Spending ($)
+                        Annual Income ($)
                       </label>
                       <input
                         type="number"
-                        value={bucket.assumptions.annualSpending ?? ''}
+                        value={bucket.assumptions.annualIncome ?? ''}
                         onChange={(e) =>
-                          updateAssumption(bucket.tempId, 'annualSpending', e.target.value)
+                          updateAssumption(bucket.tempId, 'annualIncome', e.target.value)
                         }
                         className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md text-zinc-900 dark:text-white dark:bg-zinc-800"
                         min="0"
@@ -622,19 +1709,111 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
                     </div>
                     <div>
                       <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
-                        Travel Budget ($)
+                        Income Growth
                       </label>
-                      <input
-                        type="number"
-                        value={bucket.assumptions.annualTravelBudget ?? ''}
+                      <select
+                        value={bucket.assumptions.incomeGrowth?.type ?? ''}
                         onChange={(e) =>
-                          updateAssumption(bucket.tempId, 'annualTravelBudget', e.target.value)
+                          updateAssumption(bucket.tempId, 'incomeGrowth.type', e.target.value)
                         }
                         className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md text-zinc-900 dark:text-white dark:bg-zinc-800"
-                        min="0"
-                        placeholder="0"
                         disabled={isLoading}
-                      />
+                      >
+                        <option value="">Scenario default</option>
+                        <option value="fixed">Fixed raise</option>
+                        <option value="real">Raise above inflation</option>
+                        <option value="career-curve">Career curve</option>
+                      </select>
+                    </div>
+                    {bucket.assumptions.incomeGrowth && (
+                      <div>
+                        <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                          Raise (%)
+                        </label>
+                        <input
+                          type="number"
+                          value={bucket.assumptions.incomeGrowth.rate}
+                          onChange={(e) =>
+                            updateAssumption(bucket.tempId, 'incomeGrowth.rate', e.target.value)
+                          }
+                          className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md text-zinc-900 dark:text-white dark:bg-zinc-800"
+                          step="0.1"
+                          disabled={isLoading}
+                        />
+                      </div>
+                    )}
+                  </div>
+                  {bucket.assumptions.incomeGrowth?.type === 'career-curve' && (
+                    <div className="grid grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                          Taper From Age
+                        </label>
+                        <input
+                          type="number"
+                          value={bucket.assumptions.incomeGrowth.taperStartAge ?? ''}
+                          onChange={(e) =>
+                            updateAssumption(bucket.tempId, 'incomeGrowth.taperStartAge', e.target.value)
+                          }
+                          className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md text-zinc-900 dark:text-white dark:bg-zinc-800"
+                          min="0"
+                          max="120"
+                          disabled={isLoading}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                          Taper Over (years)
+                        </label>
+                        <input
+                          type="number"
+                          value={bucket.assumptions.incomeGrowth.taperYears ?? ''}
+                          onChange={(e) =>
+                            updateAssumption(bucket.tempId, 'incomeGrowth.taperYears', e.target.value)
+                          }
+                          className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md text-zinc-900 dark:text-white dark:bg-zinc-800"
+                          min="0"
+                          max="50"
+                          placeholder={String(DEFAULT_CAREER_TAPER_YEARS)}
+                          disabled={isLoading}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Spending */}
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                        Annual Spending ($)
+                      </label>
+                      <input
+                        type="number"
+                        value={bucket.assumptions.annualSpending ?? ''}
+                        onChange={(e) =>
+                          updateAssumption(bucket.tempId, 'annualSpending', e.target.value)
+                        }
+                        className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md text-zinc-900 dark:text-white dark:bg-zinc-800"
+                        min="0"
+                        placeholder="0"
+                        disabled={isLoading}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                        Travel Budget ($)
+                      </label>
+                      <input
+                        type="number"
+                        value={bucket.assumptions.annualTravelBudget ?? ''}
+                        onChange={(e) =>
+                          updateAssumption(bucket.tempId, 'annualTravelBudget', e.target.value)
+                        }
+                        className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md text-zinc-900 dark:text-white dark:bg-zinc-800"
+                        min="0"
+                        placeholder="0"
+                        disabled={isLoading}
+                      />
                     </div>
                     <div>
                       <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
@@ -667,26 +1846,642 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
                           </label>
                           <input
                             type="number"
-                            value={bucket.assumptions.contributions?.[accountType] ?? ''}
+                            value={bucket.assumptions.contributions?.[accountType] ?? ''}
+                            onChange={(e) =>
+                              updateAssumption(
+                                bucket.tempId,
+                                `contributions.${accountType}`,
+                                e.target.value
+                              )
+                            }
+                            className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            min="0"
+                            placeholder="0"
+                            disabled={isLoading}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Employer Match */}
+                  <div>
+                    <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-3">
+                      Employer 401(k) Contributions (%)
+                    </label>
+                    <div className="grid grid-cols-5 gap-4">
+                      {[0, 1].flatMap((tierIndex) =>
+                        (['matchPercent', 'salaryPercent'] as const).map((tierField) => (
+                          <div key={`${tierIndex}-${tierField}`}>
+                            <label className="block text-xs text-zinc-600 dark:text-zinc-400 mb-1">
+                              {tierField === 'matchPercent'
+                                ? `Tier ${tierIndex + 1} Match`
+                                : tierIndex === 0
+                                  ? 'Of First % of Salary'
+                                  : 'Of Next % of Salary'}
+                            </label>
+                            <input
+                              type="number"
+                              value={bucket.assumptions.employerMatch?.tiers?.[tierIndex]?.[tierField] ?? ''}
+                              onChange={(e) =>
+                                updateAssumption(
+                                  bucket.tempId,
+                                  `employerMatch.tiers.${tierIndex}.${tierField}`,
+                                  e.target.value
+                                )
+                              }
+                              className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                              min="0"
+                              placeholder={tierField === 'matchPercent' ? '100' : '4'}
+                              disabled={isLoading}
+                            />
+                          </div>
+                        ))
+                      )}
+                      <div>
+                        <label className="block text-xs text-zinc-600 dark:text-zinc-400 mb-1">
+                          Non-Elective
+                        </label>
+                        <input
+                          type="number"
+                          value={bucket.assumptions.employerMatch?.nonElectivePercent ?? ''}
+                          onChange={(e) =>
+                            updateAssumption(bucket.tempId, 'employerMatch.nonElectivePercent', e.target.value)
+                          }
+                          className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                          min="0"
+                          max="100"
+                          placeholder="0"
+                          disabled={isLoading}
+                        />
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Pinned Allocation */}
+                  <div>
+                    <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-3">
+                      Pinned Asset Allocation (%)
+                    </label>
+                    <div className="grid grid-cols-3 gap-4">
+                      {ASSET_CLASSES.map((assetClass) => (
+                        <div key={assetClass}>
+                          <label className="block text-xs text-zinc-600 dark:text-zinc-400 mb-1">
+                            {getAssetClassLabel(assetClass)}
+                          </label>
+                          <input
+                            type="number"
+                            value={bucket.assumptions.assetAllocation?.[assetClass] ?? ''}
+                            onChange={(e) =>
+                              updateAssumption(
+                                bucket.tempId,
+                                `assetAllocation.${assetClass}`,
+                                e.target.value
+                              )
+                            }
+                            className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            min="0"
+                            max="100"
+                            placeholder="Glide path"
+                            disabled={isLoading}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Roth Conversions */}
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-semibold text-zinc-900 dark:text-white">
+                Roth Conversions
+              </h3>
+              <button
+                type="button"
+                onClick={handleAddRothConversion}
+                disabled={isLoading}
+                className="px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md transition-colors disabled:opacity-50"
+              >
+                + Add Conversion
+              </button>
+            </div>
+
+            {rothConversions.length > 0 ? (
+              <div className="border border-zinc-200 dark:border-zinc-700 rounded-lg overflow-hidden">
+                <table className="w-full">
+                  <thead className="bg-zinc-50 dark:bg-zinc-800">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Type
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Ages
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Amount / Bracket
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Action
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-zinc-200 dark:divide-zinc-700 bg-white dark:bg-zinc-900">
+                    {rothConversions.map((plan) => (
+                      <tr key={plan.tempId}>
+                        <td className="px-4 py-3">
+                          <select
+                            value={plan.type}
+                            onChange={(e) =>
+                              updateRothConversion(
+                                plan.tempId,
+                                'type',
+                                e.target.value as RothConversionPlan['type']
+                              )
+                            }
+                            className="w-full px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            disabled={isLoading}
+                          >
+                            <option value="fill-bracket">Fill bracket</option>
+                            <option value="fixed">Fixed amount</option>
+                          </select>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center space-x-1">
+                            <input
+                              type="number"
+                              value={plan.startAge}
+                              onChange={(e) =>
+                                updateRothConversion(plan.tempId, 'startAge', Number(e.target.value))
+                              }
+                              className="w-20 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                              min="0"
+                              max="120"
+                              disabled={isLoading}
+                            />
+                            <span className="text-zinc-500 dark:text-zinc-400">-</span>
+                            <input
+                              type="number"
+                              value={plan.endAge}
+                              onChange={(e) =>
+                                updateRothConversion(plan.tempId, 'endAge', Number(e.target.value))
+                              }
+                              className="w-20 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                              min="0"
+                              max="120"
+                              disabled={isLoading}
+                            />
+                          </div>
+                        </td>
+                        <td className="px-4 py-3">
+                          {plan.type === 'fixed' ? (
+                            <div className="flex items-center">
+                              <span className="text-zinc-500 dark:text-zinc-400 mr-1">$</span>
+                              <input
+                                type="number"
+                                value={plan.amount ?? ''}
+                                onChange={(e) =>
+                                  updateRothConversion(plan.tempId, 'amount', Number(e.target.value))
+                                }
+                                className="w-32 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                                min="0"
+                                disabled={isLoading}
+                              />
+                            </div>
+                          ) : (
+                            <select
+                              value={plan.bracketRate ?? 12}
+                              onChange={(e) =>
+                                updateRothConversion(plan.tempId, 'bracketRate', Number(e.target.value))
+                              }
+                              className="px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                              disabled={isLoading}
+                            >
+                              {[10, 12, 22, 24, 32, 35].map((rate) => (
+                                <option key={rate} value={rate}>
+                                  Top of {rate}%
+                                </option>
+                              ))}
+                            </select>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveRothConversion(plan.tempId)}
+                            disabled={isLoading}
+                            className="text-sm text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-zinc-500 dark:text-zinc-400 italic">
+                No Roth conversions. Click &quot;Add Conversion&quot; to move traditional savings into a Roth IRA.
+              </p>
+            )}
+          </div>
+
+          {/* Pensions and Annuities */}
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-semibold text-zinc-900 dark:text-white">
+                Pensions &amp; Annuities
+              </h3>
+              <button
+                type="button"
+                onClick={handleAddPension}
+                disabled={isLoading}
+                className="px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md transition-colors disabled:opacity-50"
+              >
+                + Add Pension
+              </button>
+            </div>
+
+            {pensions.length > 0 ? (
+              <div className="border border-zinc-200 dark:border-zinc-700 rounded-lg overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-zinc-50 dark:bg-zinc-800">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Name / Type
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Owner
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Ages
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Amount ($/yr)
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        COLA
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Survivor (%)
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Tax
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Action
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-zinc-200 dark:divide-zinc-700 bg-white dark:bg-zinc-900">
+                    {pensions.map((pension) => (
+                      <tr key={pension.tempId}>
+                        <td className="px-4 py-3 space-y-1">
+                          <input
+                            type="text"
+                            value={pension.name}
+                            onChange={(e) => updatePension(pension.tempId, 'name', e.target.value)}
+                            className="w-40 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            placeholder="e.g., State pension"
+                            disabled={isLoading}
+                          />
+                          <select
+                            value={pension.type}
+                            onChange={(e) => updatePension(pension.tempId, 'type', e.target.value as PensionType)}
+                            className="w-40 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            disabled={isLoading}
+                          >
+                            <option value="pension">Pension</option>
+                            <option value="immediate-annuity">Immediate annuity</option>
+                            <option value="deferred-annuity">Deferred income annuity</option>
+                          </select>
+                        </td>
+                        <td className="px-4 py-3">
+                          <select
+                            value={pension.owner ?? 'self'}
+                            onChange={(e) => updatePension(pension.tempId, 'owner', e.target.value as HouseholdMember)}
+                            className="w-24 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            disabled={isLoading}
+                          >
+                            <option value="self">Self</option>
+                            <option value="partner">Partner</option>
+                          </select>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center space-x-1">
+                            <input
+                              type="number"
+                              value={pension.startAge}
+                              onChange={(e) => updatePension(pension.tempId, 'startAge', Number(e.target.value))}
+                              className="w-16 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                              min="0"
+                              max="120"
+                              disabled={isLoading}
+                            />
+                            <span className="text-zinc-500 dark:text-zinc-400">-</span>
+                            <input
+                              type="number"
+                              value={pension.endAge ?? ''}
+                              onChange={(e) =>
+                                updatePension(
+                                  pension.tempId,
+                                  'endAge',
+                                  e.target.value === '' ? undefined : Number(e.target.value)
+                                )
+                              }
+                              className="w-16 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                              min="0"
+                              max="120"
+                              placeholder="Life"
+                              disabled={isLoading}
+                            />
+                          </div>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center">
+                            <span className="text-zinc-500 dark:text-zinc-400 mr-1">$</span>
+                            <input
+                              type="number"
+                              value={pension.annualAmount}
+                              onChange={(e) => updatePension(pension.tempId, 'annualAmount', Number(e.target.value))}
+                              className="w-28 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                              min="0"
+                              disabled={isLoading}
+                            />
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 space-y-1">
+                          <select
+                            value={pension.colaType}
+                            onChange={(e) => updatePension(pension.tempId, 'colaType', e.target.value as ColaType)}
+                            className="w-28 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            disabled={isLoading}
+                          >
+                            <option value="none">None</option>
+                            <option value="fixed">Fixed</option>
+                            <option value="cpi">CPI-linked</option>
+                          </select>
+                          {pension.colaType !== 'none' && (
+                            <input
+                              type="number"
+                              value={pension.colaRate ?? ''}
+                              onChange={(e) =>
+                                updatePension(
+                                  pension.tempId,
+                                  'colaRate',
+                                  e.target.value === '' ? undefined : Number(e.target.value)
+                                )
+                              }
+                              className="w-28 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                              min="0"
+                              max="20"
+                              step="0.1"
+                              placeholder={pension.colaType === 'cpi' ? 'Cap (%)' : 'Rate (%)'}
+                              disabled={isLoading}
+                            />
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <input
+                            type="number"
+                            value={pension.survivorPercent ?? 0}
+                            onChange={(e) => updatePension(pension.tempId, 'survivorPercent', Number(e.target.value))}
+                            className="w-20 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            min="0"
+                            max="100"
+                            disabled={isLoading}
+                          />
+                        </td>
+                        <td className="px-4 py-3 space-y-1">
+                          <select
+                            value={pension.taxTreatment}
+                            onChange={(e) =>
+                              updatePension(pension.tempId, 'taxTreatment', e.target.value as PensionTaxTreatment)
+                            }
+                            className="w-32 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            disabled={isLoading}
+                          >
+                            <option value="taxable">Taxable</option>
+                            <option value="partially-taxable">Partially taxable</option>
+                            <option value="tax-free">Tax-free</option>
+                          </select>
+                          {pension.taxTreatment === 'partially-taxable' && (
+                            <input
+                              type="number"
+                              value={pension.taxablePercent ?? 100}
+                              onChange={(e) => updatePension(pension.tempId, 'taxablePercent', Number(e.target.value))}
+                              className="w-32 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                              min="0"
+                              max="100"
+                              title="Taxable share of each payment (%)"
+                              disabled={isLoading}
+                            />
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <button
+                            type="button"
+                            onClick={() => handleRemovePension(pension.tempId)}
+                            disabled={isLoading}
+                            className="text-sm text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-zinc-500 dark:text-zinc-400 italic">
+                No pensions or annuities. Click &quot;Add Pension&quot; to add a recurring retirement income stream.
+              </p>
+            )}
+          </div>
+
+          {/* Income Streams */}
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-semibold text-zinc-900 dark:text-white">
+                Income Streams
+              </h3>
+              <button
+                type="button"
+                onClick={handleAddIncomeStream}
+                disabled={isLoading}
+                className="px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md transition-colors disabled:opacity-50"
+              >
+                + Add Income Stream
+              </button>
+            </div>
+
+            {incomeStreams.length > 0 ? (
+              <div className="border border-zinc-200 dark:border-zinc-700 rounded-lg overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-zinc-50 dark:bg-zinc-800">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Name
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Ages
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Amount ($/yr, today)
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Growth (%)
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Tax
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Save To
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Action
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-zinc-200 dark:divide-zinc-700 bg-white dark:bg-zinc-900">
+                    {incomeStreams.map((stream) => (
+                      <tr key={stream.tempId}>
+                        <td className="px-4 py-3">
+                          <input
+                            type="text"
+                            value={stream.name}
+                            onChange={(e) => updateIncomeStream(stream.tempId, 'name', e.target.value)}
+                            className="w-40 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            placeholder="e.g., Consulting"
+                            disabled={isLoading}
+                          />
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center space-x-1">
+                            <input
+                              type="number"
+                              value={stream.startAge}
+                              onChange={(e) => updateIncomeStream(stream.tempId, 'startAge', Number(e.target.value))}
+                              className="w-16 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                              min="0"
+                              max="120"
+                              disabled={isLoading}
+                            />
+                            <span className="text-zinc-500 dark:text-zinc-400">-</span>
+                            <input
+                              type="number"
+                              value={stream.endAge ?? ''}
+                              onChange={(e) =>
+                                updateIncomeStream(
+                                  stream.tempId,
+                                  'endAge',
+                                  e.target.value === '' ? undefined : Number(e.target.value)
+                                )
+                              }
+                              className="w-16 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                              min="0"
+                              max="120"
+                              placeholder="Ongoing"
+                              disabled={isLoading}
+                            />
+                          </div>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center">
+                            <span className="text-zinc-500 dark:text-zinc-400 mr-1">$</span>
+                            <input
+                              type="number"
+                              value={stream.annualAmount}
+                              onChange={(e) =>
+                                updateIncomeStream(stream.tempId, 'annualAmount', Number(e.target.value))
+                              }
+                              className="w-28 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                              min="0"
+                              disabled={isLoading}
+                            />
+                          </div>
+                        </td>
+                        <td className="px-4 py-3">
+                          <input
+                            type="number"
+                            value={stream.growthRate ?? ''}
                             onChange={(e) =>
-                              updateAssumption(
-                                bucket.tempId,
-                                `contributions.${accountType}`,
-                                e.target.value
+                              updateIncomeStream(
+                                stream.tempId,
+                                'growthRate',
+                                e.target.value === '' ? undefined : Number(e.target.value)
                               )
                             }
-                            className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
-                            min="0"
-                            placeholder="0"
+                            className="w-20 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            min="-20"
+                            max="20"
+                            step="0.1"
+                            placeholder="Inflation"
                             disabled={isLoading}
                           />
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
+                        </td>
+                        <td className="px-4 py-3">
+                          <select
+                            value={stream.taxCharacter}
+                            onChange={(e) =>
+                              updateIncomeStream(stream.tempId, 'taxCharacter', e.target.value as IncomeTaxCharacter)
+                            }
+                            className="w-36 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            disabled={isLoading}
+                          >
+                            <option value="w2">W-2 wages</option>
+                            <option value="self-employment">Self-employment</option>
+                            <option value="rental">Rental</option>
+                            <option value="qualified-dividends">Qualified dividends</option>
+                          </select>
+                        </td>
+                        <td className="px-4 py-3">
+                          <select
+                            value={stream.targetAccount ?? ''}
+                            onChange={(e) =>
+                              updateIncomeStream(
+                                stream.tempId,
+                                'targetAccount',
+                                e.target.value === '' ? undefined : (e.target.value as AccountType)
+                              )
+                            }
+                            className="w-36 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            disabled={isLoading}
+                          >
+                            <option value="">Spend</option>
+                            <option value="401k">401(k)</option>
+                            <option value="traditional-ira">Traditional IRA</option>
+                            <option value="roth-ira">Roth IRA</option>
+                            <option value="brokerage">Brokerage</option>
+                            <option value="savings">Savings</option>
+                            <option value="checking">Checking</option>
+                          </select>
+                        </td>
+                        <td className="px-4 py-3">
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveIncomeStream(stream.tempId)}
+                            disabled={isLoading}
+                            className="text-sm text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-zinc-500 dark:text-zinc-400 italic">
+                No income streams. Click &quot;Add Income Stream&quot; to add part-time, consulting, rental or dividend income.
+              </p>
+            )}
           </div>
 
           {/* Lump Sum Events */}
@@ -714,11 +2509,14 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
                         Type
                       </th>
                       <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
-                        Age
+                        Age / Date
                       </th>
                       <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
                         Amount
                       </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Repeat
+                      </th>
                       <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
                         Description
                       </th>
@@ -747,7 +2545,7 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
                             <option value="expense">Expense</option>
                           </select>
                         </td>
-                        <td className="px-4 py-3">
+                        <td className="px-4 py-3 space-y-1">
                           <input
                             type="number"
                             value={event.age}
@@ -759,6 +2557,16 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
                             max="120"
                             disabled={isLoading}
                           />
+                          <input
+                            type="date"
+                            value={event.date ?? ''}
+                            onChange={(e) =>
+                              updateLumpSumEvent(event.tempId, 'date', e.target.value || undefined)
+                            }
+                            className="w-36 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            title="Exact date (optional, takes precedence over age)"
+                            disabled={isLoading}
+                          />
                         </td>
                         <td className="px-4 py-3">
                           <div className="flex items-center">
@@ -774,6 +2582,55 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
                               disabled={isLoading}
                             />
                           </div>
+                          <label className="flex items-center mt-1 text-xs text-zinc-600 dark:text-zinc-400">
+                            <input
+                              type="checkbox"
+                              checked={event.inflationIndexed ?? false}
+                              onChange={(e) =>
+                                updateLumpSumEvent(event.tempId, 'inflationIndexed', e.target.checked || undefined)
+                              }
+                              className="mr-1"
+                              disabled={isLoading}
+                            />
+                            Today&apos;s dollars
+                          </label>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center space-x-1 text-sm text-zinc-600 dark:text-zinc-400">
+                            <span>Every</span>
+                            <input
+                              type="number"
+                              value={event.repeatEveryYears ?? ''}
+                              onChange={(e) =>
+                                updateLumpSumEvent(
+                                  event.tempId,
+                                  'repeatEveryYears',
+                                  e.target.value === '' ? undefined : Number(e.target.value)
+                                )
+                              }
+                              className="w-16 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                              min="1"
+                              placeholder="—"
+                              disabled={isLoading}
+                            />
+                            <span>yrs until</span>
+                            <input
+                              type="number"
+                              value={event.repeatUntilAge ?? ''}
+                              onChange={(e) =>
+                                updateLumpSumEvent(
+                                  event.tempId,
+                                  'repeatUntilAge',
+                                  e.target.value === '' ? undefined : Number(e.target.value)
+                                )
+                              }
+                              className="w-16 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                              min="0"
+                              max="120"
+                              placeholder="Age"
+                              disabled={isLoading}
+                            />
+                          </div>
                         </td>
                         <td className="px-4 py-3">
                           <input
@@ -783,7 +2640,7 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
                               updateLumpSumEvent(event.tempId, 'description', e.target.value)
                             }
                             className="w-full px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
-                            placeholder="e.g., Home purchase, inheritance"
+                            placeholder="e.g., New car, roof, inheritance"
                             disabled={isLoading}
                           />
                         </td>
@@ -804,7 +2661,7 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
               </div>
             ) : (
               <p className="text-sm text-zinc-500 dark:text-zinc-400 italic">
-                No lump sum events. Click "Add Event" to add one-time income or expenses.
+                No lump sum events. Click "Add Event" to add one-time or recurring income or expenses.
               </p>
             )}
           </div>
@@ -958,6 +2815,253 @@ export default function ScenarioModal({ scenario, onClose }: ScenarioModalProps)
             )}
           </div>
 
+          {/* Real Estate */}
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-semibold text-zinc-900 dark:text-white">
+                Real Estate
+              </h3>
+              <button
+                type="button"
+                onClick={handleAddProperty}
+                disabled={isLoading}
+                className="px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md transition-colors disabled:opacity-50"
+              >
+                + Add Property
+              </button>
+            </div>
+
+            {properties.length > 0 ? (
+              <div className="border border-zinc-200 dark:border-zinc-700 rounded-lg overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-zinc-50 dark:bg-zinc-800">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Name
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Value / Cost Basis
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Appreciation (%)
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Tax / Upkeep ($/yr)
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Rent ($/yr) / Vacancy (%)
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Mortgage
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Sale
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-zinc-600 dark:text-zinc-400 uppercase">
+                        Action
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-zinc-200 dark:divide-zinc-700 bg-white dark:bg-zinc-900">
+                    {properties.map((property) => (
+                      <tr key={property.tempId}>
+                        <td className="px-4 py-3 space-y-1">
+                          <input
+                            type="text"
+                            value={property.name}
+                            onChange={(e) => updateProperty(property.tempId, 'name', e.target.value)}
+                            className="w-40 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            placeholder="e.g., Primary Home"
+                            disabled={isLoading}
+                          />
+                          <label className="flex items-center text-xs text-zinc-600 dark:text-zinc-400">
+                            <input
+                              type="checkbox"
+                              checked={property.primaryResidence ?? false}
+                              onChange={(e) =>
+                                updateProperty(property.tempId, 'primaryResidence', e.target.checked || undefined)
+                              }
+                              className="mr-1"
+                              disabled={isLoading}
+                            />
+                            Primary residence
+                          </label>
+                        </td>
+                        <td className="px-4 py-3 space-y-1">
+                          <input
+                            type="number"
+                            value={property.currentValue}
+                            onChange={(e) => updateProperty(property.tempId, 'currentValue', Number(e.target.value))}
+                            className="w-28 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            min="0"
+                            title="Today's market value"
+                            disabled={isLoading}
+                          />
+                          <input
+                            type="number"
+                            value={property.purchasePrice}
+                            onChange={(e) => updateProperty(property.tempId, 'purchasePrice', Number(e.target.value))}
+                            className="w-28 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            min="0"
+                            title="Purchase price plus improvements (cost basis)"
+                            disabled={isLoading}
+                          />
+                        </td>
+                        <td className="px-4 py-3">
+                          <input
+                            type="number"
+                            value={property.appreciationRate}
+                            onChange={(e) => updateProperty(property.tempId, 'appreciationRate', Number(e.target.value))}
+                            className="w-20 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            min="-20"
+                            max="20"
+                            step="0.1"
+                            disabled={isLoading}
+                          />
+                        </td>
+                        <td className="px-4 py-3 space-y-1">
+                          <input
+                            type="number"
+                            value={property.annualPropertyTax ?? ''}
+                            onChange={(e) =>
+                              updateProperty(
+                                property.tempId,
+                                'annualPropertyTax',
+                                e.target.value === '' ? undefined : Number(e.target.value)
+                              )
+                            }
+                            className="w-28 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            min="0"
+                            placeholder="Property tax"
+                            title="Property tax in today's dollars (leave empty when paid through escrow)"
+                            disabled={isLoading}
+                          />
+                          <input
+                            type="number"
+                            value={property.annualMaintenance ?? ''}
+                            onChange={(e) =>
+                              updateProperty(
+                                property.tempId,
+                                'annualMaintenance',
+                                e.target.value === '' ? undefined : Number(e.target.value)
+                              )
+                            }
+                            className="w-28 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            min="0"
+                            placeholder="Maintenance"
+                            title="Maintenance, insurance and HOA dues in today's dollars"
+                            disabled={isLoading}
+                          />
+                        </td>
+                        <td className="px-4 py-3 space-y-1">
+                          <input
+                            type="number"
+                            value={property.annualRentalIncome ?? ''}
+                            onChange={(e) =>
+                              updateProperty(
+                                property.tempId,
+                                'annualRentalIncome',
+                                e.target.value === '' ? undefined : Number(e.target.value)
+                              )
+                            }
+                            className="w-28 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            min="0"
+                            placeholder="Rent"
+                            title="Yearly rent in today's dollars"
+                            disabled={isLoading}
+                          />
+                          {!!property.annualRentalIncome && (
+                            <input
+                              type="number"
+                              value={property.vacancyRate ?? ''}
+                              onChange={(e) =>
+                                updateProperty(
+                                  property.tempId,
+                                  'vacancyRate',
+                                  e.target.value === '' ? undefined : Number(e.target.value)
+                                )
+                              }
+                              className="w-28 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                              min="0"
+                              max="100"
+                              placeholder="Vacancy (%)"
+                              disabled={isLoading}
+                            />
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <select
+                            value={property.mortgageId ?? ''}
+                            onChange={(e) =>
+                              updateProperty(property.tempId, 'mortgageId', e.target.value || undefined)
+                            }
+                            className="w-36 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            disabled={isLoading}
+                          >
+                            <option value="">None</option>
+                            {mortgages.map((mortgage) => (
+                              <option key={mortgage.tempId} value={mortgage.tempId}>
+                                {mortgage.name || 'Unnamed mortgage'}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-4 py-3 space-y-1">
+                          <input
+                            type="number"
+                            value={property.saleAge ?? ''}
+                            onChange={(e) =>
+                              updateProperty(
+                                property.tempId,
+                                'saleAge',
+                                e.target.value === '' ? undefined : Number(e.target.value)
+                              )
+                            }
+                            className="w-28 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                            min="0"
+                            max="120"
+                            placeholder="Keep"
+                            title="Sell at the end of the year you reach this age"
+                            disabled={isLoading}
+                          />
+                          {property.saleAge !== undefined && (
+                            <select
+                              value={property.proceedsAccount ?? 'checking'}
+                              onChange={(e) =>
+                                updateProperty(property.tempId, 'proceedsAccount', e.target.value as ProceedsAccountType)
+                              }
+                              className="w-28 px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded text-zinc-900 dark:text-white dark:bg-zinc-800 text-sm"
+                              title="Account the net proceeds go to"
+                              disabled={isLoading}
+                            >
+                              <option value="checking">Checking</option>
+                              <option value="savings">Savings</option>
+                              <option value="brokerage">Brokerage</option>
+                            </select>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveProperty(property.tempId)}
+                            disabled={isLoading}
+                            className="text-sm text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-zinc-500 dark:text-zinc-400 italic">
+                No properties. Click &quot;Add Property&quot; to include home equity, rental income or a home sale.
+              </p>
+            )}
+          </div>
+
           {error && (
             <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md">
               <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
@@ -7,7 +7,17 @@
  * - Investment returns
  * - Account withdrawal logic
  * - Required Minimum Distributions (RMDs)
+ * - Partner income, Social Security and RMDs
+ * - Survival probabilities and outliving money
+ * - Monthly resolution
  * - Contributions
+ * - IRS contribution limits
+ * - Employer 401(k) match and vesting
+ * - Early withdrawal penalties and penalty-free access
+ * - Pensions and annuities
+ * - Income streams
+ * - Real estate
+ * - Liabilities
  * - Edge cases
  */
 
@@ -15,6 +25,10 @@ import { calculateScenarioProjection, calculateAge } from '../../types/projectio
 import { Scenario } from '../../types/scenarios';
 import { UserProfile } from '../../types/profile';
 import { Account } from '../../types/accounts';
+import { Pension } from '../../types/pensions';
+import { IncomeStream } from '../../types/incomeStreams';
+import { Property } from '../../types/realEstate';
+import { Liability } from '../../types/liabilities';
 
 describe('Projection Calculator', () => {
   // Helper to create a basic user profile
@@ -245,6 +259,58 @@ describe('Projection Calculator', () => {
 
       expect(actualIncrease).toBeCloseTo(expectedIncrease, 2);
     });
+
+    it('should grow income by real raises over inflation', () => {
+      const scenario = createTestScenario({
+        inflationRate: 3,
+        incomeGrowth: { type: 'real', rate: 1 },
+        assumptionBuckets: [
+          { id: 'bucket-1', order: 0, startAge: 35, endAge: 999, assumptions: { annualIncome: 100000 } },
+        ],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const projection = calculateScenarioProjection(
+        scenario,
+        createTestProfile(35),
+        createTestAccounts(),
+        currentYear,
+        currentYear + 5
+      );
+
+      expect(projection.years[0].income.employment).toBeCloseTo(104030, 2);
+      expect(projection.years[5].income.employment / projection.years[4].income.employment).toBeCloseTo(1.0403, 10);
+    });
+
+    it('should let a bucket override the scenario income growth', () => {
+      const scenario = createTestScenario({
+        inflationRate: 0,
+        incomeGrowth: { type: 'fixed', rate: 5 },
+        assumptionBuckets: [
+          {
+            id: 'bucket-1',
+            order: 0,
+            startAge: 35,
+            endAge: 36,
+            assumptions: { annualIncome: 100000, incomeGrowth: { type: 'fixed', rate: 0 } },
+          },
+          { id: 'bucket-2', order: 1, startAge: 37, endAge: 999, assumptions: { annualIncome: 100000 } },
+        ],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const projection = calculateScenarioProjection(
+        scenario,
+        createTestProfile(35),
+        createTestAccounts(),
+        currentYear,
+        currentYear + 3
+      );
+
+      expect(projection.years[1].income.employment).toBeCloseTo(100000, 2);
+      expect(projection.years[2].income.employment).toBeCloseTo(105000, 2);
+      expect(projection.years[3].income.employment).toBeCloseTo(110250, 2);
+    });
   });
 
   describe('Investment Returns', () => {
@@ -338,6 +404,267 @@ describe('Projection Calculator', () => {
       // Cash accounts should have zero investment gains
       expect(firstYear.income.investmentGains).toBe(0);
     });
+
+    it('should grow each account type at its own rate', () => {
+      const profile = createTestProfile(35);
+      const accounts: Account[] = [
+        {
+          id: 'ira-1',
+          userId: 'test-user-123',
+          accountType: 'traditional-ira',
+          accountName: 'Bond IRA',
+          balance: 100000,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+        {
+          id: 'roth-1',
+          userId: 'test-user-123',
+          accountType: 'roth-ira',
+          accountName: 'Aggressive Roth',
+          balance: 100000,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+        {
+          id: 'brokerage-1',
+          userId: 'test-user-123',
+          accountType: 'brokerage',
+          accountName: 'Brokerage',
+          balance: 100000,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+      ];
+      const scenario = createTestScenario({
+        investmentReturnRate: 7,
+        accountTypeReturnRates: { 'traditional-ira': 4, 'roth-ira': 10 },
+        assumptionBuckets: [
+          {
+            id: 'bucket-1',
+            order: 0,
+            startAge: 35,
+            endAge: 999,
+            assumptions: { annualIncome: 100000, annualSpending: 50000 },
+          },
+        ],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const firstYear = calculateScenarioProjection(
+        scenario,
+        profile,
+        accounts,
+        currentYear,
+        currentYear
+      ).years[0];
+
+      expect(firstYear.accountBalances.byAccountType['traditional-ira']).toBeCloseTo(104000, 2);
+      expect(firstYear.accountBalances.byAccountType['roth-ira']).toBeCloseTo(110000, 2);
+      // Brokerage falls back to the scenario-wide rate
+      expect(firstYear.accountBalances.byAccountType['brokerage']).toBeCloseTo(107000, 2);
+    });
+
+    it('should apply an account-level APY override to savings', () => {
+      const profile = createTestProfile(35);
+      const accounts: Account[] = [
+        {
+          id: 'savings-1',
+          userId: 'test-user-123',
+          accountType: 'savings',
+          accountName: 'High-Yield Savings',
+          balance: 50000,
+          returnRate: 4,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+        {
+          id: 'savings-2',
+          userId: 'test-user-123',
+          accountType: 'savings',
+          accountName: 'Old Savings',
+          balance: 50000,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+      ];
+      const scenario = createTestScenario({
+        assumptionBuckets: [
+          {
+            id: 'bucket-1',
+            order: 0,
+            startAge: 35,
+            endAge: 999,
+            assumptions: { annualIncome: 100000, annualSpending: 50000 },
+          },
+        ],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const firstYear = calculateScenarioProjection(
+        scenario,
+        profile,
+        accounts,
+        currentYear,
+        currentYear
+      ).years[0];
+
+      // Only the high-yield account earns interest: 4% of 50,000
+      expect(firstYear.income.investmentGains).toBeCloseTo(2000, 2);
+      expect(firstYear.accountBalances.byAccountType['savings']).toBeCloseTo(102000, 2);
+    });
+
+    it('should shift per-type rates by the market excess return in simulations', () => {
+      const profile = createTestProfile(35);
+      const accounts: Account[] = [
+        {
+          id: 'ira-1',
+          userId: 'test-user-123',
+          accountType: 'traditional-ira',
+          accountName: 'Bond IRA',
+          balance: 100000,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+        {
+          id: 'savings-1',
+          userId: 'test-user-123',
+          accountType: 'savings',
+          accountName: 'Savings',
+          balance: 100000,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+      ];
+      const scenario = createTestScenario({
+        investmentReturnRate: 7,
+        accountTypeReturnRates: { 'traditional-ira': 4, savings: 3 },
+        assumptionBuckets: [
+          {
+            id: 'bucket-1',
+            order: 0,
+            startAge: 35,
+            endAge: 999,
+            assumptions: { annualIncome: 100000, annualSpending: 50000 },
+          },
+        ],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const firstYear = calculateScenarioProjection(
+        scenario,
+        profile,
+        accounts,
+        currentYear,
+        currentYear,
+        { marketConditions: [{ returnRate: -3, inflationRate: 3 }] }
+      ).years[0];
+
+      // Market returned 10 points below the scenario rate
+      expect(firstYear.accountBalances.byAccountType['traditional-ira']).toBeCloseTo(94000, 2);
+      expect(firstYear.accountBalances.byAccountType['savings']).toBeCloseTo(103000, 2);
+    });
+
+    it('should derive each year\'s return from the glide path allocation', () => {
+      const profile = createTestProfile(40);
+      const accounts: Account[] = [
+        {
+          id: 'brokerage-1',
+          userId: 'test-user-123',
+          accountType: 'brokerage',
+          accountName: 'Brokerage',
+          balance: 100000,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+      ];
+      const scenario = createTestScenario({
+        investmentReturnRate: 7,
+        assetAllocation: {
+          returns: { stocks: 10, bonds: 4, cash: 2 },
+          glidePath: [
+            { age: 30, allocation: { stocks: 90, bonds: 10, cash: 0 } },
+            { age: 70, allocation: { stocks: 50, bonds: 50, cash: 0 } },
+          ],
+        },
+        assumptionBuckets: [
+          {
+            id: 'bucket-1',
+            order: 0,
+            startAge: 35,
+            endAge: 999,
+            assumptions: { annualIncome: 100000, annualSpending: 50000 },
+          },
+        ],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const firstYear = calculateScenarioProjection(
+        scenario,
+        profile,
+        accounts,
+        currentYear,
+        currentYear
+      ).years[0];
+
+      // A quarter of the way from 90/10 to 50/50: 80/20 blends to 8.8%
+      expect(firstYear.assetAllocation).toEqual({ stocks: 80, bonds: 20, cash: 0 });
+      expect(firstYear.investmentReturnRate).toBeCloseTo(8.8, 6);
+      expect(firstYear.accountBalances.byAccountType['brokerage']).toBeCloseTo(108800, 2);
+    });
+
+    it('should use a bucket\'s pinned allocation over the glide path', () => {
+      const profile = createTestProfile(40);
+      const scenario = createTestScenario({
+        assetAllocation: {
+          returns: { stocks: 10, bonds: 4, cash: 2 },
+          glidePath: [{ age: 30, allocation: { stocks: 90, bonds: 10, cash: 0 } }],
+        },
+        assumptionBuckets: [
+          {
+            id: 'bucket-1',
+            order: 0,
+            startAge: 35,
+            endAge: 999,
+            assumptions: {
+              annualIncome: 100000,
+              annualSpending: 50000,
+              assetAllocation: { stocks: 0, bonds: 50, cash: 50 },
+            },
+          },
+        ],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const firstYear = calculateScenarioProjection(
+        scenario,
+        profile,
+        createTestAccounts(),
+        currentYear,
+        currentYear
+      ).years[0];
+
+      expect(firstYear.assetAllocation).toEqual({ stocks: 0, bonds: 50, cash: 50 });
+      expect(firstYear.investmentReturnRate).toBeCloseTo(3, 6);
+      expect(firstYear.accountBalances.byAccountType['401k']).toBeCloseTo(103000, 2);
+    });
+
+    it('should fall back to the flat rate without an allocation', () => {
+      const profile = createTestProfile(40);
+      const scenario = createTestScenario();
+      const currentYear = new Date().getFullYear();
+
+      const firstYear = calculateScenarioProjection(
+        scenario,
+        profile,
+        createTestAccounts(),
+        currentYear,
+        currentYear
+      ).years[0];
+
+      expect(firstYear.assetAllocation).toBeUndefined();
+      expect(firstYear.investmentReturnRate).toBe(7);
+    });
   });
 
   describe('Account Withdrawal Logic', () => {
@@ -466,76 +793,284 @@ describe('Projection Calculator', () => {
       // Brokerage should have $5k left (withdrew $5k)
       expect(firstYear.accountBalances.byAccountType.brokerage).toBeCloseTo(5000, 0);
     });
-  });
 
-  describe('Required Minimum Distributions (RMDs)', () => {
-    it('should calculate RMDs starting at age 73', () => {
-      const profile = createTestProfile(73);
-      const accounts = [
+    it('should record withdrawals by account type', () => {
+      const profile = createTestProfile(67);
+      const accounts: Account[] = [
         {
-          id: '401k-1',
+          id: 'checking-1',
           userId: 'test-user-123',
-          accountType: '401k' as const,
-          accountName: '401k',
-          balance: 265000, // Will trigger ~$10k RMD
+          accountType: 'checking',
+          accountName: 'Checking',
+          balance: 4000,
           asOfDate: '2025-01-01',
-          status: 'active' as const,
+          status: 'active',
+        },
+        {
+          id: 'savings-1',
+          userId: 'test-user-123',
+          accountType: 'savings',
+          accountName: 'Savings',
+          balance: 20000,
+          asOfDate: '2025-01-01',
+          status: 'active',
         },
       ];
       const scenario = createTestScenario({
-        investmentReturnRate: 0, // Disable to simplify
-        socialSecurityIncome: 30000,
+        socialSecurityIncome: 20000,
+        inflationRate: 0,
         assumptionBuckets: [
           {
             id: 'bucket-1',
             order: 0,
-            startAge: 73,
+            startAge: 67,
             endAge: 999,
-            assumptions: {
-              annualIncome: 0,
-              annualSpending: 30000,
-            },
+            assumptions: { annualIncome: 0, annualSpending: 30000 },
           },
         ],
       });
       const currentYear = new Date().getFullYear();
 
-      const projection = calculateScenarioProjection(
+      const firstYear = calculateScenarioProjection(
         scenario,
         profile,
         accounts,
         currentYear,
-        currentYear + 1
-      );
-
-      const firstYear = projection.years[0];
+        currentYear
+      ).years[0];
 
-      // At age 73, life expectancy factor is 26.5
-      // RMD = 265000 / 26.5 = $10,000
-      const expectedRMD = 265000 / 26.5;
-
-      // Account should be reduced by RMD
-      const accountReduction = 265000 - firstYear.accountBalances.byAccountType['401k'];
-      expect(accountReduction).toBeCloseTo(expectedRMD, 0);
+      expect(firstYear.withdrawals.total).toBeCloseTo(10000, 2);
+      expect(firstYear.withdrawals.byAccountType.checking).toBeCloseTo(4000, 2);
+      expect(firstYear.withdrawals.byAccountType.savings).toBeCloseTo(6000, 2);
     });
 
-    it('should not calculate RMDs before age 73', () => {
-      const profile = createTestProfile(72);
-      const accounts = [
+    it('should draw proportionally across accounts', () => {
+      const profile = createTestProfile(67);
+      const accounts: Account[] = [
         {
-          id: '401k-1',
+          id: 'checking-1',
           userId: 'test-user-123',
-          accountType: '401k' as const,
-          accountName: '401k',
-          balance: 265000,
+          accountType: 'checking',
+          accountName: 'Checking',
+          balance: 10000,
           asOfDate: '2025-01-01',
-          status: 'active' as const,
+          status: 'active',
         },
-      ];
-      const scenario = createTestScenario({
-        investmentReturnRate: 0,
-        socialSecurityIncome: 30000,
-        assumptionBuckets: [
+        {
+          id: 'savings-1',
+          userId: 'test-user-123',
+          accountType: 'savings',
+          accountName: 'Savings',
+          balance: 30000,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+      ];
+      const scenario = createTestScenario({
+        socialSecurityIncome: 20000,
+        inflationRate: 0,
+        withdrawalStrategy: { type: 'proportional' },
+        assumptionBuckets: [
+          {
+            id: 'bucket-1',
+            order: 0,
+            startAge: 67,
+            endAge: 999,
+            assumptions: { annualIncome: 0, annualSpending: 30000 },
+          },
+        ],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const firstYear = calculateScenarioProjection(
+        scenario,
+        profile,
+        accounts,
+        currentYear,
+        currentYear
+      ).years[0];
+
+      expect(firstYear.withdrawals.byAccountType.checking).toBeCloseTo(2500, 2);
+      expect(firstYear.withdrawals.byAccountType.savings).toBeCloseTo(7500, 2);
+    });
+
+    it('should fill the 12% bracket from traditional accounts first', () => {
+      const profile = createTestProfile(67);
+      const accounts: Account[] = [
+        {
+          id: 'checking-1',
+          userId: 'test-user-123',
+          accountType: 'checking',
+          accountName: 'Checking',
+          balance: 200000,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+        {
+          id: 'ira-1',
+          userId: 'test-user-123',
+          accountType: 'traditional-ira',
+          accountName: 'IRA',
+          balance: 500000,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+      ];
+      const scenario = createTestScenario({
+        socialSecurityIncome: 0,
+        investmentReturnRate: 0,
+        inflationRate: 0,
+        withdrawalStrategy: { type: 'fill-bracket' },
+        assumptionBuckets: [
+          {
+            id: 'bucket-1',
+            order: 0,
+            startAge: 67,
+            endAge: 999,
+            assumptions: { annualIncome: 0, annualSpending: 100000 },
+          },
+        ],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const firstYear = calculateScenarioProjection(
+        scenario,
+        profile,
+        accounts,
+        currentYear,
+        currentYear
+      ).years[0];
+
+      // Standard deduction (17,750 at 65+) plus the 12% bracket top (48,475)
+      expect(firstYear.withdrawals.byAccountType['traditional-ira']).toBeCloseTo(66225, 2);
+      expect(firstYear.taxes.taxableIncome).toBeCloseTo(48475, 2);
+      expect(firstYear.taxes.marginalRate).toBe(22);
+      expect(firstYear.withdrawals.byAccountType.checking).toBeCloseTo(
+        100000 + firstYear.taxes.total - 66225,
+        2
+      );
+    });
+
+    it('should follow a custom withdrawal order', () => {
+      const profile = createTestProfile(67);
+      const accounts: Account[] = [
+        {
+          id: 'checking-1',
+          userId: 'test-user-123',
+          accountType: 'checking',
+          accountName: 'Checking',
+          balance: 50000,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+        {
+          id: 'roth-1',
+          userId: 'test-user-123',
+          accountType: 'roth-ira',
+          accountName: 'Roth IRA',
+          balance: 50000,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+      ];
+      const scenario = createTestScenario({
+        socialSecurityIncome: 20000,
+        investmentReturnRate: 0,
+        inflationRate: 0,
+        withdrawalStrategy: { type: 'custom', customOrder: ['roth-ira', 'checking'] },
+        assumptionBuckets: [
+          {
+            id: 'bucket-1',
+            order: 0,
+            startAge: 67,
+            endAge: 999,
+            assumptions: { annualIncome: 0, annualSpending: 30000 },
+          },
+        ],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const firstYear = calculateScenarioProjection(
+        scenario,
+        profile,
+        accounts,
+        currentYear,
+        currentYear
+      ).years[0];
+
+      expect(firstYear.withdrawals.byAccountType['roth-ira']).toBeCloseTo(10000, 2);
+      expect(firstYear.accountBalances.byAccountType.checking).toBeCloseTo(50000, 2);
+    });
+  });
+
+  describe('Required Minimum Distributions (RMDs)', () => {
+    it('should calculate RMDs starting at age 73', () => {
+      const profile = createTestProfile(73);
+      const accounts = [
+        {
+          id: '401k-1',
+          userId: 'test-user-123',
+          accountType: '401k' as const,
+          accountName: '401k',
+          balance: 265000, // Will trigger ~$10k RMD
+          asOfDate: '2025-01-01',
+          status: 'active' as const,
+        },
+      ];
+      const scenario = createTestScenario({
+        investmentReturnRate: 0, // Disable to simplify
+        socialSecurityIncome: 30000,
+        assumptionBuckets: [
+          {
+            id: 'bucket-1',
+            order: 0,
+            startAge: 73,
+            endAge: 999,
+            assumptions: {
+              annualIncome: 0,
+              annualSpending: 30000,
+            },
+          },
+        ],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const projection = calculateScenarioProjection(
+        scenario,
+        profile,
+        accounts,
+        currentYear,
+        currentYear + 1
+      );
+
+      const firstYear = projection.years[0];
+
+      // At age 73, life expectancy factor is 26.5
+      // RMD = 265000 / 26.5 = $10,000
+      const expectedRMD = 265000 / 26.5;
+
+      // Account should be reduced by RMD
+      const accountReduction = 265000 - firstYear.accountBalances.byAccountType['401k'];
+      expect(accountReduction).toBeCloseTo(expectedRMD, 0);
+    });
+
+    it('should not calculate RMDs before age 73', () => {
+      const profile = createTestProfile(72);
+      const accounts = [
+        {
+          id: '401k-1',
+          userId: 'test-user-123',
+          accountType: '401k' as const,
+          accountName: '401k',
+          balance: 265000,
+          asOfDate: '2025-01-01',
+          status: 'active' as const,
+        },
+      ];
+      const scenario = createTestScenario({
+        investmentReturnRate: 0,
+        socialSecurityIncome: 30000,
+        assumptionBuckets: [
           {
             id: 'bucket-1',
             order: 0,
@@ -563,99 +1098,1327 @@ describe('Projection Calculator', () => {
       // Account balance should be unchanged (no RMD)
       expect(firstYear.accountBalances.byAccountType['401k']).toBeCloseTo(265000, 0);
     });
-  });
 
-  describe('Contributions', () => {
-    it('should add contributions to correct account types', () => {
-      const profile = createTestProfile(35);
+    it('should start RMDs at 75 for those born in 1960 or later', () => {
+      const profile = createTestProfile(66); // Born 1960 or later
       const accounts = [
         {
           id: '401k-1',
           userId: 'test-user-123',
           accountType: '401k' as const,
           accountName: '401k',
-          balance: 100000,
+          balance: 500000,
           asOfDate: '2025-01-01',
           status: 'active' as const,
         },
       ];
       const scenario = createTestScenario({
-        investmentReturnRate: 0, // Disable to simplify
-        inflationRate: 0, // Disable to simplify
+        investmentReturnRate: 0,
+        socialSecurityIncome: 0,
         assumptionBuckets: [
           {
             id: 'bucket-1',
             order: 0,
-            startAge: 35,
+            startAge: 66,
             endAge: 999,
-            assumptions: {
-              annualIncome: 100000,
-              annualSpending: 50000,
-              contributions: {
-                '401k': 20000,
-              },
-            },
+            assumptions: { annualIncome: 0, annualSpending: 0 },
+          },
+        ],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const projection = calculateScenarioProjection(
+        scenario,
+        profile,
+        accounts,
+        currentYear,
+        currentYear + 9
+      );
+
+      const age74 = projection.years.find((y) => y.age === 74)!;
+      const age75 = projection.years.find((y) => y.age === 75)!;
+
+      expect(age74.rmd.amount).toBe(0);
+      expect(age75.rmd.distributionPeriod).toBe(24.6);
+      expect(age75.rmd.amount).toBeCloseTo(500000 / 24.6, 0);
+      expect(age75.income.rmd).toBeCloseTo(500000 / 24.6, 0);
+    });
+
+    it('should start RMDs at 72 for those born in 1950 or earlier', () => {
+      const profile: UserProfile = { ...createTestProfile(), dateOfBirth: '1950-06-15' };
+      const accounts = [
+        {
+          id: '401k-1',
+          userId: 'test-user-123',
+          accountType: '401k' as const,
+          accountName: '401k',
+          balance: 274000,
+          asOfDate: '2025-01-01',
+          status: 'active' as const,
+        },
+      ];
+      const scenario = createTestScenario({
+        investmentReturnRate: 0,
+        socialSecurityIncome: 0,
+        assumptionBuckets: [
+          {
+            id: 'bucket-1',
+            order: 0,
+            startAge: 60,
+            endAge: 999,
+            assumptions: { annualIncome: 0, annualSpending: 0 },
+          },
+        ],
+      });
+      const age = calculateAge(profile.dateOfBirth);
+      const yearAt72 = new Date().getFullYear() - (age - 72);
+
+      const projection = calculateScenarioProjection(scenario, profile, accounts, yearAt72, yearAt72);
+
+      expect(projection.years[0].age).toBe(72);
+      expect(projection.years[0].rmd.amount).toBeCloseTo(274000 / 27.4, 0);
+    });
+
+    it('should use the Joint Life table for a spouse more than 10 years younger', () => {
+      const profile: UserProfile = { ...createTestProfile(75), maritalStatus: 'married' };
+      const spouseBirthYear = new Date().getFullYear() - 55;
+      const accounts = [
+        {
+          id: '401k-1',
+          userId: 'test-user-123',
+          accountType: '401k' as const,
+          accountName: '401k',
+          balance: 500000,
+          asOfDate: '2025-01-01',
+          status: 'active' as const,
+        },
+      ];
+      const scenario = createTestScenario({
+        investmentReturnRate: 0,
+        socialSecurityIncome: 0,
+        assumptionBuckets: [
+          {
+            id: 'bucket-1',
+            order: 0,
+            startAge: 75,
+            endAge: 999,
+            assumptions: { annualIncome: 0, annualSpending: 0 },
           },
         ],
       });
       const currentYear = new Date().getFullYear();
 
+      const uniform = calculateScenarioProjection(scenario, profile, accounts, currentYear, currentYear);
+      const joint = calculateScenarioProjection(
+        scenario,
+        { ...profile, spouseDateOfBirth: `${spouseBirthYear}-01-01` },
+        accounts,
+        currentYear,
+        currentYear
+      );
+
+      expect(uniform.years[0].rmd.distributionPeriod).toBe(24.6);
+      expect(joint.years[0].rmd.distributionPeriod).toBeGreaterThan(30);
+      expect(joint.years[0].rmd.amount).toBeLessThan(uniform.years[0].rmd.amount);
+    });
+
+    it('should reinvest RMD cash not needed for spending into brokerage', () => {
+      const profile = createTestProfile(75);
+      const accounts = [
+        {
+          id: 'checking-1',
+          userId: 'test-user-123',
+          accountType: 'checking' as const,
+          accountName: 'Checking',
+          balance: 10000,
+          asOfDate: '2025-01-01',
+          status: 'active' as const,
+        },
+        {
+          id: '401k-1',
+          userId: 'test-user-123',
+          accountType: '401k' as const,
+          accountName: '401k',
+          balance: 492000,
+          asOfDate: '2025-01-01',
+          status: 'active' as const,
+        },
+      ];
+      const scenario = createTestScenario({
+        investmentReturnRate: 0,
+        socialSecurityIncome: 0,
+        assumptionBuckets: [
+          {
+            id: 'bucket-1',
+            order: 0,
+            startAge: 75,
+            endAge: 999,
+            assumptions: { annualIncome: 0, annualSpending: 5000 },
+          },
+        ],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const projection = calculateScenarioProjection(scenario, profile, accounts, currentYear, currentYear);
+      const firstYear = projection.years[0];
+
+      // RMD = 492000 / 24.6 = 20000, less spending and taxes on the RMD
+      const expectedReinvested = 20000 - firstYear.spending.total;
+      expect(firstYear.rmd.amount).toBeCloseTo(20000, 0);
+      expect(firstYear.rmd.reinvested).toBeCloseTo(expectedReinvested, 0);
+      expect(firstYear.accountBalances.byAccountType['brokerage']).toBeCloseTo(expectedReinvested, 0);
+      expect(firstYear.accountBalances.brokerageCostBasis).toBeCloseTo(expectedReinvested, 0);
+      expect(firstYear.accountBalances.byAccountType['checking']).toBeCloseTo(10000, 0);
+    });
+  });
+
+  describe('Partner', () => {
+    const currentYear = new Date().getFullYear();
+
+    const createMarriedProfile = (age: number, partnerAge: number): UserProfile => ({
+      ...createTestProfile(age),
+      maritalStatus: 'married',
+      spouseDateOfBirth: `${currentYear - partnerAge}-01-01`,
+    });
+
+    it('should track the partner age and add their income until their retirement age', () => {
+      const profile = createMarriedProfile(50, 45);
+      const scenario = createTestScenario({
+        partner: { annualIncome: 50000, retirementAge: 47 },
+      });
+
+      const projection = calculateScenarioProjection(
+        scenario,
+        profile,
+        createTestAccounts(),
+        currentYear,
+        currentYear + 3
+      );
+
+      expect(projection.years.map((y) => y.partner?.age)).toEqual([45, 46, 47, 48]);
+      expect(projection.years[0].partner?.employment).toBeCloseTo(50000 * 1.02, 2);
+      expect(projection.years[0].income.employment).toBeCloseTo(150000 * 1.02, 2);
+      expect(projection.years[2].partner?.employment).toBe(0);
+      expect(projection.years[2].income.employment).toBeCloseTo(100000 * Math.pow(1.02, 3), 2);
+    });
+
+    it('should not model a partner without a spouse date of birth', () => {
+      const scenario = createTestScenario({ partner: { annualIncome: 50000 } });
+      const projection = calculateScenarioProjection(
+        scenario,
+        { ...createTestProfile(50), maritalStatus: 'married' },
+        createTestAccounts(),
+        currentYear,
+        currentYear
+      );
+
+      expect(projection.years[0].partner).toBeUndefined();
+      expect(projection.years[0].income.employment).toBeCloseTo(100000 * 1.02, 2);
+    });
+
+    it('should select buckets by the partner age when configured', () => {
+      const profile = createMarriedProfile(55, 49);
+      const scenario = createTestScenario({
+        inflationRate: 0,
+        bucketAgeBasis: 'partner',
+        assumptionBuckets: [
+          { id: 'bucket-1', order: 0, startAge: 0, endAge: 49, assumptions: { annualSpending: 10000 } },
+          { id: 'bucket-2', order: 1, startAge: 50, endAge: 999, assumptions: { annualSpending: 40000 } },
+        ],
+      });
+
+      const projection = calculateScenarioProjection(
+        scenario,
+        profile,
+        createTestAccounts(),
+        currentYear,
+        currentYear + 1
+      );
+
+      expect(projection.years[0].spending.living).toBe(10000);
+      expect(projection.years[1].spending.living).toBe(40000);
+    });
+
+    it('should figure RMDs on each owner\'s accounts', () => {
+      const accounts: Account[] = [
+        {
+          id: '401k-1',
+          userId: 'test-user-123',
+          accountType: '401k',
+          accountName: '401k',
+          balance: 246000,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+        {
+          id: 'ira-1',
+          userId: 'test-user-123',
+          accountType: 'traditional-ira',
+          accountName: 'Partner IRA',
+          balance: 246000,
+          owner: 'partner',
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+      ];
+      const scenario = createTestScenario({
+        investmentReturnRate: 0,
+        socialSecurityIncome: 0,
+        assumptionBuckets: [
+          { id: 'bucket-1', order: 0, startAge: 0, endAge: 999, assumptions: { annualSpending: 0 } },
+        ],
+      });
+
+      // Partner at 70 has not reached their RMD start age; only the user's half is required
+      const youngerPartner = calculateScenarioProjection(
+        scenario,
+        createMarriedProfile(75, 70),
+        accounts,
+        currentYear,
+        currentYear
+      );
+      expect(youngerPartner.years[0].rmd.amount).toBeCloseTo(246000 / 24.6, 2);
+      expect(youngerPartner.years[0].partner?.rmd).toBe(0);
+
+      // Partner at 74 owes their own RMD from the uniform table
+      const olderPartner = calculateScenarioProjection(
+        scenario,
+        createMarriedProfile(75, 74),
+        accounts,
+        currentYear,
+        currentYear
+      );
+      expect(olderPartner.years[0].partner?.rmd).toBeCloseTo(246000 / 25.5, 2);
+      expect(olderPartner.years[0].rmd.amount).toBeCloseTo(246000 / 24.6 + 246000 / 25.5, 2);
+    });
+
+    it('should pay the survivor the larger benefit and file alone after a death', () => {
+      const scenario = createTestScenario({
+        inflationRate: 0,
+        socialSecurityAge: 67,
+        socialSecurityIncome: 24000,
+        lifeExpectancy: 71,
+        partner: { socialSecurityAge: 67, socialSecurityIncome: 6000 },
+        assumptionBuckets: [
+          { id: 'bucket-1', order: 0, startAge: 0, endAge: 999, assumptions: { annualSpending: 20000 } },
+        ],
+      });
+
+      const projection = calculateScenarioProjection(
+        scenario,
+        createMarriedProfile(70, 68),
+        createTestAccounts(),
+        currentYear,
+        currentYear + 2
+      );
+      const [first, , afterDeath] = projection.years;
+
+      expect(first.alive).toBe(true);
+      expect(first.income.socialSecurity).toBeCloseTo(30000, 2);
+      expect(first.taxes.filingStatus).toBe('married-filing-jointly');
+
+      expect(afterDeath.alive).toBe(false);
+      expect(afterDeath.partner?.alive).toBe(true);
+      expect(afterDeath.income.socialSecurity).toBeCloseTo(24000, 2);
+      expect(afterDeath.partner?.socialSecurity).toBeCloseTo(24000, 2);
+      expect(afterDeath.taxes.filingStatus).toBe('single');
+    });
+  });
+
+  describe('Longevity', () => {
+    const currentYear = new Date().getFullYear();
+
+    it('should start at certain survival and decline each year', () => {
+      const projection = calculateScenarioProjection(
+        createTestScenario(),
+        { ...createTestProfile(70), sex: 'male' },
+        createTestAccounts(),
+        currentYear,
+        currentYear + 10
+      );
+      const survival = projection.years.map((year) => year.survivalProbability);
+
+      expect(survival[0]).toBe(1);
+      for (let i = 1; i < survival.length; i++) {
+        expect(survival[i]).toBeLessThan(survival[i - 1]);
+      }
+    });
+
+    it('should weight depleted years by the chance of being alive', () => {
+      const scenario = createTestScenario({
+        investmentReturnRate: 0,
+        inflationRate: 0,
+        socialSecurityIncome: 0,
+        assumptionBuckets: [
+          { id: 'bucket-1', order: 0, startAge: 0, endAge: 999, assumptions: { annualSpending: 40000 } },
+        ],
+      });
+
+      const projection = calculateScenarioProjection(
+        scenario,
+        createTestProfile(70),
+        createTestAccounts(),
+        currentYear,
+        currentYear + 10
+      );
+
+      for (const year of projection.years) {
+        if (year.accountBalances.total < 0) {
+          expect(year.depletedWhileAliveProbability).toBeCloseTo(year.survivalProbability, 10);
+        } else {
+          expect(year.depletedWhileAliveProbability).toBe(0);
+        }
+      }
+      expect(projection.summary.outliveMoneyProbability).toBeGreaterThan(0);
+      expect(projection.summary.outliveMoneyProbability).toBe(
+        Math.max(...projection.years.map((year) => year.depletedWhileAliveProbability))
+      );
+    });
+  });
+
+  describe('Monthly Resolution', () => {
+    const currentYear = new Date().getFullYear();
+
+    const createCashFlowScenario = () =>
+      createTestScenario({
+        investmentReturnRate: 0,
+        inflationRate: 0,
+        assumptionBuckets: [
+          {
+            id: 'bucket-1',
+            order: 0,
+            startAge: 0,
+            endAge: 999,
+            assumptions: { annualIncome: 120000, annualSpending: 60000 },
+          },
+        ],
+        lumpSumEvents: [{ id: 'event-1', type: 'expense', amount: 15000, age: 35, description: 'Roof' }],
+      });
+    const checkingOnly = (): Account[] => [
+      {
+        id: 'checking-1',
+        userId: 'test-user-123',
+        accountType: 'checking',
+        accountName: 'Checking',
+        balance: 10000,
+        asOfDate: '2025-01-01',
+        status: 'active',
+      },
+    ];
+
+    it('should not return a month series in annual resolution', () => {
+      const projection = calculateScenarioProjection(
+        createCashFlowScenario(),
+        createTestProfile(35),
+        checkingOnly(),
+        currentYear,
+        currentYear + 3
+      );
+
+      expect(projection.months).toBeUndefined();
+    });
+
+    it('should step the first 24 months and roll them up to the annual figures', () => {
+      const annual = calculateScenarioProjection(
+        createCashFlowScenario(),
+        createTestProfile(35),
+        checkingOnly(),
+        currentYear,
+        currentYear + 3
+      );
+      const monthly = calculateScenarioProjection(
+        createCashFlowScenario(),
+        createTestProfile(35),
+        checkingOnly(),
+        currentYear,
+        currentYear + 3,
+        { resolution: 'monthly' }
+      );
+
+      expect(monthly.months).toHaveLength(24);
+      expect(monthly.months?.[0]).toMatchObject({ year: currentYear, month: 1, age: 35 });
+      expect(monthly.years).toHaveLength(annual.years.length);
+
+      const firstYear = monthly.years[0];
+      const firstYearMonths = monthly.months!.filter((month) => month.year === currentYear);
+      const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+      expect(sum(firstYearMonths.map((month) => month.income))).toBeCloseTo(firstYear.income.reported, 2);
+      expect(sum(firstYearMonths.map((month) => month.spending))).toBeCloseTo(firstYear.spending.total, 2);
+      expect(sum(firstYearMonths.map((month) => month.taxes))).toBeCloseTo(firstYear.taxes.total, 2);
+      expect(firstYearMonths[11].accountBalances.total).toBeCloseTo(firstYear.accountBalances.total, 2);
+
+      // Taxes and flows match the annual engine when there are no returns
+      expect(firstYear.taxes.total).toBeCloseTo(annual.years[0].taxes.total, 2);
+      expect(firstYear.accountBalances.total).toBeCloseTo(annual.years[0].accountBalances.total, 2);
+    });
+
+    it('should show checking going negative within the year', () => {
+      const projection = calculateScenarioProjection(
+        createCashFlowScenario(),
+        createTestProfile(35),
+        checkingOnly(),
+        currentYear,
+        currentYear + 1,
+        { resolution: 'monthly', monthlyHorizonMonths: 6 }
+      );
+
+      // The January lump sum overdraws checking before the year's surplus builds back up
+      expect(projection.months).toHaveLength(12);
+      expect(projection.months![0].accountBalances.byAccountType.checking).toBeLessThan(0);
+      expect(projection.years[0].accountBalances.byAccountType.checking).toBeGreaterThan(0);
+    });
+
+    it('should pay a dated lump sum in its month', () => {
+      const scenario = createCashFlowScenario();
+      scenario.lumpSumEvents = [
+        { ...scenario.lumpSumEvents[0], date: `${currentYear}-07-15` },
+      ];
+      const projection = calculateScenarioProjection(
+        scenario,
+        createTestProfile(35),
+        checkingOnly(),
+        currentYear,
+        currentYear,
+        { resolution: 'monthly', monthlyHorizonMonths: 12 }
+      );
+
+      expect(projection.months![0].spending).toBeLessThan(projection.months![6].spending - 14000);
+      expect(projection.months![6].spending - projection.months![5].spending).toBeCloseTo(15000, 0);
+      expect(projection.years[0].spending.lumpSum).toBe(15000);
+    });
+
+    it('should compound returns monthly to the annual rate', () => {
+      const scenario = createTestScenario({
+        investmentReturnRate: 12,
+        inflationRate: 0,
+        assumptionBuckets: [{ id: 'bucket-1', order: 0, startAge: 0, endAge: 999, assumptions: {} }],
+      });
+      const accounts = createTestAccounts().filter((account) => account.accountType === '401k');
+
+      const projection = calculateScenarioProjection(
+        scenario,
+        createTestProfile(35),
+        accounts,
+        currentYear,
+        currentYear,
+        { resolution: 'monthly' }
+      );
+
+      expect(projection.months![0].investmentGains).toBeCloseTo(100000 * (Math.pow(1.12, 1 / 12) - 1), 2);
+      expect(projection.years[0].income.investmentGains).toBeCloseTo(12000, 2);
+      expect(projection.years[0].accountBalances.byAccountType['401k']).toBeCloseTo(112000, 2);
+    });
+
+    it('should pay each mortgage payment in its month', () => {
+      const scenario = createTestScenario({
+        investmentReturnRate: 0,
+        inflationRate: 0,
+        assumptionBuckets: [{ id: 'bucket-1', order: 0, startAge: 0, endAge: 999, assumptions: {} }],
+        mortgages: [
+          {
+            id: 'mortgage-1',
+            name: 'Home',
+            startDate: `${currentYear}-07-01`,
+            loanAmount: 200000,
+            termYears: 30,
+            interestRate: 6,
+            monthlyEscrow: 0,
+          },
+        ],
+      });
+
+      const projection = calculateScenarioProjection(
+        scenario,
+        createTestProfile(35),
+        createTestAccounts(),
+        currentYear,
+        currentYear,
+        { resolution: 'monthly' }
+      );
+      const months = projection.months!;
+
+      expect(months[5].spending).toBeCloseTo(0, 2);
+      expect(months[6].spending).toBeCloseTo(1199.1, 0);
+      expect(projection.years[0].spending.mortgages).toBeCloseTo(6 * 1199.1, 0);
+    });
+  });
+
+  describe('Contributions', () => {
+    it('should add contributions to correct account types', () => {
+      const profile = createTestProfile(35);
+      const accounts = [
+        {
+          id: '401k-1',
+          userId: 'test-user-123',
+          accountType: '401k' as const,
+          accountName: '401k',
+          balance: 100000,
+          asOfDate: '2025-01-01',
+          status: 'active' as const,
+        },
+      ];
+      const scenario = createTestScenario({
+        investmentReturnRate: 0, // Disable to simplify
+        inflationRate: 0, // Disable to simplify
+        assumptionBuckets: [
+          {
+            id: 'bucket-1',
+            order: 0,
+            startAge: 35,
+            endAge: 999,
+            assumptions: {
+              annualIncome: 100000,
+              annualSpending: 50000,
+              contributions: {
+                '401k': 20000,
+              },
+            },
+          },
+        ],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const projection = calculateScenarioProjection(
+        scenario,
+        profile,
+        accounts,
+        currentYear,
+        currentYear + 1
+      );
+
+      const firstYear = projection.years[0];
+
+      // 401k should have starting balance + contribution
+      expect(firstYear.accountBalances.byAccountType['401k']).toBeCloseTo(120000, 0);
+      expect(firstYear.contributions.byAccountType['401k']).toBeCloseTo(20000, 0);
+    });
+
+    it('should apply inflation to contributions', () => {
+      const profile = createTestProfile(35);
+      const accounts = createTestAccounts();
+      const scenario = createTestScenario({
+        inflationRate: 3,
+        investmentReturnRate: 0,
+        assumptionBuckets: [
+          {
+            id: 'bucket-1',
+            order: 0,
+            startAge: 35,
+            endAge: 999,
+            assumptions: {
+              annualIncome: 100000,
+              annualSpending: 40000,
+              contributions: {
+                '401k': 20000,
+              },
+            },
+          },
+        ],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const projection = calculateScenarioProjection(
+        scenario,
+        profile,
+        accounts,
+        currentYear,
+        currentYear + 10
+      );
+
+      // Contributions should increase with inflation
+      const year1Contribution = projection.years[0].contributions.byAccountType['401k'];
+      const year10Contribution = projection.years[9].contributions.byAccountType['401k'];
+
+      // After 10 years at 3% inflation: 1.03^10 = 1.344
+      const expectedIncrease = Math.pow(1.03, 9);
+      const actualIncrease = year10Contribution / year1Contribution;
+
+      expect(actualIncrease).toBeCloseTo(expectedIncrease, 2);
+    });
+  });
+
+  describe('Contribution Limits', () => {
+    it('should cap contributions at the IRS limits and invest the excess in brokerage', () => {
+      const scenario = createTestScenario({
+        investmentReturnRate: 0,
+        inflationRate: 0,
+        assumptionBuckets: [
+          {
+            id: 'bucket-1',
+            order: 0,
+            startAge: 35,
+            endAge: 999,
+            assumptions: {
+              annualIncome: 100000,
+              annualSpending: 30000,
+              contributions: { 'roth-ira': 50000 },
+            },
+          },
+        ],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const projection = calculateScenarioProjection(
+        scenario,
+        createTestProfile(35),
+        createTestAccounts(),
+        currentYear,
+        currentYear + 1
+      );
+      const firstYear = projection.years[0];
+
+      expect(firstYear.contributions.byAccountType['roth-ira']).toBeCloseTo(7000, 2);
+      expect(firstYear.contributions.byAccountType['brokerage']).toBeCloseTo(43000, 2);
+      expect(firstYear.contributions.total).toBeCloseTo(50000, 2);
+      expect(projection.warnings).toHaveLength(2);
+      expect(projection.warnings[0]).toMatchObject({ year: currentYear, accountType: 'roth-ira', excess: 43000 });
+    });
+
+    it('should give each earner in a couple their own limits', () => {
+      const currentYear = new Date().getFullYear();
+      const profile: UserProfile = {
+        ...createTestProfile(35),
+        maritalStatus: 'married',
+        spouseDateOfBirth: `${currentYear - 61}-01-01`,
+      };
+      const scenario = createTestScenario({
+        investmentReturnRate: 0,
+        inflationRate: 0,
+        partner: { annualIncome: 100000 },
+        assumptionBuckets: [
+          {
+            id: 'bucket-1',
+            order: 0,
+            startAge: 35,
+            endAge: 999,
+            assumptions: {
+              annualIncome: 100000,
+              annualSpending: 30000,
+              contributions: { '401k': 60000, 'roth-ira': 14000 },
+            },
+          },
+        ],
+      });
+
+      const projection = calculateScenarioProjection(
+        scenario,
+        profile,
+        createTestAccounts(),
+        currentYear,
+        currentYear
+      );
+      const firstYear = projection.years[0];
+
+      // 23,500 for the user at 35 plus 34,750 for the partner at 61 (super catch-up)
+      expect(firstYear.contributions.byAccountType['401k']).toBeCloseTo(58250, 2);
+      expect(firstYear.contributions.byAccountType['roth-ira']).toBeCloseTo(14000, 2);
+      expect(firstYear.contributions.byAccountType['brokerage']).toBeCloseTo(1750, 2);
+      expect(projection.warnings).toEqual([
+        expect.objectContaining({ accountType: '401k', requested: 60000, limit: 58250 }),
+      ]);
+    });
+  });
+
+  describe('Employer Match', () => {
+    const currentYear = new Date().getFullYear();
+    const matchScenario = (employerMatch: object, endAge: number = 999) =>
+      createTestScenario({
+        investmentReturnRate: 0,
+        inflationRate: 0,
+        incomeGrowth: { type: 'fixed', rate: 0 },
+        assumptionBuckets: [
+          {
+            id: 'bucket-1',
+            order: 0,
+            startAge: 35,
+            endAge,
+            assumptions: {
+              annualIncome: 100000,
+              annualSpending: 50000,
+              contributions: { '401k': 6000 },
+              employerMatch,
+            },
+          },
+          ...(endAge < 999
+            ? [{ id: 'bucket-2', order: 1, startAge: endAge + 1, endAge: 999, assumptions: { annualSpending: 50000 } }]
+            : []),
+        ],
+      });
+
+    it('should add the employer match to the 401k without counting it as a contribution', () => {
+      const projection = calculateScenarioProjection(
+        matchScenario({ tiers: [{ matchPercent: 100, salaryPercent: 4 }, { matchPercent: 50, salaryPercent: 2 }] }),
+        createTestProfile(35),
+        createTestAccounts(),
+        currentYear,
+        currentYear
+      );
+      const firstYear = projection.years[0];
+
+      expect(firstYear.contributions.employer).toBeCloseTo(5000, 2);
+      expect(firstYear.contributions.total).toBeCloseTo(6000, 2);
+      expect(firstYear.accountBalances.byAccountType['401k']).toBeCloseTo(111000, 2);
+    });
+
+    it('should forfeit unvested employer contributions when the job ends', () => {
+      const projection = calculateScenarioProjection(
+        matchScenario({ nonElectivePercent: 3, vestingSchedule: [{ yearsOfService: 2, vestedPercent: 50 }] }, 36),
+        createTestProfile(35),
+        createTestAccounts(),
+        currentYear,
+        currentYear + 2
+      );
+      const [, secondYear, afterJob] = projection.years;
+
+      // Two years of service vest half of the $6,000 contributed
+      expect(secondYear.contributions.employer).toBeCloseTo(3000, 2);
+      expect(afterJob.contributions.employer).toBe(0);
+      expect(afterJob.contributions.employerForfeited).toBeCloseTo(3000, 2);
+    });
+  });
+
+  describe('Early Withdrawals', () => {
+    const currentYear = new Date().getFullYear();
+    const retiredScenario = (overrides?: Partial<Scenario>) =>
+      createTestScenario({
+        investmentReturnRate: 0,
+        inflationRate: 0,
+        assumptionBuckets: [
+          { id: 'bucket-1', order: 0, startAge: 30, endAge: 999, assumptions: { annualSpending: 30000 } },
+        ],
+        ...overrides,
+      });
+
+    it('should charge a 10% penalty on 401k withdrawals before 59½', () => {
+      const projection = calculateScenarioProjection(
+        retiredScenario(),
+        createTestProfile(40),
+        createTestAccounts(),
+        currentYear,
+        currentYear
+      );
+      const firstYear = projection.years[0];
+
+      expect(firstYear.withdrawals.penalized).toBeGreaterThan(20000);
+      expect(firstYear.spending.earlyWithdrawalPenalty).toBeCloseTo(firstYear.withdrawals.penalized * 0.1, 2);
+      expect(firstYear.spending.total).toBeCloseTo(
+        30000 + firstYear.spending.taxes + firstYear.spending.earlyWithdrawalPenalty,
+        2
+      );
+    });
+
+    it('should draw Roth IRA contributions before penalized accounts', () => {
+      const accounts: Account[] = [
+        ...createTestAccounts(),
+        {
+          id: 'roth-1',
+          userId: 'test-user-123',
+          accountType: 'roth-ira',
+          accountName: 'Roth IRA',
+          balance: 50000,
+          costBasis: 15000,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+      ];
+      const projection = calculateScenarioProjection(
+        retiredScenario(),
+        createTestProfile(40),
+        accounts,
+        currentYear,
+        currentYear
+      );
+      const firstYear = projection.years[0];
+
+      // $10k checking and $15k of contributions leave $5k plus penalty and tax for the 401(k)
+      expect(firstYear.withdrawals.byAccountType['roth-ira']).toBeCloseTo(15000, 2);
+      expect(firstYear.withdrawals.byAccountType['401k']).toBeGreaterThan(5000);
+      expect(firstYear.withdrawals.penalized).toBeCloseTo(firstYear.withdrawals.byAccountType['401k'], 2);
+    });
+
+    it('should waive the 401k penalty after leaving work at 55 or later', () => {
+      const profile = createTestProfile(55);
+      const ruleOf55 = calculateScenarioProjection(
+        retiredScenario({
+          assumptionBuckets: [
+            { id: 'bucket-1', order: 0, startAge: 30, endAge: 55, assumptions: { annualIncome: 35000, annualSpending: 30000 } },
+            { id: 'bucket-2', order: 1, startAge: 56, endAge: 999, assumptions: { annualSpending: 30000 } },
+          ],
+        }),
+        profile,
+        [createTestAccounts()[1]],
+        currentYear,
+        currentYear + 1
+      );
+      expect(ruleOf55.years[1].withdrawals.byAccountType['401k']).toBeGreaterThan(0);
+      expect(ruleOf55.years[1].spending.earlyWithdrawalPenalty).toBe(0);
+
+      // Retiring before 55 does not qualify
+      const earlyRetirement = calculateScenarioProjection(
+        retiredScenario({ retirementAge: 50 }),
+        profile,
+        createTestAccounts(),
+        currentYear,
+        currentYear
+      );
+      expect(earlyRetirement.years[0].spending.earlyWithdrawalPenalty).toBeGreaterThan(0);
+    });
+
+    it('should pay a 72(t) SEPP from the traditional IRA without penalty', () => {
+      const accounts: Account[] = [
+        createTestAccounts()[0],
+        {
+          id: 'ira-1',
+          userId: 'test-user-123',
+          accountType: 'traditional-ira',
+          accountName: 'IRA',
+          balance: 200000,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+      ];
+      const projection = calculateScenarioProjection(
+        retiredScenario({ seppPlan: { startAge: 40, annualAmount: 24000 } }),
+        createTestProfile(40),
+        accounts,
+        currentYear,
+        currentYear
+      );
+      const firstYear = projection.years[0];
+
+      expect(firstYear.withdrawals.sepp).toBe(24000);
+      expect(firstYear.withdrawals.penalized).toBe(0);
+      expect(firstYear.spending.earlyWithdrawalPenalty).toBe(0);
+      // Checking covers what the SEPP payment does not
+      expect(firstYear.withdrawals.byAccountType['checking']).toBeCloseTo(6000 + firstYear.spending.taxes, 2);
+    });
+
+    it('should withdraw Roth conversions penalty-free once they have seasoned five years', () => {
+      const accounts: Account[] = [
+        {
+          id: 'ira-1',
+          userId: 'test-user-123',
+          accountType: 'traditional-ira',
+          accountName: 'IRA',
+          balance: 200000,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+        {
+          id: 'roth-1',
+          userId: 'test-user-123',
+          accountType: 'roth-ira',
+          accountName: 'Roth IRA',
+          balance: 0,
+          costBasis: 0,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+      ];
+      const projection = calculateScenarioProjection(
+        retiredScenario({
+          assumptionBuckets: [
+            { id: 'bucket-1', order: 0, startAge: 30, endAge: 44, assumptions: { annualIncome: 60000, annualSpending: 30000 } },
+            { id: 'bucket-2', order: 1, startAge: 45, endAge: 999, assumptions: { annualSpending: 200000 } },
+          ],
+          rothConversions: [{ type: 'fixed', startAge: 40, endAge: 40, amount: 20000 }],
+        }),
+        createTestProfile(40),
+        accounts,
+        currentYear,
+        currentYear + 5
+      );
+      const atRetirement = projection.years[5];
+
+      // Savings from the working years run out, then the seasoned conversion comes out before the IRA
+      expect(atRetirement.withdrawals.byAccountType['roth-ira']).toBeCloseTo(20000, 2);
+      expect(atRetirement.withdrawals.byAccountType['traditional-ira']).toBeGreaterThan(0);
+      expect(atRetirement.withdrawals.penalized).toBeCloseTo(atRetirement.withdrawals.byAccountType['traditional-ira'], 2);
+    });
+  });
+
+  describe('Pensions and Annuities', () => {
+    const currentYear = new Date().getFullYear();
+    const pension: Pension = {
+      name: 'State Pension',
+      type: 'pension',
+      startAge: 65,
+      annualAmount: 30000,
+      colaType: 'fixed',
+      colaRate: 2,
+      survivorPercent: 50,
+      taxTreatment: 'taxable',
+    };
+
+    it('should pay pensions as their own income line from the start age', () => {
+      const scenario = createTestScenario({ inflationRate: 3, pensions: [pension] });
+      const projection = calculateScenarioProjection(
+        scenario,
+        createTestProfile(64),
+        createTestAccounts(),
+        currentYear,
+        currentYear + 2
+      );
+      const [beforeStart, firstYear, secondYear] = projection.years;
+
+      expect(beforeStart.income.pension).toBe(0);
+      // Actual dollars: not inflated before the first payment, then raised by the COLA only
+      expect(firstYear.income.pension).toBe(30000);
+      expect(secondYear.income.pension).toBeCloseTo(30600, 6);
+      expect(firstYear.income.byPension).toEqual([
+        { name: 'State Pension', recipient: 'self', amount: 30000, taxable: 30000, survivorBenefit: false },
+      ]);
+      expect(firstYear.income.reported).toBeCloseTo(
+        firstYear.income.employment + firstYear.income.socialSecurity + firstYear.income.pension,
+        6
+      );
+    });
+
+    it('should tax only the taxable part of a pension', () => {
+      const taxable = calculateScenarioProjection(
+        createTestScenario({ pensions: [pension] }),
+        createTestProfile(65),
+        createTestAccounts(),
+        currentYear,
+        currentYear
+      );
+      const taxFree = calculateScenarioProjection(
+        createTestScenario({ pensions: [{ ...pension, taxTreatment: 'tax-free' }] }),
+        createTestProfile(65),
+        createTestAccounts(),
+        currentYear,
+        currentYear
+      );
+
+      expect(taxable.years[0].taxes.grossIncome - taxFree.years[0].taxes.grossIncome).toBeCloseTo(30000, 0);
+    });
+
+    it('should pay the survivor percentage to the spouse after the owner dies', () => {
+      const profile: UserProfile = {
+        ...createTestProfile(70),
+        maritalStatus: 'married',
+        spouseDateOfBirth: `${currentYear - 68}-01-01`,
+      };
+      const projection = calculateScenarioProjection(
+        createTestScenario({ lifeExpectancy: 70, pensions: [{ ...pension, colaType: 'none' }] }),
+        profile,
+        createTestAccounts(),
+        currentYear,
+        currentYear + 1
+      );
+
+      expect(projection.years[0].income.pension).toBe(30000);
+      expect(projection.years[1].income.byPension).toEqual([
+        { name: 'State Pension', recipient: 'partner', amount: 15000, taxable: 15000, survivorBenefit: true },
+      ]);
+      expect(projection.years[1].partner?.pension).toBe(15000);
+    });
+  });
+
+  describe('Income Streams', () => {
+    const currentYear = new Date().getFullYear();
+    const consulting: IncomeStream = {
+      name: 'Consulting',
+      startAge: 66,
+      endAge: 67,
+      annualAmount: 30000,
+      taxCharacter: 'w2',
+    };
+
+    it('should add income streams between their ages, grown from today\'s dollars', () => {
+      const projection = calculateScenarioProjection(
+        createTestScenario({ inflationRate: 3, incomeStreams: [consulting, { ...consulting, growthRate: 0 }] }),
+        createTestProfile(65),
+        createTestAccounts(),
+        currentYear,
+        currentYear + 3
+      );
+      const [beforeStart, firstYear, secondYear, afterEnd] = projection.years;
+
+      expect(beforeStart.income.incomeStreams).toBe(0);
+      expect(firstYear.income.incomeStreams).toBeCloseTo(30000 * Math.pow(1.03, 2) + 30000, 6);
+      expect(secondYear.income.incomeStreams).toBeCloseTo(30000 * Math.pow(1.03, 3) + 30000, 6);
+      expect(afterEnd.income.incomeStreams).toBe(0);
+      expect(firstYear.income.reported).toBeCloseTo(
+        firstYear.income.employment + firstYear.income.socialSecurity + firstYear.income.incomeStreams,
+        6
+      );
+    });
+
+    it('should tax each stream by its tax character', () => {
+      const project = (stream: IncomeStream) =>
+        calculateScenarioProjection(
+          createTestScenario({ inflationRate: 0, incomeStreams: [{ ...stream, startAge: 40 }] }),
+          createTestProfile(40),
+          createTestAccounts(),
+          currentYear,
+          currentYear
+        ).years[0].taxes;
+      const w2 = project(consulting);
+      const selfEmployment = project({ ...consulting, taxCharacter: 'self-employment' });
+      const dividends = project({ ...consulting, taxCharacter: 'qualified-dividends' });
+
+      expect(w2.selfEmploymentTax).toBe(0);
+      expect(selfEmployment.selfEmploymentTax).toBeCloseTo(30000 * 0.9235 * 0.153, 2);
+      expect(selfEmployment.federal).toBeGreaterThan(w2.federal);
+      // Qualified dividends are taxed at capital gains rates, below the 22% bracket
+      expect(dividends.capitalGainsTax).toBeCloseTo(30000 * 0.15, 2);
+      expect(dividends.federal).toBeLessThan(w2.federal);
+    });
+
+    it('should save a stream with a target account as a contribution', () => {
+      const projection = calculateScenarioProjection(
+        createTestScenario({
+          inflationRate: 0,
+          incomeStreams: [{ ...consulting, startAge: 40, annualAmount: 5000, targetAccount: 'roth-ira' }],
+        }),
+        createTestProfile(40),
+        createTestAccounts(),
+        currentYear,
+        currentYear
+      );
+      const year = projection.years[0];
+
+      expect(year.income.incomeStreams).toBe(5000);
+      expect(year.contributions.byAccountType['roth-ira']).toBe(5000);
+    });
+  });
+
+  describe('Real Estate', () => {
+    const currentYear = new Date().getFullYear();
+    // Interest-free loan paying $10,000 of principal a year: $190,000 left after this year
+    const mortgage = {
+      id: 'home-loan',
+      name: 'Home Loan',
+      startDate: `${currentYear - 10}-01-01`,
+      loanAmount: 300000,
+      termYears: 30,
+      interestRate: 0,
+      monthlyEscrow: 0,
+    };
+    const home: Property = {
+      name: 'Primary Home',
+      purchasePrice: 300000,
+      currentValue: 500000,
+      appreciationRate: 3,
+      annualPropertyTax: 6000,
+      annualMaintenance: 4000,
+      primaryResidence: true,
+      mortgageId: 'home-loan',
+    };
+
+    it('should count home equity in net worth and property costs in spending', () => {
       const projection = calculateScenarioProjection(
-        scenario,
-        profile,
-        accounts,
+        createTestScenario({ inflationRate: 3, mortgages: [mortgage], properties: [home] }),
+        createTestProfile(65),
+        createTestAccounts(),
         currentYear,
-        currentYear + 1
+        currentYear
+      );
+      const year = projection.years[0];
+
+      expect(year.realEstate.value).toBeCloseTo(515000, 6);
+      expect(year.realEstate.equity).toBeCloseTo(515000 - 190000, 4);
+      expect(year.accountBalances.netWorth).toBeCloseTo(year.accountBalances.total + year.realEstate.equity, 6);
+      expect(year.spending.realEstate).toBeCloseTo(10300, 6);
+      expect(year.spending.total).toBeCloseTo(
+        year.spending.living +
+          year.spending.travel +
+          year.spending.healthcare +
+          year.spending.mortgages +
+          year.spending.realEstate +
+          year.spending.taxes,
+        6
       );
+    });
 
-      const firstYear = projection.years[0];
+    it('should pay off the linked mortgage and deposit the proceeds on a sale', () => {
+      const project = (property: Property) =>
+        calculateScenarioProjection(
+          createTestScenario({ inflationRate: 3, mortgages: [mortgage], properties: [property] }),
+          createTestProfile(65),
+          createTestAccounts(),
+          currentYear,
+          currentYear + 1
+        );
+      const kept = project(home);
+      const sold = project({ ...home, saleAge: 65, proceedsAccount: 'brokerage' });
+      const [saleYear, nextYear] = sold.years;
+
+      // $515,000 less 6% selling costs and the $190,000 payoff
+      expect(saleYear.realEstate.saleProceeds).toBeCloseTo(294100, 4);
+      // The $184,100 gain is under the $250,000 Section 121 exclusion
+      expect(saleYear.realEstate.taxableGain).toBe(0);
+      expect(
+        saleYear.accountBalances.byAccountType.brokerage - kept.years[0].accountBalances.byAccountType.brokerage
+      ).toBeCloseTo(294100, 4);
+      expect(saleYear.realEstate.equity).toBe(0);
+      expect(nextYear.spending.mortgages).toBe(0);
+      expect(nextYear.spending.realEstate).toBe(0);
+      expect(nextYear.realEstate.byProperty).toEqual([]);
+      expect(kept.years[1].spending.mortgages).toBeCloseTo(10000, 4);
+    });
 
-      // 401k should have starting balance + contribution
-      expect(firstYear.accountBalances.byAccountType['401k']).toBeCloseTo(120000, 0);
-      expect(firstYear.contributions.byAccountType['401k']).toBeCloseTo(20000, 0);
+    it('should tax the gain on a property that is not a primary residence', () => {
+      const projection = calculateScenarioProjection(
+        createTestScenario({
+          inflationRate: 3,
+          mortgages: [mortgage],
+          properties: [{ ...home, primaryResidence: false, saleAge: 65 }],
+        }),
+        createTestProfile(65),
+        createTestAccounts(),
+        currentYear,
+        currentYear
+      );
+
+      expect(projection.years[0].realEstate.taxableGain).toBeCloseTo(184100, 4);
+      expect(projection.years[0].taxes.capitalGainsTax).toBeGreaterThan(0);
     });
 
-    it('should apply inflation to contributions', () => {
-      const profile = createTestProfile(35);
-      const accounts = createTestAccounts();
-      const scenario = createTestScenario({
-        inflationRate: 3,
-        investmentReturnRate: 0,
-        assumptionBuckets: [
-          {
-            id: 'bucket-1',
-            order: 0,
-            startAge: 35,
-            endAge: 999,
-            assumptions: {
-              annualIncome: 100000,
-              annualSpending: 40000,
-              contributions: {
-                '401k': 20000,
-              },
+    it('should add rent after vacancy to income', () => {
+      const projection = calculateScenarioProjection(
+        createTestScenario({
+          inflationRate: 0,
+          properties: [
+            {
+              name: 'Duplex',
+              purchasePrice: 200000,
+              currentValue: 300000,
+              appreciationRate: 0,
+              annualRentalIncome: 24000,
+              vacancyRate: 10,
             },
-          },
-        ],
-      });
-      const currentYear = new Date().getFullYear();
+          ],
+        }),
+        createTestProfile(65),
+        createTestAccounts(),
+        currentYear,
+        currentYear
+      );
+      const year = projection.years[0];
+
+      expect(year.income.rental).toBeCloseTo(21600, 6);
+      expect(year.income.reported).toBeCloseTo(
+        year.income.employment + year.income.socialSecurity + year.income.rental,
+        6
+      );
+      expect(year.accountBalances.netWorth).toBeCloseTo(year.accountBalances.total + 300000, 6);
+    });
+  });
+
+  describe('Liabilities', () => {
+    const currentYear = new Date().getFullYear();
+    const carLoan: Liability = {
+      id: 'car-loan',
+      userId: 'test-user-123',
+      liabilityType: 'auto',
+      liabilityName: 'Car Loan',
+      balance: 12000,
+      apr: 0,
+      minimumPayment: 500,
+      asOfDate: '2025-01-01',
+      status: 'active',
+    };
+    const studentLoan: Liability = {
+      ...carLoan,
+      id: 'student-loan',
+      liabilityType: 'student',
+      liabilityName: 'Student Loans',
+      balance: 50000,
+      minimumPayment: 1000,
+      repaymentPlan: 'income-driven',
+    };
 
+    it('should pay debts as spending and subtract balances from net worth', () => {
       const projection = calculateScenarioProjection(
-        scenario,
-        profile,
-        accounts,
+        createTestScenario(),
+        createTestProfile(35),
+        createTestAccounts(),
         currentYear,
-        currentYear + 10
+        currentYear + 2,
+        { liabilities: [carLoan, { ...carLoan, id: 'old-card', status: 'paid-off' }] }
+      );
+      const [firstYear, secondYear, thirdYear] = projection.years;
+
+      expect(firstYear.spending.liabilities).toBe(6000);
+      expect(firstYear.liabilities.balance).toBe(6000);
+      expect(firstYear.liabilities.byLiability.map((payment) => payment.liabilityId)).toEqual(['car-loan']);
+      expect(firstYear.accountBalances.netWorth).toBeCloseTo(firstYear.accountBalances.total - 6000, 6);
+      expect(firstYear.spending.total).toBeCloseTo(
+        firstYear.spending.living +
+          firstYear.spending.travel +
+          firstYear.spending.healthcare +
+          firstYear.spending.mortgages +
+          firstYear.spending.realEstate +
+          firstYear.spending.liabilities +
+          firstYear.spending.taxes,
+        6
       );
+      expect(secondYear.liabilities.balance).toBe(0);
+      expect(secondYear.accountBalances.netWorth).toBeCloseTo(secondYear.accountBalances.total, 6);
+      expect(thirdYear.spending.liabilities).toBe(0);
+      expect(thirdYear.liabilities.byLiability).toEqual([]);
+    });
 
-      // Contributions should increase with inflation
-      const year1Contribution = projection.years[0].contributions.byAccountType['401k'];
-      const year10Contribution = projection.years[9].contributions.byAccountType['401k'];
+    it('should pay each month\'s debt payments in monthly resolution', () => {
+      const projection = calculateScenarioProjection(
+        createTestScenario(),
+        createTestProfile(35),
+        createTestAccounts(),
+        currentYear,
+        currentYear,
+        { liabilities: [{ ...carLoan, balance: 1000, minimumPayment: 300 }], resolution: 'monthly' }
+      );
+      const months = projection.months!;
 
-      // After 10 years at 3% inflation: 1.03^10 = 1.344
-      const expectedIncrease = Math.pow(1.03, 9);
-      const actualIncrease = year10Contribution / year1Contribution;
+      expect(projection.years[0].spending.liabilities).toBe(1000);
+      expect(months[0].spending - months[4].spending).toBeCloseTo(300, 6);
+      expect(months[3].spending - months[4].spending).toBeCloseTo(100, 6);
+    });
 
-      expect(actualIncrease).toBeCloseTo(expectedIncrease, 2);
+    it('should base income-driven student loan payments on discretionary income', () => {
+      const project = (loan: Liability) =>
+        calculateScenarioProjection(
+          createTestScenario(),
+          createTestProfile(35),
+          createTestAccounts(),
+          currentYear,
+          currentYear,
+          { liabilities: [loan] }
+        ).years[0];
+
+      // AGI is $102,000 of wages (2% income growth) less $20,600 of 401(k) contributions; the
+      // contributions and the poverty guideline are inflated 3% in the first year
+      const discretionaryIncome = 102000 - 20600 - 1.5 * 15650 * 1.03;
+      expect(project(studentLoan).spending.liabilities).toBeCloseTo(discretionaryIncome * 0.1, 4);
+      expect(project({ ...studentLoan, idrPercent: 5 }).spending.liabilities).toBeCloseTo(
+        discretionaryIncome * 0.05,
+        4
+      );
+      // Never more than the standard payment
+      expect(project({ ...studentLoan, minimumPayment: 400 }).spending.liabilities).toBe(4800);
+      expect(project({ ...studentLoan, repaymentPlan: 'standard' }).spending.liabilities).toBe(12000);
+    });
+
+    it('should forgive and tax the balance left at the end of an income-driven plan', () => {
+      const project = (forgivenessYears: number) =>
+        calculateScenarioProjection(
+          createTestScenario(),
+          createTestProfile(35),
+          createTestAccounts(),
+          currentYear,
+          currentYear,
+          { liabilities: [{ ...studentLoan, forgivenessYears }] }
+        ).years[0];
+      const forgiven = project(1);
+      const repaying = project(2);
+
+      expect(forgiven.liabilities.forgiven).toBeCloseTo(50000 - forgiven.liabilities.payments, 4);
+      expect(forgiven.liabilities.balance).toBe(0);
+      expect(repaying.liabilities.forgiven).toBe(0);
+      expect(forgiven.taxes.federal).toBeGreaterThan(repaying.taxes.federal);
     });
   });
 
@@ -782,6 +2545,401 @@ describe('Projection Calculator', () => {
     });
   });
 
+  describe('Income Taxes', () => {
+    it('should count federal income tax as spending', () => {
+      const profile = createTestProfile(35);
+      const accounts = createTestAccounts();
+      const scenario = createTestScenario();
+      const currentYear = new Date().getFullYear();
+
+      const projection = calculateScenarioProjection(
+        scenario,
+        profile,
+        accounts,
+        currentYear,
+        currentYear
+      );
+
+      const firstYear = projection.years[0];
+
+      expect(firstYear.taxes.federal).toBeGreaterThan(0);
+      expect(firstYear.spending.taxes).toBe(firstYear.taxes.total);
+      expect(firstYear.spending.total).toBeCloseTo(
+        firstYear.spending.living + firstYear.spending.travel + firstYear.spending.healthcare +
+        firstYear.spending.lumpSum + firstYear.spending.mortgages + firstYear.spending.taxes,
+        2
+      );
+      expect(projection.summary.totalTaxes).toBeCloseTo(firstYear.taxes.total, 2);
+    });
+
+    it('should exclude pre-tax 401k contributions from taxable income', () => {
+      const profile = createTestProfile(35);
+      const accounts = createTestAccounts();
+      const currentYear = new Date().getFullYear();
+      const withoutContribution = calculateScenarioProjection(
+        createTestScenario({
+          assumptionBuckets: [
+            { id: 'b', order: 0, startAge: 35, endAge: 999, assumptions: { annualIncome: 100000 } },
+          ],
+        }),
+        profile,
+        accounts,
+        currentYear,
+        currentYear
+      ).years[0];
+      const withContribution = calculateScenarioProjection(
+        createTestScenario({
+          assumptionBuckets: [
+            {
+              id: 'b',
+              order: 0,
+              startAge: 35,
+              endAge: 999,
+              assumptions: { annualIncome: 100000, contributions: { '401k': 20000 } },
+            },
+          ],
+        }),
+        profile,
+        accounts,
+        currentYear,
+        currentYear
+      ).years[0];
+
+      expect(withoutContribution.taxes.grossIncome - withContribution.taxes.grossIncome).toBeCloseTo(
+        withContribution.contributions.byAccountType['401k'],
+        2
+      );
+      expect(withContribution.taxes.federal).toBeLessThan(withoutContribution.taxes.federal);
+    });
+
+    it('should withdraw extra from tax-deferred accounts to pay the tax on withdrawals', () => {
+      const profile = createTestProfile(60);
+      const accounts: Account[] = [
+        {
+          id: 'ira-1',
+          userId: 'test-user-123',
+          accountType: 'traditional-ira',
+          accountName: 'IRA',
+          balance: 1000000,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+      ];
+      const scenario = createTestScenario({
+        socialSecurityAge: 70,
+        investmentReturnRate: 0,
+        inflationRate: 0,
+        assumptionBuckets: [
+          { id: 'b', order: 0, startAge: 60, endAge: 999, assumptions: { annualIncome: 0, annualSpending: 80000 } },
+        ],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const firstYear = calculateScenarioProjection(
+        scenario,
+        profile,
+        accounts,
+        currentYear,
+        currentYear
+      ).years[0];
+
+      // Withdrawals cover spending plus the tax owed on the withdrawals themselves
+      expect(firstYear.taxes.grossIncome).toBeCloseTo(firstYear.income.withdrawals, 0);
+      expect(firstYear.income.withdrawals).toBeCloseTo(80000 + firstYear.taxes.total, 0);
+      expect(firstYear.accountBalances.byAccountType['traditional-ira']).toBeCloseTo(
+        1000000 - firstYear.income.withdrawals,
+        0
+      );
+    });
+
+    it('should tax married couples at joint rates', () => {
+      const accounts = createTestAccounts();
+      const scenario = createTestScenario();
+      const currentYear = new Date().getFullYear();
+
+      const single = calculateScenarioProjection(
+        scenario,
+        createTestProfile(35),
+        accounts,
+        currentYear,
+        currentYear
+      ).years[0];
+      const married = calculateScenarioProjection(
+        scenario,
+        { ...createTestProfile(35), maritalStatus: 'married' },
+        accounts,
+        currentYear,
+        currentYear
+      ).years[0];
+
+      expect(single.taxes.filingStatus).toBe('single');
+      expect(married.taxes.filingStatus).toBe('married-filing-jointly');
+      expect(married.taxes.federal).toBeLessThan(single.taxes.federal);
+    });
+
+    it('should report state income tax as its own line', () => {
+      const accounts = createTestAccounts();
+      const scenario = createTestScenario();
+      const currentYear = new Date().getFullYear();
+
+      const california = calculateScenarioProjection(
+        scenario,
+        { ...createTestProfile(35), stateOfResidence: 'CA' },
+        accounts,
+        currentYear,
+        currentYear
+      ).years[0];
+      const texas = calculateScenarioProjection(
+        scenario,
+        { ...createTestProfile(35), stateOfResidence: 'TX' },
+        accounts,
+        currentYear,
+        currentYear
+      ).years[0];
+
+      expect(california.taxes.stateOfResidence).toBe('CA');
+      expect(california.taxes.state).toBeGreaterThan(0);
+      expect(california.taxes.total).toBeCloseTo(california.taxes.federal + california.taxes.state, 2);
+      expect(texas.taxes.state).toBe(0);
+      expect(texas.taxes.federal).toBeCloseTo(california.taxes.federal, 2);
+    });
+
+    it('should tax only the gain portion of brokerage withdrawals', () => {
+      const profile = createTestProfile(50);
+      const createBrokerage = (costBasis: number): Account[] => [
+        {
+          id: 'brokerage-1',
+          userId: 'test-user-123',
+          accountType: 'brokerage',
+          accountName: 'Taxable',
+          balance: 1000000,
+          costBasis,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+      ];
+      const scenario = createTestScenario({
+        socialSecurityAge: 70,
+        investmentReturnRate: 0,
+        inflationRate: 0,
+        assumptionBuckets: [
+          { id: 'b', order: 0, startAge: 50, endAge: 999, assumptions: { annualIncome: 0, annualSpending: 200000 } },
+        ],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const allBasis = calculateScenarioProjection(
+        scenario,
+        profile,
+        createBrokerage(1000000),
+        currentYear,
+        currentYear
+      ).years[0];
+      const halfGain = calculateScenarioProjection(
+        scenario,
+        profile,
+        createBrokerage(500000),
+        currentYear,
+        currentYear
+      ).years[0];
+
+      expect(allBasis.taxes.capitalGains).toBe(0);
+      expect(allBasis.taxes.total).toBe(0);
+      expect(allBasis.accountBalances.brokerageCostBasis).toBeCloseTo(800000, 0);
+
+      // Half of every dollar withdrawn is gain
+      expect(halfGain.taxes.capitalGains).toBeCloseTo(halfGain.income.withdrawals / 2, 0);
+      expect(halfGain.taxes.capitalGainsTax).toBeGreaterThan(0);
+      expect(halfGain.income.withdrawals).toBeCloseTo(200000 + halfGain.taxes.total, 0);
+      expect(halfGain.accountBalances.brokerageCostBasis).toBeCloseTo(
+        500000 - halfGain.income.withdrawals / 2,
+        0
+      );
+    });
+
+    it('should add brokerage contributions to cost basis but not investment gains', () => {
+      const profile = createTestProfile(35);
+      const accounts: Account[] = [
+        {
+          id: 'brokerage-1',
+          userId: 'test-user-123',
+          accountType: 'brokerage',
+          accountName: 'Taxable',
+          balance: 100000,
+          costBasis: 80000,
+          asOfDate: '2025-01-01',
+          status: 'active',
+        },
+      ];
+      const scenario = createTestScenario({
+        inflationRate: 0,
+        assumptionBuckets: [
+          {
+            id: 'b',
+            order: 0,
+            startAge: 35,
+            endAge: 999,
+            assumptions: { annualIncome: 100000, annualSpending: 40000, contributions: { brokerage: 10000 } },
+          },
+        ],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const firstYear = calculateScenarioProjection(
+        scenario,
+        profile,
+        accounts,
+        currentYear,
+        currentYear
+      ).years[0];
+
+      expect(firstYear.income.investmentGains).toBeGreaterThan(0);
+      expect(firstYear.accountBalances.brokerageCostBasis).toBeCloseTo(90000, 2);
+      expect(firstYear.taxes.capitalGains).toBe(0);
+    });
+
+    it('should give each qualifying spouse their own state retirement exclusion', () => {
+      const currentYear = new Date().getFullYear();
+      const pensions: Pension[] = [
+        { name: 'Pension', type: 'pension', startAge: 60, annualAmount: 50000, colaType: 'none', taxTreatment: 'taxable' },
+        {
+          name: 'Spouse Pension',
+          type: 'pension',
+          owner: 'partner',
+          startAge: 60,
+          annualAmount: 40000,
+          colaType: 'none',
+          taxTreatment: 'taxable',
+        },
+      ];
+      const projectForSpouseAge = (partnerAge: number) =>
+        calculateScenarioProjection(
+          createTestScenario({ pensions }),
+          {
+            ...createTestProfile(66),
+            maritalStatus: 'married',
+            spouseDateOfBirth: `${currentYear - partnerAge}-01-01`,
+            stateOfResidence: 'GA',
+          },
+          createTestAccounts(),
+          currentYear,
+          currentYear
+        ).years[0];
+
+      // Georgia excludes up to $65k of each taxpayer's retirement income from 65
+      const bothQualify = projectForSpouseAge(66);
+      expect(bothQualify.taxes.stateTaxableIncome).toBe(0);
+      expect(bothQualify.taxes.state).toBe(0);
+
+      // A 62-year-old spouse's $40k pension is taxed after the joint deduction
+      const userQualifies = projectForSpouseAge(62);
+      expect(userQualifies.taxes.stateTaxableIncome).toBeCloseTo(40000 - 24000 * 1.03, 2);
+    });
+
+    it('should switch states at the scenario relocation age', () => {
+      const profile = { ...createTestProfile(35), stateOfResidence: 'CA' as const };
+      const scenario = createTestScenario({ relocationAge: 37, relocationState: 'TX' });
+      const currentYear = new Date().getFullYear();
+
+      const projection = calculateScenarioProjection(
+        scenario,
+        profile,
+        createTestAccounts(),
+        currentYear,
+        currentYear + 3
+      );
+
+      const beforeMove = projection.years.find((y) => y.age === 36)!;
+      const afterMove = projection.years.find((y) => y.age === 37)!;
+      expect(beforeMove.taxes.stateOfResidence).toBe('CA');
+      expect(beforeMove.taxes.state).toBeGreaterThan(0);
+      expect(afterMove.taxes.stateOfResidence).toBe('TX');
+      expect(afterMove.taxes.state).toBe(0);
+    });
+  });
+
+  describe('Roth Conversions', () => {
+    const createConversionAccounts = (): Account[] => [
+      {
+        id: 'checking-1',
+        userId: 'test-user-123',
+        accountType: 'checking',
+        accountName: 'Checking',
+        balance: 100000,
+        asOfDate: '2025-01-01',
+        status: 'active',
+      },
+      {
+        id: 'ira-1',
+        userId: 'test-user-123',
+        accountType: 'traditional-ira',
+        accountName: 'IRA',
+        balance: 500000,
+        asOfDate: '2025-01-01',
+        status: 'active',
+      },
+    ];
+
+    const createConversionScenario = (overrides?: Partial<Scenario>): Scenario =>
+      createTestScenario({
+        socialSecurityIncome: 0,
+        investmentReturnRate: 0,
+        inflationRate: 0,
+        assumptionBuckets: [
+          {
+            id: 'bucket-1',
+            order: 0,
+            startAge: 60,
+            endAge: 999,
+            assumptions: { annualIncome: 0, annualSpending: 0 },
+          },
+        ],
+        ...overrides,
+      });
+
+    it('should convert up to the top of the bracket', () => {
+      const scenario = createConversionScenario({
+        rothConversions: [{ type: 'fill-bracket', startAge: 60, endAge: 64, bracketRate: 12 }],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const firstYear = calculateScenarioProjection(
+        scenario,
+        createTestProfile(60),
+        createConversionAccounts(),
+        currentYear,
+        currentYear
+      ).years[0];
+
+      // Standard deduction (15,750) plus the 12% bracket top (48,475)
+      expect(firstYear.rothConversion).toBeCloseTo(64225, 2);
+      expect(firstYear.taxes.taxableIncome).toBeCloseTo(48475, 2);
+      expect(firstYear.accountBalances.byAccountType['roth-ira']).toBeCloseTo(64225, 2);
+      expect(firstYear.accountBalances.byAccountType['traditional-ira']).toBeCloseTo(500000 - 64225, 2);
+      // Conversion tax is paid from checking, not from the converted amount
+      expect(firstYear.accountBalances.byAccountType.checking).toBeCloseTo(100000 - firstYear.taxes.total, 2);
+    });
+
+    it('should convert a fixed amount only within the plan ages', () => {
+      const scenario = createConversionScenario({
+        rothConversions: [{ type: 'fixed', startAge: 60, endAge: 60, amount: 20000 }],
+      });
+      const currentYear = new Date().getFullYear();
+
+      const projection = calculateScenarioProjection(
+        scenario,
+        createTestProfile(60),
+        createConversionAccounts(),
+        currentYear,
+        currentYear + 1
+      );
+
+      expect(projection.years[0].rothConversion).toBeCloseTo(20000, 2);
+      expect(projection.years[0].taxes.taxableIncome).toBeCloseTo(20000 - 15750, 2);
+      expect(projection.years[1].rothConversion).toBe(0);
+    });
+  });
+
   describe('Projection Summary', () => {
     it('should calculate summary correctly', () => {
       const profile = createTestProfile(35);
@@ -5,6 +5,7 @@ import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { UserProfile } from './types/profile';
 import { Account, calculateAccountSummary, getAccountCategory } from './types/accounts';
+import { Liability } from './types/liabilities';
 import { Scenario } from './types/scenarios';
 import OnboardingModal from './components/OnboardingModal';
 
@@ -12,6 +13,7 @@ export default function Dashboard() {
   const { data: session, status } = useSession();
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [accounts, setAccounts] = useState<Account[]>([]);
+  const [liabilities, setLiabilities] = useState<Liability[]>([]);
   const [defaultScenario, setDefaultScenario] = useState<Scenario | null>(null);
   const [loading, setLoading] = useState(true);
   const [showOnboardingModal, setShowOnboardingModal] = useState(false);
@@ -26,15 +28,17 @@ export default function Dashboard() {
     try {
       setLoading(true);
 
-      // Fetch profile, accounts, and scenarios in parallel
-      const [profileRes, accountsRes, scenariosRes] = await Promise.all([
+      // Fetch profile, accounts, liabilities, and scenarios in parallel
+      const [profileRes, accountsRes, liabilitiesRes, scenariosRes] = await Promise.all([
         fetch('/api/profile'),
         fetch('/api/accounts'),
+        fetch('/api/liabilities'),
         fetch('/api/scenarios'),
       ]);
 
       const profileData = await profileRes.json();
       const accountsData = await accountsRes.json();
+      const liabilitiesData = await liabilitiesRes.json();
       const scenariosData = await scenariosRes.json();
 
       if (profileData.success && profileData.profile) {
@@ -45,6 +49,10 @@ export default function Dashboard() {
         setAccounts(accountsData.accounts);
       }
 
+      if (liabilitiesData.success && liabilitiesData.liabilities) {
+        setLiabilities(liabilitiesData.liabilities);
+      }
+
       if (scenariosData.success && scenariosData.scenarios) {
         // Find the default scenario
         const defaultScen = scenariosData.scenarios.find((s: Scenario) => s.isDefault);
@@ -157,7 +165,7 @@ export default function Dashboard() {
   const hasProfile = profile !== null;
   const hasAccounts = accounts.length > 0;
   const activeAccounts = accounts.filter((a) => a.status === 'active');
-  const summary = hasAccounts ? calculateAccountSummary(activeAccounts) : null;
+  const summary = hasAccounts ? calculateAccountSummary(activeAccounts, liabilities) : null;
 
   // Check which account categories are missing
   const hasRetirement = activeAccounts.some((a) => getAccountCategory(a.accountType) === 'retirement');
@@ -475,6 +483,9 @@ export default function Dashboard() {
           </div>
           <div className="text-sm text-zinc-600 dark:text-zinc-400 mt-2">
             {activeAccounts.length} accounts
+            {summary && summary.totalLiabilities > 0 && (
+              <> &middot; ${summary.totalLiabilities.toLocaleString()} owed</>
+            )}
           </div>
         </div>
 
@@ -547,7 +558,7 @@ export default function Dashboard() {
               <div className="grid md:grid-cols-3 gap-4 mb-4">
                 <div className="bg-white/80 dark:bg-zinc-900/80 p-4 rounded-lg">
                   <div className="text-sm text-zinc-600 dark:text-zinc-400 mb-1">
-                    Final Balance (Age {lastYear.age})
+                    Final Net Worth (Age {lastYear.age})
                   </div>
                   <div className="text-2xl font-bold text-zinc-900 dark:text-white">
                     ${Math.round(finalNetWorth).toLocaleString()}
@@ -634,8 +645,8 @@ export default function Dashboard() {
               <div className="flex justify-between mb-2">
                 <span className="text-zinc-900 dark:text-white">Retirement</span>
                 <span className="text-zinc-600 dark:text-zinc-400">
-                  {summary && summary.totalNetWorth > 0
-                    ? Math.round((summary.totalRetirement / summary.totalNetWorth) * 100)
+                  {summary && summary.totalAssets > 0
+                    ? Math.round((summary.totalRetirement / summary.totalAssets) * 100)
                     : 0}%
                 </span>
               </div>
@@ -643,7 +654,7 @@ export default function Dashboard() {
                 <div
                   className="bg-green-600 h-2 rounded-full"
                   style={{
-                    width: `${summary && summary.totalNetWorth > 0 ? (summary.totalRetirement / summary.totalNetWorth) * 100 : 0}%`,
+                    width: `${summary && summary.totalAssets > 0 ? (summary.totalRetirement / summary.totalAssets) * 100 : 0}%`,
                   }}
                 ></div>
               </div>
@@ -652,8 +663,8 @@ export default function Dashboard() {
               <div className="flex justify-between mb-2">
                 <span className="text-zinc-900 dark:text-white">Investment</span>
                 <span className="text-zinc-600 dark:text-zinc-400">
-                  {summary && summary.totalNetWorth > 0
-                    ? Math.round((summary.totalInvestment / summary.totalNetWorth) * 100)
+                  {summary && summary.totalAssets > 0
+                    ? Math.round((summary.totalInvestment / summary.totalAssets) * 100)
                     : 0}%
                 </span>
               </div>
@@ -661,7 +672,7 @@ export default function Dashboard() {
                 <div
                   className="bg-blue-600 h-2 rounded-full"
                   style={{
-                    width: `${summary && summary.totalNetWorth > 0 ? (summary.totalInvestment / summary.totalNetWorth) * 100 : 0}%`,
+                    width: `${summary && summary.totalAssets > 0 ? (summary.totalInvestment / summary.totalAssets) * 100 : 0}%`,
                   }}
                 ></div>
               </div>
@@ -670,8 +681,8 @@ export default function Dashboard() {
               <div className="flex justify-between mb-2">
                 <span className="text-zinc-900 dark:text-white">Cash</span>
                 <span className="text-zinc-600 dark:text-zinc-400">
-                  {summary && summary.totalNetWorth > 0
-                    ? Math.round((summary.totalCash / summary.totalNetWorth) * 100)
+                  {summary && summary.totalAssets > 0
+                    ? Math.round((summary.totalCash / summary.totalAssets) * 100)
                     : 0}%
                 </span>
               </div>
@@ -679,7 +690,7 @@ export default function Dashboard() {
                 <div
                   className="bg-purple-600 h-2 rounded-full"
                   style={{
-                    width: `${summary && summary.totalNetWorth > 0 ? (summary.totalCash / summary.totalNetWorth) * 100 : 0}%`,
+                    width: `${summary && summary.totalAssets > 0 ? (summary.totalCash / summary.totalAssets) * 100 : 0}%`,
                   }}
                 ></div>
               </div>
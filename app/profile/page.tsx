@@ -3,7 +3,9 @@
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
-import { UserProfile, MaritalStatus } from '../types/profile';
+import { UserProfile, MaritalStatus, Sex, HealthStatus } from '../types/profile';
+import { StateCode, STATE_TAX_RULES } from '../types/stateTaxes';
+import { SsaEarningsRecord } from '../types/ssaEarnings';
 
 export default function ProfilePage() {
   const { data: session, status } = useSession();
@@ -18,7 +20,17 @@ export default function ProfilePage() {
   const [firstname, setFirstname] = useState('');
   const [dateOfBirth, setDateOfBirth] = useState('');
   const [maritalStatus, setMaritalStatus] = useState<MaritalStatus>('single');
+  const [spouseDateOfBirth, setSpouseDateOfBirth] = useState('');
   const [numberOfDependents, setNumberOfDependents] = useState(0);
+  const [stateOfResidence, setStateOfResidence] = useState<StateCode | ''>('');
+  const [sex, setSex] = useState<Sex | ''>('');
+  const [healthStatus, setHealthStatus] = useState<HealthStatus>('average');
+  const [smoker, setSmoker] = useState(false);
+
+  // SSA earnings record
+  const [earningsRecord, setEarningsRecord] = useState<SsaEarningsRecord | null>(null);
+  const [earningsError, setEarningsError] = useState<string | null>(null);
+  const [importingEarnings, setImportingEarnings] = useState(false);
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -29,6 +41,7 @@ export default function ProfilePage() {
   useEffect(() => {
     if (session?.user?.email) {
       fetchProfile();
+      fetchEarnings();
     }
   }, [session]);
 
@@ -42,7 +55,12 @@ export default function ProfilePage() {
         setFirstname(data.profile.firstname);
         setDateOfBirth(data.profile.dateOfBirth);
         setMaritalStatus(data.profile.maritalStatus);
+        setSpouseDateOfBirth(data.profile.spouseDateOfBirth || '');
         setNumberOfDependents(data.profile.numberOfDependents);
+        setStateOfResidence(data.profile.stateOfResidence || '');
+        setSex(data.profile.sex || '');
+        setHealthStatus(data.profile.healthStatus || 'average');
+        setSmoker(data.profile.smoker || false);
       }
     } catch (err) {
       setError('Failed to load profile');
@@ -51,6 +69,72 @@ export default function ProfilePage() {
     }
   };
 
+  const fetchEarnings = async () => {
+    try {
+      const response = await fetch('/api/ssa-earnings');
+      const data = await response.json();
+
+      if (data.success) {
+        setEarningsRecord(data.earningsRecord || null);
+      }
+    } catch {
+      setEarningsError('Failed to load SSA earnings');
+    }
+  };
+
+  const handleEarningsUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setEarningsError(null);
+    setImportingEarnings(true);
+
+    try {
+      const response = await fetch('/api/ssa-earnings', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ content: await file.text() }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to import SSA earnings');
+      }
+
+      setEarningsRecord(data.earningsRecord);
+    } catch (err) {
+      setEarningsError(err instanceof Error ? err.message : 'Failed to import SSA earnings');
+    } finally {
+      setImportingEarnings(false);
+    }
+  };
+
+  const handleEarningsDelete = async () => {
+    setEarningsError(null);
+    setImportingEarnings(true);
+
+    try {
+      const response = await fetch('/api/ssa-earnings', { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to remove SSA earnings');
+      }
+
+      setEarningsRecord(null);
+    } catch (err) {
+      setEarningsError(err instanceof Error ? err.message : 'Failed to remove SSA earnings');
+    } finally {
+      setImportingEarnings(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -67,7 +151,12 @@ export default function ProfilePage() {
           firstname,
           dateOfBirth,
           maritalStatus,
+          spouseDateOfBirth: maritalStatus === 'married' && spouseDateOfBirth ? spouseDateOfBirth : null,
           numberOfDependents,
+          stateOfResidence: stateOfResidence || undefined,
+          sex: sex || null,
+          healthStatus,
+          smoker,
         }),
       });
 
@@ -178,6 +267,29 @@ export default function ProfilePage() {
             </select>
           </div>
 
+          {maritalStatus === 'married' && (
+            <div>
+              <label
+                htmlFor="spouseDateOfBirth"
+                className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2"
+              >
+                Spouse&apos;s Date of Birth (optional)
+              </label>
+              <input
+                type="date"
+                id="spouseDateOfBirth"
+                value={spouseDateOfBirth}
+                onChange={(e) => setSpouseDateOfBirth(e.target.value)}
+                max={new Date().toISOString().split('T')[0]}
+                className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                disabled={saving}
+              />
+              <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+                Used for required minimum distributions when your spouse is more than 10 years younger
+              </p>
+            </div>
+          )}
+
           <div>
             <label
               htmlFor="numberOfDependents"
@@ -197,6 +309,90 @@ export default function ProfilePage() {
             />
           </div>
 
+          <div>
+            <label
+              htmlFor="stateOfResidence"
+              className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2"
+            >
+              State of Residence
+            </label>
+            <select
+              id="stateOfResidence"
+              value={stateOfResidence}
+              onChange={(e) => setStateOfResidence(e.target.value as StateCode | '')}
+              className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+              disabled={saving}
+            >
+              <option value="">Not set (no state income tax)</option>
+              {(Object.keys(STATE_TAX_RULES) as StateCode[]).map((code) => (
+                <option key={code} value={code}>
+                  {STATE_TAX_RULES[code].name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="sex"
+                className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2"
+              >
+                Sex
+              </label>
+              <select
+                id="sex"
+                value={sex}
+                onChange={(e) => setSex(e.target.value as Sex | '')}
+                className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                disabled={saving}
+              >
+                <option value="">Prefer not to say</option>
+                <option value="female">Female</option>
+                <option value="male">Male</option>
+              </select>
+            </div>
+
+            <div>
+              <label
+                htmlFor="healthStatus"
+                className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2"
+              >
+                Health
+              </label>
+              <select
+                id="healthStatus"
+                value={healthStatus}
+                onChange={(e) => setHealthStatus(e.target.value as HealthStatus)}
+                className="w-full px-4 py-2 border border-zinc-300 dark:border-zinc-700 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-zinc-900 dark:text-white dark:bg-zinc-800"
+                disabled={saving}
+              >
+                <option value="excellent">Excellent</option>
+                <option value="good">Good</option>
+                <option value="average">Average</option>
+                <option value="fair">Fair</option>
+                <option value="poor">Poor</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="smoker"
+              checked={smoker}
+              onChange={(e) => setSmoker(e.target.checked)}
+              className="h-4 w-4 rounded border-zinc-300 dark:border-zinc-700"
+              disabled={saving}
+            />
+            <label htmlFor="smoker" className="text-sm text-zinc-700 dark:text-zinc-300">
+              Smoker
+            </label>
+          </div>
+          <p className="-mt-4 text-xs text-zinc-500 dark:text-zinc-400">
+            Sex, health and smoking adjust the life table used for survival odds and planning horizons
+          </p>
+
           {error && (
             <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md">
               <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
@@ -230,6 +426,48 @@ export default function ProfilePage() {
           </div>
         </form>
 
+        <div className="mt-8 pt-6 border-t border-zinc-200 dark:border-zinc-800">
+          <h3 className="text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
+            Social Security Earnings Record
+          </h3>
+          <p className="text-sm text-zinc-600 dark:text-zinc-400 mb-3">
+            Import the XML earnings record from your SSA account, or text copied from your statement PDF,
+            to calculate your Primary Insurance Amount in scenarios.
+          </p>
+          {earningsRecord && earningsRecord.earnings.length > 0 && (
+            <p className="text-sm text-zinc-900 dark:text-white mb-3">
+              {earningsRecord.earnings.length} years imported (
+              {earningsRecord.earnings[0].year}-{earningsRecord.earnings[earningsRecord.earnings.length - 1].year})
+              on {new Date(earningsRecord.importedAt).toLocaleDateString()}
+            </p>
+          )}
+          <div className="flex items-center gap-4">
+            <label className="px-4 py-2 text-sm font-medium text-blue-600 dark:text-blue-400 border border-blue-600 dark:border-blue-400 rounded-md cursor-pointer hover:bg-blue-50 dark:hover:bg-blue-900/20">
+              {importingEarnings ? 'Importing...' : earningsRecord ? 'Replace Earnings Record' : 'Import Earnings Record'}
+              <input
+                type="file"
+                accept=".xml,.txt,text/xml,text/plain"
+                onChange={handleEarningsUpload}
+                className="hidden"
+                disabled={importingEarnings}
+              />
+            </label>
+            {earningsRecord && (
+              <button
+                type="button"
+                onClick={handleEarningsDelete}
+                className="px-4 py-2 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md transition-colors"
+                disabled={importingEarnings}
+              >
+                Remove
+              </button>
+            )}
+          </div>
+          {earningsError && (
+            <p className="mt-2 text-sm text-red-600 dark:text-red-400">{earningsError}</p>
+          )}
+        </div>
+
         {profile && (
           <div className="mt-8 pt-6 border-t border-zinc-200 dark:border-zinc-800">
             <h3 className="text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-3">
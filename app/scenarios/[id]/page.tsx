@@ -15,6 +15,7 @@ import { useRouter, useParams } from 'next/navigation';
 import Link from 'next/link';
 import { Scenario } from '../../types/scenarios';
 import { AnnualProjection } from '../../types/projections';
+import { summarizeContributionLimitWarnings } from '../../types/contributionLimits';
 
 export default function ScenarioDetails() {
   const { data: session, status } = useSession();
@@ -127,6 +128,8 @@ export default function ScenarioDetails() {
     year.accountBalances.total > max.accountBalances.total ? year : max
   );
   const finalNetWorth = projection.summary.finalNetWorth;
+  // Projections stored before contribution limits were enforced have no warnings
+  const contributionWarnings = summarizeContributionLimitWarnings(projection.warnings || []);
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -160,10 +163,21 @@ export default function ScenarioDetails() {
         </div>
       </div>
 
+      {/* Contribution Limit Warnings */}
+      {contributionWarnings.length > 0 && (
+        <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4 mb-6">
+          <ul className="list-disc list-inside text-sm text-yellow-800 dark:text-yellow-200 space-y-1">
+            {contributionWarnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Summary Cards */}
       <div className="grid md:grid-cols-4 gap-4 mb-8">
         <div className="bg-white dark:bg-zinc-900 p-6 rounded-lg border border-zinc-200 dark:border-zinc-800">
-          <div className="text-sm text-zinc-600 dark:text-zinc-400 mb-2">Final Balance</div>
+          <div className="text-sm text-zinc-600 dark:text-zinc-400 mb-2">Final Net Worth</div>
           <div className="text-2xl font-bold text-zinc-900 dark:text-white">
             ${Math.round(finalNetWorth).toLocaleString()}
           </div>
@@ -454,12 +468,58 @@ export default function ScenarioDetails() {
                       {year.year}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-zinc-600 dark:text-zinc-400">
-                      {year.age}
+                      {year.alive === false ? '—' : year.age}
+                      {year.partner && (
+                        <span className="text-zinc-400 dark:text-zinc-500">
+                          {' / '}
+                          {year.partner.alive ? year.partner.age : '—'}
+                        </span>
+                      )}
                     </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-right text-zinc-900 dark:text-white">
+                    <td
+                      className="px-6 py-4 whitespace-nowrap text-right text-zinc-900 dark:text-white"
+                      title={
+                        [
+                          ...(year.income.byPension || []).map(
+                            (payment) =>
+                              `${payment.name}${payment.survivorBenefit ? ' (survivor)' : ''}: $${Math.round(payment.amount).toLocaleString()}`
+                          ),
+                          ...(year.rmd && year.rmd.amount > 0
+                            ? [
+                                `RMD: $${Math.round(year.rmd.amount).toLocaleString()} (reinvested: $${Math.round(year.rmd.reinvested).toLocaleString()})`,
+                              ]
+                            : []),
+                        ].join('\n') || undefined
+                      }
+                    >
                       ${Math.round(year.income.reported).toLocaleString()}
+                      {year.income.pension > 0 && (
+                        <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                          incl. ${Math.round(year.income.pension).toLocaleString()} pensions
+                        </div>
+                      )}
+                      {year.income.incomeStreams > 0 && (
+                        <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                          incl. ${Math.round(year.income.incomeStreams).toLocaleString()} income streams
+                        </div>
+                      )}
+                      {year.income.rental > 0 && (
+                        <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                          incl. ${Math.round(year.income.rental).toLocaleString()} rent
+                        </div>
+                      )}
                     </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-right text-zinc-600 dark:text-zinc-400">
+                    <td
+                      className="px-6 py-4 whitespace-nowrap text-right text-zinc-600 dark:text-zinc-400"
+                      title={
+                        year.withdrawals
+                          ? Object.entries(year.withdrawals.byAccountType)
+                              .filter(([, amount]) => amount > 0)
+                              .map(([accountType, amount]) => `${accountType}: $${Math.round(amount).toLocaleString()}`)
+                              .join('\n')
+                          : undefined
+                      }
+                    >
                       ${Math.round(year.income.withdrawals).toLocaleString()}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-zinc-900 dark:text-white font-medium">
@@ -467,6 +527,16 @@ export default function ScenarioDetails() {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-zinc-900 dark:text-white">
                       ${Math.round(year.spending.total).toLocaleString()}
+                      {year.spending.earlyWithdrawalPenalty > 0 && (
+                        <div className="text-xs text-red-600 dark:text-red-400">
+                          incl. ${Math.round(year.spending.earlyWithdrawalPenalty).toLocaleString()} early withdrawal penalty
+                        </div>
+                      )}
+                      {year.spending.liabilities > 0 && (
+                        <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                          incl. ${Math.round(year.spending.liabilities).toLocaleString()} debt payments
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-zinc-600 dark:text-zinc-400">
                       ${Math.round(year.spending.living + year.spending.travel + year.spending.healthcare).toLocaleString()}
@@ -476,6 +546,11 @@ export default function ScenarioDetails() {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-zinc-900 dark:text-white">
                       ${Math.round(year.contributions.total).toLocaleString()}
+                      {year.contributions.employer > 0 && (
+                        <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                          +${Math.round(year.contributions.employer).toLocaleString()} employer
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-zinc-900 dark:text-white font-medium">
                       ${Math.round(year.incomeAfterContributions ?? (year.income.total - year.contributions.total)).toLocaleString()}
@@ -522,6 +597,14 @@ export default function ScenarioDetails() {
 
                     <td className="px-6 py-4 whitespace-nowrap text-right text-zinc-900 dark:text-white font-semibold">
                       ${Math.round(year.accountBalances.total).toLocaleString()}
+                      {(year.realEstate.equity > 0 || year.liabilities.balance > 0) && (
+                        <div
+                          className="text-xs font-normal text-zinc-500 dark:text-zinc-400"
+                          title={`Home equity: $${Math.round(year.realEstate.equity).toLocaleString()}, debts: $${Math.round(year.liabilities.balance).toLocaleString()}`}
+                        >
+                          ${Math.round(year.accountBalances.netWorth).toLocaleString()} net worth
+                        </div>
+                      )}
                     </td>
                   </tr>
                 );
@@ -578,6 +661,14 @@ export default function ScenarioDetails() {
                 ${Math.round(finalNetWorth).toLocaleString()}
               </span>
             </div>
+            {projection.summary.outliveMoneyProbability !== undefined && (
+              <div className="flex justify-between mb-2">
+                <span className="text-zinc-600 dark:text-zinc-400">Chance of Outliving Money:</span>
+                <span className="font-semibold text-zinc-900 dark:text-white">
+                  {(projection.summary.outliveMoneyProbability * 100).toFixed(1)}%
+                </span>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -9,6 +9,7 @@ import {
   Account,
   AccountType,
 } from '../accounts';
+import { Liability } from '../liabilities';
 
 describe('Account Utilities', () => {
   describe('getAccountTypeLabel', () => {
@@ -320,5 +321,39 @@ describe('Account Utilities', () => {
         expect(summary.byType[type].total).toBe(10000);
       });
     });
+
+    it('should subtract active liabilities from net worth', () => {
+      const accounts: Account[] = [
+        {
+          id: '1',
+          userId: 'user-1',
+          accountType: 'brokerage',
+          accountName: 'Brokerage',
+          balance: 50000,
+          asOfDate: '2024-01-01',
+          status: 'active',
+        },
+      ];
+      const liability: Liability = {
+        id: 'liability-1',
+        userId: 'user-1',
+        liabilityType: 'auto',
+        liabilityName: 'Car Loan',
+        balance: 15000,
+        apr: 6,
+        minimumPayment: 400,
+        asOfDate: '2024-01-01',
+        status: 'active',
+      };
+
+      const summary = calculateAccountSummary(accounts, [
+        liability,
+        { ...liability, id: 'liability-2', balance: 2000, status: 'paid-off' },
+      ]);
+
+      expect(summary.totalAssets).toBe(50000);
+      expect(summary.totalLiabilities).toBe(15000);
+      expect(summary.totalNetWorth).toBe(35000);
+    });
   });
 });
@@ -0,0 +1,89 @@
+/**
+ * Tests for asset allocation and glide path calculations
+ */
+
+import {
+  getAllocationForAge,
+  calculateBlendedReturn,
+  validateAssetAllocation,
+  validateAllocationSettings,
+  GlidePathPoint,
+} from '../allocations';
+
+describe('Asset Allocation', () => {
+  const glidePath: GlidePathPoint[] = [
+    { age: 30, allocation: { stocks: 90, bonds: 10, cash: 0 } },
+    { age: 70, allocation: { stocks: 50, bonds: 40, cash: 10 } },
+  ];
+
+  describe('getAllocationForAge', () => {
+    it('should hold the first allocation before the glide path starts', () => {
+      expect(getAllocationForAge(glidePath, 25)).toEqual({ stocks: 90, bonds: 10, cash: 0 });
+    });
+
+    it('should interpolate linearly between points', () => {
+      const allocation = getAllocationForAge(glidePath, 50)!;
+      expect(allocation.stocks).toBeCloseTo(70, 6);
+      expect(allocation.bonds).toBeCloseTo(25, 6);
+      expect(allocation.cash).toBeCloseTo(5, 6);
+    });
+
+    it('should hold the last allocation after the glide path ends', () => {
+      expect(getAllocationForAge(glidePath, 85)).toEqual({ stocks: 50, bonds: 40, cash: 10 });
+    });
+
+    it('should return null for an empty glide path', () => {
+      expect(getAllocationForAge([], 50)).toBeNull();
+    });
+  });
+
+  describe('calculateBlendedReturn', () => {
+    it('should weight each asset class return by its allocation', () => {
+      expect(
+        calculateBlendedReturn({ stocks: 60, bonds: 30, cash: 10 }, { stocks: 10, bonds: 4, cash: 2 })
+      ).toBeCloseTo(7.4, 6);
+    });
+  });
+
+  describe('validateAssetAllocation', () => {
+    it('should accept an allocation that adds up to 100', () => {
+      expect(validateAssetAllocation({ stocks: 60, bonds: 30, cash: 10 })).toBeNull();
+    });
+
+    it('should reject a missing or out-of-range asset class', () => {
+      expect(validateAssetAllocation({ stocks: 60, bonds: 40 })).toContain('cash');
+      expect(validateAssetAllocation({ stocks: 120, bonds: -20, cash: 0 })).toContain('stocks');
+    });
+
+    it('should reject an allocation that does not add up to 100', () => {
+      expect(validateAssetAllocation({ stocks: 60, bonds: 30, cash: 5 })).toContain('add up to 100');
+    });
+  });
+
+  describe('validateAllocationSettings', () => {
+    it('should accept valid settings', () => {
+      expect(
+        validateAllocationSettings({ returns: { stocks: 9, bonds: 4, cash: 2 }, glidePath })
+      ).toBeNull();
+    });
+
+    it('should require at least one glide path point', () => {
+      expect(
+        validateAllocationSettings({ returns: { stocks: 9, bonds: 4, cash: 2 }, glidePath: [] })
+      ).toContain('at least one point');
+    });
+
+    it('should reject missing asset class returns', () => {
+      expect(validateAllocationSettings({ returns: { stocks: 9 }, glidePath })).toContain('bonds');
+    });
+
+    it('should reject duplicate glide path ages', () => {
+      expect(
+        validateAllocationSettings({
+          returns: { stocks: 9, bonds: 4, cash: 2 },
+          glidePath: [glidePath[0], { ...glidePath[1], age: 30 }],
+        })
+      ).toContain('increasing order');
+    });
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Tests for historical backtesting
+ */
+
+import {
+  buildHistoricalMarketConditions,
+  calculateMaxDrawdown,
+  validateBacktestSettings,
+  runHistoricalBacktest,
+  MIN_PARTIAL_COHORT_YEARS,
+} from '../backtests';
+import {
+  HISTORICAL_MARKET_DATA,
+  FIRST_HISTORICAL_YEAR,
+  LAST_HISTORICAL_YEAR,
+  getHistoricalMarketYear,
+} from '../marketHistory';
+import { Scenario } from '../scenarios';
+import { UserProfile } from '../profile';
+import { Account } from '../accounts';
+
+describe('Historical Backtesting', () => {
+  const currentYear = new Date().getFullYear();
+
+  const sampleProfile: UserProfile = {
+    userId: 'test-user-123',
+    firstname: 'Test',
+    dateOfBirth: `${currentYear - 65}-01-01`,
+    maritalStatus: 'single',
+    numberOfDependents: 0,
+    onboardingComplete: true,
+  };
+
+  const sampleAccounts: Account[] = [
+    {
+      id: 'acc-1',
+      userId: 'test-user-123',
+      accountType: 'brokerage',
+      accountName: 'Brokerage',
+      balance: 1000000,
+      asOfDate: '2024-01-01',
+      status: 'active',
+    },
+  ];
+
+  const createScenario = (annualSpending: number): Scenario => ({
+    id: 'scenario-1',
+    userId: 'test-user-123',
+    name: 'Retirement',
+    isDefault: true,
+    investmentReturnRate: 6,
+    inflationRate: 2.5,
+    assumptionBuckets: [
+      {
+        id: 'bucket-1',
+        order: 0,
+        startAge: 65,
+        endAge: 100,
+        assumptions: { annualIncome: 0, annualSpending },
+      },
+    ],
+    lumpSumEvents: [],
+    mortgages: [],
+  });
+
+  describe('marketHistory', () => {
+    it('should cover every year contiguously', () => {
+      HISTORICAL_MARKET_DATA.forEach((entry, index) => {
+        expect(entry.year).toBe(FIRST_HISTORICAL_YEAR + index);
+      });
+    });
+
+    it('should include the 1929 crash and 2008 crisis', () => {
+      expect(getHistoricalMarketYear(1931)?.stocks).toBeLessThan(-40);
+      expect(getHistoricalMarketYear(2008)?.stocks).toBeLessThan(-30);
+    });
+
+    it('should return null outside the dataset', () => {
+      expect(getHistoricalMarketYear(FIRST_HISTORICAL_YEAR - 1)).toBeNull();
+      expect(getHistoricalMarketYear(LAST_HISTORICAL_YEAR + 1)).toBeNull();
+    });
+  });
+
+  describe('buildHistoricalMarketConditions', () => {
+    it('should blend stocks and bonds by allocation', () => {
+      const conditions = buildHistoricalMarketConditions(2008, 1, 60);
+      const data = getHistoricalMarketYear(2008)!;
+      expect(conditions).not.toBeNull();
+      expect(conditions![0].returnRate).toBeCloseTo(0.6 * data.stocks + 0.4 * data.bonds, 6);
+      expect(conditions![0].inflationRate).toBe(data.inflation);
+    });
+
+    it('should return null when the sequence runs past the dataset', () => {
+      expect(buildHistoricalMarketConditions(LAST_HISTORICAL_YEAR, 2, 60)).toBeNull();
+    });
+  });
+
+  describe('calculateMaxDrawdown', () => {
+    it('should find the largest peak-to-trough decline', () => {
+      expect(calculateMaxDrawdown([100, 120, 60, 90, 150, 120])).toBeCloseTo(0.5);
+    });
+
+    it('should return 0 for a rising series', () => {
+      expect(calculateMaxDrawdown([100, 110, 120])).toBe(0);
+    });
+
+    it('should cap drawdown at 100% when balances go negative', () => {
+      expect(calculateMaxDrawdown([100, -50])).toBe(1);
+    });
+  });
+
+  describe('validateBacktestSettings', () => {
+    it('should accept a valid allocation', () => {
+      expect(validateBacktestSettings({ stockAllocation: 75 })).toBeNull();
+    });
+
+    it('should reject allocation above 100', () => {
+      expect(validateBacktestSettings({ stockAllocation: 120 })).toContain('stockAllocation');
+    });
+  });
+
+  describe('runHistoricalBacktest', () => {
+    it('should produce one cohort per complete historical sequence', () => {
+      const result = runHistoricalBacktest(
+        createScenario(40000),
+        sampleProfile,
+        sampleAccounts,
+        currentYear,
+        currentYear + 29,
+        { stockAllocation: 60 }
+      );
+
+      const completeCohorts = result.cohorts.filter((c) => !c.partial);
+      expect(completeCohorts.length).toBe(LAST_HISTORICAL_YEAR - FIRST_HISTORICAL_YEAR - 30 + 2);
+      expect(result.cohorts[0].historicalStartYear).toBe(FIRST_HISTORICAL_YEAR);
+      expect(result.cohorts[0].historicalEndYear).toBe(FIRST_HISTORICAL_YEAR + 29);
+      expect(completeCohorts[completeCohorts.length - 1].historicalEndYear).toBe(LAST_HISTORICAL_YEAR);
+      expect(result.successRate).toBe(result.successfulCohorts / completeCohorts.length);
+    });
+
+    it('should include recent stress cohorts as partial cohorts at the default horizon', () => {
+      const result = runHistoricalBacktest(
+        createScenario(40000),
+        sampleProfile,
+        sampleAccounts,
+        currentYear,
+        currentYear + 29,
+        { stockAllocation: 60 }
+      );
+
+      const partialCohorts = result.cohorts.filter((c) => c.partial);
+      expect(result.partialCohorts).toBe(partialCohorts.length);
+      expect(partialCohorts[0].historicalStartYear).toBe(LAST_HISTORICAL_YEAR - 28);
+      expect(partialCohorts[partialCohorts.length - 1].historicalStartYear).toBe(
+        LAST_HISTORICAL_YEAR - MIN_PARTIAL_COHORT_YEARS + 1
+      );
+
+      for (const startYear of [2000, 2008]) {
+        const cohort = result.cohorts.find((c) => c.historicalStartYear === startYear)!;
+        expect(cohort.partial).toBe(true);
+        expect(cohort.historicalEndYear).toBe(LAST_HISTORICAL_YEAR);
+      }
+
+      // The 2000 cohort starts with three down years, so it trails the 1995 cohort
+      const cohort1995 = result.cohorts.find((c) => c.historicalStartYear === 1995)!;
+      const cohort2000 = result.cohorts.find((c) => c.historicalStartYear === 2000)!;
+      expect(cohort1995.partial).toBe(false);
+      expect(cohort2000.finalNetWorth).toBeLessThan(cohort1995.finalNetWorth);
+    });
+
+    it('should show 1966 retirees faring worse than 1982 retirees', () => {
+      const result = runHistoricalBacktest(
+        createScenario(50000),
+        sampleProfile,
+        sampleAccounts,
+        currentYear,
+        currentYear + 29,
+        { stockAllocation: 60 }
+      );
+
+      const cohort1966 = result.cohorts.find((c) => c.historicalStartYear === 1966)!;
+      const cohort1982 = result.cohorts.find((c) => c.historicalStartYear === 1982)!;
+      expect(cohort1966.finalNetWorth).toBeLessThan(cohort1982.finalNetWorth);
+      expect(cohort1966.worstDrawdown).toBeGreaterThan(0);
+    });
+
+    it('should measure drawdowns on net worth including real estate', () => {
+      const home = { name: 'Home', purchasePrice: 500000, currentValue: 2000000, appreciationRate: 5 };
+      const run = (scenario: Scenario) =>
+        runHistoricalBacktest(scenario, sampleProfile, sampleAccounts, currentYear, currentYear + 29, {
+          stockAllocation: 60,
+        }).cohorts.find((c) => c.historicalStartYear === 1966)!;
+
+      const withoutHome = run(createScenario(50000));
+      const withHome = run({ ...createScenario(50000), properties: [home] });
+
+      // The appreciating home cushions the portfolio's decline
+      expect(withHome.worstDrawdown).toBeLessThan(withoutHome.worstDrawdown);
+      expect(withHome.finalNetWorth).toBeGreaterThan(withoutHome.finalNetWorth);
+    });
+
+    it('should report depletion for an unsustainable plan', () => {
+      const result = runHistoricalBacktest(
+        createScenario(150000),
+        sampleProfile,
+        sampleAccounts,
+        currentYear,
+        currentYear + 29,
+        { stockAllocation: 60 }
+      );
+
+      expect(result.successRate).toBe(0);
+      expect(result.cohorts.every((c) => c.depletionYear !== undefined && c.depletionAge !== undefined)).toBe(true);
+    });
+
+    it('should throw when the projection is longer than the dataset', () => {
+      expect(() =>
+        runHistoricalBacktest(
+          createScenario(40000),
+          sampleProfile,
+          sampleAccounts,
+          currentYear,
+          currentYear + 100,
+          { stockAllocation: 60 }
+        )
+      ).toThrow('longer than the historical dataset');
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Tests for IRS contribution limits, catch-ups and Roth IRA phase-outs
+ */
+
+import {
+  getElectiveDeferralLimit,
+  getIraLimit,
+  getHsaLimit,
+  getRothIraLimit,
+  applyContributionLimits,
+  summarizeContributionLimitWarnings,
+  ContributionLimitInput,
+} from '../contributionLimits';
+import { AccountType } from '../accounts';
+
+describe('Contribution Limits', () => {
+  const contributions = (overrides: Partial<Record<AccountType, number>>): Record<AccountType, number> => ({
+    '401k': 0,
+    'traditional-ira': 0,
+    'roth-ira': 0,
+    brokerage: 0,
+    savings: 0,
+    checking: 0,
+    ...overrides,
+  });
+  const input = (overrides: Partial<ContributionLimitInput> = {}): ContributionLimitInput => ({
+    year: 2025,
+    age: 40,
+    inflationFactor: 1,
+    filingStatus: 'single',
+    wages: 100000,
+    ...overrides,
+  });
+
+  describe('getElectiveDeferralLimit', () => {
+    it('should add the catch-up at 50 and the super catch-up at 60-63', () => {
+      expect(getElectiveDeferralLimit(49)).toBe(23500);
+      expect(getElectiveDeferralLimit(50)).toBe(31000);
+      expect(getElectiveDeferralLimit(60)).toBe(34750);
+      expect(getElectiveDeferralLimit(63)).toBe(34750);
+      expect(getElectiveDeferralLimit(64)).toBe(31000);
+    });
+
+    it('should index the limit with inflation', () => {
+      expect(getElectiveDeferralLimit(40, 1.1)).toBeCloseTo(25850, 6);
+    });
+  });
+
+  describe('getIraLimit and getHsaLimit', () => {
+    it('should add catch-ups at 50 (IRA) and 55 (HSA)', () => {
+      expect(getIraLimit(49)).toBe(7000);
+      expect(getIraLimit(50)).toBe(8000);
+      expect(getHsaLimit('self-only', 54)).toBe(4300);
+      expect(getHsaLimit('family', 55)).toBe(9550);
+    });
+  });
+
+  describe('getRothIraLimit', () => {
+    it('should phase out linearly across the MAGI range', () => {
+      expect(getRothIraLimit(7000, 150000, 'single')).toBe(7000);
+      expect(getRothIraLimit(7000, 157500, 'single')).toBeCloseTo(3500, 6);
+      expect(getRothIraLimit(7000, 165000, 'single')).toBe(0);
+      expect(getRothIraLimit(7000, 241000, 'married-filing-jointly')).toBeCloseTo(3500, 6);
+    });
+  });
+
+  describe('applyContributionLimits', () => {
+    it('should leave contributions within the limits unchanged', () => {
+      const result = applyContributionLimits(contributions({ '401k': 20000, 'roth-ira': 7000 }), input());
+
+      expect(result.contributions['401k']).toBe(20000);
+      expect(result.contributions['roth-ira']).toBe(7000);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should redirect the excess to brokerage with a warning', () => {
+      const result = applyContributionLimits(
+        contributions({ '401k': 30000, 'roth-ira': 50000, brokerage: 1000 }),
+        input()
+      );
+
+      expect(result.contributions['401k']).toBe(23500);
+      expect(result.contributions['roth-ira']).toBe(7000);
+      expect(result.contributions.brokerage).toBe(1000 + 6500 + 43000);
+      expect(result.warnings).toEqual([
+        { year: 2025, age: 40, accountType: '401k', requested: 30000, limit: 23500, excess: 6500 },
+        { year: 2025, age: 40, accountType: 'roth-ira', requested: 50000, limit: 7000, excess: 43000 },
+      ]);
+    });
+
+    it('should share the IRA limit between Roth and traditional IRAs', () => {
+      const result = applyContributionLimits(
+        contributions({ 'roth-ira': 5000, 'traditional-ira': 5000 }),
+        input()
+      );
+
+      expect(result.contributions['roth-ira']).toBe(5000);
+      expect(result.contributions['traditional-ira']).toBe(2000);
+      expect(result.contributions.brokerage).toBe(3000);
+    });
+
+    it('should use wages less 401(k) deferrals for the Roth phase-out', () => {
+      const result = applyContributionLimits(
+        contributions({ '401k': 23500, 'roth-ira': 7000 }),
+        input({ wages: 181000 })
+      );
+
+      // MAGI of $157,500 is halfway through the single phase-out range
+      expect(result.contributions['roth-ira']).toBeCloseTo(3500, 6);
+    });
+
+    it('should add the partner limits at the partner age', () => {
+      const result = applyContributionLimits(
+        contributions({ '401k': 70000, 'roth-ira': 10000, 'traditional-ira': 10000 }),
+        input({ filingStatus: 'married-filing-jointly', partner: { age: 61, wages: 80000 } })
+      );
+
+      // 23,500 for the user at 40 plus 34,750 with the partner's super catch-up at 61
+      expect(result.contributions['401k']).toBe(58250);
+      // 7,000 for the user plus 8,000 with the partner's 50+ catch-up
+      expect(result.contributions['roth-ira']).toBe(10000);
+      expect(result.contributions['traditional-ira']).toBe(5000);
+      expect(result.contributions.brokerage).toBe(11750 + 5000);
+    });
+
+    it('should give a partner without wages an IRA limit but no 401(k) limit', () => {
+      const result = applyContributionLimits(
+        contributions({ '401k': 30000, 'roth-ira': 14000 }),
+        input({ filingStatus: 'married-filing-jointly', partner: { age: 45, wages: 0 } })
+      );
+
+      expect(result.contributions['401k']).toBe(23500);
+      expect(result.contributions['roth-ira']).toBe(14000);
+    });
+  });
+
+  describe('summarizeContributionLimitWarnings', () => {
+    it('should combine consecutive ages into one message per account type', () => {
+      const warnings = [40, 41, 42, 45].map((age) => ({
+        year: 1985 + age,
+        age,
+        accountType: 'roth-ira' as const,
+        requested: 10000,
+        limit: 7000,
+        excess: 3000,
+      }));
+
+      expect(summarizeContributionLimitWarnings(warnings)).toEqual([
+        'Roth IRA contributions exceed the IRS limit at ages 40-42; $9,000 over the limit goes to brokerage instead',
+        'Roth IRA contributions exceed the IRS limit at age 45; $3,000 over the limit goes to brokerage instead',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Tests for the early retirement access planner (Roth conversion ladder and 72(t) SEPP)
+ */
+
+import {
+  buildRothConversionLadder,
+  getLadderBridgeAges,
+  planEarlyRetirement,
+  validateEarlyRetirementSettings,
+  LADDER_LAST_CONVERSION_AGE,
+} from '../earlyRetirement';
+import { calculateSeppPayment } from '../earlyWithdrawals';
+import { Scenario } from '../scenarios';
+import { UserProfile } from '../profile';
+import { Account } from '../accounts';
+
+describe('Early Retirement Planner', () => {
+  const currentYear = new Date().getFullYear();
+
+  const profile: UserProfile = {
+    userId: 'test-user-123',
+    firstname: 'Test',
+    dateOfBirth: `${currentYear - 45}-01-01`,
+    maritalStatus: 'single',
+    numberOfDependents: 0,
+    onboardingComplete: true,
+  };
+
+  const accounts: Account[] = [
+    {
+      id: 'ira-1',
+      userId: 'test-user-123',
+      accountType: 'traditional-ira',
+      accountName: 'IRA',
+      balance: 800000,
+      asOfDate: '2025-01-01',
+      status: 'active',
+    },
+    {
+      id: 'brokerage-1',
+      userId: 'test-user-123',
+      accountType: 'brokerage',
+      accountName: 'Brokerage',
+      balance: 250000,
+      asOfDate: '2025-01-01',
+      status: 'active',
+    },
+  ];
+
+  const scenario: Scenario = {
+    id: 'scenario-1',
+    userId: 'test-user-123',
+    name: 'Early Retirement',
+    isDefault: false,
+    retirementAge: 45,
+    investmentReturnRate: 0,
+    inflationRate: 0,
+    assumptionBuckets: [
+      { id: 'bucket-1', order: 0, startAge: 45, endAge: 90, assumptions: { annualSpending: 40000 } },
+    ],
+    lumpSumEvents: [],
+    mortgages: [],
+  };
+
+  describe('validateEarlyRetirementSettings', () => {
+    it('should accept a strategy with options', () => {
+      expect(validateEarlyRetirementSettings({ strategy: 'roth-ladder', annualAmount: 40000 })).toBeNull();
+      expect(validateEarlyRetirementSettings({ strategy: 'sepp', seppMethod: 'rmd' })).toBeNull();
+    });
+
+    it('should reject invalid settings', () => {
+      expect(validateEarlyRetirementSettings({})).toBe('strategy must be "roth-ladder" or "sepp"');
+      expect(validateEarlyRetirementSettings({ strategy: 'sepp', retirementAge: 62 })).toBe(
+        'retirementAge must be a number below 59.5'
+      );
+      expect(validateEarlyRetirementSettings({ strategy: 'sepp', seppInterestRate: 20 })).toBe(
+        'seppInterestRate must be a number between 0 and 10'
+      );
+    });
+  });
+
+  describe('buildRothConversionLadder', () => {
+    it('should convert every year until five years before 59½', () => {
+      expect(LADDER_LAST_CONVERSION_AGE).toBe(54);
+      expect(buildRothConversionLadder(45, 40000)).toEqual({
+        type: 'fixed',
+        startAge: 45,
+        endAge: 54,
+        amount: 40000,
+      });
+    });
+
+    it('should not build a ladder that cannot mature before 59½', () => {
+      expect(buildRothConversionLadder(56, 40000)).toBeNull();
+    });
+  });
+
+  describe('getLadderBridgeAges', () => {
+    it('should cover the five years before the first rung matures', () => {
+      expect(getLadderBridgeAges(45)).toEqual([45, 46, 47, 48, 49]);
+      expect(getLadderBridgeAges(57)).toEqual([57, 58, 59]);
+    });
+  });
+
+  describe('planEarlyRetirement', () => {
+    it('should build a ladder funded by taxable accounts during the bridge years', () => {
+      const plan = planEarlyRetirement(scenario, profile, accounts, currentYear, currentYear + 20, {
+        strategy: 'roth-ladder',
+      });
+
+      expect(plan.rothConversions).toEqual([{ type: 'fixed', startAge: 45, endAge: 54, amount: 40000 }]);
+      expect(plan.ladder).toHaveLength(10);
+      expect(plan.ladder![0]).toEqual({ conversionAge: 45, accessibleAge: 50, amount: 40000 });
+      expect(plan.bridgeYears.map((year) => year.age)).toEqual([45, 46, 47, 48, 49]);
+      expect(plan.bridgeYears[0].taxableAndCash).toBe(250000);
+      // $250k of brokerage covers five years of $40k spending plus conversion taxes
+      expect(plan.bridgeShortfall).toBe(0);
+      expect(plan.totalPenalties).toBe(0);
+    });
+
+    it('should size a SEPP on the traditional IRA balance', () => {
+      const plan = planEarlyRetirement(scenario, profile, accounts, currentYear, currentYear + 20, {
+        strategy: 'sepp',
+        seppMethod: 'amortization',
+      });
+
+      expect(plan.seppPlan).toEqual({
+        startAge: 45,
+        annualAmount: calculateSeppPayment('amortization', 800000, 45),
+        method: 'amortization',
+      });
+      expect(plan.bridgeYears).toEqual([]);
+    });
+
+    it('should require a retirement age before 59½', () => {
+      expect(() =>
+        planEarlyRetirement({ ...scenario, retirementAge: undefined }, profile, accounts, currentYear, currentYear, {
+          strategy: 'sepp',
+        })
+      ).toThrow('Scenario needs a retirement age');
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for early withdrawal penalties and their exceptions
+ */
+
+import {
+  calculateEarlyWithdrawalPenalty,
+  calculateSeppPayment,
+  getPenalizedWithdrawals,
+  getPenaltyFreeLimits,
+  getSeppEndAge,
+  getSeppPayment,
+  getSingleLifeExpectancy,
+  isEarlyWithdrawalAge,
+  qualifiesForRuleOf55,
+  validateSeppPlan,
+} from '../earlyWithdrawals';
+import { AccountType } from '../accounts';
+
+describe('Early Withdrawals', () => {
+  const createWithdrawals = (overrides: Partial<Record<AccountType, number>>): Record<AccountType, number> => ({
+    '401k': 0,
+    'traditional-ira': 0,
+    'roth-ira': 0,
+    brokerage: 0,
+    savings: 0,
+    checking: 0,
+    ...overrides,
+  });
+
+  describe('isEarlyWithdrawalAge', () => {
+    it('should treat age 59 as before 59½', () => {
+      expect(isEarlyWithdrawalAge(40)).toBe(true);
+      expect(isEarlyWithdrawalAge(59)).toBe(true);
+      expect(isEarlyWithdrawalAge(60)).toBe(false);
+    });
+  });
+
+  describe('qualifiesForRuleOf55', () => {
+    it('should require leaving work at 55 or later', () => {
+      expect(qualifiesForRuleOf55(56, 55)).toBe(true);
+      expect(qualifiesForRuleOf55(56, 54)).toBe(false);
+      expect(qualifiesForRuleOf55(56, undefined)).toBe(false);
+    });
+  });
+
+  describe('SEPP payments', () => {
+    it('should run for the later of 5 years or until 59½', () => {
+      expect(getSeppEndAge({ startAge: 50, annualAmount: 20000 })).toBe(59);
+      expect(getSeppEndAge({ startAge: 57, annualAmount: 20000 })).toBe(61);
+    });
+
+    it('should pay the fixed amount only during the plan', () => {
+      const plan = { startAge: 50, annualAmount: 20000 };
+
+      expect(getSeppPayment(plan, 49)).toBe(0);
+      expect(getSeppPayment(plan, 50)).toBe(20000);
+      expect(getSeppPayment(plan, 59)).toBe(20000);
+      expect(getSeppPayment(plan, 60)).toBe(0);
+      expect(getSeppPayment(undefined, 50)).toBe(0);
+    });
+
+    it('should recalculate RMD-method payments from the prior year-end balance', () => {
+      const plan = { startAge: 50, annualAmount: 10000, method: 'rmd' as const };
+
+      expect(getSeppPayment(plan, 50, 500000)).toBe(10000);
+      expect(getSeppPayment(plan, 51, 353000)).toBeCloseTo(353000 / getSingleLifeExpectancy(51), 6);
+    });
+  });
+
+  describe('calculateSeppPayment', () => {
+    it('should divide the balance by life expectancy under the RMD method', () => {
+      expect(calculateSeppPayment('rmd', 362000, 50)).toBeCloseTo(10000, 6);
+    });
+
+    it('should amortize the balance over life expectancy', () => {
+      const payment = calculateSeppPayment('amortization', 500000, 50, 5);
+      const years = getSingleLifeExpectancy(50);
+
+      expect(payment).toBeCloseTo((500000 * 0.05) / (1 - Math.pow(1.05, -years)), 6);
+      expect(payment).toBeGreaterThan(calculateSeppPayment('rmd', 500000, 50));
+    });
+
+    it('should pay more with a higher interest rate', () => {
+      expect(calculateSeppPayment('annuitization', 500000, 50, 5)).toBeGreaterThan(
+        calculateSeppPayment('annuitization', 500000, 50, 2)
+      );
+      expect(calculateSeppPayment('amortization', 0, 50)).toBe(0);
+    });
+  });
+
+  describe('getPenaltyFreeLimits', () => {
+    it('should limit tax-deferred accounts and Roth earnings before 59½', () => {
+      expect(getPenaltyFreeLimits(45, undefined, 20000)).toEqual({
+        'traditional-ira': 0,
+        '401k': 0,
+        'roth-ira': 20000,
+      });
+    });
+
+    it('should free the 401(k) under the Rule of 55', () => {
+      expect(getPenaltyFreeLimits(56, 55, 0)).toEqual({ 'traditional-ira': 0, 'roth-ira': 0 });
+    });
+
+    it('should have no limits from 59½', () => {
+      expect(getPenaltyFreeLimits(60, undefined, 0)).toEqual({});
+    });
+  });
+
+  describe('getPenalizedWithdrawals', () => {
+    it('should penalize only amounts over each limit', () => {
+      const withdrawals = createWithdrawals({ checking: 5000, '401k': 4000, 'roth-ira': 3000 });
+      const penalized = getPenalizedWithdrawals(withdrawals, { '401k': 0, 'roth-ira': 2000 });
+
+      expect(penalized).toEqual({ '401k': 4000, 'roth-ira': 1000 });
+      expect(calculateEarlyWithdrawalPenalty(5000)).toBeCloseTo(500, 6);
+    });
+  });
+
+  describe('validateSeppPlan', () => {
+    it('should accept a plan starting before 59½', () => {
+      expect(validateSeppPlan({ startAge: 50, annualAmount: 20000 })).toBeNull();
+    });
+
+    it('should reject invalid plans', () => {
+      expect(validateSeppPlan(null)).toBe('SEPP plan must be an object');
+      expect(validateSeppPlan({ startAge: 60, annualAmount: 20000 })).toBe('SEPP start age must be a number below 59.5');
+      expect(validateSeppPlan({ startAge: 50, annualAmount: 0 })).toBe('SEPP annual amount must be a positive number');
+      expect(validateSeppPlan({ startAge: 50, annualAmount: 20000, method: 'level' })).toBe(
+        'SEPP method must be one of: rmd, amortization, annuitization'
+      );
+      expect(validateSeppPlan({ startAge: 25, annualAmount: 20000, method: 'rmd' })).toBe(
+        'SEPP methods need a start age of at least 30 (IRS Single Life Table)'
+      );
+    });
+  });
+});
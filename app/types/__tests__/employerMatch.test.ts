@@ -0,0 +1,78 @@
+/**
+ * Tests for employer 401(k) match formulas and vesting
+ */
+
+import { calculateEmployerContribution, getVestedPercent, validateEmployerMatch } from '../employerMatch';
+
+describe('Employer Match', () => {
+  const tieredMatch = {
+    tiers: [
+      { matchPercent: 100, salaryPercent: 4 },
+      { matchPercent: 50, salaryPercent: 2 },
+    ],
+  };
+
+  describe('calculateEmployerContribution', () => {
+    it('should match 100% of the first 4% and 50% of the next 2%', () => {
+      expect(calculateEmployerContribution(tieredMatch, 100000, 10000)).toBeCloseTo(5000, 6);
+      expect(calculateEmployerContribution(tieredMatch, 100000, 5000)).toBeCloseTo(4500, 6);
+      expect(calculateEmployerContribution(tieredMatch, 100000, 3000)).toBeCloseTo(3000, 6);
+      expect(calculateEmployerContribution(tieredMatch, 100000, 0)).toBe(0);
+    });
+
+    it('should add non-elective contributions regardless of deferral', () => {
+      expect(calculateEmployerContribution({ nonElectivePercent: 3 }, 100000, 0)).toBeCloseTo(3000, 6);
+      expect(
+        calculateEmployerContribution({ ...tieredMatch, nonElectivePercent: 3 }, 100000, 6000)
+      ).toBeCloseTo(8000, 6);
+    });
+
+    it('should contribute nothing without salary', () => {
+      expect(calculateEmployerContribution({ nonElectivePercent: 3 }, 0, 5000)).toBe(0);
+    });
+  });
+
+  describe('getVestedPercent', () => {
+    it('should vest immediately without a schedule', () => {
+      expect(getVestedPercent(tieredMatch, 0)).toBe(100);
+    });
+
+    it('should follow graded and cliff schedules', () => {
+      const graded = {
+        vestingSchedule: [
+          { yearsOfService: 2, vestedPercent: 20 },
+          { yearsOfService: 3, vestedPercent: 40 },
+          { yearsOfService: 6, vestedPercent: 100 },
+        ],
+      };
+      expect(getVestedPercent(graded, 1)).toBe(0);
+      expect(getVestedPercent(graded, 2)).toBe(20);
+      expect(getVestedPercent(graded, 5)).toBe(40);
+      expect(getVestedPercent(graded, 6)).toBe(100);
+      expect(getVestedPercent({ vestingSchedule: [{ yearsOfService: 3, vestedPercent: 100 }] }, 2)).toBe(0);
+    });
+  });
+
+  describe('validateEmployerMatch', () => {
+    it('should accept valid formulas', () => {
+      expect(validateEmployerMatch(tieredMatch)).toBeNull();
+      expect(
+        validateEmployerMatch({
+          nonElectivePercent: 3,
+          vestingSchedule: [{ yearsOfService: 3, vestedPercent: 100 }],
+          yearsOfServiceAtStart: 1,
+        })
+      ).toBeNull();
+    });
+
+    it('should reject invalid formulas', () => {
+      expect(validateEmployerMatch(null)).toBe('Employer match must be an object');
+      expect(validateEmployerMatch({ tiers: {} })).toContain('tiers must be an array');
+      expect(validateEmployerMatch({ tiers: [{ matchPercent: 100, salaryPercent: 0 }] })).toContain('salary percent');
+      expect(validateEmployerMatch({ nonElectivePercent: 150 })).toContain('non-elective');
+      expect(validateEmployerMatch({ vestingSchedule: [{ yearsOfService: 2, vestedPercent: 120 }] })).toContain(
+        'Vested percent'
+      );
+    });
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Tests for income growth rates and validation
+ */
+
+import { getIncomeGrowthRate, validateIncomeGrowth, DEFAULT_INCOME_GROWTH } from '../incomeGrowth';
+
+describe('Income Growth', () => {
+  describe('getIncomeGrowthRate', () => {
+    it('should use the fixed rate regardless of inflation', () => {
+      expect(getIncomeGrowthRate(DEFAULT_INCOME_GROWTH, 40, 5)).toBe(2);
+    });
+
+    it('should compound real raises on top of inflation', () => {
+      expect(getIncomeGrowthRate({ type: 'real', rate: 1 }, 40, 3)).toBeCloseTo(4.03, 10);
+      expect(getIncomeGrowthRate({ type: 'real', rate: 0 }, 40, 3)).toBeCloseTo(3, 10);
+    });
+
+    it('should taper career curve raises to inflation after the taper age', () => {
+      const growth = { type: 'career-curve' as const, rate: 4, taperStartAge: 45, taperYears: 10 };
+
+      expect(getIncomeGrowthRate(growth, 30, 0)).toBeCloseTo(4, 10);
+      expect(getIncomeGrowthRate(growth, 45, 0)).toBeCloseTo(4, 10);
+      expect(getIncomeGrowthRate(growth, 50, 0)).toBeCloseTo(2, 10);
+      expect(getIncomeGrowthRate(growth, 55, 2)).toBeCloseTo(2, 10);
+      expect(getIncomeGrowthRate(growth, 60, 2)).toBeCloseTo(2, 10);
+    });
+
+    it('should keep full real raises on a career curve without a taper age', () => {
+      expect(getIncomeGrowthRate({ type: 'career-curve', rate: 3 }, 60, 0)).toBeCloseTo(3, 10);
+    });
+  });
+
+  describe('validateIncomeGrowth', () => {
+    it('should accept valid settings', () => {
+      expect(validateIncomeGrowth({ type: 'fixed', rate: 3 })).toBeNull();
+      expect(validateIncomeGrowth({ type: 'career-curve', rate: 3, taperStartAge: 45, taperYears: 15 })).toBeNull();
+    });
+
+    it('should reject invalid settings', () => {
+      expect(validateIncomeGrowth(null)).toBe('Income growth must be an object');
+      expect(validateIncomeGrowth({ type: 'bonus', rate: 3 })).toContain('type must be one of');
+      expect(validateIncomeGrowth({ type: 'real' })).toContain('rate must be a number');
+      expect(validateIncomeGrowth({ type: 'real', rate: 80 })).toContain('rate must be a number');
+      expect(validateIncomeGrowth({ type: 'career-curve', rate: 3, taperStartAge: 150 })).toContain('taper start age');
+      expect(validateIncomeGrowth({ type: 'career-curve', rate: 3, taperYears: -1 })).toContain('taper years');
+    });
+  });
+});
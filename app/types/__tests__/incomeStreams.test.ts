@@ -0,0 +1,77 @@
+/**
+ * Tests for part-time, consulting, rental and dividend income streams
+ */
+
+import {
+  IncomeStream,
+  getIncomeStreamGrowthRate,
+  isIncomeStreamActive,
+  validateIncomeStream,
+  validateIncomeStreams,
+} from '../incomeStreams';
+
+describe('Income Streams', () => {
+  const consulting: IncomeStream = {
+    name: 'Consulting',
+    startAge: 58,
+    endAge: 62,
+    annualAmount: 30000,
+    taxCharacter: 'self-employment',
+  };
+
+  describe('isIncomeStreamActive', () => {
+    it('should pay between the start and end ages', () => {
+      expect(isIncomeStreamActive(consulting, 57)).toBe(false);
+      expect(isIncomeStreamActive(consulting, 58)).toBe(true);
+      expect(isIncomeStreamActive(consulting, 62)).toBe(true);
+      expect(isIncomeStreamActive(consulting, 63)).toBe(false);
+    });
+
+    it('should keep paying without an end age', () => {
+      expect(isIncomeStreamActive({ ...consulting, endAge: undefined }, 95)).toBe(true);
+    });
+  });
+
+  describe('getIncomeStreamGrowthRate', () => {
+    it('should grow with inflation unless a rate is set', () => {
+      expect(getIncomeStreamGrowthRate(consulting, 3)).toBe(3);
+      expect(getIncomeStreamGrowthRate({ ...consulting, growthRate: 0 }, 3)).toBe(0);
+      expect(getIncomeStreamGrowthRate({ ...consulting, growthRate: 5 }, 3)).toBe(5);
+    });
+  });
+
+  describe('validateIncomeStream', () => {
+    it('should accept a valid income stream', () => {
+      expect(validateIncomeStream(consulting)).toBeNull();
+      expect(
+        validateIncomeStreams([
+          consulting,
+          { ...consulting, taxCharacter: 'rental', endAge: undefined, growthRate: 2, targetAccount: 'brokerage' },
+        ])
+      ).toBeNull();
+    });
+
+    it('should reject invalid fields', () => {
+      expect(validateIncomeStream({ ...consulting, name: '' })).toBe('Income stream name is required');
+      expect(validateIncomeStream({ ...consulting, startAge: 130 })).toBe(
+        'Income stream start age must be between 0 and 120'
+      );
+      expect(validateIncomeStream({ ...consulting, endAge: 50 })).toBe(
+        'Income stream end age must be at or after the start age and at most 120'
+      );
+      expect(validateIncomeStream({ ...consulting, annualAmount: -1 })).toBe(
+        'Income stream annual amount must be a positive number'
+      );
+      expect(validateIncomeStream({ ...consulting, growthRate: 50 })).toBe(
+        'Income stream growth rate must be a number between -20 and 20'
+      );
+      expect(validateIncomeStream({ ...consulting, taxCharacter: 'lottery' })).toBe(
+        'Income stream tax character must be one of: w2, self-employment, rental, qualified-dividends'
+      );
+      expect(validateIncomeStream({ ...consulting, targetAccount: 'hsa' })).toBe(
+        'Income stream target account must be one of: 401k, traditional-ira, roth-ira, brokerage, savings, checking'
+      );
+      expect(validateIncomeStreams({})).toBe('Income streams must be an array');
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for auto, student, credit card and other non-mortgage debts
+ */
+
+import { UserProfile } from '../profile';
+import {
+  Liability,
+  amortizeLiabilityYear,
+  calculateIdrMonthlyPayment,
+  getIdrHouseholdSize,
+  getLiabilityTypeLabel,
+  isIncomeDrivenRepayment,
+  validateLiabilityData,
+} from '../liabilities';
+
+describe('Liabilities', () => {
+  const carLoan: Liability = {
+    id: 'liability-1',
+    userId: 'user-1',
+    liabilityType: 'auto',
+    liabilityName: 'Car Loan',
+    balance: 12000,
+    apr: 0,
+    minimumPayment: 500,
+    asOfDate: '2025-01-01',
+    status: 'active',
+  };
+
+  const studentLoan: Liability = {
+    ...carLoan,
+    id: 'liability-2',
+    liabilityType: 'student',
+    liabilityName: 'Student Loans',
+    balance: 40000,
+    apr: 5,
+    minimumPayment: 400,
+    repaymentPlan: 'income-driven',
+  };
+
+  describe('amortizeLiabilityYear', () => {
+    it('should pay the monthly payment each month', () => {
+      const { annual, monthlyPayments } = amortizeLiabilityYear(carLoan, 12000, 500);
+
+      expect(monthlyPayments).toEqual(new Array(12).fill(500));
+      expect(annual.payment).toBe(6000);
+      expect(annual.interest).toBe(0);
+      expect(annual.principal).toBe(6000);
+      expect(annual.endingBalance).toBe(6000);
+    });
+
+    it('should accrue interest monthly at the APR', () => {
+      const card: Liability = { ...carLoan, liabilityType: 'credit-card', apr: 12 };
+
+      // 1% a month on $1,000 is $10 - an interest-only payment leaves the balance unchanged
+      const { annual } = amortizeLiabilityYear(card, 1000, 10);
+      expect(annual.interest).toBeCloseTo(120, 6);
+      expect(annual.principal).toBeCloseTo(0, 6);
+      expect(annual.endingBalance).toBeCloseTo(1000, 6);
+    });
+
+    it('should stop paying once the balance is paid off', () => {
+      const { annual, monthlyPayments } = amortizeLiabilityYear(carLoan, 1000, 300);
+
+      expect(monthlyPayments.slice(0, 5)).toEqual([300, 300, 300, 100, 0]);
+      expect(annual.payment).toBe(1000);
+      expect(annual.endingBalance).toBe(0);
+    });
+
+    it('should forgive the remaining balance', () => {
+      const { annual } = amortizeLiabilityYear({ ...studentLoan, apr: 0 }, 10000, 100, true);
+
+      expect(annual.forgiven).toBe(8800);
+      expect(annual.endingBalance).toBe(0);
+    });
+  });
+
+  describe('Income-driven repayment', () => {
+    it('should only apply to student loans on an income-driven plan', () => {
+      expect(isIncomeDrivenRepayment(studentLoan)).toBe(true);
+      expect(isIncomeDrivenRepayment({ ...studentLoan, repaymentPlan: 'standard' })).toBe(false);
+      expect(isIncomeDrivenRepayment({ ...carLoan, repaymentPlan: 'income-driven' })).toBe(false);
+    });
+
+    it('should pay a share of income above 150% of the poverty guideline', () => {
+      // $60,000 - 1.5 x $15,650 = $36,525 of discretionary income; 10% of it over 12 months
+      expect(calculateIdrMonthlyPayment(studentLoan, 60000, 1, 1)).toBeCloseTo(304.375, 6);
+      expect(calculateIdrMonthlyPayment({ ...studentLoan, idrPercent: 5 }, 60000, 1, 1)).toBeCloseTo(152.1875, 6);
+    });
+
+    it('should cap the payment at the standard payment', () => {
+      expect(calculateIdrMonthlyPayment({ ...studentLoan, minimumPayment: 250 }, 60000, 1, 1)).toBe(250);
+    });
+
+    it('should pay nothing below the inflated guideline for the household', () => {
+      // 1.5 x ($15,650 + 2 x $5,500) x 1.1 = $43,972.50
+      expect(calculateIdrMonthlyPayment(studentLoan, 40000, 3, 1.1)).toBe(0);
+    });
+
+    it('should count the user, a spouse and dependents in the household', () => {
+      const profile = { maritalStatus: 'married', numberOfDependents: 2 } as UserProfile;
+      expect(getIdrHouseholdSize(profile)).toBe(4);
+      expect(getIdrHouseholdSize({ ...profile, maritalStatus: 'single', numberOfDependents: 0 })).toBe(1);
+    });
+  });
+
+  describe('validateLiabilityData', () => {
+    const createRequest = {
+      liabilityType: 'student',
+      liabilityName: 'Student Loans',
+      balance: 40000,
+      apr: 5,
+      minimumPayment: 400,
+      repaymentPlan: 'income-driven',
+      asOfDate: '2025-01-01',
+    };
+
+    it('should accept a valid liability', () => {
+      expect(validateLiabilityData(createRequest)).toBeNull();
+      expect(validateLiabilityData({ balance: 100, status: 'paid-off' }, true)).toBeNull();
+    });
+
+    it('should reject invalid fields', () => {
+      expect(validateLiabilityData({ ...createRequest, liabilityType: 'mortgage' })).toBe('Invalid liabilityType');
+      expect(validateLiabilityData({ ...createRequest, minimumPayment: '400' })).toBe(
+        'minimumPayment is required and must be a number'
+      );
+      expect(validateLiabilityData({ ...createRequest, apr: 120 })).toBe('apr must be a number between 0 and 100');
+      expect(validateLiabilityData({ ...createRequest, repaymentPlan: 'graduated' })).toBe(
+        'repaymentPlan must be one of: standard, income-driven'
+      );
+      expect(validateLiabilityData({ ...createRequest, liabilityType: 'personal' })).toBe(
+        'Income-driven repayment is only supported for student loans'
+      );
+      expect(validateLiabilityData({ ...createRequest, forgivenessYears: 2.5 })).toBe(
+        'forgivenessYears must be a whole number between 1 and 30'
+      );
+      expect(validateLiabilityData({ status: 'closed' }, true)).toBe('status must be active or paid-off');
+    });
+  });
+
+  it('should label liability types', () => {
+    expect(getLiabilityTypeLabel('credit-card')).toBe('Credit Card');
+    expect(getLiabilityTypeLabel('heloc')).toBe('HELOC');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for life table mortality, survival probabilities and planning horizons
+ */
+
+import {
+  getDeathProbability,
+  getMortalityMultiplier,
+  calculateSurvivalProbability,
+  calculateLifeExpectancy,
+  getPlanningHorizonAge,
+  getProjectionEndYear,
+  validatePlanningHorizon,
+  DEFAULT_PROJECTION_YEARS,
+} from '../mortality';
+
+describe('Mortality', () => {
+  describe('getDeathProbability', () => {
+    it('should return the table rate at listed ages', () => {
+      expect(getDeathProbability(65, { sex: 'male' })).toBeCloseTo(0.0156, 6);
+      expect(getDeathProbability(65, { sex: 'female' })).toBeCloseTo(0.0099, 6);
+    });
+
+    it('should interpolate log-linearly between listed ages', () => {
+      const rate = getDeathProbability(67, { sex: 'male' });
+      expect(rate).toBeGreaterThan(0.0156);
+      expect(rate).toBeLessThan(0.0232);
+      expect(rate).toBeCloseTo(0.0156 * Math.pow(0.0232 / 0.0156, 2 / 5), 6);
+    });
+
+    it('should average the male and female rates without a recorded sex', () => {
+      expect(getDeathProbability(65)).toBeCloseTo((0.0156 + 0.0099) / 2, 6);
+    });
+
+    it('should be certain at 120', () => {
+      expect(getDeathProbability(120)).toBe(1);
+    });
+
+    it('should scale with health and smoking, capped at 1', () => {
+      expect(getMortalityMultiplier({})).toBe(1);
+      expect(getMortalityMultiplier({ healthStatus: 'poor', smoker: true })).toBeCloseTo(3.2, 6);
+      expect(getDeathProbability(65, { sex: 'male', smoker: true })).toBeCloseTo(0.0312, 6);
+      expect(getDeathProbability(118, { healthStatus: 'poor', smoker: true })).toBe(1);
+    });
+  });
+
+  describe('calculateSurvivalProbability', () => {
+    it('should be 1 at the current age and fall with age', () => {
+      expect(calculateSurvivalProbability(65, 65)).toBe(1);
+      expect(calculateSurvivalProbability(65, 66, { sex: 'male' })).toBeCloseTo(1 - 0.0156, 6);
+      expect(calculateSurvivalProbability(65, 90)).toBeLessThan(calculateSurvivalProbability(65, 80));
+      expect(calculateSurvivalProbability(65, 121)).toBe(0);
+    });
+  });
+
+  describe('calculateLifeExpectancy', () => {
+    it('should match period life expectancies at 65', () => {
+      expect(calculateLifeExpectancy(65, { sex: 'male' })).toBeCloseTo(18, 0);
+      expect(calculateLifeExpectancy(65, { sex: 'female' })).toBeCloseTo(20.6, 0);
+    });
+  });
+
+  describe('getPlanningHorizonAge', () => {
+    it('should plan further out for higher percentiles', () => {
+      const median = getPlanningHorizonAge(65, 50, { sex: 'female' });
+      const conservative = getPlanningHorizonAge(65, 90, { sex: 'female' });
+
+      expect(median).toBeGreaterThanOrEqual(84);
+      expect(median).toBeLessThanOrEqual(88);
+      expect(conservative).toBeGreaterThan(median);
+      expect(calculateSurvivalProbability(65, conservative + 1, { sex: 'female' })).toBeLessThanOrEqual(0.1);
+      expect(calculateSurvivalProbability(65, conservative, { sex: 'female' })).toBeGreaterThan(0.1);
+    });
+
+    it('should shorten the horizon for smokers', () => {
+      expect(getPlanningHorizonAge(65, 90, { smoker: true })).toBeLessThan(getPlanningHorizonAge(65, 90));
+    });
+  });
+
+  describe('getProjectionEndYear', () => {
+    it('should end in the year the user reaches the planning horizon age', () => {
+      const horizonAge = getPlanningHorizonAge(60, 90, { sex: 'male' });
+
+      expect(getProjectionEndYear(2025, 60, 90, { sex: 'male' })).toBe(2025 + horizonAge - 60);
+      // The horizon replaces any default end year
+      expect(getProjectionEndYear(2025, 60, 90, { sex: 'male' }, 2055)).toBe(2025 + horizonAge - 60);
+    });
+
+    it('should fall back to the default end year without a percentile', () => {
+      expect(getProjectionEndYear(2025, 60, undefined)).toBe(2025 + DEFAULT_PROJECTION_YEARS);
+      expect(getProjectionEndYear(2025, 60, undefined, {}, 2055)).toBe(2055);
+    });
+  });
+
+  describe('validatePlanningHorizon', () => {
+    it('should accept percentiles from 50 to 99', () => {
+      expect(validatePlanningHorizon({})).toBeNull();
+      expect(validatePlanningHorizon({ planningHorizonPercentile: null })).toBeNull();
+      expect(validatePlanningHorizon({ planningHorizonPercentile: 90 })).toBeNull();
+    });
+
+    it('should reject percentiles outside 50 to 99', () => {
+      expect(validatePlanningHorizon({ planningHorizonPercentile: 49 })).toContain('between 50 and 99');
+      expect(validatePlanningHorizon({ planningHorizonPercentile: 100 })).toContain('between 50 and 99');
+    });
+  });
+});
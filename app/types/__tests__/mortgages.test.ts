@@ -8,6 +8,7 @@ import {
   generateAmortizationSchedule,
   aggregateToAnnualPayments,
   getMortgagePaymentForYear,
+  getMortgagePaymentsByMonth,
   isMortgageActive,
   validateMortgage,
 } from '../mortgages';
@@ -195,6 +196,23 @@ describe('Mortgage Calculations', () => {
     });
   });
 
+  describe('getMortgagePaymentsByMonth', () => {
+    it('should place payments in their calendar months', () => {
+      const midYearMortgage = { ...sampleMortgage, startDate: '2024-07-01' };
+      const months = getMortgagePaymentsByMonth(midYearMortgage, 2024);
+      const annual = getMortgagePaymentForYear(midYearMortgage, 2024);
+
+      expect(months).toHaveLength(12);
+      expect(months.slice(0, 6).every((payment) => payment === 0)).toBe(true);
+      expect(months[6]).toBeCloseTo(2528.27 + 500, 1);
+      expect(months.reduce((sum, payment) => sum + payment, 0)).toBeCloseTo(annual!.totalPayment, 2);
+    });
+
+    it('should return zeros when the mortgage is not active', () => {
+      expect(getMortgagePaymentsByMonth(sampleMortgage, 2023)).toEqual(new Array(12).fill(0));
+    });
+  });
+
   describe('isMortgageActive', () => {
     it('should return true for years when mortgage is active', () => {
       expect(isMortgageActive(sampleMortgage, 2024)).toBe(true);
@@ -0,0 +1,105 @@
+/**
+ * Tests for partner modeling helpers and validation
+ */
+
+import {
+  hasPartner,
+  getBucketDateOfBirth,
+  isAliveAtAge,
+  getPartnerTaxDeferredShare,
+  validatePartner,
+} from '../partner';
+import { UserProfile } from '../profile';
+import { Account } from '../accounts';
+
+describe('Partner', () => {
+  const profile: UserProfile = {
+    userId: 'test-user-123',
+    firstname: 'Test',
+    dateOfBirth: '1960-06-15',
+    maritalStatus: 'married',
+    spouseDateOfBirth: '1965-03-01',
+    numberOfDependents: 0,
+    onboardingComplete: true,
+  };
+
+  describe('hasPartner', () => {
+    it('should require a married profile with a spouse date of birth', () => {
+      expect(hasPartner(profile)).toBe(true);
+      expect(hasPartner({ ...profile, spouseDateOfBirth: undefined })).toBe(false);
+      expect(hasPartner({ ...profile, maritalStatus: 'single' })).toBe(false);
+    });
+  });
+
+  describe('getBucketDateOfBirth', () => {
+    it('should use the partner date of birth for partner bucket ages', () => {
+      expect(getBucketDateOfBirth(profile, 'partner')).toBe('1965-03-01');
+      expect(getBucketDateOfBirth(profile, 'self')).toBe('1960-06-15');
+      expect(getBucketDateOfBirth(profile, undefined)).toBe('1960-06-15');
+    });
+
+    it('should fall back to the user without a partner', () => {
+      expect(getBucketDateOfBirth({ ...profile, maritalStatus: 'single' }, 'partner')).toBe('1960-06-15');
+    });
+  });
+
+  describe('isAliveAtAge', () => {
+    it('should be alive through the life expectancy age', () => {
+      expect(isAliveAtAge(90)).toBe(true);
+      expect(isAliveAtAge(85, 85)).toBe(true);
+      expect(isAliveAtAge(86, 85)).toBe(false);
+    });
+  });
+
+  describe('getPartnerTaxDeferredShare', () => {
+    const account = (id: string, accountType: Account['accountType'], balance: number, owner?: 'self' | 'partner'): Account => ({
+      id,
+      userId: 'test-user-123',
+      accountType,
+      accountName: id,
+      balance,
+      owner,
+      asOfDate: '2025-01-01',
+      status: 'active',
+    });
+
+    it('should return the partner-owned fraction of tax-deferred balances', () => {
+      const accounts = [
+        account('401k', '401k', 300000),
+        account('ira', 'traditional-ira', 100000, 'partner'),
+        account('roth', 'roth-ira', 500000, 'partner'),
+      ];
+      expect(getPartnerTaxDeferredShare(accounts)).toBeCloseTo(0.25, 6);
+    });
+
+    it('should return 0 without tax-deferred balances', () => {
+      expect(getPartnerTaxDeferredShare([account('roth', 'roth-ira', 1000, 'partner')])).toBe(0);
+    });
+  });
+
+  describe('validatePartner', () => {
+    it('should accept valid partner assumptions', () => {
+      expect(
+        validatePartner({
+          partner: { annualIncome: 80000, retirementAge: 62, socialSecurityAge: 67, socialSecurityPia: 1500 },
+          lifeExpectancy: 90,
+          bucketAgeBasis: 'partner',
+        })
+      ).toBeNull();
+      expect(validatePartner({ partner: null, lifeExpectancy: null })).toBeNull();
+    });
+
+    it('should reject invalid partner fields', () => {
+      expect(validatePartner({ partner: 'spouse' })).toContain('object');
+      expect(validatePartner({ partner: { annualIncome: -1 } })).toContain('income');
+      expect(validatePartner({ partner: { socialSecurityPia: 1500, socialSecurityAge: 60 } })).toContain('62');
+      expect(validatePartner({ partner: { socialSecurityPia: 1500 } })).toContain('claiming age is required');
+      expect(validatePartner({ partner: { lifeExpectancy: 130 } })).toContain('life expectancy');
+    });
+
+    it('should reject an invalid life expectancy or bucket age basis', () => {
+      expect(validatePartner({ lifeExpectancy: -1 })).toContain('Life expectancy');
+      expect(validatePartner({ bucketAgeBasis: 'spouse' })).toContain('self');
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for pension and annuity income streams
+ */
+
+import {
+  Pension,
+  calculatePensionPayment,
+  getColaRate,
+  getTaxablePensionAmount,
+  validatePension,
+  validatePensions,
+} from '../pensions';
+
+describe('Pensions', () => {
+  const statePension: Pension = {
+    name: 'State Pension',
+    type: 'pension',
+    startAge: 62,
+    annualAmount: 48000,
+    colaType: 'cpi',
+    colaRate: 2,
+    survivorPercent: 50,
+    taxTreatment: 'taxable',
+  };
+
+  describe('getColaRate', () => {
+    it('should follow inflation up to the CPI cap', () => {
+      expect(getColaRate(statePension, 1.5)).toBe(1.5);
+      expect(getColaRate(statePension, 4)).toBe(2);
+      expect(getColaRate({ ...statePension, colaRate: undefined }, 4)).toBe(4);
+    });
+
+    it('should never cut a CPI-linked payment when prices fall', () => {
+      expect(getColaRate(statePension, -1)).toBe(0);
+    });
+
+    it('should use the fixed rate regardless of inflation', () => {
+      expect(getColaRate({ ...statePension, colaType: 'fixed', colaRate: 3 }, 0)).toBe(3);
+      expect(getColaRate({ ...statePension, colaType: 'none' }, 3)).toBe(0);
+    });
+  });
+
+  describe('calculatePensionPayment', () => {
+    it('should pay between the start and end ages', () => {
+      const annuity: Pension = { ...statePension, type: 'immediate-annuity', endAge: 80 };
+      expect(calculatePensionPayment(annuity, 61, true, true, 1)).toBe(0);
+      expect(calculatePensionPayment(annuity, 62, true, true, 1)).toBe(48000);
+      expect(calculatePensionPayment(annuity, 80, true, true, 1.1)).toBeCloseTo(52800, 6);
+      expect(calculatePensionPayment(annuity, 81, true, true, 1.1)).toBe(0);
+    });
+
+    it('should pay the survivor percentage after the owner dies', () => {
+      expect(calculatePensionPayment(statePension, 70, false, true, 1)).toBe(24000);
+      expect(calculatePensionPayment(statePension, 70, false, false, 1)).toBe(0);
+      expect(calculatePensionPayment({ ...statePension, survivorPercent: undefined }, 70, false, true, 1)).toBe(0);
+    });
+  });
+
+  describe('getTaxablePensionAmount', () => {
+    it('should apply the tax treatment', () => {
+      expect(getTaxablePensionAmount(statePension, 48000)).toBe(48000);
+      expect(getTaxablePensionAmount({ ...statePension, taxTreatment: 'tax-free' }, 48000)).toBe(0);
+      expect(
+        getTaxablePensionAmount({ ...statePension, taxTreatment: 'partially-taxable', taxablePercent: 40 }, 48000)
+      ).toBeCloseTo(19200, 6);
+    });
+  });
+
+  describe('validatePension', () => {
+    it('should accept a valid pension', () => {
+      expect(validatePension(statePension)).toBeNull();
+      expect(validatePensions([statePension, { ...statePension, owner: 'partner' }])).toBeNull();
+    });
+
+    it('should reject invalid fields', () => {
+      expect(validatePension({ ...statePension, name: ' ' })).toBe('Pension name is required');
+      expect(validatePension({ ...statePension, type: 'lottery' })).toBe(
+        'Pension type must be one of: pension, immediate-annuity, deferred-annuity'
+      );
+      expect(validatePension({ ...statePension, endAge: 60 })).toBe(
+        'Pension end age must be at or after the start age and at most 120'
+      );
+      expect(validatePension({ ...statePension, annualAmount: 0 })).toBe(
+        'Pension annual amount must be a positive number'
+      );
+      expect(validatePension({ ...statePension, colaType: 'wage' })).toBe(
+        'Pension COLA type must be one of: none, fixed, cpi'
+      );
+      expect(validatePension({ ...statePension, survivorPercent: 150 })).toBe(
+        'Pension survivor percent must be a number between 0 and 100'
+      );
+      expect(validatePension({ ...statePension, taxTreatment: 'roth' })).toBe(
+        'Pension tax treatment must be one of: taxable, partially-taxable, tax-free'
+      );
+      expect(validatePensions({})).toBe('Pensions must be an array');
+    });
+  });
+});
@@ -309,6 +309,40 @@ describe('Projection Calculations', () => {
       expect(expenseYear!.spending.lumpSum).toBe(50000); // NOT inflated
     });
 
+    it('should repeat recurring lump sum events and inflate those in today\'s dollars', () => {
+      const scenarioWithRecurringEvent: Scenario = {
+        ...sampleScenario,
+        inflationRate: 3,
+        lumpSumEvents: [
+          {
+            id: 'event-1',
+            type: 'expense',
+            age: 40,
+            amount: 30000,
+            description: 'New car',
+            inflationIndexed: true,
+            repeatEveryYears: 2,
+            repeatUntilAge: 44,
+          },
+        ],
+      };
+
+      const projection = calculateScenarioProjection(
+        scenarioWithRecurringEvent,
+        sampleProfile,
+        sampleAccounts,
+        2024,
+        2034
+      );
+
+      const eventAges = projection.years.filter((y) => y.spending.lumpSum > 0).map((y) => y.age);
+      expect(eventAges).toEqual([40, 42, 44]);
+
+      // Today's dollars are inflated like spending
+      const firstCar = projection.years.find((y) => y.age === 40)!;
+      expect(firstCar.spending.lumpSum).toBeCloseTo(firstCar.spending.living * (30000 / 60000), 2);
+    });
+
     it('should aggregate accounts by type correctly', () => {
       const projection = calculateScenarioProjection(
         sampleScenario,
@@ -323,8 +357,12 @@ describe('Projection Calculations', () => {
       // Starting balances
       expect(year1.accountBalances.byAccountType['401k']).toBeGreaterThan(100000);
       expect(year1.accountBalances.byAccountType['roth-ira']).toBeGreaterThan(50000);
-      expect(year1.accountBalances.byAccountType['savings']).toBeGreaterThan(0);
-      expect(year1.accountBalances.byAccountType['checking']).toBeGreaterThan(0);
+      // Income taxes turn the year into a deficit: 102k income less 76,875 spending,
+      // 32,287.50 contributions and taxes. Checking covers it first, then savings
+      const deficit = 76875 + 32287.5 + year1.taxes.total - 102000;
+      expect(year1.taxes.total).toBeGreaterThan(0);
+      expect(year1.accountBalances.byAccountType['checking']).toBeCloseTo(0, 6);
+      expect(year1.accountBalances.byAccountType['savings']).toBeCloseTo(30000 + 10000 - deficit, 6);
 
       // Total should equal sum of all types
       const sum = Object.values(year1.accountBalances.byAccountType).reduce(
@@ -530,6 +568,10 @@ describe('Projection Calculations', () => {
         income: {
           employment: 100000,
           socialSecurity: 0,
+          pension: 0,
+          byPension: [],
+          incomeStreams: 0,
+          rental: 0,
           lumpSum: 0,
           investmentGains: 10000,
           total: 110000,
@@ -540,6 +582,10 @@ describe('Projection Calculations', () => {
           healthcare: 5000,
           lumpSum: 0,
           mortgages: 0,
+          realEstate: 0,
+          liabilities: 0,
+          taxes: 0,
+          earlyWithdrawalPenalty: 0,
           total: 75000,
         },
         mortgagePayments: {
@@ -560,9 +606,31 @@ describe('Projection Calculations', () => {
             'savings': 0,
             'checking': 0,
           },
+          employer: 0,
+          employerForfeited: 0,
+        },
+        withdrawals: {
+          total: 0,
+          byAccountType: {
+            '401k': 0,
+            'traditional-ira': 0,
+            'roth-ira': 0,
+            'brokerage': 0,
+            'savings': 0,
+            'checking': 0,
+          },
+          sepp: 0,
+          penalized: 0,
         },
+        rothConversion: 0,
+        realEstate: { value: 0, equity: 0, saleProceeds: 0, taxableGain: 0, byProperty: [] },
+        liabilities: { balance: 0, payments: 0, interest: 0, forgiven: 0, byLiability: [] },
+        rmd: { amount: 0, distributionPeriod: 0, reinvested: 0 },
+        survivalProbability: 1,
+        depletedWhileAliveProbability: 0,
         incomeAfterContributions: 78500, // 110000 - 31500
         netIncome: 3500,
+        investmentReturnRate: 7,
         accountBalances: {
           total: 200000,
           byAccountType: {
@@ -573,6 +641,8 @@ describe('Projection Calculations', () => {
             'savings': 30000,
             'checking': 20000,
           },
+          brokerageCostBasis: 0,
+          netWorth: 200000,
         },
       },
       {
@@ -581,6 +651,10 @@ describe('Projection Calculations', () => {
         income: {
           employment: 102500,
           socialSecurity: 0,
+          pension: 0,
+          byPension: [],
+          incomeStreams: 0,
+          rental: 0,
           lumpSum: 0,
           investmentGains: 12000,
           total: 114500,
@@ -591,6 +665,10 @@ describe('Projection Calculations', () => {
           healthcare: 5125,
           lumpSum: 0,
           mortgages: 0,
+          realEstate: 0,
+          liabilities: 0,
+          taxes: 0,
+          earlyWithdrawalPenalty: 0,
           total: 76875,
         },
         mortgagePayments: {
@@ -611,9 +689,31 @@ describe('Projection Calculations', () => {
             'savings': 0,
             'checking': 0,
           },
+          employer: 0,
+          employerForfeited: 0,
+        },
+        withdrawals: {
+          total: 0,
+          byAccountType: {
+            '401k': 0,
+            'traditional-ira': 0,
+            'roth-ira': 0,
+            'brokerage': 0,
+            'savings': 0,
+            'checking': 0,
+          },
+          sepp: 0,
+          penalized: 0,
         },
+        rothConversion: 0,
+        realEstate: { value: 0, equity: 0, saleProceeds: 0, taxableGain: 0, byProperty: [] },
+        liabilities: { balance: 0, payments: 0, interest: 0, forgiven: 0, byLiability: [] },
+        rmd: { amount: 0, distributionPeriod: 0, reinvested: 0 },
+        survivalProbability: 1,
+        depletedWhileAliveProbability: 0,
         incomeAfterContributions: 82212, // 114500 - 32288
         netIncome: 5337,
+        investmentReturnRate: 7,
         accountBalances: {
           total: 220000,
           byAccountType: {
@@ -624,6 +724,8 @@ describe('Projection Calculations', () => {
             'savings': 30000,
             'checking': 25000,
           },
+          brokerageCostBasis: 0,
+          netWorth: 220000,
         },
       },
       {
@@ -632,6 +734,10 @@ describe('Projection Calculations', () => {
         income: {
           employment: 0, // Retired
           socialSecurity: 0,
+          pension: 0,
+          byPension: [],
+          incomeStreams: 0,
+          rental: 0,
           lumpSum: 0,
           investmentGains: 14000,
           total: 14000,
@@ -642,6 +748,10 @@ describe('Projection Calculations', () => {
           healthcare: 5253,
           lumpSum: 0,
           mortgages: 0,
+          realEstate: 0,
+          liabilities: 0,
+          taxes: 0,
+          earlyWithdrawalPenalty: 0,
           total: 78834,
         },
         mortgagePayments: {
@@ -662,9 +772,31 @@ describe('Projection Calculations', () => {
             'savings': 0,
             'checking': 0,
           },
+          employer: 0,
+          employerForfeited: 0,
+        },
+        withdrawals: {
+          total: 0,
+          byAccountType: {
+            '401k': 0,
+            'traditional-ira': 0,
+            'roth-ira': 0,
+            'brokerage': 0,
+            'savings': 0,
+            'checking': 0,
+          },
+          sepp: 0,
+          penalized: 0,
         },
+        rothConversion: 0,
+        realEstate: { value: 0, equity: 0, saleProceeds: 0, taxableGain: 0, byProperty: [] },
+        liabilities: { balance: 0, payments: 0, interest: 0, forgiven: 0, byLiability: [] },
+        rmd: { amount: 0, distributionPeriod: 0, reinvested: 0 },
+        survivalProbability: 1,
+        depletedWhileAliveProbability: 0,
         incomeAfterContributions: 14000, // 14000 - 0
         netIncome: -64834, // Deficit year
+        investmentReturnRate: 7,
         accountBalances: {
           total: 180000,
           byAccountType: {
@@ -675,6 +807,8 @@ describe('Projection Calculations', () => {
             'savings': 10000,
             'checking': 5000,
           },
+          brokerageCostBasis: 0,
+          netWorth: 180000,
         },
       },
     ];
@@ -692,7 +826,19 @@ describe('Projection Calculations', () => {
     it('should calculate final net worth correctly', () => {
       const summary = calculateProjectionSummary(sampleYears, 2024, 2026);
 
-      expect(summary.finalNetWorth).toBe(180000); // Last year's total balance
+      expect(summary.finalNetWorth).toBe(180000); // Last year's net worth
+    });
+
+    it('should include real estate equity and debts in final net worth', () => {
+      const lastYear = sampleYears[sampleYears.length - 1];
+      const withEquityAndDebt = [
+        ...sampleYears.slice(0, -1),
+        { ...lastYear, accountBalances: { ...lastYear.accountBalances, netWorth: 180000 + 250000 - 20000 } },
+      ];
+
+      const summary = calculateProjectionSummary(withEquityAndDebt, 2024, 2026);
+
+      expect(summary.finalNetWorth).toBe(410000);
     });
 
     it('should identify deficit years correctly', () => {
@@ -956,14 +1102,14 @@ describe('Projection Calculations', () => {
 
       const balances = projection.years[0].accountBalances.byAccountType;
 
-      // Checking depleted or very low
-      expect(balances['checking']).toBeLessThan(1000);
-
-      // Traditional IRA tapped for deficit
-      expect(balances['traditional-ira']).toBeLessThan(200000);
+      // Checking depleted first
+      expect(balances['checking']).toBe(0);
 
-      // Roth IRA untouched or minimally touched (last resort)
-      expect(balances['roth-ira']).toBeGreaterThanOrEqual(99000); // Allow for small withdrawals
+      // At 39, Roth IRA contributions come out penalty-free, so the $15,500 left of the
+      // $20,500 deficit is drawn from the Roth basis before the penalized traditional IRA
+      expect(balances['roth-ira']).toBe(100000 - 15500);
+      expect(balances['traditional-ira']).toBe(200000);
+      expect(projection.years[0].spending.earlyWithdrawalPenalty).toBe(0);
     });
   });
 
@@ -1132,10 +1278,10 @@ describe('Projection Calculations', () => {
         { age: 74, factor: 25.5, birthYear: 1951 },
         { age: 75, factor: 24.6, birthYear: 1950 },
         { age: 80, factor: 20.2, birthYear: 1945 },
-        { age: 85, factor: 15.5, birthYear: 1940 },
-        { age: 90, factor: 11.5, birthYear: 1935 },
-        { age: 95, factor: 8.1, birthYear: 1930 },
-        { age: 100, factor: 5.0, birthYear: 1925 },
+        { age: 85, factor: 16.0, birthYear: 1940 },
+        { age: 90, factor: 12.2, birthYear: 1935 },
+        { age: 95, factor: 8.9, birthYear: 1930 },
+        { age: 100, factor: 6.4, birthYear: 1925 },
       ];
 
       testCases.forEach(({ age, factor, birthYear }) => {
@@ -1363,9 +1509,8 @@ describe('Projection Calculations', () => {
       expect(year1.income.total).toBeCloseTo(expectedRmd, 0);
     });
 
-    it('should apply linear interpolation for ages between defined factors', () => {
-      // Test age 76 (between 75 and 80)
-      // Linear interpolation: 27.4 - (76 - 72) * 0.5 = 27.4 - 2.0 = 25.4
+    it('should use the Uniform Lifetime Table for ages between milestone ages', () => {
+      // Test age 76 (between 75 and 80): Uniform Lifetime Table factor 23.7
       const age76Profile: UserProfile = {
         ...sampleProfile,
         dateOfBirth: '1949-01-01',
@@ -1392,7 +1537,7 @@ describe('Projection Calculations', () => {
         assumptionBuckets: [
           {
             id: 'bucket-1',
-            name: 'Interpolated RMD',
+            name: 'Age 76 RMD',
             startAge: 76,
             endAge: 76,
             assumptions: {
@@ -1421,8 +1566,7 @@ describe('Projection Calculations', () => {
         2025
       );
 
-      // Expected factor: 27.4 - (76 - 72) * 0.5 = 25.4
-      const expectedFactor = 27.4 - (76 - 72) * 0.5;
+      const expectedFactor = 23.7;
       const expectedRmd = 1000000 / expectedFactor;
       const year1 = projection.years[0];
 
@@ -1618,10 +1762,11 @@ describe('Projection Calculations', () => {
       expect(year1.accountBalances.byAccountType['roth-ira']).toBe(50000 + 7000);
       expect(year1.accountBalances.byAccountType['brokerage']).toBe(25000 + 10000);
 
-      // Checking should have surplus after contributions
+      // Checking should have surplus after contributions and income taxes
       // Income is inflated by 2% in year 1: 150k * 1.02 = 153k
-      // Surplus: 153k - 80k - 40k = 33k
-      expect(year1.accountBalances.byAccountType['checking']).toBeCloseTo(50000 + 33000, 0);
+      // Surplus: 153k - 80k - 40k - taxes = 33k - taxes
+      expect(year1.taxes.total).toBeGreaterThan(0);
+      expect(year1.accountBalances.byAccountType['checking']).toBeCloseTo(50000 + 33000 - year1.taxes.total, 0);
     });
 
     it('should track balances correctly over multiple years with contributions and growth', () => {
@@ -1705,7 +1850,7 @@ describe('Projection Calculations', () => {
 
       const year1_employment_income = 120000 * 1.02; // 122,400 (2% income inflation)
       const year1_total_income = year1_employment_income; // Only employment income
-      const year1_surplus = year1_total_income - 80000 - 30000; // 12,400
+      const year1_surplus = year1_total_income - 80000 - 30000 - year1.taxes.total; // 12,400 less taxes
 
       const year1_401k = 100000 + year1_401k_growth + 20000; // 126,000
       const year1_brokerage = 50000 + year1_brokerage_growth + 10000; // 63,000
@@ -1723,7 +1868,7 @@ describe('Projection Calculations', () => {
 
       const year2_employment_income = year1_employment_income * 1.02;
       const year2_total_income = year2_employment_income; // Only employment income
-      const year2_surplus = year2_total_income - 80000 - 30000;
+      const year2_surplus = year2_total_income - 80000 - 30000 - year2.taxes.total;
 
       const year2_401k = year1_401k + year2_401k_growth + 20000;
       const year2_brokerage = year1_brokerage + year2_brokerage_growth + 10000;
@@ -1741,7 +1886,7 @@ describe('Projection Calculations', () => {
 
       const year3_employment_income = year2_employment_income * 1.02;
       const year3_total_income = year3_employment_income; // Only employment income
-      const year3_surplus = year3_total_income - 80000 - 30000;
+      const year3_surplus = year3_total_income - 80000 - 30000 - year3.taxes.total;
 
       const year3_401k = year2_401k + year3_401k_growth + 20000;
       const year3_brokerage = year2_brokerage + year3_brokerage_growth + 10000;
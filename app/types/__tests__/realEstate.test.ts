@@ -0,0 +1,117 @@
+/**
+ * Tests for real estate values, rental income and sales
+ */
+
+import {
+  Property,
+  calculatePropertySale,
+  calculatePropertyValue,
+  getPropertyExpenses,
+  getRentalIncome,
+  getSection121Exclusion,
+  isPropertyOwned,
+  validateProperties,
+  validateProperty,
+} from '../realEstate';
+
+describe('Real Estate', () => {
+  const home: Property = {
+    name: 'Primary Home',
+    purchasePrice: 300000,
+    currentValue: 500000,
+    appreciationRate: 3,
+    annualPropertyTax: 6000,
+    annualMaintenance: 4000,
+    primaryResidence: true,
+    mortgageId: 'mortgage-1',
+    saleAge: 70,
+  };
+
+  describe('isPropertyOwned', () => {
+    it('should own a property through the year of sale', () => {
+      expect(isPropertyOwned(home, 70)).toBe(true);
+      expect(isPropertyOwned(home, 71)).toBe(false);
+      expect(isPropertyOwned({ ...home, saleAge: undefined }, 110)).toBe(true);
+    });
+  });
+
+  describe('calculatePropertyValue', () => {
+    it('should compound appreciation from today\'s value', () => {
+      expect(calculatePropertyValue(home, 0)).toBe(500000);
+      expect(calculatePropertyValue(home, 2)).toBeCloseTo(500000 * 1.03 * 1.03, 6);
+      expect(calculatePropertyValue({ ...home, appreciationRate: -10 }, 1)).toBeCloseTo(450000, 6);
+    });
+  });
+
+  describe('getPropertyExpenses and getRentalIncome', () => {
+    it('should inflate expenses and rent from today\'s dollars', () => {
+      expect(getPropertyExpenses(home, 1.1)).toBeCloseTo(11000, 6);
+      expect(getRentalIncome(home, 1.1)).toBe(0);
+    });
+
+    it('should take vacancy out of rent', () => {
+      const rental: Property = { ...home, annualRentalIncome: 24000, vacancyRate: 5 };
+      expect(getRentalIncome(rental, 1)).toBeCloseTo(22800, 6);
+    });
+  });
+
+  describe('calculatePropertySale', () => {
+    it('should exclude a primary residence gain up to the Section 121 limit', () => {
+      const sale = calculatePropertySale(home, 1000000, 100000, 'single');
+
+      expect(sale.sellingCosts).toBeCloseTo(60000, 6);
+      expect(sale.gain).toBeCloseTo(640000, 6); // 1,000,000 - 60,000 - 300,000
+      expect(sale.excludedGain).toBe(250000);
+      expect(sale.taxableGain).toBeCloseTo(390000, 6);
+      expect(sale.netProceeds).toBeCloseTo(840000, 6);
+    });
+
+    it('should exclude $500k filing jointly and nothing for a rental', () => {
+      expect(getSection121Exclusion('married-filing-jointly')).toBe(500000);
+      expect(calculatePropertySale(home, 700000, 0, 'married-filing-jointly').taxableGain).toBe(0);
+      expect(
+        calculatePropertySale({ ...home, primaryResidence: false, sellingCostPercent: 0 }, 700000, 0, 'single')
+          .taxableGain
+      ).toBe(400000);
+    });
+
+    it('should not tax a loss', () => {
+      const sale = calculatePropertySale(home, 250000, 280000, 'single');
+      expect(sale.taxableGain).toBe(0);
+      expect(sale.netProceeds).toBeCloseTo(-45000, 6);
+    });
+  });
+
+  describe('validateProperty', () => {
+    it('should accept a valid property', () => {
+      expect(validateProperty(home)).toBeNull();
+      expect(validateProperties([home], ['mortgage-1'])).toBeNull();
+      expect(validateProperties([home])).toBeNull();
+    });
+
+    it('should reject invalid fields', () => {
+      expect(validateProperty({ ...home, name: '' })).toBe('Property name is required');
+      expect(validateProperty({ ...home, currentValue: 0 })).toBe('Property current value must be a positive number');
+      expect(validateProperty({ ...home, appreciationRate: 25 })).toBe(
+        'Property appreciation rate must be a number between -20 and 20'
+      );
+      expect(validateProperty({ ...home, annualMaintenance: -1 })).toBe('Property annualMaintenance must be 0 or greater');
+      expect(validateProperty({ ...home, vacancyRate: 120 })).toBe(
+        'Property vacancy rate must be a number between 0 and 100'
+      );
+      expect(validateProperty({ ...home, proceedsAccount: '401k' })).toBe(
+        'Property proceeds account must be one of: brokerage, savings, checking'
+      );
+      expect(validateProperties({})).toBe('Properties must be an array');
+    });
+
+    it('should check mortgage links', () => {
+      expect(validateProperties([home], ['mortgage-2'])).toBe(
+        'Property mortgage mortgage-1 does not exist in this scenario'
+      );
+      expect(validateProperties([home, { ...home, name: 'Cabin' }])).toBe(
+        'A mortgage can only be linked to one property'
+      );
+    });
+  });
+});
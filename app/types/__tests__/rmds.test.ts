@@ -0,0 +1,95 @@
+/**
+ * Tests for required minimum distribution calculations
+ */
+
+import {
+  getRmdStartAge,
+  getUniformLifetimeFactor,
+  getJointLifeFactor,
+  getRmdDistributionPeriod,
+  calculateRmd,
+} from '../rmds';
+
+describe('Required Minimum Distributions', () => {
+  describe('getRmdStartAge', () => {
+    it('should start at 72 for those born in 1950 or earlier', () => {
+      expect(getRmdStartAge(1945)).toBe(72);
+      expect(getRmdStartAge(1950)).toBe(72);
+    });
+
+    it('should start at 73 for those born 1951 through 1959', () => {
+      expect(getRmdStartAge(1951)).toBe(73);
+      expect(getRmdStartAge(1959)).toBe(73);
+    });
+
+    it('should start at 75 for those born in 1960 or later', () => {
+      expect(getRmdStartAge(1960)).toBe(75);
+      expect(getRmdStartAge(1985)).toBe(75);
+    });
+  });
+
+  describe('getUniformLifetimeFactor', () => {
+    it('should return IRS Uniform Lifetime Table factors', () => {
+      expect(getUniformLifetimeFactor(72)).toBe(27.4);
+      expect(getUniformLifetimeFactor(73)).toBe(26.5);
+      expect(getUniformLifetimeFactor(76)).toBe(23.7);
+      expect(getUniformLifetimeFactor(85)).toBe(16.0);
+      expect(getUniformLifetimeFactor(100)).toBe(6.4);
+      expect(getUniformLifetimeFactor(119)).toBe(2.3);
+    });
+
+    it('should use 2.0 at 120 and over', () => {
+      expect(getUniformLifetimeFactor(120)).toBe(2.0);
+      expect(getUniformLifetimeFactor(125)).toBe(2.0);
+    });
+
+    it('should decrease every year', () => {
+      for (let age = 72; age < 120; age++) {
+        expect(getUniformLifetimeFactor(age + 1)).toBeLessThan(getUniformLifetimeFactor(age));
+      }
+    });
+  });
+
+  describe('getJointLifeFactor', () => {
+    it('should match the Uniform Lifetime Table for a spouse exactly 10 years younger', () => {
+      expect(getJointLifeFactor(75, 65)).toBe(24.6);
+      expect(getJointLifeFactor(85, 75)).toBe(16.0);
+      for (let age = 72; age < 120; age++) {
+        expect(getJointLifeFactor(age, age - 10)).toBe(getUniformLifetimeFactor(age));
+      }
+    });
+
+    it('should grow as the spouse gets younger', () => {
+      expect(getJointLifeFactor(75, 60)).toBeGreaterThan(getJointLifeFactor(75, 64));
+      expect(getJointLifeFactor(75, 50)).toBeGreaterThan(getJointLifeFactor(75, 60));
+    });
+  });
+
+  describe('getRmdDistributionPeriod', () => {
+    it('should use the Uniform Lifetime Table without a spouse', () => {
+      expect(getRmdDistributionPeriod(75)).toBe(24.6);
+    });
+
+    it('should use the Uniform Lifetime Table for a spouse 10 or fewer years younger', () => {
+      expect(getRmdDistributionPeriod(75, 70)).toBe(24.6);
+      expect(getRmdDistributionPeriod(75, 65)).toBe(24.6);
+    });
+
+    it('should use the Joint Life table for a spouse more than 10 years younger', () => {
+      expect(getRmdDistributionPeriod(75, 55)).toBe(getJointLifeFactor(75, 55));
+      expect(getRmdDistributionPeriod(75, 55)).toBeGreaterThan(24.6);
+    });
+  });
+
+  describe('calculateRmd', () => {
+    it('should divide the prior year-end balance by the distribution period', () => {
+      const rmd = calculateRmd(265000, 73);
+      expect(rmd.distributionPeriod).toBe(26.5);
+      expect(rmd.amount).toBeCloseTo(10000, 6);
+    });
+
+    it('should not distribute from a negative balance', () => {
+      expect(calculateRmd(-1000, 80).amount).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Tests for Roth conversion plans and the conversion optimizer
+ */
+
+import {
+  getRothConversionPlanForAge,
+  calculateBracketFillConversion,
+  applyRothConversion,
+  getSeasonedConversions,
+  withdrawRothConversionLayers,
+  validateRothConversionPlan,
+  validateRothConversionPlans,
+  RothConversionPlan,
+} from '../rothConversions';
+import {
+  buildRothConversionCandidates,
+  optimizeRothConversions,
+  validateRothOptimizerSettings,
+} from '../rothOptimizer';
+import { Scenario } from '../scenarios';
+import { UserProfile } from '../profile';
+import { Account } from '../accounts';
+
+describe('Roth Conversions', () => {
+  const currentYear = new Date().getFullYear();
+
+  const plans: RothConversionPlan[] = [
+    { type: 'fixed', startAge: 60, endAge: 64, amount: 20000 },
+    { type: 'fill-bracket', startAge: 65, endAge: 72, bracketRate: 22 },
+  ];
+
+  describe('getRothConversionPlanForAge', () => {
+    it('should find the plan covering an age', () => {
+      expect(getRothConversionPlanForAge(plans, 64)).toBe(plans[0]);
+      expect(getRothConversionPlanForAge(plans, 65)).toBe(plans[1]);
+      expect(getRothConversionPlanForAge(plans, 73)).toBeNull();
+    });
+  });
+
+  describe('calculateBracketFillConversion', () => {
+    it('should land taxable income on the bracket top', () => {
+      // 0.5 of each converted dollar also makes benefits taxable
+      const conversion = calculateBracketFillConversion(30000, 100000, (c) => c * 1.5 - 10000, 50);
+      expect(conversion * 1.5 - 10000).toBeCloseTo(30000, 1);
+    });
+
+    it('should not exceed the available balance', () => {
+      expect(calculateBracketFillConversion(50000, 5000, (c) => c, 20)).toBe(5000);
+    });
+
+    it('should convert nothing when income already fills the bracket', () => {
+      expect(calculateBracketFillConversion(50000, 100000, (c) => c + 60000, 20)).toBe(0);
+    });
+  });
+
+  describe('applyRothConversion', () => {
+    it('should convert from traditional IRA first, then 401(k)', () => {
+      const balances = {
+        '401k': 50000,
+        'traditional-ira': 10000,
+        'roth-ira': 0,
+        brokerage: 0,
+        savings: 0,
+        checking: 0,
+      };
+
+      expect(applyRothConversion(balances, 25000)).toBe(25000);
+      expect(balances['traditional-ira']).toBe(0);
+      expect(balances['401k']).toBe(35000);
+      expect(balances['roth-ira']).toBe(25000);
+    });
+  });
+
+  describe('conversion seasoning', () => {
+    it('should count conversions seasoned five years', () => {
+      const layers = [
+        { age: 45, amount: 20000 },
+        { age: 46, amount: 30000 },
+      ];
+
+      expect(getSeasonedConversions(layers, 49)).toBe(0);
+      expect(getSeasonedConversions(layers, 50)).toBe(20000);
+      expect(getSeasonedConversions(layers, 51)).toBe(50000);
+    });
+
+    it('should withdraw the oldest conversions first', () => {
+      const layers = [
+        { age: 45, amount: 20000 },
+        { age: 46, amount: 30000 },
+      ];
+
+      expect(withdrawRothConversionLayers(layers, 25000)).toBe(25000);
+      expect(layers).toEqual([
+        { age: 45, amount: 0 },
+        { age: 46, amount: 25000 },
+      ]);
+      // Anything beyond the conversions is earnings
+      expect(withdrawRothConversionLayers(layers, 40000)).toBe(25000);
+    });
+  });
+
+  describe('validateRothConversionPlan', () => {
+    it('should accept valid plans', () => {
+      expect(validateRothConversionPlans(plans)).toBeNull();
+    });
+
+    it('should require an amount for fixed plans', () => {
+      expect(validateRothConversionPlan({ type: 'fixed', startAge: 60, endAge: 64 })).toContain('amount');
+    });
+
+    it('should require a valid bracket for fill-bracket plans', () => {
+      expect(
+        validateRothConversionPlan({ type: 'fill-bracket', startAge: 60, endAge: 64, bracketRate: 37 })
+      ).toContain('bracket rate');
+    });
+
+    it('should reject an end age before the start age', () => {
+      expect(validateRothConversionPlan({ type: 'fixed', startAge: 64, endAge: 60, amount: 1 })).toContain(
+        'end age'
+      );
+    });
+
+    it('should reject overlapping plans', () => {
+      expect(validateRothConversionPlans([plans[0], { ...plans[1], startAge: 64 }])).toContain('overlap');
+    });
+  });
+
+  describe('optimizeRothConversions', () => {
+    const profile: UserProfile = {
+      userId: 'test-user-123',
+      firstname: 'Test',
+      dateOfBirth: `${currentYear - 60}-01-01`,
+      maritalStatus: 'single',
+      numberOfDependents: 0,
+      onboardingComplete: true,
+    };
+
+    const accounts: Account[] = [
+      {
+        id: 'ira-1',
+        userId: 'test-user-123',
+        accountType: 'traditional-ira',
+        accountName: 'IRA',
+        balance: 1500000,
+        asOfDate: '2025-01-01',
+        status: 'active',
+      },
+      {
+        id: 'brokerage-1',
+        userId: 'test-user-123',
+        accountType: 'brokerage',
+        accountName: 'Brokerage',
+        balance: 500000,
+        asOfDate: '2025-01-01',
+        status: 'active',
+      },
+    ];
+
+    const scenario: Scenario = {
+      id: 'scenario-1',
+      userId: 'test-user-123',
+      name: 'Early Retirement',
+      isDefault: true,
+      retirementAge: 60,
+      socialSecurityAge: 70,
+      socialSecurityIncome: 40000,
+      investmentReturnRate: 5,
+      inflationRate: 2.5,
+      assumptionBuckets: [
+        {
+          id: 'bucket-1',
+          order: 0,
+          startAge: 60,
+          endAge: 95,
+          assumptions: { annualIncome: 0, annualSpending: 50000 },
+        },
+      ],
+      lumpSumEvents: [],
+      mortgages: [],
+    };
+
+    it('should build fill-bracket and fixed candidates for each window', () => {
+      const candidates = buildRothConversionCandidates(scenario, 60, 75);
+      expect(candidates.length).toBeGreaterThan(0);
+      expect(candidates.every((c) => c.length === 1 && c[0].startAge === 60)).toBe(true);
+      expect(candidates.some((c) => c[0].type === 'fill-bracket' && c[0].endAge === 69)).toBe(true);
+      expect(candidates.some((c) => c[0].type === 'fill-bracket' && c[0].endAge === 74)).toBe(true);
+    });
+
+    it('should find a schedule at least as good as converting nothing', () => {
+      const result = optimizeRothConversions(scenario, profile, accounts, currentYear, currentYear + 35, {
+        objective: 'max-after-tax-net-worth',
+        terminalTaxRate: 24,
+      });
+
+      expect(result.baseline.plans).toEqual([]);
+      expect(result.best.afterTaxNetWorth).toBeGreaterThanOrEqual(result.baseline.afterTaxNetWorth);
+      expect(result.best.totalConverted).toBeGreaterThan(0);
+      expect(result.candidates[0]).toBe(result.best);
+    });
+
+    it('should rank by lifetime taxes when minimizing taxes', () => {
+      const result = optimizeRothConversions(scenario, profile, accounts, currentYear, currentYear + 35, {
+        objective: 'min-lifetime-taxes',
+        terminalTaxRate: 24,
+      });
+
+      for (let i = 1; i < result.candidates.length; i++) {
+        expect(result.candidates[i].lifetimeTaxes).toBeGreaterThanOrEqual(result.candidates[i - 1].lifetimeTaxes);
+      }
+    });
+
+    it('should validate optimizer settings', () => {
+      expect(validateRothOptimizerSettings({ objective: 'min-lifetime-taxes' })).toBeNull();
+      expect(validateRothOptimizerSettings({ objective: 'max-income' })).toContain('objective');
+      expect(validateRothOptimizerSettings({ terminalTaxRate: 120 })).toContain('terminalTaxRate');
+    });
+  });
+});
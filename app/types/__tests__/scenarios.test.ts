@@ -9,10 +9,15 @@ import {
   validateBuckets,
   validateCreateScenario,
   validateUpdateScenario,
+  validateMergedScenario,
   getBucketForAge,
+  getLumpSumEventAmount,
+  getLumpSumEventMonth,
+  isLumpSumEventInYear,
   mergeAssumptions,
   AssumptionBucket,
   Assumptions,
+  LumpSumEvent,
 } from '../scenarios';
 
 describe('Scenario Validation and Utilities', () => {
@@ -128,6 +133,72 @@ describe('Scenario Validation and Utilities', () => {
         })
       ).toContain('description must be');
     });
+
+    it('should accept a dated, recurring event in today\'s dollars', () => {
+      expect(
+        validateLumpSumEvent({
+          type: 'expense',
+          age: 45,
+          amount: 35000,
+          description: 'New car',
+          date: '2030-06-01',
+          inflationIndexed: true,
+          repeatEveryYears: 8,
+          repeatUntilAge: 77,
+        })
+      ).toBeNull();
+    });
+
+    it('should reject invalid dates and recurrence', () => {
+      const event = { type: 'expense', age: 45, amount: 35000, description: 'New car' };
+      expect(validateLumpSumEvent({ ...event, date: '2030-13-45' })).toContain('date must be');
+      expect(validateLumpSumEvent({ ...event, date: 'June 2030' })).toContain('date must be');
+      expect(validateLumpSumEvent({ ...event, repeatEveryYears: 0, repeatUntilAge: 77 })).toContain(
+        'repeat interval'
+      );
+      expect(validateLumpSumEvent({ ...event, repeatEveryYears: 8 })).toContain('repeat-until age');
+      expect(validateLumpSumEvent({ ...event, repeatEveryYears: 8, repeatUntilAge: 40 })).toContain(
+        'repeat-until age'
+      );
+      expect(validateLumpSumEvent({ ...event, repeatUntilAge: 77 })).toContain('needs a repeat interval');
+    });
+  });
+
+  describe('lump sum event timing', () => {
+    const roof: LumpSumEvent = {
+      id: 'event-1',
+      type: 'expense',
+      age: 50,
+      amount: 20000,
+      description: 'Roof',
+      repeatEveryYears: 20,
+      repeatUntilAge: 90,
+    };
+
+    it('should happen at its age and every N years until the last age', () => {
+      // Age 50 in 2040
+      expect(isLumpSumEventInYear(roof, 2040, 50)).toBe(true);
+      expect(isLumpSumEventInYear(roof, 2041, 51)).toBe(false);
+      expect(isLumpSumEventInYear(roof, 2060, 70)).toBe(true);
+      expect(isLumpSumEventInYear(roof, 2080, 90)).toBe(true);
+      expect(isLumpSumEventInYear(roof, 2020, 30)).toBe(false);
+      expect(isLumpSumEventInYear({ ...roof, repeatUntilAge: 85 }, 2080, 90)).toBe(false);
+      expect(isLumpSumEventInYear({ ...roof, repeatEveryYears: undefined }, 2060, 70)).toBe(false);
+    });
+
+    it('should use the date instead of the age when one is set', () => {
+      const datedRoof = { ...roof, date: '2042-09-15' };
+      expect(isLumpSumEventInYear(datedRoof, 2040, 50)).toBe(false);
+      expect(isLumpSumEventInYear(datedRoof, 2042, 52)).toBe(true);
+      expect(isLumpSumEventInYear(datedRoof, 2062, 72)).toBe(true);
+      expect(getLumpSumEventMonth(datedRoof)).toBe(8);
+      expect(getLumpSumEventMonth(roof)).toBe(0);
+    });
+
+    it('should inflate only amounts in today\'s dollars', () => {
+      expect(getLumpSumEventAmount(roof, 1.5)).toBe(20000);
+      expect(getLumpSumEventAmount({ ...roof, inflationIndexed: true }, 1.5)).toBe(30000);
+    });
   });
 
   describe('validateAssumptions', () => {
@@ -162,6 +233,11 @@ describe('Scenario Validation and Utilities', () => {
       expect(validateAssumptions(assumptions)).toContain('Annual income');
     });
 
+    it('should validate a bucket income growth override', () => {
+      expect(validateAssumptions({ incomeGrowth: { type: 'real', rate: 1.5 } })).toBeNull();
+      expect(validateAssumptions({ incomeGrowth: { type: 'raise', rate: 1.5 } })).toContain('Income growth type');
+    });
+
     it('should reject negative annual spending', () => {
       const assumptions = {
         annualSpending: -5000,
@@ -207,6 +283,20 @@ describe('Scenario Validation and Utilities', () => {
       };
       expect(validateAssumptions(assumptions)).toContain('Contributions must be an object');
     });
+
+    it('should accept a pinned asset allocation', () => {
+      const assumptions = {
+        assetAllocation: { stocks: 40, bonds: 50, cash: 10 },
+      };
+      expect(validateAssumptions(assumptions)).toBeNull();
+    });
+
+    it('should reject a pinned allocation that does not add up to 100', () => {
+      const assumptions = {
+        assetAllocation: { stocks: 40, bonds: 40, cash: 10 },
+      };
+      expect(validateAssumptions(assumptions)).toContain('add up to 100');
+    });
   });
 
   describe('validateAssumptionBucket', () => {
@@ -552,6 +642,148 @@ describe('Scenario Validation and Utilities', () => {
       };
       expect(validateCreateScenario(scenarioWithInvalidMortgage)).toContain('name is required');
     });
+
+    it('should accept per-account-type return rates', () => {
+      expect(
+        validateCreateScenario({ ...validScenario, accountTypeReturnRates: { 'roth-ira': 9, savings: 4 } })
+      ).toBeNull();
+    });
+
+    it('should reject invalid per-account-type return rates', () => {
+      expect(
+        validateCreateScenario({ ...validScenario, accountTypeReturnRates: { pension: 5 } })
+      ).toContain('Invalid account type');
+      expect(
+        validateCreateScenario({ ...validScenario, accountTypeReturnRates: { savings: '4' } })
+      ).toContain('Return rate for savings');
+      expect(validateCreateScenario({ ...validScenario, accountTypeReturnRates: [] })).toContain(
+        'must be an object'
+      );
+    });
+
+    it('should accept a relocation age and state', () => {
+      expect(
+        validateCreateScenario({ ...validScenario, relocationAge: 67, relocationState: 'FL' })
+      ).toBeNull();
+    });
+
+    it('should reject an invalid relocation state', () => {
+      expect(
+        validateCreateScenario({ ...validScenario, relocationAge: 67, relocationState: 'XX' })
+      ).toContain('Relocation state');
+    });
+
+    it('should require relocation age and state together', () => {
+      expect(validateCreateScenario({ ...validScenario, relocationAge: 67 })).toContain(
+        'provided together'
+      );
+    });
+
+    it('should validate the asset allocation glide path', () => {
+      const assetAllocation = {
+        returns: { stocks: 9, bonds: 4, cash: 2 },
+        glidePath: [
+          { age: 30, allocation: { stocks: 90, bonds: 10, cash: 0 } },
+          { age: 70, allocation: { stocks: 50, bonds: 50, cash: 0 } },
+        ],
+      };
+      expect(validateCreateScenario({ ...validScenario, assetAllocation })).toBeNull();
+      expect(
+        validateCreateScenario({
+          ...validScenario,
+          assetAllocation: { ...assetAllocation, glidePath: [...assetAllocation.glidePath].reverse() },
+        })
+      ).toContain('increasing order');
+    });
+
+    it('should validate the withdrawal strategy', () => {
+      expect(
+        validateCreateScenario({ ...validScenario, withdrawalStrategy: { type: 'proportional' } })
+      ).toBeNull();
+      expect(
+        validateCreateScenario({ ...validScenario, withdrawalStrategy: { type: 'custom', customOrder: [] } })
+      ).toContain('withdrawal order');
+    });
+
+    it('should validate Roth conversion plans', () => {
+      expect(
+        validateCreateScenario({
+          ...validScenario,
+          rothConversions: [{ type: 'fill-bracket', startAge: 60, endAge: 72, bracketRate: 12 }],
+        })
+      ).toBeNull();
+      expect(
+        validateCreateScenario({
+          ...validScenario,
+          rothConversions: [{ type: 'fixed', startAge: 60, endAge: 72, amount: -5 }],
+        })
+      ).toContain('amount');
+    });
+
+    it('should validate pensions and annuities', () => {
+      const pension = {
+        name: 'State Pension',
+        type: 'pension',
+        startAge: 62,
+        annualAmount: 40000,
+        colaType: 'cpi',
+        taxTreatment: 'taxable',
+      };
+      expect(validateCreateScenario({ ...validScenario, pensions: [pension] })).toBeNull();
+      expect(
+        validateCreateScenario({ ...validScenario, pensions: [{ ...pension, annualAmount: -1 }] })
+      ).toContain('Pension annual amount');
+    });
+
+    it('should validate income streams', () => {
+      const stream = {
+        name: 'Consulting',
+        startAge: 58,
+        endAge: 62,
+        annualAmount: 30000,
+        taxCharacter: 'self-employment',
+      };
+      expect(validateCreateScenario({ ...validScenario, incomeStreams: [stream] })).toBeNull();
+      expect(
+        validateCreateScenario({ ...validScenario, incomeStreams: [{ ...stream, taxCharacter: 'cash' }] })
+      ).toContain('Income stream tax character');
+    });
+
+    it('should validate properties and their mortgage links', () => {
+      const mortgage = {
+        id: 'home-loan',
+        name: 'Home Loan',
+        startDate: '2020-01-01',
+        loanAmount: 300000,
+        termYears: 30,
+        interestRate: 6,
+        monthlyEscrow: 0,
+      };
+      const property = {
+        name: 'Primary Home',
+        purchasePrice: 300000,
+        currentValue: 500000,
+        appreciationRate: 3,
+        mortgageId: 'home-loan',
+      };
+      expect(
+        validateCreateScenario({ ...validScenario, mortgages: [mortgage], properties: [property] })
+      ).toBeNull();
+      expect(validateCreateScenario({ ...validScenario, properties: [property] })).toContain('does not exist');
+      expect(validateUpdateScenario({ properties: [property] })).toBeNull();
+    });
+
+    it('should require a claiming age from 62 to 70 with a Social Security PIA', () => {
+      expect(
+        validateCreateScenario({ ...validScenario, socialSecurityPia: 2500, socialSecurityAge: 67 })
+      ).toBeNull();
+      expect(
+        validateCreateScenario({ ...validScenario, socialSecurityPia: 2500, socialSecurityAge: 72 })
+      ).toContain('claiming age');
+      expect(validateCreateScenario({ ...validScenario, socialSecurityPia: 2500 })).toContain(
+        'claiming age is required'
+      );
+    });
   });
 
   describe('validateUpdateScenario', () => {
@@ -586,6 +818,12 @@ describe('Scenario Validation and Utilities', () => {
       expect(validateUpdateScenario({})).toBeNull();
     });
 
+    it('should validate relocation fields', () => {
+      expect(validateUpdateScenario({ relocationState: 'TX' })).toBeNull();
+      expect(validateUpdateScenario({ relocationAge: null, relocationState: null })).toBeNull();
+      expect(validateUpdateScenario({ relocationAge: 150 })).toContain('Relocation age');
+    });
+
     it('should reject null or non-object', () => {
       expect(validateUpdateScenario(null)).toContain('must be an object');
       expect(validateUpdateScenario('invalid')).toContain('must be an object');
@@ -657,6 +895,23 @@ describe('Scenario Validation and Utilities', () => {
     });
   });
 
+  describe('validateMergedScenario', () => {
+    it('should require a claiming age once a PIA is set', () => {
+      expect(validateMergedScenario({ socialSecurityPia: 2000 })).toContain('claiming age is required');
+      expect(validateMergedScenario({ socialSecurityPia: 2000, socialSecurityAge: 67 })).toBeNull();
+    });
+
+    it('should require relocation age and state together', () => {
+      expect(validateMergedScenario({ relocationAge: 67, relocationState: 'FL' })).toBeNull();
+      expect(validateMergedScenario({ relocationAge: 67 })).toContain('provided together');
+      // Clearing only the state of a stored relocation leaves a half-configured move
+      expect(validateMergedScenario({ relocationAge: 67, relocationState: undefined })).toContain(
+        'provided together'
+      );
+      expect(validateMergedScenario({ relocationAge: undefined, relocationState: undefined })).toBeNull();
+    });
+  });
+
   describe('getBucketForAge', () => {
     const buckets: AssumptionBucket[] = [
       {
@@ -855,5 +1110,19 @@ describe('Scenario Validation and Utilities', () => {
       expect(merged.annualIncome).toBe(0); // Zero is used, not previous value
       expect(merged.annualSpending).toBe(60000);
     });
+
+    it('should not carry a pinned allocation into the next bucket', () => {
+      const current: Assumptions = {
+        annualSpending: 60000,
+      };
+
+      const previous: Assumptions = {
+        annualSpending: 50000,
+        assetAllocation: { stocks: 60, bonds: 40, cash: 0 },
+      };
+
+      const merged = mergeAssumptions(current, previous);
+      expect(merged.assetAllocation).toBeUndefined();
+    });
   });
 });
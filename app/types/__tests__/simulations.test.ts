@@ -0,0 +1,309 @@
+/**
+ * Tests for Monte Carlo simulation
+ */
+
+import {
+  MonteCarloSettings,
+  createSeededRandom,
+  generateMarketPath,
+  calculatePercentile,
+  MAX_NUM_SIMULATIONS,
+  MAX_SIMULATION_PATH_YEARS,
+  resolveMonteCarloSettings,
+  validateMonteCarloSettings,
+  validateSimulationBudget,
+  runMonteCarloSimulation,
+} from '../simulations';
+import { Scenario } from '../scenarios';
+import { UserProfile } from '../profile';
+import { Account } from '../accounts';
+import { Liability } from '../liabilities';
+
+describe('Monte Carlo Simulation', () => {
+  const currentYear = new Date().getFullYear();
+
+  const sampleProfile: UserProfile = {
+    userId: 'test-user-123',
+    firstname: 'Test',
+    dateOfBirth: `${currentYear - 60}-01-01`,
+    maritalStatus: 'single',
+    numberOfDependents: 0,
+    onboardingComplete: true,
+  };
+
+  const sampleAccounts: Account[] = [
+    {
+      id: 'acc-1',
+      userId: 'test-user-123',
+      accountType: 'brokerage',
+      accountName: 'Brokerage',
+      balance: 1000000,
+      asOfDate: '2024-01-01',
+      status: 'active',
+    },
+  ];
+
+  const createScenario = (annualSpending: number): Scenario => ({
+    id: 'scenario-1',
+    userId: 'test-user-123',
+    name: 'Retirement',
+    isDefault: true,
+    investmentReturnRate: 6,
+    inflationRate: 2.5,
+    assumptionBuckets: [
+      {
+        id: 'bucket-1',
+        order: 0,
+        startAge: 60,
+        endAge: 95,
+        assumptions: { annualIncome: 0, annualSpending },
+      },
+    ],
+    lumpSumEvents: [],
+    mortgages: [],
+  });
+
+  const baseSettings: MonteCarloSettings = {
+    numSimulations: 200,
+    returnMean: 6,
+    returnVolatility: 12,
+    inflationMean: 2.5,
+    inflationVolatility: 1.5,
+    correlation: 0,
+    seed: 42,
+  };
+
+  describe('createSeededRandom', () => {
+    it('should produce the same sequence for the same seed', () => {
+      const a = createSeededRandom(123);
+      const b = createSeededRandom(123);
+      for (let i = 0; i < 10; i++) {
+        expect(a()).toBe(b());
+      }
+    });
+
+    it('should produce values in [0, 1)', () => {
+      const random = createSeededRandom(7);
+      for (let i = 0; i < 1000; i++) {
+        const value = random();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+  });
+
+  describe('generateMarketPath', () => {
+    it('should center returns and inflation on the configured means', () => {
+      const path = generateMarketPath(baseSettings, 5000, createSeededRandom(1));
+      const meanReturn = path.reduce((sum, m) => sum + m.returnRate, 0) / path.length;
+      const meanInflation = path.reduce((sum, m) => sum + m.inflationRate, 0) / path.length;
+
+      expect(path.length).toBe(5000);
+      expect(meanReturn).toBeCloseTo(6, 0);
+      expect(meanInflation).toBeCloseTo(2.5, 0);
+    });
+
+    it('should return fixed rates when volatility is zero', () => {
+      const path = generateMarketPath(
+        { ...baseSettings, returnVolatility: 0, inflationVolatility: 0 },
+        3,
+        createSeededRandom(1)
+      );
+      expect(path).toEqual([
+        { returnRate: 6, inflationRate: 2.5 },
+        { returnRate: 6, inflationRate: 2.5 },
+        { returnRate: 6, inflationRate: 2.5 },
+      ]);
+    });
+
+    it('should apply correlation between returns and inflation', () => {
+      const path = generateMarketPath(
+        { ...baseSettings, correlation: 1, returnVolatility: 10, inflationVolatility: 1 },
+        10,
+        createSeededRandom(9)
+      );
+      // Perfect correlation: inflation shock equals return shock
+      for (const m of path) {
+        expect((m.inflationRate - 2.5) * 10).toBeCloseTo(m.returnRate - 6, 6);
+      }
+    });
+  });
+
+  describe('calculatePercentile', () => {
+    it('should interpolate between values', () => {
+      const values = [0, 10, 20, 30, 40];
+      expect(calculatePercentile(values, 0)).toBe(0);
+      expect(calculatePercentile(values, 50)).toBe(20);
+      expect(calculatePercentile(values, 10)).toBeCloseTo(4);
+      expect(calculatePercentile(values, 100)).toBe(40);
+    });
+
+    it('should return 0 for empty input', () => {
+      expect(calculatePercentile([], 50)).toBe(0);
+    });
+  });
+
+  describe('resolveMonteCarloSettings', () => {
+    it('should default means to the scenario rates', () => {
+      const settings = resolveMonteCarloSettings(createScenario(40000), { seed: 5 });
+      expect(settings.returnMean).toBe(6);
+      expect(settings.inflationMean).toBe(2.5);
+      expect(settings.numSimulations).toBe(1000);
+      expect(settings.seed).toBe(5);
+    });
+  });
+
+  describe('validateMonteCarloSettings', () => {
+    it('should accept empty settings', () => {
+      expect(validateMonteCarloSettings({})).toBeNull();
+    });
+
+    it('should reject too many simulations', () => {
+      expect(validateMonteCarloSettings({ numSimulations: 100000 })).toContain('numSimulations');
+    });
+
+    it('should cap simulations at MAX_NUM_SIMULATIONS', () => {
+      expect(MAX_NUM_SIMULATIONS).toBe(5000);
+      expect(validateMonteCarloSettings({ numSimulations: MAX_NUM_SIMULATIONS })).toBeNull();
+      expect(validateMonteCarloSettings({ numSimulations: MAX_NUM_SIMULATIONS + 1 })).toBe(
+        'numSimulations must be an integer between 1 and 5000'
+      );
+    });
+
+    it('should reject negative volatility', () => {
+      expect(validateMonteCarloSettings({ returnVolatility: -1 })).toContain('returnVolatility');
+    });
+
+    it('should reject correlation outside -1 to 1', () => {
+      expect(validateMonteCarloSettings({ correlation: 1.5 })).toContain('correlation');
+    });
+
+    it('should reject non-integer seed', () => {
+      expect(validateMonteCarloSettings({ seed: 1.5 })).toContain('seed');
+    });
+  });
+
+  describe('validateSimulationBudget', () => {
+    it('should allow thousands of paths over a typical retirement', () => {
+      expect(MAX_SIMULATION_PATH_YEARS).toBe(120000);
+      expect(validateSimulationBudget(4000, 2025, 2054)).toBeNull();
+      expect(validateSimulationBudget(2000, 2025, 2084)).toBeNull();
+    });
+
+    it('should reject requests over the path-year budget', () => {
+      expect(validateSimulationBudget(5000, 2025, 2054)).toBe('A 30-year simulation can run at most 4000 paths');
+      expect(validateSimulationBudget(2000, 2025, 2085)).toBe('A 61-year simulation can run at most 1967 paths');
+    });
+  });
+
+  describe('runMonteCarloSimulation', () => {
+    it('should be reproducible with the same seed', () => {
+      const scenario = createScenario(50000);
+      const a = runMonteCarloSimulation(scenario, sampleProfile, sampleAccounts, currentYear, currentYear + 30, baseSettings);
+      const b = runMonteCarloSimulation(scenario, sampleProfile, sampleAccounts, currentYear, currentYear + 30, baseSettings);
+      expect(a).toEqual(b);
+    });
+
+    it('should produce ordered percentile bands for every year', () => {
+      const result = runMonteCarloSimulation(
+        createScenario(50000),
+        sampleProfile,
+        sampleAccounts,
+        currentYear,
+        currentYear + 30,
+        baseSettings
+      );
+
+      expect(result.years.length).toBe(31);
+      for (const band of result.years) {
+        expect(band.p10).toBeLessThanOrEqual(band.p50);
+        expect(band.p50).toBeLessThanOrEqual(band.p90);
+      }
+    });
+
+    it('should succeed on every path with a sustainable plan and no volatility', () => {
+      const result = runMonteCarloSimulation(
+        createScenario(30000),
+        sampleProfile,
+        sampleAccounts,
+        currentYear,
+        currentYear + 30,
+        { ...baseSettings, returnVolatility: 0, inflationVolatility: 0, numSimulations: 10 }
+      );
+      expect(result.probabilityOfSuccess).toBe(1);
+      expect(result.medianDepletionYear).toBeUndefined();
+    });
+
+    it('should report low probability of success for an unsustainable plan', () => {
+      const result = runMonteCarloSimulation(
+        createScenario(150000),
+        sampleProfile,
+        sampleAccounts,
+        currentYear,
+        currentYear + 30,
+        baseSettings
+      );
+      expect(result.probabilityOfSuccess).toBeLessThan(0.1);
+      expect(result.medianDepletionYear).toBeDefined();
+    });
+
+    it('should weight depleted paths by the chance of being alive', () => {
+      const result = runMonteCarloSimulation(
+        createScenario(150000),
+        sampleProfile,
+        sampleAccounts,
+        currentYear,
+        currentYear + 30,
+        baseSettings
+      );
+      const first = result.years[0];
+      const last = result.years[result.years.length - 1];
+
+      expect(first.depletedWhileAliveProbability).toBe(0);
+      // Nearly every path is depleted by age 90, but many people are no longer alive
+      expect(last.depletedWhileAliveProbability).toBeGreaterThan(0);
+      expect(last.depletedWhileAliveProbability).toBeLessThan(0.5);
+    });
+
+    it('should report yearly bands on the same net worth basis as the final net worth', () => {
+      const loan: Liability = {
+        id: 'loan-1',
+        userId: 'test-user-123',
+        liabilityType: 'personal',
+        liabilityName: 'Personal Loan',
+        balance: 200000,
+        apr: 0,
+        minimumPayment: 500,
+        asOfDate: '2024-01-01',
+        status: 'active',
+      };
+      const result = runMonteCarloSimulation(
+        createScenario(40000),
+        sampleProfile,
+        sampleAccounts,
+        currentYear,
+        currentYear + 10,
+        { ...baseSettings, numSimulations: 20 },
+        [loan]
+      );
+      const last = result.years[result.years.length - 1];
+
+      expect(last.p10).toBe(result.finalNetWorth.p10);
+      expect(last.p50).toBe(result.finalNetWorth.p50);
+      expect(last.p90).toBe(result.finalNetWorth.p90);
+    });
+
+    it('should lower the odds as volatility rises', () => {
+      const scenario = createScenario(45000);
+      const calm = runMonteCarloSimulation(scenario, sampleProfile, sampleAccounts, currentYear, currentYear + 30, {
+        ...baseSettings,
+        returnVolatility: 2,
+      });
+      const wild = runMonteCarloSimulation(scenario, sampleProfile, sampleAccounts, currentYear, currentYear + 30, {
+        ...baseSettings,
+        returnVolatility: 20,
+      });
+      expect(wild.probabilityOfSuccess).toBeLessThan(calm.probabilityOfSuccess);
+    });
+  });
+});
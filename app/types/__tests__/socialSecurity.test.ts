@@ -0,0 +1,301 @@
+/**
+ * Tests for Social Security benefit and claiming age calculations
+ */
+
+import {
+  getFullRetirementAge,
+  getSocialSecurityBirthYear,
+  getClaimingAdjustment,
+  calculateAnnualBenefit,
+  getScenarioSocialSecurityBenefit,
+  getSocialSecurityClaim,
+  calculateSpousalBenefit,
+  calculateSurvivorBenefit,
+  calculateHouseholdSocialSecurity,
+  validateSocialSecurity,
+} from '../socialSecurity';
+import { compareClaimingAges } from '../socialSecurityBreakeven';
+import { Scenario } from '../scenarios';
+import { UserProfile } from '../profile';
+import { Account } from '../accounts';
+
+describe('Social Security', () => {
+  describe('getFullRetirementAge', () => {
+    it('should return 66 for those born 1943 through 1954', () => {
+      expect(getFullRetirementAge(1943)).toBe(66);
+      expect(getFullRetirementAge(1954)).toBe(66);
+    });
+
+    it('should add two months per year for those born 1955 through 1959', () => {
+      expect(getFullRetirementAge(1955)).toBeCloseTo(66 + 2 / 12, 6);
+      expect(getFullRetirementAge(1959)).toBeCloseTo(66 + 10 / 12, 6);
+    });
+
+    it('should return 67 for those born in 1960 or later', () => {
+      expect(getFullRetirementAge(1960)).toBe(67);
+      expect(getFullRetirementAge(1990)).toBe(67);
+    });
+  });
+
+  describe('getSocialSecurityBirthYear', () => {
+    it('should treat January 1st births as the prior year', () => {
+      expect(getSocialSecurityBirthYear('1960-01-01')).toBe(1959);
+      expect(getSocialSecurityBirthYear('1960-01-02')).toBe(1960);
+    });
+  });
+
+  describe('getClaimingAdjustment', () => {
+    it('should pay the full PIA at full retirement age', () => {
+      expect(getClaimingAdjustment(67, 67)).toBe(1);
+    });
+
+    it('should reduce benefits 30% at 62 with a full retirement age of 67', () => {
+      expect(getClaimingAdjustment(62, 67)).toBeCloseTo(0.7, 6);
+    });
+
+    it('should reduce benefits 25% at 62 with a full retirement age of 66', () => {
+      expect(getClaimingAdjustment(62, 66)).toBeCloseTo(0.75, 6);
+    });
+
+    it('should reduce 5/9 of 1% per month within 36 months of full retirement age', () => {
+      expect(getClaimingAdjustment(65, 67)).toBeCloseTo(1 - 24 * (5 / 9 / 100), 6);
+    });
+
+    it('should add 8% per year of delay up to 70', () => {
+      expect(getClaimingAdjustment(70, 67)).toBeCloseTo(1.24, 6);
+      expect(getClaimingAdjustment(70, 66)).toBeCloseTo(1.32, 6);
+      expect(getClaimingAdjustment(72, 67)).toBeCloseTo(1.24, 6);
+    });
+
+    it('should count partial years of full retirement age in months', () => {
+      // FRA 66 and 10 months: claiming at 67 earns 2 months of credits
+      expect(getClaimingAdjustment(67, 66 + 10 / 12)).toBeCloseTo(1 + 2 * (2 / 3 / 100), 6);
+    });
+  });
+
+  describe('calculateAnnualBenefit', () => {
+    it('should convert a monthly PIA to an annual benefit for the claiming age', () => {
+      expect(calculateAnnualBenefit(2000, 67, 1965)).toBeCloseTo(24000, 6);
+      expect(calculateAnnualBenefit(2000, 62, 1965)).toBeCloseTo(16800, 6);
+      expect(calculateAnnualBenefit(2000, 70, 1965)).toBeCloseTo(29760, 6);
+    });
+  });
+
+  describe('getScenarioSocialSecurityBenefit', () => {
+    it('should use the PIA and claiming age when a PIA is entered', () => {
+      const benefit = getScenarioSocialSecurityBenefit(
+        { socialSecurityAge: 70, socialSecurityIncome: 10000, socialSecurityPia: 2000 },
+        1965
+      );
+      expect(benefit).toBeCloseTo(29760, 6);
+    });
+
+    it('should fall back to the flat benefit without a PIA', () => {
+      expect(getScenarioSocialSecurityBenefit({ socialSecurityAge: 70, socialSecurityIncome: 10000 }, 1965)).toBe(
+        10000
+      );
+    });
+  });
+
+  describe('calculateSpousalBenefit', () => {
+    it('should pay half the spouse PIA less the own PIA at full retirement age', () => {
+      expect(calculateSpousalBenefit(0, 2000, 67, 1965)).toBeCloseTo(12000, 6);
+      expect(calculateSpousalBenefit(600, 2000, 67, 1965)).toBeCloseTo(4800, 6);
+    });
+
+    it('should reduce early spousal benefits 25/36 of 1% then 5/12 of 1% per month', () => {
+      // 60 months early: 36 * 25/36% + 24 * 5/12% = 35%
+      expect(calculateSpousalBenefit(0, 2000, 62, 1965)).toBeCloseTo(7800, 6);
+    });
+
+    it('should not add delayed credits or pay when the own PIA is higher', () => {
+      expect(calculateSpousalBenefit(0, 2000, 70, 1965)).toBeCloseTo(12000, 6);
+      expect(calculateSpousalBenefit(1200, 2000, 67, 1965)).toBe(0);
+    });
+  });
+
+  describe('calculateSurvivorBenefit', () => {
+    it('should keep the larger of the own and deceased benefits', () => {
+      const deceased = { pia: 2000, annualBenefit: 29760, claimingAge: 70, birthYear: 1965 };
+      expect(calculateSurvivorBenefit(6000, deceased)).toBeCloseTo(29760, 6);
+      expect(calculateSurvivorBenefit(30000, deceased)).toBe(30000);
+    });
+
+    it('should pay at least 82.5% of the PIA when the deceased claimed early', () => {
+      const deceased = { pia: 2000, annualBenefit: 16800, claimingAge: 62, birthYear: 1965 };
+      expect(calculateSurvivorBenefit(6000, deceased)).toBeCloseTo(19800, 6);
+    });
+  });
+
+  describe('calculateHouseholdSocialSecurity', () => {
+    const worker = getSocialSecurityClaim({ socialSecurityAge: 67, socialSecurityPia: 2000 }, 1965)!;
+    const spouse = getSocialSecurityClaim({ socialSecurityAge: 67, socialSecurityPia: 0 }, 1965)!;
+
+    it('should start spousal benefits once both spouses have claimed', () => {
+      expect(
+        calculateHouseholdSocialSecurity({ claim: worker, age: 66, alive: true }, { claim: spouse, age: 67, alive: true })
+      ).toEqual({ self: 0, partner: 0 });
+      const both = calculateHouseholdSocialSecurity(
+        { claim: worker, age: 67, alive: true },
+        { claim: spouse, age: 67, alive: true }
+      );
+      expect(both.self).toBeCloseTo(24000, 6);
+      expect(both.partner).toBeCloseTo(12000, 6);
+    });
+
+    it('should pay the survivor the deceased spouse benefit', () => {
+      const benefits = calculateHouseholdSocialSecurity(
+        { claim: worker, age: 80, alive: false },
+        { claim: spouse, age: 80, alive: true }
+      );
+      expect(benefits.self).toBe(0);
+      expect(benefits.partner).toBeCloseTo(24000, 6);
+    });
+
+    it('should require a claiming age', () => {
+      expect(getSocialSecurityClaim({ socialSecurityPia: 2000 }, 1965)).toBeNull();
+    });
+  });
+
+  describe('validateSocialSecurity', () => {
+    it('should accept a PIA with a claiming age from 62 to 70', () => {
+      expect(validateSocialSecurity({ socialSecurityPia: 2000, socialSecurityAge: 62 })).toBeNull();
+      expect(validateSocialSecurity({ socialSecurityPia: 2000, socialSecurityAge: 70 })).toBeNull();
+      expect(validateSocialSecurity({ socialSecurityPia: null })).toBeNull();
+    });
+
+    it('should require a claiming age with a PIA', () => {
+      expect(validateSocialSecurity({ socialSecurityPia: 2000 })).toBe(
+        'Social Security claiming age is required when a PIA is entered'
+      );
+      expect(validateSocialSecurity({ socialSecurityPia: 2000, socialSecurityAge: null })).toContain('claiming age');
+      // An update may set the PIA alone when the claiming age is already stored
+      expect(validateSocialSecurity({ socialSecurityPia: 2000 }, true)).toBeNull();
+    });
+
+    it('should reject a negative PIA', () => {
+      expect(validateSocialSecurity({ socialSecurityPia: -1 })).toContain('PIA');
+    });
+
+    it('should reject claiming ages outside 62 to 70 with a PIA', () => {
+      expect(validateSocialSecurity({ socialSecurityPia: 2000, socialSecurityAge: 61 })).toContain('62');
+      expect(validateSocialSecurity({ socialSecurityPia: 2000, socialSecurityAge: 71 })).toContain('70');
+    });
+  });
+
+  describe('compareClaimingAges', () => {
+    const currentYear = new Date().getFullYear();
+
+    const profile: UserProfile = {
+      userId: 'test-user-123',
+      firstname: 'Test',
+      dateOfBirth: `${currentYear - 60}-06-15`,
+      maritalStatus: 'single',
+      numberOfDependents: 0,
+      onboardingComplete: true,
+    };
+
+    const accounts: Account[] = [
+      {
+        id: 'brokerage-1',
+        userId: 'test-user-123',
+        accountType: 'brokerage',
+        accountName: 'Brokerage',
+        balance: 1000000,
+        asOfDate: '2025-01-01',
+        status: 'active',
+      },
+    ];
+
+    const scenario: Scenario = {
+      id: 'scenario-1',
+      userId: 'test-user-123',
+      name: 'Claiming',
+      isDefault: true,
+      retirementAge: 60,
+      socialSecurityAge: 67,
+      socialSecurityPia: 2000,
+      investmentReturnRate: 0,
+      inflationRate: 0,
+      assumptionBuckets: [
+        {
+          id: 'bucket-1',
+          order: 0,
+          startAge: 60,
+          endAge: 100,
+          assumptions: { annualIncome: 0, annualSpending: 20000 },
+        },
+      ],
+      lumpSumEvents: [],
+      mortgages: [],
+    };
+
+    it('should project claiming ages 62, 67 and 70 side by side', () => {
+      const result = compareClaimingAges(scenario, profile, accounts, currentYear, currentYear + 30);
+
+      expect(result.claimingAges.map((c) => c.claimingAge)).toEqual([62, 67, 70]);
+      expect(result.fullRetirementAge).toBe(67);
+      expect(result.claimingAges[0].annualBenefit).toBeCloseTo(16800, 6);
+      expect(result.claimingAges[1].annualBenefit).toBeCloseTo(24000, 6);
+      expect(result.claimingAges[2].annualBenefit).toBeCloseTo(29760, 6);
+      expect(result.claimingAges.every((c) => c.years.length === 31)).toBe(true);
+    });
+
+    it('should find breakeven ages between claiming ages', () => {
+      const result = compareClaimingAges(scenario, profile, accounts, currentYear, currentYear + 30);
+
+      const breakeven62vs67 = result.breakevens.find(
+        (b) => b.earlierClaimingAge === 62 && b.laterClaimingAge === 67
+      )!;
+      const breakeven67vs70 = result.breakevens.find(
+        (b) => b.earlierClaimingAge === 67 && b.laterClaimingAge === 70
+      )!;
+
+      // 62: 16800/yr from 62; 67: 24000/yr from 67 -> catches up at 78
+      expect(breakeven62vs67.breakevenAge).toBe(78);
+      // 67: 24000/yr from 67; 70: 29760/yr from 70 -> catches up at 82
+      expect(breakeven67vs70.breakevenAge).toBe(82);
+    });
+
+    it('should report yearly net worth on the same basis as the final net worth', () => {
+      const home = { name: 'Home', purchasePrice: 300000, currentValue: 400000, appreciationRate: 3 };
+      const result = compareClaimingAges(
+        { ...scenario, properties: [home] },
+        profile,
+        accounts,
+        currentYear,
+        currentYear + 30
+      );
+
+      for (const claiming of result.claimingAges) {
+        const lastYear = claiming.years[claiming.years.length - 1];
+        expect(lastYear.netWorth).toBe(claiming.finalNetWorth);
+        expect(lastYear.netWorth).toBeGreaterThan(0);
+      }
+    });
+
+    it('should derive the PIA from the flat benefit when none is entered', () => {
+      const result = compareClaimingAges(
+        { ...scenario, socialSecurityPia: undefined, socialSecurityAge: 70, socialSecurityIncome: 29760 },
+        profile,
+        accounts,
+        currentYear,
+        currentYear + 30
+      );
+
+      expect(result.pia).toBeCloseTo(2000, 6);
+    });
+
+    it('should require a PIA or benefit', () => {
+      expect(() =>
+        compareClaimingAges(
+          { ...scenario, socialSecurityPia: undefined, socialSecurityIncome: undefined },
+          profile,
+          accounts,
+          currentYear,
+          currentYear + 30
+        )
+      ).toThrow('Social Security');
+    });
+  });
+});
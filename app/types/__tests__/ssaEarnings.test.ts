@@ -0,0 +1,188 @@
+/**
+ * Tests for SSA earnings record parsing and PIA calculation
+ */
+
+import {
+  getAverageWageIndex,
+  getBendPoints,
+  getTaxableMaximum,
+  parseSsaEarningsXml,
+  parseSsaEarningsText,
+  parseSsaEarnings,
+  projectFutureEarnings,
+  calculatePiaFromEarnings,
+  estimatePia,
+  validateSsaEarningsUpload,
+  YearlyEarnings,
+} from '../ssaEarnings';
+import { AssumptionBucket } from '../scenarios';
+
+describe('SSA Earnings', () => {
+  describe('wage-indexed tables', () => {
+    it('should derive published bend points from the wage index', () => {
+      expect(getBendPoints(2024)).toEqual([1174, 7078]);
+      expect(getBendPoints(2025)).toEqual([1226, 7391]);
+    });
+
+    it('should derive the published taxable maximum from the wage index', () => {
+      expect(getTaxableMaximum(2024)).toBe(168600);
+      expect(getTaxableMaximum(2025)).toBe(176100);
+    });
+
+    it('should hold the wage index at the latest published year', () => {
+      expect(getAverageWageIndex(2040)).toBe(getAverageWageIndex(2023));
+      expect(getBendPoints(2040)).toEqual(getBendPoints(2025));
+    });
+  });
+
+  describe('parseSsaEarningsXml', () => {
+    it('should read FICA earnings for each year', () => {
+      const xml = `<?xml version="1.0" encoding="UTF-8"?>
+        <osss:OnlineSocialSecurityStatementData xmlns:osss="http://ssa.gov/osss/schemas/2.0">
+          <osss:EarningsRecord>
+            <osss:Earnings startYear="2020" endYear="2020">
+              <osss:FicaEarnings>52000</osss:FicaEarnings>
+              <osss:MedicareEarnings>52000</osss:MedicareEarnings>
+            </osss:Earnings>
+            <osss:Earnings startYear="2021" endYear="2021">
+              <osss:FicaEarnings>55000</osss:FicaEarnings>
+              <osss:MedicareEarnings>55000</osss:MedicareEarnings>
+            </osss:Earnings>
+            <osss:Earnings startYear="2022" endYear="2022">
+              <osss:FicaEarnings>-1</osss:FicaEarnings>
+              <osss:MedicareEarnings>-1</osss:MedicareEarnings>
+            </osss:Earnings>
+          </osss:EarningsRecord>
+        </osss:OnlineSocialSecurityStatementData>`;
+
+      expect(parseSsaEarningsXml(xml)).toEqual([
+        { year: 2020, earnings: 52000 },
+        { year: 2021, earnings: 55000 },
+      ]);
+    });
+  });
+
+  describe('parseSsaEarningsText', () => {
+    it('should read yearly rows and spread multi-year rows', () => {
+      const text = [
+        'Your Earnings Record',
+        'Work Year Taxed Social Security Earnings Taxed Medicare Earnings',
+        '1998-1999 $40,000 $40,000',
+        '2000 $25,500 $25,500',
+        '2001 $27,000.00 $27,000.00',
+        '2002 Not yet recorded',
+      ].join('\n');
+
+      expect(parseSsaEarningsText(text)).toEqual([
+        { year: 1998, earnings: 20000 },
+        { year: 1999, earnings: 20000 },
+        { year: 2000, earnings: 25500 },
+        { year: 2001, earnings: 27000 },
+      ]);
+    });
+
+    it('should detect the format from the content', () => {
+      expect(parseSsaEarnings('2000 $25,500 $25,500')).toEqual([{ year: 2000, earnings: 25500 }]);
+      expect(
+        parseSsaEarnings('<Earnings startYear="2000" endYear="2000"><FicaEarnings>100</FicaEarnings></Earnings>')
+      ).toEqual([{ year: 2000, earnings: 100 }]);
+    });
+  });
+
+  describe('projectFutureEarnings', () => {
+    const buckets: AssumptionBucket[] = [
+      {
+        id: 'bucket-1',
+        order: 0,
+        startAge: 30,
+        endAge: 39,
+        assumptions: { annualIncome: 80000 },
+      },
+      {
+        id: 'bucket-2',
+        order: 1,
+        startAge: 40,
+        endAge: 99,
+        assumptions: { annualIncome: 250000 },
+      },
+    ];
+
+    it('should project bucket income until retirement, capped at the taxable maximum', () => {
+      const currentYear = new Date().getFullYear();
+      const projected = projectFutureEarnings(buckets, 38, currentYear, 42);
+
+      expect(projected).toEqual([
+        { year: currentYear, earnings: 80000, projected: true },
+        { year: currentYear + 1, earnings: 80000, projected: true },
+        { year: currentYear + 2, earnings: 176100, projected: true },
+        { year: currentYear + 3, earnings: 176100, projected: true },
+      ]);
+    });
+  });
+
+  describe('calculatePiaFromEarnings', () => {
+    it('should index earnings, average the top 35 years and apply the bend points', () => {
+      // Earning exactly the average wage every year indexes to AWI(2023) in each year
+      const earnings: YearlyEarnings[] = [];
+      for (let year = 1985; year <= 2022; year++) {
+        earnings.push({ year, earnings: getAverageWageIndex(year) });
+      }
+
+      const estimate = calculatePiaFromEarnings(earnings, 1963);
+
+      expect(estimate.eligibilityYear).toBe(2025);
+      expect(estimate.indexingYear).toBe(2023);
+      expect(estimate.yearsCounted).toBe(35);
+      expect(estimate.aime).toBe(Math.floor(66621.8 / 12)); // 5551
+      // 90% of 1226 + 32% of (5551 - 1226)
+      expect(estimate.pia).toBeCloseTo(2487.4, 6);
+    });
+
+    it('should count fewer than 35 years as zeros', () => {
+      const estimate = calculatePiaFromEarnings([{ year: 2023, earnings: 42000 }], 1963);
+      expect(estimate.aime).toBe(100); // 42000 / 420
+      expect(estimate.pia).toBe(90);
+    });
+
+    it('should round the PIA down to the dime', () => {
+      const estimate = calculatePiaFromEarnings([{ year: 2023, earnings: 420 * 1500 }], 1963);
+      // 0.9 * 1226 + 0.32 * (1500 - 1226) = 1103.4 + 87.68
+      expect(estimate.pia).toBe(1191);
+    });
+  });
+
+  describe('estimatePia', () => {
+    it('should add projected bucket earnings to the recorded earnings', () => {
+      const currentYear = new Date().getFullYear();
+      const buckets: AssumptionBucket[] = [
+        {
+          id: 'bucket-1',
+          order: 0,
+          startAge: 50,
+          endAge: 99,
+          assumptions: { annualIncome: 60000 },
+        },
+      ];
+      const recorded: YearlyEarnings[] = [{ year: currentYear - 1, earnings: 60000 }];
+
+      const recordedOnly = estimatePia(recorded, currentYear - 55, 55);
+      const withProjection = estimatePia(recorded, currentYear - 55, 55, buckets, 60);
+
+      expect(recordedOnly.earnings).toHaveLength(1);
+      expect(withProjection.earnings).toHaveLength(6);
+      expect(withProjection.earnings.filter((e) => e.projected)).toHaveLength(5);
+      expect(withProjection.pia).toBeGreaterThan(recordedOnly.pia);
+    });
+  });
+
+  describe('validateSsaEarningsUpload', () => {
+    it('should require content', () => {
+      expect(validateSsaEarningsUpload({ content: '2000 $1,000' })).toBeNull();
+      expect(validateSsaEarningsUpload({ content: '' })).toContain('required');
+    });
+
+    it('should reject unknown formats', () => {
+      expect(validateSsaEarningsUpload({ content: 'x', format: 'pdf' })).toContain('format');
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests for state income tax calculations
+ */
+
+import {
+  STATE_TAX_RULES,
+  StateTaxInput,
+  isValidStateCode,
+  getStateOfResidence,
+  calculateStateIncomeTax,
+} from '../stateTaxes';
+import { Scenario } from '../scenarios';
+import { UserProfile } from '../profile';
+
+describe('State Income Tax', () => {
+  const baseInput: StateTaxInput = {
+    state: 'CA',
+    wages: 0,
+    retirementIncome: 0,
+    taxableSocialSecurity: 0,
+    filingStatus: 'single',
+    inflationFactor: 1,
+    age: 40,
+  };
+
+  describe('STATE_TAX_RULES', () => {
+    it('should cover all 50 states plus DC', () => {
+      expect(Object.keys(STATE_TAX_RULES).length).toBe(51);
+      expect(STATE_TAX_RULES.DC.name).toBe('District of Columbia');
+    });
+
+    it('should end every bracket schedule with an open top bracket', () => {
+      for (const rules of Object.values(STATE_TAX_RULES)) {
+        if (rules.brackets.length > 0) {
+          expect(rules.brackets[rules.brackets.length - 1].upTo).toBe(Infinity);
+        }
+      }
+    });
+  });
+
+  describe('isValidStateCode', () => {
+    it('should accept known codes and reject others', () => {
+      expect(isValidStateCode('TX')).toBe(true);
+      expect(isValidStateCode('tx')).toBe(false);
+      expect(isValidStateCode('XX')).toBe(false);
+      expect(isValidStateCode(undefined)).toBe(false);
+    });
+  });
+
+  describe('getStateOfResidence', () => {
+    const profile: UserProfile = {
+      userId: 'test-user-123',
+      firstname: 'Test',
+      dateOfBirth: '1965-01-01',
+      maritalStatus: 'single',
+      numberOfDependents: 0,
+      stateOfResidence: 'CA',
+      onboardingComplete: true,
+    };
+
+    const scenario: Scenario = {
+      id: 'scenario-1',
+      userId: 'test-user-123',
+      name: 'Move to Texas',
+      isDefault: true,
+      relocationAge: 67,
+      relocationState: 'TX',
+      assumptionBuckets: [],
+      lumpSumEvents: [],
+      mortgages: [],
+    };
+
+    it('should use the profile state before the relocation age', () => {
+      expect(getStateOfResidence(profile, scenario, 66)).toBe('CA');
+    });
+
+    it('should use the relocation state from the relocation age onward', () => {
+      expect(getStateOfResidence(profile, scenario, 67)).toBe('TX');
+      expect(getStateOfResidence(profile, scenario, 80)).toBe('TX');
+    });
+
+    it('should ignore an incomplete relocation', () => {
+      expect(getStateOfResidence(profile, { ...scenario, relocationState: undefined }, 80)).toBe('CA');
+    });
+  });
+
+  describe('calculateStateIncomeTax', () => {
+    it('should return 0 when no state is set', () => {
+      const result = calculateStateIncomeTax({ ...baseInput, state: undefined, wages: 100000 });
+      expect(result.tax).toBe(0);
+    });
+
+    it('should return 0 in states without an income tax', () => {
+      expect(calculateStateIncomeTax({ ...baseInput, state: 'TX', wages: 100000 }).tax).toBe(0);
+      expect(calculateStateIncomeTax({ ...baseInput, state: 'FL', wages: 100000 }).tax).toBe(0);
+    });
+
+    it('should apply a flat rate after the standard deduction', () => {
+      // Illinois: 4.95% of (50,000 - 2,850)
+      const result = calculateStateIncomeTax({ ...baseInput, state: 'IL', wages: 50000 });
+      expect(result.taxableIncome).toBe(47150);
+      expect(result.tax).toBeCloseTo(2333.925, 2);
+    });
+
+    it('should apply progressive brackets', () => {
+      // California: 1% of 10,756 + 2% of 14,743 + 4% of 4,961 (taxable 30,460)
+      const result = calculateStateIncomeTax({ ...baseInput, state: 'CA', wages: 36000 });
+      expect(result.taxableIncome).toBe(30460);
+      expect(result.tax).toBeCloseTo(107.56 + 294.86 + 198.44, 2);
+    });
+
+    it('should double brackets and deduction for joint filers', () => {
+      const single = calculateStateIncomeTax({ ...baseInput, wages: 100000 });
+      const joint = calculateStateIncomeTax({
+        ...baseInput,
+        wages: 200000,
+        filingStatus: 'married-filing-jointly',
+      });
+      expect(joint.tax).toBeCloseTo(single.tax * 2, 2);
+    });
+
+    it('should fully exempt retirement distributions where the state does', () => {
+      const result = calculateStateIncomeTax({
+        ...baseInput,
+        state: 'PA',
+        retirementIncome: 80000,
+        age: 65,
+      });
+      expect(result.retirementExclusion).toBe(80000);
+      expect(result.tax).toBe(0);
+    });
+
+    it('should only apply the retirement exclusion from the qualifying age', () => {
+      const under = calculateStateIncomeTax({ ...baseInput, state: 'GA', retirementIncome: 50000, age: 60 });
+      const over = calculateStateIncomeTax({ ...baseInput, state: 'GA', retirementIncome: 50000, age: 65 });
+      expect(under.retirementExclusion).toBe(0);
+      expect(under.tax).toBeGreaterThan(0);
+      expect(over.tax).toBe(0);
+    });
+
+    it('should apply the retirement exclusion per qualifying spouse on a joint return', () => {
+      const jointInput: StateTaxInput = {
+        ...baseInput,
+        state: 'GA',
+        filingStatus: 'married-filing-jointly',
+        retirementIncome: 110000,
+        spouseRetirementIncome: 40000,
+        age: 66,
+      };
+
+      // Only the user qualifies: their $70k is excluded up to $65k, the spouse's $40k is taxed
+      const oneQualifies = calculateStateIncomeTax({ ...jointInput, spouseAge: 63 });
+      expect(oneQualifies.retirementExclusion).toBe(65000);
+      expect(oneQualifies.taxableIncome).toBe(110000 - 65000 - 24000);
+
+      // Both qualify: each excludes their own income up to $65k
+      const bothQualify = calculateStateIncomeTax({ ...jointInput, spouseAge: 65 });
+      expect(bothQualify.retirementExclusion).toBe(65000 + 40000);
+      expect(bothQualify.taxableIncome).toBe(0);
+      expect(bothQualify.tax).toBe(0);
+
+      // A qualifying spouse with no retirement income of their own adds no exclusion
+      const allUsers = calculateStateIncomeTax({ ...jointInput, spouseRetirementIncome: 0, spouseAge: 70 });
+      expect(allUsers.retirementExclusion).toBe(65000);
+    });
+
+    it('should tax Social Security only in states that tax it', () => {
+      const minnesota = calculateStateIncomeTax({ ...baseInput, state: 'MN', taxableSocialSecurity: 30000 });
+      const california = calculateStateIncomeTax({ ...baseInput, state: 'CA', taxableSocialSecurity: 30000 });
+      expect(minnesota.tax).toBeGreaterThan(0);
+      expect(california.tax).toBe(0);
+    });
+
+    it('should index brackets and deduction to inflation', () => {
+      const today = calculateStateIncomeTax({ ...baseInput, wages: 60000 });
+      const future = calculateStateIncomeTax({ ...baseInput, wages: 120000, inflationFactor: 2 });
+      expect(future.tax).toBeCloseTo(today.tax * 2, 2);
+    });
+  });
+});
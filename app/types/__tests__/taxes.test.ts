@@ -0,0 +1,246 @@
+/**
+ * Tests for federal income tax calculations
+ */
+
+import {
+  getFilingStatus,
+  getStandardDeduction,
+  calculateOrdinaryIncomeTax,
+  getMarginalRate,
+  calculateTaxableSocialSecurity,
+  calculateCapitalGainsTax,
+  calculateNetInvestmentIncomeTax,
+  calculateSelfEmploymentTax,
+  calculateFederalIncomeTax,
+} from '../taxes';
+
+describe('Federal Income Tax', () => {
+  describe('getFilingStatus', () => {
+    it('should file jointly when married', () => {
+      expect(getFilingStatus('married', 2)).toBe('married-filing-jointly');
+    });
+
+    it('should file single when unmarried without dependents', () => {
+      expect(getFilingStatus('single', 0)).toBe('single');
+      expect(getFilingStatus('divorced')).toBe('single');
+      expect(getFilingStatus('widowed', 0)).toBe('single');
+    });
+
+    it('should file head of household when unmarried with dependents', () => {
+      expect(getFilingStatus('divorced', 1)).toBe('head-of-household');
+    });
+  });
+
+  describe('getStandardDeduction', () => {
+    it('should return base deduction in today\'s dollars', () => {
+      expect(getStandardDeduction('single', 1, 40)).toBe(15750);
+      expect(getStandardDeduction('married-filing-jointly', 1, 40)).toBe(31500);
+    });
+
+    it('should add the age 65+ deduction', () => {
+      expect(getStandardDeduction('single', 1, 65)).toBe(17750);
+    });
+
+    it('should add the age 65+ deduction for each spouse on a joint return', () => {
+      expect(getStandardDeduction('married-filing-jointly', 1, 66, 64)).toBe(31500 + 1600);
+      expect(getStandardDeduction('married-filing-jointly', 1, 64, 66)).toBe(31500 + 1600);
+      expect(getStandardDeduction('married-filing-jointly', 1, 66, 65)).toBe(31500 + 2 * 1600);
+      // A spouse's age only counts on a joint return
+      expect(getStandardDeduction('single', 1, 66, 70)).toBe(17750);
+    });
+
+    it('should index to inflation', () => {
+      expect(getStandardDeduction('single', 1.1, 40)).toBeCloseTo(17325, 2);
+    });
+  });
+
+  describe('calculateOrdinaryIncomeTax', () => {
+    it('should return 0 for no income', () => {
+      expect(calculateOrdinaryIncomeTax(0, 'single', 1)).toBe(0);
+    });
+
+    it('should apply single brackets progressively', () => {
+      // 10% of 11,925 + 12% of 36,550 + 22% of 1,525
+      expect(calculateOrdinaryIncomeTax(50000, 'single', 1)).toBeCloseTo(5914, 2);
+    });
+
+    it('should apply married filing jointly brackets', () => {
+      // 10% of 23,850 + 12% of 73,100 + 22% of 3,050
+      expect(calculateOrdinaryIncomeTax(100000, 'married-filing-jointly', 1)).toBeCloseTo(11828, 2);
+    });
+
+    it('should scale with inflation-indexed brackets', () => {
+      const today = calculateOrdinaryIncomeTax(50000, 'single', 1);
+      const future = calculateOrdinaryIncomeTax(100000, 'single', 2);
+      expect(future).toBeCloseTo(today * 2, 2);
+    });
+
+    it('should apply the top rate above the last threshold', () => {
+      const atThreshold = calculateOrdinaryIncomeTax(626350, 'single', 1);
+      expect(calculateOrdinaryIncomeTax(726350, 'single', 1) - atThreshold).toBeCloseTo(37000, 2);
+    });
+  });
+
+  describe('getMarginalRate', () => {
+    it('should return the bracket rate for taxable income', () => {
+      expect(getMarginalRate(0, 'single', 1)).toBe(10);
+      expect(getMarginalRate(50000, 'single', 1)).toBe(22);
+      expect(getMarginalRate(1000000, 'single', 1)).toBe(37);
+    });
+  });
+
+  describe('calculateTaxableSocialSecurity', () => {
+    it('should not tax benefits below the base threshold', () => {
+      expect(calculateTaxableSocialSecurity(30000, 10000, 'single')).toBe(0);
+    });
+
+    it('should tax up to 50% between thresholds', () => {
+      // Provisional income 30,000: 50% of excess over 25,000
+      expect(calculateTaxableSocialSecurity(30000, 15000, 'single')).toBeCloseTo(2500, 2);
+    });
+
+    it('should tax up to 85% above the adjusted threshold', () => {
+      // Provisional income 35,000: 85% of 1,000 + 4,500
+      expect(calculateTaxableSocialSecurity(30000, 20000, 'single')).toBeCloseTo(5350, 2);
+      expect(calculateTaxableSocialSecurity(30000, 500000, 'single')).toBeCloseTo(25500, 2);
+    });
+  });
+
+  describe('calculateCapitalGainsTax', () => {
+    it('should tax gains at 0% while total income stays in the 0% bracket', () => {
+      expect(calculateCapitalGainsTax(20000, 20000, 'single', 1)).toBe(0);
+    });
+
+    it('should stack gains on top of ordinary income', () => {
+      // 8,350 of gains fill the 0% bracket to 48,350; the remaining 11,650 are taxed at 15%
+      expect(calculateCapitalGainsTax(40000, 20000, 'single', 1)).toBeCloseTo(1747.5, 2);
+    });
+
+    it('should tax gains above the top threshold at 20%', () => {
+      expect(calculateCapitalGainsTax(600000, 100000, 'single', 1)).toBeCloseTo(20000, 2);
+    });
+  });
+
+  describe('calculateNetInvestmentIncomeTax', () => {
+    it('should not apply below the MAGI threshold', () => {
+      expect(calculateNetInvestmentIncomeTax(50000, 190000, 'single')).toBe(0);
+    });
+
+    it('should apply to the lesser of investment income or excess MAGI', () => {
+      expect(calculateNetInvestmentIncomeTax(50000, 220000, 'single')).toBeCloseTo(760, 2);
+      expect(calculateNetInvestmentIncomeTax(10000, 300000, 'single')).toBeCloseTo(380, 2);
+    });
+  });
+
+  describe('calculateSelfEmploymentTax', () => {
+    it('should tax 92.35% of net earnings at 15.3%', () => {
+      expect(calculateSelfEmploymentTax(30000, 1)).toBeCloseTo(30000 * 0.9235 * 0.153, 2);
+      expect(calculateSelfEmploymentTax(-5000, 1)).toBe(0);
+    });
+
+    it('should stop the Social Security part at the indexed wage base', () => {
+      const netEarnings = 300000 * 0.9235;
+      expect(calculateSelfEmploymentTax(300000, 1)).toBeCloseTo(176100 * 0.124 + netEarnings * 0.029, 2);
+      expect(calculateSelfEmploymentTax(300000, 1.1)).toBeCloseTo(176100 * 1.1 * 0.124 + netEarnings * 0.029, 2);
+    });
+  });
+
+  describe('calculateFederalIncomeTax', () => {
+    it('should combine deduction, Social Security and brackets', () => {
+      const result = calculateFederalIncomeTax({
+        ordinaryIncome: 65750,
+        socialSecurity: 0,
+        filingStatus: 'single',
+        inflationFactor: 1,
+        age: 40,
+      });
+
+      expect(result.standardDeduction).toBe(15750);
+      expect(result.taxableIncome).toBe(50000);
+      expect(result.tax).toBeCloseTo(5914, 2);
+      expect(result.marginalRate).toBe(22);
+    });
+
+    it('should deduct the additional amount for both spouses 65+', () => {
+      const result = calculateFederalIncomeTax({
+        ordinaryIncome: 50000,
+        socialSecurity: 0,
+        filingStatus: 'married-filing-jointly',
+        inflationFactor: 1,
+        age: 67,
+        spouseAge: 65,
+      });
+
+      expect(result.standardDeduction).toBe(34700);
+      expect(result.taxableIncome).toBe(15300);
+    });
+
+    it('should owe nothing when income is under the standard deduction', () => {
+      const result = calculateFederalIncomeTax({
+        ordinaryIncome: 10000,
+        socialSecurity: 20000,
+        filingStatus: 'single',
+        inflationFactor: 1,
+        age: 70,
+      });
+
+      expect(result.taxableSocialSecurity).toBe(0);
+      expect(result.tax).toBe(0);
+    });
+
+    it('should apply unused standard deduction to capital gains', () => {
+      const result = calculateFederalIncomeTax({
+        ordinaryIncome: 5750,
+        socialSecurity: 0,
+        longTermCapitalGains: 100000,
+        filingStatus: 'single',
+        inflationFactor: 1,
+        age: 40,
+      });
+
+      // 10,000 of deduction remains for gains: 90,000 taxable gains, 48,350 of them at 0%
+      expect(result.taxableIncome).toBe(90000);
+      expect(result.ordinaryIncomeTax).toBe(0);
+      expect(result.capitalGainsTax).toBeCloseTo((90000 - 48350) * 0.15, 2);
+      expect(result.netInvestmentIncomeTax).toBe(0);
+      expect(result.tax).toBeCloseTo(result.capitalGainsTax, 2);
+    });
+
+    it('should add self-employment tax and deduct half of it', () => {
+      const wages = calculateFederalIncomeTax({
+        ordinaryIncome: 80000,
+        socialSecurity: 0,
+        filingStatus: 'single',
+        inflationFactor: 1,
+        age: 40,
+      });
+      const selfEmployed = calculateFederalIncomeTax({
+        ordinaryIncome: 80000,
+        socialSecurity: 0,
+        selfEmploymentIncome: 80000,
+        filingStatus: 'single',
+        inflationFactor: 1,
+        age: 40,
+      });
+
+      const selfEmploymentTax = calculateSelfEmploymentTax(80000, 1);
+      expect(selfEmployed.selfEmploymentTax).toBeCloseTo(selfEmploymentTax, 2);
+      expect(selfEmployed.grossIncome).toBeCloseTo(wages.grossIncome - selfEmploymentTax / 2, 2);
+      expect(selfEmployed.tax).toBeCloseTo(selfEmployed.ordinaryIncomeTax + selfEmploymentTax, 2);
+      expect(wages.selfEmploymentTax).toBe(0);
+    });
+
+    it('should apply the NIIT to rental income above the threshold', () => {
+      const result = calculateFederalIncomeTax({
+        ordinaryIncome: 250000,
+        socialSecurity: 0,
+        otherInvestmentIncome: 40000,
+        filingStatus: 'single',
+        inflationFactor: 1,
+        age: 40,
+      });
+
+      expect(result.netInvestmentIncomeTax).toBeCloseTo(40000 * 0.038, 2);
+    });
+  });
+});
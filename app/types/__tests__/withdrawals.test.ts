@@ -0,0 +1,134 @@
+/**
+ * Tests for withdrawal strategies
+ */
+
+import {
+  getWithdrawalOrder,
+  getBracketRoom,
+  withdrawFromAccounts,
+  validateWithdrawalStrategy,
+  CONVENTIONAL_WITHDRAWAL_ORDER,
+} from '../withdrawals';
+import { AccountType } from '../accounts';
+
+describe('Withdrawal Strategies', () => {
+  const createBalances = (overrides: Partial<Record<AccountType, number>>): Record<AccountType, number> => ({
+    '401k': 0,
+    'traditional-ira': 0,
+    'roth-ira': 0,
+    brokerage: 0,
+    savings: 0,
+    checking: 0,
+    ...overrides,
+  });
+
+  describe('getWithdrawalOrder', () => {
+    it('should use the conventional order by default', () => {
+      expect(getWithdrawalOrder({ type: 'conventional' })).toEqual(CONVENTIONAL_WITHDRAWAL_ORDER);
+    });
+
+    it('should complete a custom order with omitted account types', () => {
+      expect(getWithdrawalOrder({ type: 'custom', customOrder: ['roth-ira', 'brokerage'] })).toEqual([
+        'roth-ira',
+        'brokerage',
+        'checking',
+        'savings',
+        'traditional-ira',
+        '401k',
+      ]);
+    });
+  });
+
+  describe('getBracketRoom', () => {
+    it('should return 0 for strategies that do not fill a bracket', () => {
+      expect(getBracketRoom({ type: 'conventional' }, 0, 'single', 1)).toBe(0);
+    });
+
+    it('should include unused standard deduction in the room', () => {
+      expect(getBracketRoom({ type: 'fill-bracket' }, -10000, 'single', 1)).toBeCloseTo(58475, 2);
+      expect(getBracketRoom({ type: 'fill-bracket', bracketRate: 22 }, 50000, 'single', 1)).toBeCloseTo(53350, 2);
+    });
+
+    it('should return 0 once the bracket is full', () => {
+      expect(getBracketRoom({ type: 'fill-bracket' }, 60000, 'single', 1)).toBe(0);
+    });
+  });
+
+  describe('withdrawFromAccounts', () => {
+    it('should draw accounts in conventional order', () => {
+      const balances = createBalances({ checking: 1000, brokerage: 5000, 'roth-ira': 5000 });
+      const withdrawals = withdrawFromAccounts(balances, 3000);
+
+      expect(withdrawals.checking).toBe(1000);
+      expect(withdrawals.brokerage).toBe(2000);
+      expect(withdrawals['roth-ira']).toBe(0);
+      expect(balances.brokerage).toBe(3000);
+    });
+
+    it('should draw proportionally to balances', () => {
+      const balances = createBalances({ checking: 1000, '401k': 3000 });
+      const withdrawals = withdrawFromAccounts(balances, 2000, { type: 'proportional' });
+
+      expect(withdrawals.checking).toBeCloseTo(500, 6);
+      expect(withdrawals['401k']).toBeCloseTo(1500, 6);
+    });
+
+    it('should draw tax-deferred accounts up to the bracket room first', () => {
+      const balances = createBalances({ checking: 10000, 'traditional-ira': 10000 });
+      const withdrawals = withdrawFromAccounts(balances, 5000, { type: 'fill-bracket' }, 3000);
+
+      expect(withdrawals['traditional-ira']).toBe(3000);
+      expect(withdrawals.checking).toBe(2000);
+    });
+
+    it('should overdraw checking when accounts run out', () => {
+      const balances = createBalances({ savings: 1000 });
+      const withdrawals = withdrawFromAccounts(balances, 3000, { type: 'proportional' });
+
+      expect(withdrawals.savings).toBe(1000);
+      expect(withdrawals.checking).toBe(2000);
+      expect(balances.checking).toBe(-2000);
+    });
+
+    it('should draw penalty-free money before penalized money', () => {
+      const balances = createBalances({ checking: 1000, '401k': 10000, 'roth-ira': 10000 });
+      const withdrawals = withdrawFromAccounts(balances, 5000, { type: 'conventional' }, 0, {
+        '401k': 0,
+        'roth-ira': 3000,
+      });
+
+      expect(withdrawals.checking).toBe(1000);
+      expect(withdrawals['roth-ira']).toBe(3000); // Contributions ahead of the penalized 401(k)
+      expect(withdrawals['401k']).toBe(1000);
+      expect(balances['401k']).toBe(9000);
+      expect(balances['roth-ira']).toBe(7000);
+    });
+  });
+
+  describe('validateWithdrawalStrategy', () => {
+    it('should accept built-in strategies', () => {
+      expect(validateWithdrawalStrategy({ type: 'conventional' })).toBeNull();
+      expect(validateWithdrawalStrategy({ type: 'fill-bracket', bracketRate: 22 })).toBeNull();
+      expect(validateWithdrawalStrategy({ type: 'custom', customOrder: ['roth-ira'] })).toBeNull();
+    });
+
+    it('should reject an unknown strategy type', () => {
+      expect(validateWithdrawalStrategy({ type: 'random' })).toContain('must be one of');
+    });
+
+    it('should reject a bracket rate that is not a federal bracket', () => {
+      expect(validateWithdrawalStrategy({ type: 'fill-bracket', bracketRate: 15 })).toContain('Bracket rate');
+      expect(validateWithdrawalStrategy({ type: 'fill-bracket', bracketRate: 37 })).toContain('Bracket rate');
+    });
+
+    it('should reject invalid custom orders', () => {
+      expect(validateWithdrawalStrategy({ type: 'custom' })).toContain('withdrawal order');
+      expect(validateWithdrawalStrategy({ type: 'custom', customOrder: ['pension'] })).toContain(
+        'Invalid account type'
+      );
+      expect(
+        validateWithdrawalStrategy({ type: 'custom', customOrder: ['checking', 'checking'] })
+      ).toContain('must not repeat');
+    });
+  });
+});
@@ -1,3 +1,6 @@
+import { HouseholdMember } from './partner';
+import { Liability } from './liabilities';
+
 export type AccountType =
   | '401k'
   | 'traditional-ira'
@@ -15,6 +18,9 @@ export interface Account {
   accountName: string; // User-friendly name like "Vanguard 401k" or "Emergency Fund"
   institution?: string; // Bank/brokerage name
   balance: number;
+  costBasis?: number; // Brokerage: amount invested; Roth IRA: contributions (defaults to balance when unknown)
+  returnRate?: number; // Annual return/APY as percentage; overrides the scenario's rate for this account
+  owner?: HouseholdMember; // Whose account this is (default: self); RMDs are figured per owner
   asOfDate: string; // ISO date format - when was this balance recorded
   status: AccountStatus;
 
@@ -31,6 +37,9 @@ export interface CreateAccountRequest {
   accountName: string;
   institution?: string;
   balance: number;
+  costBasis?: number;
+  returnRate?: number;
+  owner?: HouseholdMember;
   asOfDate: string;
   notes?: string;
 }
@@ -39,6 +48,9 @@ export interface UpdateAccountRequest {
   accountName?: string;
   institution?: string;
   balance?: number;
+  costBasis?: number;
+  returnRate?: number | null;
+  owner?: HouseholdMember;
   asOfDate?: string;
   status?: AccountStatus;
   notes?: string;
@@ -69,6 +81,9 @@ export function getAccountTypeLabel(accountType: AccountType): string {
   return labels[accountType];
 }
 
+// Account types that track cost basis (brokerage for capital gains, Roth IRA for penalty-free contributions)
+export const COST_BASIS_ACCOUNT_TYPES: AccountType[] = ['brokerage', 'roth-ira'];
+
 // Helper to categorize accounts
 export type AccountCategory = 'retirement' | 'investment' | 'cash';
 
@@ -87,16 +102,20 @@ export interface AccountSummary {
   totalRetirement: number;
   totalInvestment: number;
   totalCash: number;
-  totalNetWorth: number;
+  totalAssets: number; // Retirement + investment + cash
+  totalLiabilities: number; // Balances owed on active liabilities
+  totalNetWorth: number; // Assets less liabilities
   accountCount: number;
   byType: Record<AccountType, { count: number; total: number }>;
 }
 
-export function calculateAccountSummary(accounts: Account[]): AccountSummary {
+export function calculateAccountSummary(accounts: Account[], liabilities: Liability[] = []): AccountSummary {
   const summary: AccountSummary = {
     totalRetirement: 0,
     totalInvestment: 0,
     totalCash: 0,
+    totalAssets: 0,
+    totalLiabilities: 0,
     totalNetWorth: 0,
     accountCount: accounts.length,
     byType: {
@@ -128,7 +147,11 @@ export function calculateAccountSummary(accounts: Account[]): AccountSummary {
     summary.byType[account.accountType].total += account.balance;
   });
 
-  summary.totalNetWorth = summary.totalRetirement + summary.totalInvestment + summary.totalCash;
+  summary.totalAssets = summary.totalRetirement + summary.totalInvestment + summary.totalCash;
+  summary.totalLiabilities = liabilities
+    .filter((liability) => liability.status !== 'paid-off') // Don't count paid-off debts
+    .reduce((sum, liability) => sum + liability.balance, 0);
+  summary.totalNetWorth = summary.totalAssets - summary.totalLiabilities;
 
   return summary;
 }
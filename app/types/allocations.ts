@@ -0,0 +1,174 @@
+/**
+ * Asset Allocation Types and Calculations
+ *
+ * This module derives investment returns from an asset allocation, including:
+ * - Stocks/bonds/cash allocation with per-asset-class expected returns
+ * - Glide paths that shift the allocation as age increases (linear between points)
+ * - Blended portfolio return for a given allocation
+ *
+ * A scenario's glide path replaces the flat investmentReturnRate; an assumption bucket can
+ * pin its own allocation for the ages it covers.
+ */
+
+export type AssetClass = 'stocks' | 'bonds' | 'cash';
+
+export interface AssetAllocation {
+  stocks: number; // Percentage (0-100)
+  bonds: number; // Percentage (0-100)
+  cash: number; // Percentage (0-100)
+}
+
+export interface AssetClassReturns {
+  stocks: number; // Expected annual return as percentage (e.g., 9 for 9%)
+  bonds: number;
+  cash: number;
+}
+
+export interface GlidePathPoint {
+  age: number;
+  allocation: AssetAllocation;
+}
+
+export interface AllocationSettings {
+  returns: AssetClassReturns;
+  glidePath: GlidePathPoint[]; // Sorted by age; allocation is held flat before the first and after the last point
+}
+
+export const ASSET_CLASSES: AssetClass[] = ['stocks', 'bonds', 'cash'];
+
+export const DEFAULT_ASSET_CLASS_RETURNS: AssetClassReturns = {
+  stocks: 9,
+  bonds: 4.5,
+  cash: 3,
+};
+
+/**
+ * Get the allocation for an age by interpolating linearly between glide path points
+ *
+ * @param glidePath - Glide path points sorted by age
+ * @param age - Age to evaluate
+ * @returns Allocation at that age, or null if the glide path is empty
+ */
+export function getAllocationForAge(glidePath: GlidePathPoint[], age: number): AssetAllocation | null {
+  if (glidePath.length === 0) {
+    return null;
+  }
+
+  const sortedPath = [...glidePath].sort((a, b) => a.age - b.age);
+
+  if (age <= sortedPath[0].age) {
+    return { ...sortedPath[0].allocation };
+  }
+
+  for (let i = 0; i < sortedPath.length - 1; i++) {
+    const start = sortedPath[i];
+    const end = sortedPath[i + 1];
+
+    if (age <= end.age) {
+      const progress = (age - start.age) / (end.age - start.age);
+      return {
+        stocks: start.allocation.stocks + (end.allocation.stocks - start.allocation.stocks) * progress,
+        bonds: start.allocation.bonds + (end.allocation.bonds - start.allocation.bonds) * progress,
+        cash: start.allocation.cash + (end.allocation.cash - start.allocation.cash) * progress,
+      };
+    }
+  }
+
+  return { ...sortedPath[sortedPath.length - 1].allocation };
+}
+
+/**
+ * Calculate the blended portfolio return for an allocation
+ *
+ * @returns Weighted average return as percentage
+ */
+export function calculateBlendedReturn(
+  allocation: AssetAllocation,
+  returns: AssetClassReturns
+): number {
+  return ASSET_CLASSES.reduce(
+    (sum, assetClass) => sum + (allocation[assetClass] / 100) * returns[assetClass],
+    0
+  );
+}
+
+/**
+ * Validate an asset allocation
+ *
+ * @returns Error message if invalid, null if valid
+ */
+export function validateAssetAllocation(allocation: unknown): string | null {
+  if (!allocation || typeof allocation !== 'object' || allocation === null) {
+    return 'Asset allocation must be an object';
+  }
+
+  const allocationObj = allocation as Record<string, unknown>;
+  let total = 0;
+
+  for (const assetClass of ASSET_CLASSES) {
+    const percentage = allocationObj[assetClass];
+    if (typeof percentage !== 'number' || percentage < 0 || percentage > 100) {
+      return `Asset allocation ${assetClass} must be a number between 0 and 100`;
+    }
+    total += percentage;
+  }
+
+  if (Math.abs(total - 100) > 0.01) {
+    return 'Asset allocation percentages must add up to 100';
+  }
+
+  return null;
+}
+
+/**
+ * Validate scenario allocation settings (asset class returns and glide path)
+ *
+ * @returns Error message if invalid, null if valid
+ */
+export function validateAllocationSettings(settings: unknown): string | null {
+  if (!settings || typeof settings !== 'object' || settings === null) {
+    return 'Allocation settings must be an object';
+  }
+
+  const settingsObj = settings as Record<string, unknown>;
+
+  if (!settingsObj.returns || typeof settingsObj.returns !== 'object') {
+    return 'Allocation settings must include asset class returns';
+  }
+
+  const returns = settingsObj.returns as Record<string, unknown>;
+  for (const assetClass of ASSET_CLASSES) {
+    const rate = returns[assetClass];
+    if (typeof rate !== 'number' || rate < -100 || rate > 100) {
+      return `Expected ${assetClass} return must be a number between -100 and 100`;
+    }
+  }
+
+  if (!Array.isArray(settingsObj.glidePath) || settingsObj.glidePath.length === 0) {
+    return 'Glide path must have at least one point';
+  }
+
+  let previousAge = -1;
+  for (const point of settingsObj.glidePath) {
+    if (!point || typeof point !== 'object') {
+      return 'Glide path point must be an object';
+    }
+
+    const pointObj = point as Record<string, unknown>;
+    if (typeof pointObj.age !== 'number' || pointObj.age < 0 || pointObj.age > 120) {
+      return 'Glide path age must be a number between 0 and 120';
+    }
+
+    if (pointObj.age <= previousAge) {
+      return 'Glide path ages must be in increasing order';
+    }
+    previousAge = pointObj.age;
+
+    const allocationError = validateAssetAllocation(pointObj.allocation);
+    if (allocationError) {
+      return allocationError;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,258 @@
+/**
+ * Historical Backtesting Types and Calculations
+ *
+ * This module replays a scenario through every historical starting year, including:
+ * - Annual stock/bond returns blended by a fixed allocation
+ * - Historical CPI in place of the scenario's inflation rate
+ * - Per-cohort final net worth, depletion year and worst drawdown
+ * - Partial cohorts for recent start years (e.g. 2000, 2008) whose history ends before the projection does
+ * - Success rate across all complete cohorts
+ */
+
+import { Account } from './accounts';
+import { Scenario } from './scenarios';
+import { UserProfile } from './profile';
+import { Liability } from './liabilities';
+import {
+  MarketConditions,
+  calculateScenarioProjection,
+  findDepletionYear,
+} from './projections';
+import {
+  FIRST_HISTORICAL_YEAR,
+  LAST_HISTORICAL_YEAR,
+  getHistoricalMarketYear,
+} from './marketHistory';
+
+export interface BacktestSettings {
+  stockAllocation: number; // Percentage in stocks (0-100); the remainder is in bonds
+}
+
+export interface BacktestCohort {
+  historicalStartYear: number; // First historical year replayed
+  historicalEndYear: number; // Last historical year replayed
+  partial: boolean; // True if history ran out first; later years use the scenario's fixed rates
+  finalNetWorth: number;
+  depletionYear?: number; // Projection year in which accounts ran out
+  depletionAge?: number;
+  worstDrawdown: number; // Largest peak-to-trough decline in net worth (0 to 1)
+  success: boolean; // True if accounts were never depleted
+}
+
+export interface BacktestResult {
+  scenarioId: string;
+  scenarioName: string;
+  settings: BacktestSettings;
+  cohorts: BacktestCohort[];
+  successRate: number; // Fraction of complete cohorts that never depleted accounts (0 to 1)
+  successfulCohorts: number; // Complete cohorts only
+  partialCohorts: number;
+  worstCohortStartYear?: number; // Complete cohort with the lowest final net worth
+}
+
+export interface StoredBacktest {
+  id: string;
+  userId: string; // Cognito sub ID
+  scenarioId: string;
+  scenarioName: string;
+  calculatedAt: string;
+  startYear: number;
+  endYear: number;
+  backtest: BacktestResult;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface RunBacktestRequest extends Partial<BacktestSettings> {
+  startYear?: number;
+  endYear?: number;
+}
+
+export interface StoredBacktestResponse {
+  success: boolean;
+  storedBacktest?: StoredBacktest;
+  error?: string;
+}
+
+export const DEFAULT_STOCK_ALLOCATION = 60;
+
+// Partial cohorts need at least this much history to say anything about sequence of returns
+export const MIN_PARTIAL_COHORT_YEARS = 10;
+
+/**
+ * Build the market conditions for one historical cohort
+ *
+ * @param historicalStartYear - First historical year of the sequence
+ * @param numberOfYears - Number of years to replay
+ * @param stockAllocation - Percentage in stocks (remainder in bonds)
+ * @returns Market conditions for each year, or null if the dataset does not cover the full sequence
+ */
+export function buildHistoricalMarketConditions(
+  historicalStartYear: number,
+  numberOfYears: number,
+  stockAllocation: number
+): MarketConditions[] | null {
+  const conditions: MarketConditions[] = [];
+  const stockWeight = stockAllocation / 100;
+
+  for (let i = 0; i < numberOfYears; i++) {
+    const marketYear = getHistoricalMarketYear(historicalStartYear + i);
+    if (!marketYear) {
+      return null;
+    }
+
+    conditions.push({
+      returnRate: stockWeight * marketYear.stocks + (1 - stockWeight) * marketYear.bonds,
+      inflationRate: marketYear.inflation,
+    });
+  }
+
+  return conditions;
+}
+
+/**
+ * Calculate the largest peak-to-trough decline in a series of balances
+ *
+ * @param balances - Balances in chronological order
+ * @returns Worst drawdown as a fraction of the peak (0 to 1)
+ */
+export function calculateMaxDrawdown(balances: number[]): number {
+  let peak = 0;
+  let maxDrawdown = 0;
+
+  for (const balance of balances) {
+    if (balance > peak) {
+      peak = balance;
+      continue;
+    }
+
+    if (peak > 0) {
+      const drawdown = (peak - Math.max(0, balance)) / peak;
+      maxDrawdown = Math.max(maxDrawdown, drawdown);
+    }
+  }
+
+  return maxDrawdown;
+}
+
+/**
+ * Validate backtest settings from a request body
+ *
+ * @returns Error message if invalid, null if valid
+ */
+export function validateBacktestSettings(data: unknown): string | null {
+  if (!data || typeof data !== 'object' || data === null) {
+    return 'Backtest settings must be an object';
+  }
+
+  const dataObj = data as Record<string, unknown>;
+
+  if (dataObj.stockAllocation !== undefined) {
+    if (
+      typeof dataObj.stockAllocation !== 'number' ||
+      dataObj.stockAllocation < 0 ||
+      dataObj.stockAllocation > 100
+    ) {
+      return 'stockAllocation must be a number between 0 and 100';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Run a historical backtest of a scenario
+ *
+ * The projection is replayed once for every historical start year whose full sequence fits in
+ * the dataset. Each replay runs the full yearly projection (buckets, mortgages, lump sums, RMDs)
+ * with historical returns and inflation in place of the scenario's fixed rates.
+ *
+ * Start years after the last complete cohort (with at least MIN_PARTIAL_COHORT_YEARS of history)
+ * are replayed as partial cohorts: history through the last data year, then the scenario's fixed
+ * rates. They are flagged partial and left out of the success rate and worst cohort, so recent
+ * stress sequences such as 2000 and 2008 still show up at the default horizon.
+ *
+ * @param scenario - The scenario to backtest
+ * @param userProfile - User's profile (age calculation)
+ * @param currentAccounts - Current account balances
+ * @param startYear - Projection start year
+ * @param endYear - Projection end year
+ * @param settings - Backtest settings
+ * @param liabilities - The user's debts (minimum payments add to spending)
+ * @returns Outcome of every historical cohort and the overall success rate
+ */
+export function runHistoricalBacktest(
+  scenario: Scenario,
+  userProfile: UserProfile,
+  currentAccounts: Account[],
+  startYear: number,
+  endYear: number,
+  settings: BacktestSettings,
+  liabilities: Liability[] = []
+): BacktestResult {
+  const numberOfYears = endYear - startYear + 1;
+  const lastCohortStartYear = LAST_HISTORICAL_YEAR - numberOfYears + 1;
+
+  if (lastCohortStartYear < FIRST_HISTORICAL_YEAR) {
+    throw new Error(
+      `Projection of ${numberOfYears} years is longer than the historical dataset (${FIRST_HISTORICAL_YEAR}-${LAST_HISTORICAL_YEAR})`
+    );
+  }
+
+  const cohorts: BacktestCohort[] = [];
+  const lastPartialCohortStartYear = LAST_HISTORICAL_YEAR - Math.min(numberOfYears, MIN_PARTIAL_COHORT_YEARS) + 1;
+
+  for (let historicalStartYear = FIRST_HISTORICAL_YEAR; historicalStartYear <= lastPartialCohortStartYear; historicalStartYear++) {
+    const historicalYears = Math.min(numberOfYears, LAST_HISTORICAL_YEAR - historicalStartYear + 1);
+    const marketConditions = buildHistoricalMarketConditions(
+      historicalStartYear,
+      historicalYears,
+      settings.stockAllocation
+    );
+
+    if (!marketConditions) {
+      continue;
+    }
+
+    const projection = calculateScenarioProjection(
+      scenario,
+      userProfile,
+      currentAccounts,
+      startYear,
+      endYear,
+      { marketConditions, liabilities }
+    );
+
+    const depletionYear = findDepletionYear(projection.years);
+    const depletionAge = projection.years.find((y) => y.year === depletionYear)?.age;
+
+    cohorts.push({
+      historicalStartYear,
+      historicalEndYear: historicalStartYear + historicalYears - 1,
+      partial: historicalYears < numberOfYears,
+      finalNetWorth: projection.summary.finalNetWorth,
+      depletionYear,
+      depletionAge,
+      worstDrawdown: calculateMaxDrawdown(projection.years.map((y) => y.accountBalances.netWorth)),
+      success: depletionYear === undefined,
+    });
+  }
+
+  const completeCohorts = cohorts.filter((c) => !c.partial);
+  const successfulCohorts = completeCohorts.filter((c) => c.success).length;
+  const worstCohort = completeCohorts.reduce<BacktestCohort | undefined>(
+    (worst, cohort) => (!worst || cohort.finalNetWorth < worst.finalNetWorth ? cohort : worst),
+    undefined
+  );
+
+  return {
+    scenarioId: scenario.id,
+    scenarioName: scenario.name,
+    settings,
+    cohorts,
+    successRate: completeCohorts.length > 0 ? successfulCohorts / completeCohorts.length : 0,
+    successfulCohorts,
+    partialCohorts: cohorts.length - completeCohorts.length,
+    worstCohortStartYear: worstCohort?.historicalStartYear,
+  };
+}
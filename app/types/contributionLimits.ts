@@ -0,0 +1,204 @@
+/**
+ * IRS Contribution Limits
+ *
+ * This module caps planned retirement contributions at the IRS limits, including:
+ * - 401(k) elective deferral limit with the age 50+ catch-up
+ * - SECURE 2.0 "super catch-up" for ages 60-63
+ * - Combined traditional/Roth IRA limit with the age 50+ catch-up
+ * - Roth IRA income phase-outs by filing status
+ * - HSA limits by coverage with the age 55+ catch-up
+ *
+ * Limits are for tax year 2025 (today's dollars) and are indexed with the same inflation
+ * factor as the tax brackets. Contributions over a limit are invested in brokerage instead.
+ * Limits are per person: a bucket's contributions are for the household, so they are capped at
+ * the sum of the user's and the partner's limits, each with their own age's catch-ups.
+ * HSA limits are not enforced by projections (no account type holds HSA balances yet).
+ */
+
+import { AccountType, getAccountTypeLabel } from './accounts';
+import { FilingStatus } from './taxes';
+
+export type HsaCoverage = 'self-only' | 'family';
+
+export interface ContributionLimitInput {
+  year: number;
+  age: number;
+  inflationFactor: number; // Cumulative inflation since the limits' base year
+  filingStatus: FilingStatus;
+  wages: number; // Household employment income before pre-tax contributions
+  partner?: PartnerContributionInput; // Set while a partner is alive
+}
+
+export interface PartnerContributionInput {
+  age: number;
+  wages: number; // The partner's own employment income (a 401(k) deferral needs their own pay)
+}
+
+export interface ContributionLimitWarning {
+  year: number;
+  age: number;
+  accountType: AccountType;
+  requested: number; // Planned contribution (year's dollars)
+  limit: number; // Limit that applied to this account type
+  excess: number; // Invested in brokerage instead
+}
+
+export interface ContributionLimitResult {
+  contributions: Record<AccountType, number>; // Capped, with the excess added to brokerage
+  warnings: ContributionLimitWarning[];
+}
+
+export const ELECTIVE_DEFERRAL_LIMIT = 23500;
+export const ELECTIVE_DEFERRAL_CATCH_UP = 7500; // Ages 50+
+export const ELECTIVE_DEFERRAL_SUPER_CATCH_UP = 11250; // Ages 60-63 (replaces the 50+ catch-up)
+export const IRA_LIMIT = 7000; // Combined across traditional and Roth IRAs
+export const IRA_CATCH_UP = 1000; // Ages 50+
+
+export const HSA_LIMITS: Record<HsaCoverage, number> = {
+  'self-only': 4300,
+  family: 8550,
+};
+export const HSA_CATCH_UP = 1000; // Ages 55+ (set by statute, not indexed)
+
+// Roth IRA contributions phase out linearly across these MAGI ranges
+export const ROTH_IRA_PHASE_OUTS: Record<FilingStatus, { start: number; end: number }> = {
+  single: { start: 150000, end: 165000 },
+  'head-of-household': { start: 150000, end: 165000 },
+  'married-filing-jointly': { start: 236000, end: 246000 },
+};
+
+/**
+ * Get the 401(k) elective deferral limit for an age, including catch-ups
+ */
+export function getElectiveDeferralLimit(age: number, inflationFactor: number = 1): number {
+  const catchUp =
+    age >= 60 && age <= 63 ? ELECTIVE_DEFERRAL_SUPER_CATCH_UP : age >= 50 ? ELECTIVE_DEFERRAL_CATCH_UP : 0;
+  return (ELECTIVE_DEFERRAL_LIMIT + catchUp) * inflationFactor;
+}
+
+/**
+ * Get the combined IRA contribution limit for an age, including the catch-up
+ */
+export function getIraLimit(age: number, inflationFactor: number = 1): number {
+  return (IRA_LIMIT + (age >= 50 ? IRA_CATCH_UP : 0)) * inflationFactor;
+}
+
+/**
+ * Get the HSA contribution limit for a coverage level and age
+ * (no account type holds HSA balances yet, so projections do not apply this limit)
+ */
+export function getHsaLimit(coverage: HsaCoverage, age: number, inflationFactor: number = 1): number {
+  return HSA_LIMITS[coverage] * inflationFactor + (age >= 55 ? HSA_CATCH_UP : 0);
+}
+
+/**
+ * Get the Roth IRA contribution limit after the income phase-out
+ *
+ * @param iraLimit - Combined IRA limit for the person's age
+ * @param magi - Modified adjusted gross income
+ * @param filingStatus - Filing status (selects the phase-out range)
+ * @param inflationFactor - Cumulative inflation since the base year
+ * @returns The reduced limit (0 above the phase-out range)
+ */
+export function getRothIraLimit(
+  iraLimit: number,
+  magi: number,
+  filingStatus: FilingStatus,
+  inflationFactor: number = 1
+): number {
+  const phaseOut = ROTH_IRA_PHASE_OUTS[filingStatus];
+  const start = phaseOut.start * inflationFactor;
+  const end = phaseOut.end * inflationFactor;
+
+  if (magi <= start) {
+    return iraLimit;
+  }
+  if (magi >= end) {
+    return 0;
+  }
+  return iraLimit * ((end - magi) / (end - start));
+}
+
+/**
+ * Cap a year's contributions at the IRS limits
+ * The 401(k) limit applies first; Roth IRA contributions then use the IRA limit (reduced by
+ * the phase-out, with MAGI taken as wages less 401(k) deferrals) and traditional IRA
+ * contributions get what is left of the combined IRA limit. With a partner each limit is the
+ * sum of both people's limits: the partner adds a 401(k) limit while they have wages and an IRA
+ * limit either way (a spousal IRA on the joint return)
+ *
+ * @param contributions - Planned contributions by account type (year's dollars)
+ * @param input - Age, inflation, filing status and wages for the year
+ * @returns Capped contributions and a warning for each account type over its limit
+ */
+export function applyContributionLimits(
+  contributions: Record<AccountType, number>,
+  input: ContributionLimitInput
+): ContributionLimitResult {
+  const capped = { ...contributions };
+  const warnings: ContributionLimitWarning[] = [];
+
+  const cap = (accountType: AccountType, limit: number) => {
+    const requested = capped[accountType];
+    if (requested > limit + 0.01) {
+      const excess = requested - limit;
+      capped[accountType] = limit;
+      capped['brokerage'] += excess;
+      warnings.push({ year: input.year, age: input.age, accountType, requested, limit, excess });
+    }
+  };
+
+  const { partner } = input;
+  const partnerElectiveDeferralLimit =
+    partner && partner.wages > 0 ? getElectiveDeferralLimit(partner.age, input.inflationFactor) : 0;
+  cap('401k', getElectiveDeferralLimit(input.age, input.inflationFactor) + partnerElectiveDeferralLimit);
+
+  const iraLimit =
+    getIraLimit(input.age, input.inflationFactor) + (partner ? getIraLimit(partner.age, input.inflationFactor) : 0);
+  const magi = Math.max(0, input.wages - capped['401k']);
+  cap('roth-ira', getRothIraLimit(iraLimit, magi, input.filingStatus, input.inflationFactor));
+  cap('traditional-ira', Math.max(0, iraLimit - capped['roth-ira']));
+
+  return { contributions: capped, warnings };
+}
+
+/**
+ * Summarize contribution limit warnings into one message per run of consecutive ages
+ */
+export function summarizeContributionLimitWarnings(warnings: ContributionLimitWarning[]): string[] {
+  const messages: string[] = [];
+  const byAccountType = new Map<AccountType, ContributionLimitWarning[]>();
+
+  for (const warning of warnings) {
+    byAccountType.set(warning.accountType, [...(byAccountType.get(warning.accountType) || []), warning]);
+  }
+
+  for (const [accountType, accountWarnings] of byAccountType) {
+    let run: ContributionLimitWarning[] = [];
+
+    const flush = () => {
+      if (run.length === 0) {
+        return;
+      }
+      const firstAge = run[0].age;
+      const lastAge = run[run.length - 1].age;
+      const ages = firstAge === lastAge ? `age ${firstAge}` : `ages ${firstAge}-${lastAge}`;
+      const excess = run.reduce((sum, warning) => sum + warning.excess, 0);
+      messages.push(
+        `${getAccountTypeLabel(accountType)} contributions exceed the IRS limit at ${ages}; ` +
+          `$${Math.round(excess).toLocaleString('en-US')} over the limit goes to brokerage instead`
+      );
+      run = [];
+    };
+
+    for (const warning of accountWarnings) {
+      if (run.length > 0 && warning.age !== run[run.length - 1].age + 1) {
+        flush();
+      }
+      run.push(warning);
+    }
+    flush();
+  }
+
+  return messages;
+}
@@ -0,0 +1,315 @@
+/**
+ * Early Retirement Access Planner
+ *
+ * This module plans how an early retiree reaches tax-deferred savings before 59½, including:
+ * - A Roth conversion ladder: a conversion every year, each withdrawable five years later
+ * - A 72(t) SEPP schedule sized by the RMD, amortization or annuitization method
+ * - The "bridge" years before the first ladder rung matures, when taxable and cash accounts
+ *   (and Roth contributions) must cover spending
+ *
+ * The plan is applied to the scenario and projected, so its taxes and any early withdrawal
+ * penalties that remain show up in the results.
+ */
+
+import { Account } from './accounts';
+import { Scenario, getBucketForAge } from './scenarios';
+import { UserProfile } from './profile';
+import { Liability } from './liabilities';
+import { AnnualProjection, calculateAge, calculateScenarioProjection } from './projections';
+import { RothConversionPlan, ROTH_CONVERSION_SEASONING_YEARS } from './rothConversions';
+import {
+  DEFAULT_SEPP_INTEREST_RATE,
+  MAX_SEPP_INTEREST_RATE,
+  PENALTY_FREE_AGE,
+  SINGLE_LIFE_TABLE_MIN_AGE,
+  SeppMethod,
+  SeppPlan,
+  calculateSeppPayment,
+  isValidSeppMethod,
+} from './earlyWithdrawals';
+
+export type EarlyAccessStrategy = 'roth-ladder' | 'sepp';
+
+export interface EarlyRetirementSettings {
+  strategy: EarlyAccessStrategy;
+  retirementAge?: number; // Defaults to the scenario's retirement age
+  annualAmount?: number; // Ladder: yearly conversion in TODAY'S dollars (default: spending at retirement)
+  seppMethod?: SeppMethod; // SEPP: IRS method (default: amortization)
+  seppInterestRate?: number; // SEPP: rate for amortization and annuitization (default: 5)
+}
+
+export interface LadderRung {
+  conversionAge: number;
+  accessibleAge: number; // First age the conversion can be withdrawn penalty-free
+  amount: number; // Converted in the projection (year's dollars)
+}
+
+export interface BridgeYear {
+  year: number;
+  age: number;
+  spending: number; // Spending, taxes and penalties not covered by income (year's dollars)
+  taxableAndCash: number; // Brokerage, savings and checking at the start of the year
+  penalized: number; // Withdrawals that still owed the early withdrawal penalty
+}
+
+export interface EarlyRetirementPlan {
+  scenarioId: string;
+  scenarioName: string;
+  strategy: EarlyAccessStrategy;
+  retirementAge: number;
+  rothConversions?: RothConversionPlan[]; // Ladder: replaces the scenario's Roth conversions
+  ladder?: LadderRung[];
+  seppPlan?: SeppPlan; // SEPP: replaces the scenario's SEPP plan
+  bridgeYears: BridgeYear[];
+  bridgeShortfall: number; // Bridge spending beyond the taxable and cash balance at the start
+  totalPenalties: number; // Early withdrawal penalties left in the projection
+  finalNetWorth: number;
+}
+
+export interface RunEarlyRetirementRequest extends Partial<EarlyRetirementSettings> {
+  startYear?: number;
+  endYear?: number;
+}
+
+export interface EarlyRetirementResponse {
+  success: boolean;
+  plan?: EarlyRetirementPlan;
+  error?: string;
+}
+
+export const DEFAULT_SEPP_METHOD: SeppMethod = 'amortization';
+
+// Ladder conversions fund the years up to 59½, so the last one is five years before then
+export const LADDER_LAST_CONVERSION_AGE = Math.ceil(PENALTY_FREE_AGE) - 1 - ROTH_CONVERSION_SEASONING_YEARS;
+
+const TAXABLE_AND_CASH_ACCOUNTS = ['brokerage', 'savings', 'checking'] as const;
+
+/**
+ * Validate planner settings from a request body
+ *
+ * @returns Error message if invalid, null if valid
+ */
+export function validateEarlyRetirementSettings(data: unknown): string | null {
+  if (!data || typeof data !== 'object' || data === null) {
+    return 'Early retirement settings must be an object';
+  }
+
+  const dataObj = data as Record<string, unknown>;
+
+  if (dataObj.strategy !== 'roth-ladder' && dataObj.strategy !== 'sepp') {
+    return 'strategy must be "roth-ladder" or "sepp"';
+  }
+
+  if (dataObj.retirementAge !== undefined) {
+    if (
+      typeof dataObj.retirementAge !== 'number' ||
+      dataObj.retirementAge < 0 ||
+      dataObj.retirementAge >= PENALTY_FREE_AGE
+    ) {
+      return 'retirementAge must be a number below 59.5';
+    }
+  }
+
+  if (dataObj.annualAmount !== undefined) {
+    if (typeof dataObj.annualAmount !== 'number' || dataObj.annualAmount <= 0) {
+      return 'annualAmount must be a positive number';
+    }
+  }
+
+  if (dataObj.seppMethod !== undefined && !isValidSeppMethod(dataObj.seppMethod)) {
+    return 'seppMethod must be one of: rmd, amortization, annuitization';
+  }
+
+  if (dataObj.seppInterestRate !== undefined) {
+    if (
+      typeof dataObj.seppInterestRate !== 'number' ||
+      dataObj.seppInterestRate < 0 ||
+      dataObj.seppInterestRate > MAX_SEPP_INTEREST_RATE
+    ) {
+      return `seppInterestRate must be a number between 0 and ${MAX_SEPP_INTEREST_RATE}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the Roth conversion ladder for a retirement age
+ * A fixed conversion runs every year from retirement until five years before 59½
+ *
+ * @param retirementAge - First year without employment income
+ * @param annualAmount - Yearly conversion in today's dollars
+ * @returns The ladder's conversion plan, or null when retiring too late to need one
+ */
+export function buildRothConversionLadder(retirementAge: number, annualAmount: number): RothConversionPlan | null {
+  if (retirementAge > LADDER_LAST_CONVERSION_AGE) {
+    return null;
+  }
+
+  return { type: 'fixed', startAge: retirementAge, endAge: LADDER_LAST_CONVERSION_AGE, amount: annualAmount };
+}
+
+/**
+ * Get the bridge ages before a ladder started at retirement matures (never past 59½)
+ */
+export function getLadderBridgeAges(retirementAge: number): number[] {
+  const lastBridgeAge = Math.min(
+    retirementAge + ROTH_CONVERSION_SEASONING_YEARS - 1,
+    Math.ceil(PENALTY_FREE_AGE) - 1
+  );
+  const ages: number[] = [];
+  for (let age = retirementAge; age <= lastBridgeAge; age++) {
+    ages.push(age);
+  }
+  return ages;
+}
+
+/**
+ * Sum the taxable and cash balances in a set of account balances
+ */
+function sumTaxableAndCash(balances: Record<string, number>): number {
+  return TAXABLE_AND_CASH_ACCOUNTS.reduce((sum, accountType) => sum + Math.max(0, balances[accountType] || 0), 0);
+}
+
+/**
+ * Describe the bridge years of a projection
+ */
+function getBridgeYears(
+  years: AnnualProjection[],
+  bridgeAges: number[],
+  currentAccounts: Account[]
+): BridgeYear[] {
+  const startingTaxableAndCash = currentAccounts
+    .filter((account) => account.status === 'active')
+    .reduce(
+      (sum, account) =>
+        sum + ((TAXABLE_AND_CASH_ACCOUNTS as readonly string[]).includes(account.accountType) ? account.balance : 0),
+      0
+    );
+
+  return years
+    .map((year, index) => ({ year, previous: years[index - 1] }))
+    .filter(({ year }) => bridgeAges.includes(year.age))
+    .map(({ year, previous }) => ({
+      year: year.year,
+      age: year.age,
+      spending: Math.max(0, year.spending.total + year.contributions.total - year.income.reported),
+      taxableAndCash: previous
+        ? sumTaxableAndCash(previous.accountBalances.byAccountType)
+        : startingTaxableAndCash,
+      penalized: year.withdrawals.penalized,
+    }));
+}
+
+/**
+ * Plan early access to retirement savings with a Roth conversion ladder or a 72(t) SEPP
+ *
+ * @param scenario - Scenario to plan for (its Roth conversions or SEPP plan are replaced)
+ * @param userProfile - User's profile
+ * @param currentAccounts - Current accounts
+ * @param startYear - Projection start year
+ * @param endYear - Projection end year
+ * @param settings - Strategy and its options
+ * @param liabilities - The user's debts (minimum payments add to spending)
+ * @returns The plan applied to the scenario's projection
+ */
+export function planEarlyRetirement(
+  scenario: Scenario,
+  userProfile: UserProfile,
+  currentAccounts: Account[],
+  startYear: number,
+  endYear: number,
+  settings: EarlyRetirementSettings,
+  liabilities: Liability[] = []
+): EarlyRetirementPlan {
+  const retirementAge = settings.retirementAge ?? scenario.retirementAge;
+  if (retirementAge === undefined) {
+    throw new Error('Scenario needs a retirement age to plan early retirement access');
+  }
+  if (retirementAge >= PENALTY_FREE_AGE) {
+    throw new Error('Retiring at 59½ or later does not need early access to retirement accounts');
+  }
+
+  const currentAge = calculateAge(userProfile.dateOfBirth) + (startYear - new Date().getFullYear());
+  let plannedScenario: Scenario;
+  let rothConversions: RothConversionPlan[] | undefined;
+  let seppPlan: SeppPlan | undefined;
+  let bridgeAges: number[] = [];
+
+  if (settings.strategy === 'roth-ladder') {
+    const bucket = getBucketForAge(scenario.assumptionBuckets, retirementAge);
+    const retirementSpending =
+      (bucket?.assumptions.annualSpending || 0) +
+      (bucket?.assumptions.annualTravelBudget || 0) +
+      (bucket?.assumptions.annualHealthcareCosts || 0);
+    const ladder = buildRothConversionLadder(
+      Math.max(retirementAge, currentAge),
+      settings.annualAmount ?? retirementSpending
+    );
+    rothConversions = ladder ? [ladder] : [];
+    plannedScenario = { ...scenario, rothConversions };
+    bridgeAges = getLadderBridgeAges(Math.max(retirementAge, currentAge));
+  } else {
+    const startAge = Math.max(retirementAge, currentAge);
+    if (startAge < SINGLE_LIFE_TABLE_MIN_AGE) {
+      throw new Error(`A SEPP needs a start age of at least ${SINGLE_LIFE_TABLE_MIN_AGE}`);
+    }
+
+    // Payments are sized on the traditional IRA balance when they start
+    const baseline = calculateScenarioProjection(
+      { ...scenario, seppPlan: undefined },
+      userProfile,
+      currentAccounts,
+      startYear,
+      endYear,
+      { liabilities }
+    );
+    const priorYear = baseline.years.find((year) => year.age === startAge - 1);
+    const balance = priorYear
+      ? priorYear.accountBalances.byAccountType['traditional-ira']
+      : currentAccounts
+          .filter((account) => account.status === 'active' && account.accountType === 'traditional-ira')
+          .reduce((sum, account) => sum + account.balance, 0);
+    const method = settings.seppMethod ?? DEFAULT_SEPP_METHOD;
+
+    seppPlan = {
+      startAge,
+      annualAmount: calculateSeppPayment(
+        method,
+        balance,
+        startAge,
+        settings.seppInterestRate ?? DEFAULT_SEPP_INTEREST_RATE
+      ),
+      method,
+    };
+    plannedScenario = { ...scenario, seppPlan };
+  }
+
+  const projection = calculateScenarioProjection(plannedScenario, userProfile, currentAccounts, startYear, endYear, {
+    liabilities,
+  });
+  const bridgeYears = getBridgeYears(projection.years, bridgeAges, currentAccounts);
+  const bridgeSpending = bridgeYears.reduce((sum, year) => sum + year.spending, 0);
+
+  return {
+    scenarioId: scenario.id,
+    scenarioName: scenario.name,
+    strategy: settings.strategy,
+    retirementAge,
+    rothConversions,
+    ladder: rothConversions
+      ? projection.years
+          .filter((year) => year.rothConversion > 0 && year.age <= LADDER_LAST_CONVERSION_AGE)
+          .map((year) => ({
+            conversionAge: year.age,
+            accessibleAge: year.age + ROTH_CONVERSION_SEASONING_YEARS,
+            amount: year.rothConversion,
+          }))
+      : undefined,
+    seppPlan,
+    bridgeYears,
+    bridgeShortfall: bridgeYears.length > 0 ? Math.max(0, bridgeSpending - bridgeYears[0].taxableAndCash) : 0,
+    totalPenalties: projection.years.reduce((sum, year) => sum + year.spending.earlyWithdrawalPenalty, 0),
+    finalNetWorth: projection.summary.finalNetWorth,
+  };
+}
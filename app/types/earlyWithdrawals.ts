@@ -0,0 +1,232 @@
+/**
+ * Early Withdrawal Penalties
+ *
+ * This module applies the 10% additional tax on retirement account withdrawals before 59½,
+ * including the penalty-free exceptions:
+ * - The Rule of 55: 401(k) withdrawals after leaving work in or after the year the user turns 55
+ * - 72(t) substantially equal periodic payments (SEPP) from a traditional IRA, sized by the
+ *   IRS RMD, amortization or annuitization method
+ * - Roth IRA contributions, which can be withdrawn at any age, and conversions once they have
+ *   seasoned five years (only earnings and newer conversions are penalized)
+ *
+ * Projection ages are whole years, so age 59 counts as before 59½. Penalties follow the
+ * user's age for every account in the household.
+ */
+
+import { AccountType } from './accounts';
+import { calculateSurvivalProbability } from './mortality';
+
+export type SeppMethod = 'rmd' | 'amortization' | 'annuitization';
+
+export const EARLY_WITHDRAWAL_PENALTY_RATE = 10; // Percentage of the penalized amount
+export const PENALTY_FREE_AGE = 59.5;
+export const RULE_OF_55_AGE = 55;
+export const SEPP_MINIMUM_YEARS = 5; // Payments run for the later of 5 years or until 59½
+
+// Notice 2022-6 allows up to the greater of 5% or 120% of the federal mid-term rate
+export const DEFAULT_SEPP_INTEREST_RATE = 5;
+export const MAX_SEPP_INTEREST_RATE = 10;
+
+const SEPP_METHODS: SeppMethod[] = ['rmd', 'amortization', 'annuitization'];
+
+// IRS Single Life Table (effective 2022), ages 30 through 75 (a SEPP ends by 64 at the latest)
+const SINGLE_LIFE_TABLE: Record<number, number> = {
+  30: 55.3, 31: 54.4, 32: 53.4, 33: 52.5, 34: 51.5, 35: 50.5, 36: 49.6, 37: 48.6,
+  38: 47.7, 39: 46.7, 40: 45.7, 41: 44.8, 42: 43.8, 43: 42.9, 44: 41.9, 45: 41.0,
+  46: 40.0, 47: 39.0, 48: 38.1, 49: 37.1, 50: 36.2, 51: 35.3, 52: 34.3, 53: 33.4,
+  54: 32.5, 55: 31.6, 56: 30.6, 57: 29.8, 58: 28.9, 59: 28.0, 60: 27.1, 61: 26.2,
+  62: 25.4, 63: 24.5, 64: 23.7, 65: 22.9, 66: 22.0, 67: 21.2, 68: 20.4, 69: 19.6,
+  70: 18.8, 71: 18.0, 72: 17.2, 73: 16.4, 74: 15.6, 75: 14.8,
+};
+export const SINGLE_LIFE_TABLE_MIN_AGE = 30;
+const SINGLE_LIFE_TABLE_MAX_AGE = 75;
+
+const ANNUITY_MAX_AGE = 120;
+
+export interface SeppPlan {
+  startAge: number;
+  annualAmount: number; // Fixed yearly payment from the traditional IRA (not inflated)
+  method?: SeppMethod; // 'rmd' recalculates the payment each year (annualAmount is the first year's)
+}
+
+/**
+ * Check whether withdrawals at an age are before 59½
+ */
+export function isEarlyWithdrawalAge(age: number): boolean {
+  return age < PENALTY_FREE_AGE;
+}
+
+/**
+ * Check whether the Rule of 55 makes 401(k) withdrawals penalty-free
+ *
+ * @param age - Age during the year
+ * @param separationAge - Age the user left work (undefined while working)
+ */
+export function qualifiesForRuleOf55(age: number, separationAge: number | undefined): boolean {
+  return separationAge !== undefined && separationAge >= RULE_OF_55_AGE && age >= separationAge;
+}
+
+/**
+ * Get the last age a SEPP must keep paying (the later of 5 years of payments or 59½)
+ */
+export function getSeppEndAge(plan: SeppPlan): number {
+  return Math.max(plan.startAge + SEPP_MINIMUM_YEARS, Math.ceil(PENALTY_FREE_AGE)) - 1;
+}
+
+/**
+ * Get the IRS single life expectancy at an age (ages past the table use its last entry)
+ */
+export function getSingleLifeExpectancy(age: number): number {
+  const tableAge = Math.min(SINGLE_LIFE_TABLE_MAX_AGE, Math.max(SINGLE_LIFE_TABLE_MIN_AGE, Math.floor(age)));
+  return SINGLE_LIFE_TABLE[tableAge];
+}
+
+/**
+ * Get the present value of $1 a year for life, paid at the start of each year
+ * (the SSA period life table stands in for the IRS mortality table)
+ */
+function getAnnuityFactor(age: number, interestRate: number): number {
+  let factor = 0;
+  for (let year = 0; age + year < ANNUITY_MAX_AGE; year++) {
+    factor += calculateSurvivalProbability(age, age + year) / Math.pow(1 + interestRate / 100, year);
+  }
+  return factor;
+}
+
+/**
+ * Calculate a 72(t) payment under one of the IRS methods
+ *
+ * @param method - 'rmd' (balance / life expectancy), 'amortization' (level payment over life
+ *   expectancy) or 'annuitization' (balance / life annuity factor)
+ * @param balance - Traditional IRA balance the payments come from
+ * @param age - Age in the payment year
+ * @param interestRate - Interest rate for amortization and annuitization (percentage)
+ * @returns Yearly payment
+ */
+export function calculateSeppPayment(
+  method: SeppMethod,
+  balance: number,
+  age: number,
+  interestRate: number = DEFAULT_SEPP_INTEREST_RATE
+): number {
+  if (balance <= 0) {
+    return 0;
+  }
+
+  const lifeExpectancy = getSingleLifeExpectancy(age);
+  const rate = interestRate / 100;
+
+  if (method === 'rmd') {
+    return balance / lifeExpectancy;
+  }
+  if (method === 'annuitization') {
+    return balance / getAnnuityFactor(age, interestRate);
+  }
+  return rate === 0 ? balance / lifeExpectancy : (balance * rate) / (1 - Math.pow(1 + rate, -lifeExpectancy));
+}
+
+/**
+ * Get a SEPP's payment for an age (0 outside the plan's required years)
+ *
+ * @param plan - The scenario's SEPP plan
+ * @param age - Age during the year
+ * @param priorYearEndBalance - Traditional IRA balance at the end of the prior year (RMD method)
+ */
+export function getSeppPayment(plan: SeppPlan | undefined, age: number, priorYearEndBalance: number = 0): number {
+  if (!plan || age < plan.startAge || age > getSeppEndAge(plan)) {
+    return 0;
+  }
+  if (plan.method === 'rmd' && age > plan.startAge) {
+    return calculateSeppPayment('rmd', priorYearEndBalance, age);
+  }
+  return plan.annualAmount;
+}
+
+/**
+ * Get how much can be withdrawn from each account type without the early withdrawal penalty
+ * Account types missing from the result have no penalty-free limit
+ *
+ * @param age - Age during the year
+ * @param separationAge - Age the user left work (Rule of 55)
+ * @param rothPenaltyFreeBasis - Roth IRA contributions and seasoned conversions not yet withdrawn
+ */
+export function getPenaltyFreeLimits(
+  age: number,
+  separationAge: number | undefined,
+  rothPenaltyFreeBasis: number
+): Partial<Record<AccountType, number>> {
+  if (!isEarlyWithdrawalAge(age)) {
+    return {};
+  }
+
+  return {
+    'traditional-ira': 0,
+    ...(qualifiesForRuleOf55(age, separationAge) ? {} : { '401k': 0 }),
+    'roth-ira': Math.max(0, rothPenaltyFreeBasis),
+  };
+}
+
+/**
+ * Get the portion of withdrawals over their penalty-free limits, by account type
+ */
+export function getPenalizedWithdrawals(
+  withdrawals: Record<AccountType, number>,
+  penaltyFreeLimits: Partial<Record<AccountType, number>>
+): Partial<Record<AccountType, number>> {
+  const penalized: Partial<Record<AccountType, number>> = {};
+
+  for (const [accountType, limit] of Object.entries(penaltyFreeLimits) as [AccountType, number][]) {
+    const excess = withdrawals[accountType] - limit;
+    if (excess > 0) {
+      penalized[accountType] = excess;
+    }
+  }
+
+  return penalized;
+}
+
+/**
+ * Calculate the early withdrawal penalty on a penalized amount
+ */
+export function calculateEarlyWithdrawalPenalty(penalizedAmount: number): number {
+  return Math.max(0, penalizedAmount) * (EARLY_WITHDRAWAL_PENALTY_RATE / 100);
+}
+
+/**
+ * Type guard to check if value is a valid SeppMethod
+ */
+export function isValidSeppMethod(value: unknown): value is SeppMethod {
+  return SEPP_METHODS.includes(value as SeppMethod);
+}
+
+/**
+ * Validate a 72(t) SEPP plan
+ *
+ * @returns Error message if invalid, null if valid
+ */
+export function validateSeppPlan(plan: unknown): string | null {
+  if (!plan || typeof plan !== 'object' || Array.isArray(plan)) {
+    return 'SEPP plan must be an object';
+  }
+
+  const planObj = plan as Record<string, unknown>;
+
+  if (typeof planObj.startAge !== 'number' || planObj.startAge < 0 || planObj.startAge >= PENALTY_FREE_AGE) {
+    return 'SEPP start age must be a number below 59.5';
+  }
+
+  if (typeof planObj.annualAmount !== 'number' || planObj.annualAmount <= 0) {
+    return 'SEPP annual amount must be a positive number';
+  }
+
+  if (planObj.method !== undefined) {
+    if (!isValidSeppMethod(planObj.method)) {
+      return `SEPP method must be one of: ${SEPP_METHODS.join(', ')}`;
+    }
+    if (planObj.startAge < SINGLE_LIFE_TABLE_MIN_AGE) {
+      return `SEPP methods need a start age of at least ${SINGLE_LIFE_TABLE_MIN_AGE} (IRS Single Life Table)`;
+    }
+  }
+
+  return null;
+}
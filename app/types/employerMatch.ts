@@ -0,0 +1,137 @@
+/**
+ * Employer 401(k) Contributions
+ *
+ * This module models what an employer adds to the user's 401(k), including:
+ * - Tiered matches on employee deferrals (e.g., 100% of the first 4% of salary, 50% of the next 2%)
+ * - Flat non-elective contributions as a percentage of salary
+ * - Vesting schedules, with unvested employer money forfeited on leaving the job
+ *
+ * Employer contributions are set per assumption bucket (a bucket's working years are one job)
+ * and do not come out of take-home pay.
+ */
+
+export interface MatchTier {
+  matchPercent: number; // Employer match as a percentage of the deferral in this tier (e.g., 50)
+  salaryPercent: number; // Width of the tier as a percentage of salary (e.g., the "next 2%")
+}
+
+export interface VestingStep {
+  yearsOfService: number;
+  vestedPercent: number; // Percentage of employer contributions vested from this many years on
+}
+
+export interface EmployerMatch {
+  tiers?: MatchTier[]; // Applied in order to the deferral as a percentage of salary
+  nonElectivePercent?: number; // Contributed regardless of the employee's deferral
+  vestingSchedule?: VestingStep[]; // Fully vested immediately when omitted
+  yearsOfServiceAtStart?: number; // Service already completed at the bucket's start age
+}
+
+/**
+ * Calculate a year's employer contribution
+ *
+ * @param match - Employer match formula
+ * @param salary - Employee's salary for the year
+ * @param deferral - Employee's 401(k) deferral for the year (after IRS limits)
+ * @returns Employer match plus non-elective contribution
+ */
+export function calculateEmployerContribution(match: EmployerMatch, salary: number, deferral: number): number {
+  if (salary <= 0) {
+    return 0;
+  }
+
+  let remainingDeferralPercent = (Math.max(0, deferral) / salary) * 100;
+  let matchAmount = 0;
+
+  for (const tier of match.tiers || []) {
+    const tierDeferralPercent = Math.min(remainingDeferralPercent, tier.salaryPercent);
+    matchAmount += salary * (tierDeferralPercent / 100) * (tier.matchPercent / 100);
+    remainingDeferralPercent -= tierDeferralPercent;
+    if (remainingDeferralPercent <= 0) {
+      break;
+    }
+  }
+
+  return matchAmount + salary * ((match.nonElectivePercent || 0) / 100);
+}
+
+/**
+ * Get the vested percentage of employer contributions after some years of service
+ */
+export function getVestedPercent(match: EmployerMatch, yearsOfService: number): number {
+  if (!match.vestingSchedule || match.vestingSchedule.length === 0) {
+    return 100;
+  }
+
+  return match.vestingSchedule.reduce(
+    (vested, step) => (yearsOfService >= step.yearsOfService ? Math.max(vested, step.vestedPercent) : vested),
+    0
+  );
+}
+
+/**
+ * Validate an employer match formula
+ *
+ * @returns Error message if invalid, null if valid
+ */
+export function validateEmployerMatch(match: unknown): string | null {
+  if (!match || typeof match !== 'object' || Array.isArray(match)) {
+    return 'Employer match must be an object';
+  }
+
+  const matchObj = match as Record<string, unknown>;
+
+  if (matchObj.tiers !== undefined) {
+    if (!Array.isArray(matchObj.tiers)) {
+      return 'Employer match tiers must be an array';
+    }
+    for (const tier of matchObj.tiers) {
+      if (!tier || typeof tier !== 'object') {
+        return 'Employer match tier must be an object';
+      }
+      const tierObj = tier as Record<string, unknown>;
+      if (typeof tierObj.matchPercent !== 'number' || tierObj.matchPercent < 0 || tierObj.matchPercent > 200) {
+        return 'Employer match percent must be a number between 0 and 200';
+      }
+      if (typeof tierObj.salaryPercent !== 'number' || tierObj.salaryPercent <= 0 || tierObj.salaryPercent > 100) {
+        return 'Employer match tier salary percent must be a number greater than 0 and at most 100';
+      }
+    }
+  }
+
+  if (matchObj.nonElectivePercent !== undefined) {
+    if (
+      typeof matchObj.nonElectivePercent !== 'number' ||
+      matchObj.nonElectivePercent < 0 ||
+      matchObj.nonElectivePercent > 100
+    ) {
+      return 'Employer non-elective contribution must be a percentage between 0 and 100';
+    }
+  }
+
+  if (matchObj.vestingSchedule !== undefined) {
+    if (!Array.isArray(matchObj.vestingSchedule)) {
+      return 'Vesting schedule must be an array';
+    }
+    for (const step of matchObj.vestingSchedule) {
+      if (!step || typeof step !== 'object') {
+        return 'Vesting schedule step must be an object';
+      }
+      const stepObj = step as Record<string, unknown>;
+      if (typeof stepObj.yearsOfService !== 'number' || stepObj.yearsOfService < 0) {
+        return 'Vesting years of service must be a non-negative number';
+      }
+      if (typeof stepObj.vestedPercent !== 'number' || stepObj.vestedPercent < 0 || stepObj.vestedPercent > 100) {
+        return 'Vested percent must be a number between 0 and 100';
+      }
+    }
+  }
+
+  if (matchObj.yearsOfServiceAtStart !== undefined) {
+    if (typeof matchObj.yearsOfServiceAtStart !== 'number' || matchObj.yearsOfServiceAtStart < 0) {
+      return 'Years of service at start must be a non-negative number';
+    }
+  }
+
+  return null;
+}
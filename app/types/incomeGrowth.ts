@@ -0,0 +1,108 @@
+/**
+ * Income Growth
+ *
+ * This module controls how employment income grows each year, including:
+ * - Fixed nominal raises (the long-standing 2% default)
+ * - Real raises on top of the year's inflation
+ * - A career curve: real raises until a chosen age, then tapering to inflation-only raises
+ *
+ * Scenarios set income growth for all years, and an assumption bucket can override it for its
+ * ages (e.g., a faster-growing early career bucket).
+ */
+
+export type IncomeGrowthType = 'fixed' | 'real' | 'career-curve';
+
+export interface IncomeGrowth {
+  type: IncomeGrowthType;
+  rate: number; // Annual raise as a percentage; nominal for 'fixed', above inflation otherwise
+  taperStartAge?: number; // Career curve: age raises start shrinking (never without one)
+  taperYears?: number; // Career curve: years for the real raise to reach 0 (default 10)
+}
+
+// Growth used when neither the scenario nor the bucket sets one
+export const DEFAULT_INCOME_GROWTH: IncomeGrowth = { type: 'fixed', rate: 2 };
+
+export const DEFAULT_CAREER_TAPER_YEARS = 10;
+
+const INCOME_GROWTH_TYPES: IncomeGrowthType[] = ['fixed', 'real', 'career-curve'];
+
+/**
+ * Get the real raise (above inflation) on a career curve at an age
+ * The full rate applies before taperStartAge and shrinks linearly to 0 over taperYears
+ */
+function getCareerCurveRealRate(growth: IncomeGrowth, age: number): number {
+  const taperStartAge = growth.taperStartAge ?? Infinity;
+  if (age < taperStartAge) {
+    return growth.rate;
+  }
+
+  const taperYears = growth.taperYears ?? DEFAULT_CAREER_TAPER_YEARS;
+  if (taperYears <= 0) {
+    return 0;
+  }
+  return growth.rate * Math.max(0, 1 - (age - taperStartAge) / taperYears);
+}
+
+/**
+ * Get the nominal income growth rate for a year
+ *
+ * @param growth - Income growth settings
+ * @param age - Age during the year
+ * @param inflationRate - The year's inflation as a percentage
+ * @returns Nominal raise as a percentage
+ */
+export function getIncomeGrowthRate(growth: IncomeGrowth, age: number, inflationRate: number): number {
+  if (growth.type === 'fixed') {
+    return growth.rate;
+  }
+
+  const realRate = growth.type === 'career-curve' ? getCareerCurveRealRate(growth, age) : growth.rate;
+  // Real raises compound on top of inflation
+  return ((1 + inflationRate / 100) * (1 + realRate / 100) - 1) * 100;
+}
+
+/**
+ * Type guard to check if value is a valid IncomeGrowthType
+ */
+export function isValidIncomeGrowthType(value: unknown): value is IncomeGrowthType {
+  return INCOME_GROWTH_TYPES.includes(value as IncomeGrowthType);
+}
+
+/**
+ * Validate income growth settings
+ *
+ * @returns Error message if invalid, null if valid
+ */
+export function validateIncomeGrowth(growth: unknown): string | null {
+  if (!growth || typeof growth !== 'object' || Array.isArray(growth)) {
+    return 'Income growth must be an object';
+  }
+
+  const growthObj = growth as Record<string, unknown>;
+
+  if (!isValidIncomeGrowthType(growthObj.type)) {
+    return 'Income growth type must be one of: fixed, real, career-curve';
+  }
+
+  if (typeof growthObj.rate !== 'number' || growthObj.rate < -20 || growthObj.rate > 50) {
+    return 'Income growth rate must be a number between -20 and 50';
+  }
+
+  if (growthObj.taperStartAge !== undefined) {
+    if (
+      typeof growthObj.taperStartAge !== 'number' ||
+      growthObj.taperStartAge < 0 ||
+      growthObj.taperStartAge > 120
+    ) {
+      return 'Career curve taper start age must be a number between 0 and 120';
+    }
+  }
+
+  if (growthObj.taperYears !== undefined) {
+    if (typeof growthObj.taperYears !== 'number' || growthObj.taperYears < 0 || growthObj.taperYears > 50) {
+      return 'Career curve taper years must be a number between 0 and 50';
+    }
+  }
+
+  return null;
+}
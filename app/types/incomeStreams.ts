@@ -0,0 +1,122 @@
+/**
+ * Income Streams
+ *
+ * This module models income that runs independently of the assumption buckets, including:
+ * - Part-time, consulting and side income between two ages (e.g., $30k of consulting from 58-62)
+ * - A growth rate per stream (inflation when omitted)
+ * - Tax character: W-2 wages, self-employment (owes self-employment tax), rental (ordinary
+ *   income subject to the NIIT) or qualified dividends (taxed like long-term capital gains)
+ * - An optional target account the proceeds are saved to instead of funding spending
+ *
+ * Ages are the user's age. Amounts are in TODAY'S dollars and are added to the bucket's
+ * annualIncome in the projection.
+ */
+
+import { AccountType } from './accounts';
+
+export type IncomeTaxCharacter = 'w2' | 'self-employment' | 'rental' | 'qualified-dividends';
+
+export interface IncomeStream {
+  name: string; // e.g., "Consulting"
+  startAge: number;
+  endAge?: number; // Last age with income (ongoing when omitted)
+  annualAmount: number; // In TODAY'S dollars
+  growthRate?: number; // Yearly nominal growth as a percentage (default: the year's inflation)
+  taxCharacter: IncomeTaxCharacter;
+  targetAccount?: AccountType; // Saved to this account (subject to contribution limits)
+}
+
+// Income streams that count as earned income (wages for IRA and 401(k) contribution limits)
+export const EARNED_INCOME_TAX_CHARACTERS: IncomeTaxCharacter[] = ['w2', 'self-employment'];
+
+const TAX_CHARACTERS: IncomeTaxCharacter[] = ['w2', 'self-employment', 'rental', 'qualified-dividends'];
+const TARGET_ACCOUNT_TYPES: AccountType[] = ['401k', 'traditional-ira', 'roth-ira', 'brokerage', 'savings', 'checking'];
+
+/**
+ * Check whether an income stream pays at an age
+ */
+export function isIncomeStreamActive(stream: IncomeStream, age: number): boolean {
+  return age >= stream.startAge && (stream.endAge === undefined || age <= stream.endAge);
+}
+
+/**
+ * Get an income stream's growth rate for a year
+ *
+ * @param stream - The income stream
+ * @param inflationRate - The year's inflation as a percentage
+ * @returns Nominal growth as a percentage
+ */
+export function getIncomeStreamGrowthRate(stream: IncomeStream, inflationRate: number): number {
+  return stream.growthRate ?? inflationRate;
+}
+
+/**
+ * Validate an income stream
+ *
+ * @returns Error message if invalid, null if valid
+ */
+export function validateIncomeStream(stream: unknown): string | null {
+  if (!stream || typeof stream !== 'object' || Array.isArray(stream)) {
+    return 'Income stream must be an object';
+  }
+
+  const streamObj = stream as Record<string, unknown>;
+
+  if (typeof streamObj.name !== 'string' || streamObj.name.trim().length === 0) {
+    return 'Income stream name is required';
+  }
+
+  if (typeof streamObj.startAge !== 'number' || streamObj.startAge < 0 || streamObj.startAge > 120) {
+    return 'Income stream start age must be between 0 and 120';
+  }
+
+  if (streamObj.endAge !== undefined) {
+    if (
+      typeof streamObj.endAge !== 'number' ||
+      streamObj.endAge < streamObj.startAge ||
+      streamObj.endAge > 120
+    ) {
+      return 'Income stream end age must be at or after the start age and at most 120';
+    }
+  }
+
+  if (typeof streamObj.annualAmount !== 'number' || streamObj.annualAmount <= 0) {
+    return 'Income stream annual amount must be a positive number';
+  }
+
+  if (streamObj.growthRate !== undefined) {
+    if (typeof streamObj.growthRate !== 'number' || streamObj.growthRate < -20 || streamObj.growthRate > 20) {
+      return 'Income stream growth rate must be a number between -20 and 20';
+    }
+  }
+
+  if (!TAX_CHARACTERS.includes(streamObj.taxCharacter as IncomeTaxCharacter)) {
+    return `Income stream tax character must be one of: ${TAX_CHARACTERS.join(', ')}`;
+  }
+
+  if (streamObj.targetAccount !== undefined && !TARGET_ACCOUNT_TYPES.includes(streamObj.targetAccount as AccountType)) {
+    return `Income stream target account must be one of: ${TARGET_ACCOUNT_TYPES.join(', ')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a scenario's income streams
+ *
+ * @returns Error message if invalid, null if valid
+ */
+export function validateIncomeStreams(streams: unknown): string | null {
+  if (!Array.isArray(streams)) {
+    return 'Income streams must be an array';
+  }
+
+  for (const stream of streams) {
+    const streamError = validateIncomeStream(stream);
+    if (streamError) {
+      return streamError;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,312 @@
+/**
+ * Liabilities
+ *
+ * This module models non-mortgage debts that reduce net worth, including:
+ * - Auto, student, personal, credit card and HELOC balances with an APR and a monthly minimum payment
+ * - Monthly amortization of the minimum payment (interest accrues on the remaining balance)
+ * - Income-driven repayment (IDR) for student loans: a percentage of discretionary income
+ *   (AGI above 150% of the poverty guideline), never more than the standard payment, with the
+ *   remaining balance forgiven after the plan's years of payments
+ *
+ * Liabilities belong to the user like accounts; mortgages stay with the scenario. Balances and
+ * payments are actual dollars (not inflated).
+ */
+
+import { UserProfile } from './profile';
+
+export type LiabilityType = 'auto' | 'student' | 'personal' | 'credit-card' | 'heloc';
+
+export type LiabilityStatus = 'active' | 'paid-off';
+
+export type RepaymentPlan = 'standard' | 'income-driven';
+
+export interface Liability {
+  id: string; // UUID
+  userId: string; // Cognito sub ID
+  liabilityType: LiabilityType;
+  liabilityName: string; // User-friendly name like "Car Loan" or "Sallie Mae"
+  lender?: string;
+  balance: number; // Amount owed
+  apr: number; // Annual percentage rate (e.g., 6.9)
+  minimumPayment: number; // Monthly payment (the standard payment for student loans)
+  repaymentPlan?: RepaymentPlan; // Student loans only (default: standard)
+  idrPercent?: number; // Percentage of discretionary income paid under IDR (default: 10)
+  forgivenessYears?: number; // Years of IDR payments left until the balance is forgiven (default: 20)
+  asOfDate: string; // ISO date format - when was this balance recorded
+  status: LiabilityStatus;
+
+  // Optional metadata
+  notes?: string;
+
+  // Timestamps
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface CreateLiabilityRequest {
+  liabilityType: LiabilityType;
+  liabilityName: string;
+  lender?: string;
+  balance: number;
+  apr: number;
+  minimumPayment: number;
+  repaymentPlan?: RepaymentPlan;
+  idrPercent?: number;
+  forgivenessYears?: number;
+  asOfDate: string;
+  notes?: string;
+}
+
+export interface UpdateLiabilityRequest {
+  liabilityName?: string;
+  lender?: string;
+  balance?: number;
+  apr?: number;
+  minimumPayment?: number;
+  repaymentPlan?: RepaymentPlan;
+  idrPercent?: number;
+  forgivenessYears?: number;
+  asOfDate?: string;
+  status?: LiabilityStatus;
+  notes?: string;
+}
+
+export interface LiabilityResponse {
+  success: boolean;
+  liability?: Liability;
+  error?: string;
+}
+
+export interface LiabilitiesListResponse {
+  success: boolean;
+  liabilities?: Liability[];
+  error?: string;
+}
+
+export interface AnnualLiabilityPayment {
+  liabilityId: string;
+  liabilityName: string;
+  liabilityType: LiabilityType;
+  startingBalance: number; // Balance at start of year
+  payment: number; // Total payments this year
+  interest: number; // Total interest accrued this year
+  principal: number; // Payments less interest (negative when the payment doesn't cover interest)
+  forgiven: number; // Balance forgiven at the end of an IDR plan
+  endingBalance: number; // Balance at end of year
+}
+
+export interface LiabilityAmortization {
+  annual: AnnualLiabilityPayment;
+  monthlyPayments: number[]; // Payment in each month (January first)
+}
+
+export const DEFAULT_IDR_PERCENT = 10;
+export const DEFAULT_FORGIVENESS_YEARS = 20;
+
+// HHS poverty guideline for the 48 contiguous states (2025), inflated like spending
+export const POVERTY_GUIDELINE_BASE = 15650;
+export const POVERTY_GUIDELINE_PER_PERSON = 5500;
+
+// Discretionary income is AGI above this multiple of the poverty guideline
+const IDR_POVERTY_MULTIPLE = 1.5;
+
+const LIABILITY_TYPES: LiabilityType[] = ['auto', 'student', 'personal', 'credit-card', 'heloc'];
+const REPAYMENT_PLANS: RepaymentPlan[] = ['standard', 'income-driven'];
+
+// Helper to get display name for liability types
+export function getLiabilityTypeLabel(liabilityType: LiabilityType): string {
+  const labels: Record<LiabilityType, string> = {
+    'auto': 'Auto Loan',
+    'student': 'Student Loan',
+    'personal': 'Personal Loan',
+    'credit-card': 'Credit Card',
+    'heloc': 'HELOC',
+  };
+  return labels[liabilityType];
+}
+
+/**
+ * Check whether a liability is repaid under an income-driven plan
+ */
+export function isIncomeDrivenRepayment(liability: Liability): boolean {
+  return liability.liabilityType === 'student' && liability.repaymentPlan === 'income-driven';
+}
+
+/**
+ * Get the household size used for the poverty guideline (the user, a spouse and dependents)
+ */
+export function getIdrHouseholdSize(userProfile: UserProfile): number {
+  return 1 + (userProfile.maritalStatus === 'married' ? 1 : 0) + (userProfile.numberOfDependents || 0);
+}
+
+/**
+ * Calculate the monthly payment under an income-driven repayment plan
+ *
+ * @param liability - The student loan
+ * @param adjustedGrossIncome - The year's AGI
+ * @param householdSize - People in the household
+ * @param inflationFactor - Cumulative inflation since today (indexes the poverty guideline)
+ * @returns Monthly payment (at most the standard minimum payment)
+ */
+export function calculateIdrMonthlyPayment(
+  liability: Liability,
+  adjustedGrossIncome: number,
+  householdSize: number,
+  inflationFactor: number
+): number {
+  const povertyGuideline =
+    (POVERTY_GUIDELINE_BASE + POVERTY_GUIDELINE_PER_PERSON * Math.max(0, householdSize - 1)) * inflationFactor;
+  const discretionaryIncome = Math.max(0, adjustedGrossIncome - IDR_POVERTY_MULTIPLE * povertyGuideline);
+  const payment = (discretionaryIncome * (liability.idrPercent ?? DEFAULT_IDR_PERCENT)) / 100 / 12;
+  return Math.min(payment, liability.minimumPayment);
+}
+
+/**
+ * Amortize a liability over one year of monthly payments
+ * Interest accrues monthly at APR / 12 and the last payment only covers what is owed
+ *
+ * @param liability - The liability
+ * @param startingBalance - Balance at the start of the year
+ * @param monthlyPayment - Payment due each month
+ * @param forgive - Forgive the balance left at the end of the year (end of an IDR plan)
+ * @returns The year's totals and the payment in each month
+ */
+export function amortizeLiabilityYear(
+  liability: Liability,
+  startingBalance: number,
+  monthlyPayment: number,
+  forgive = false
+): LiabilityAmortization {
+  const monthlyRate = liability.apr / 100 / 12;
+  const monthlyPayments: number[] = [];
+  let balance = startingBalance;
+  let interest = 0;
+
+  for (let month = 0; month < 12; month++) {
+    const monthInterest = balance * monthlyRate;
+    const payment = balance > 0 ? Math.min(monthlyPayment, balance + monthInterest) : 0;
+    interest += balance > 0 ? monthInterest : 0;
+    balance = balance > 0 ? balance + monthInterest - payment : 0;
+    monthlyPayments.push(payment);
+  }
+
+  const payment = monthlyPayments.reduce((sum, monthPayment) => sum + monthPayment, 0);
+  const forgiven = forgive ? balance : 0;
+
+  return {
+    annual: {
+      liabilityId: liability.id,
+      liabilityName: liability.liabilityName,
+      liabilityType: liability.liabilityType,
+      startingBalance,
+      payment,
+      interest,
+      principal: payment - interest,
+      forgiven,
+      endingBalance: balance - forgiven,
+    },
+    monthlyPayments,
+  };
+}
+
+/**
+ * Validate liability data
+ *
+ * @param data - Liability to create, or fields to update
+ * @param isUpdate - Only validate the fields present
+ * @returns Error message if invalid, null if valid
+ */
+export function validateLiabilityData(data: unknown, isUpdate = false): string | null {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return 'Liability data must be an object';
+  }
+
+  const dataObj = data as Record<string, unknown>;
+
+  if (!isUpdate) {
+    if (!dataObj.liabilityType || typeof dataObj.liabilityType !== 'string') {
+      return 'liabilityType is required';
+    }
+
+    if (!LIABILITY_TYPES.includes(dataObj.liabilityType as LiabilityType)) {
+      return 'Invalid liabilityType';
+    }
+
+    if (!dataObj.liabilityName || typeof dataObj.liabilityName !== 'string' || dataObj.liabilityName.trim() === '') {
+      return 'liabilityName is required';
+    }
+
+    for (const field of ['balance', 'apr', 'minimumPayment'] as const) {
+      if (typeof dataObj[field] !== 'number') {
+        return `${field} is required and must be a number`;
+      }
+    }
+
+    if (!dataObj.asOfDate || typeof dataObj.asOfDate !== 'string') {
+      return 'asOfDate is required';
+    }
+  } else {
+    if (dataObj.liabilityName !== undefined) {
+      if (typeof dataObj.liabilityName !== 'string' || dataObj.liabilityName.trim() === '') {
+        return 'liabilityName must be a non-empty string';
+      }
+    }
+
+    if (dataObj.asOfDate !== undefined && typeof dataObj.asOfDate !== 'string') {
+      return 'asOfDate must be a string';
+    }
+
+    if (dataObj.status !== undefined && dataObj.status !== 'active' && dataObj.status !== 'paid-off') {
+      return 'status must be active or paid-off';
+    }
+  }
+
+  // Common validations
+  for (const field of ['balance', 'minimumPayment'] as const) {
+    if (dataObj[field] !== undefined && (typeof dataObj[field] !== 'number' || dataObj[field] < 0)) {
+      return `${field} must be a non-negative number`;
+    }
+  }
+
+  if (dataObj.apr !== undefined) {
+    if (typeof dataObj.apr !== 'number' || dataObj.apr < 0 || dataObj.apr > 100) {
+      return 'apr must be a number between 0 and 100';
+    }
+  }
+
+  if (dataObj.repaymentPlan !== undefined) {
+    if (!REPAYMENT_PLANS.includes(dataObj.repaymentPlan as RepaymentPlan)) {
+      return `repaymentPlan must be one of: ${REPAYMENT_PLANS.join(', ')}`;
+    }
+    if (!isUpdate && dataObj.repaymentPlan === 'income-driven' && dataObj.liabilityType !== 'student') {
+      return 'Income-driven repayment is only supported for student loans';
+    }
+  }
+
+  if (dataObj.idrPercent !== undefined) {
+    if (typeof dataObj.idrPercent !== 'number' || dataObj.idrPercent < 0 || dataObj.idrPercent > 25) {
+      return 'idrPercent must be a number between 0 and 25';
+    }
+  }
+
+  if (dataObj.forgivenessYears !== undefined) {
+    if (
+      typeof dataObj.forgivenessYears !== 'number' ||
+      !Number.isInteger(dataObj.forgivenessYears) ||
+      dataObj.forgivenessYears < 1 ||
+      dataObj.forgivenessYears > 30
+    ) {
+      return 'forgivenessYears must be a whole number between 1 and 30';
+    }
+  }
+
+  if (dataObj.lender !== undefined && dataObj.lender !== null && typeof dataObj.lender !== 'string') {
+    return 'lender must be a string';
+  }
+
+  if (dataObj.notes !== undefined && dataObj.notes !== null && typeof dataObj.notes !== 'string') {
+    return 'notes must be a string';
+  }
+
+  return null;
+}
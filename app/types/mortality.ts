@@ -0,0 +1,232 @@
+/**
+ * Mortality and Planning Horizon Calculations
+ *
+ * This module estimates how long the plan needs to last, including:
+ * - Death probabilities by age and sex from the SSA period life table
+ * - Health and smoker adjustments to those probabilities
+ * - Survival probabilities for each projection year
+ * - Planning horizon ages for a survival percentile (e.g. plan to the age you have only a
+ *   10% chance of outliving)
+ * - The projection end year every projection endpoint defaults to
+ */
+
+import { HealthStatus, Sex, UserProfile } from './profile';
+
+export const HEALTH_STATUSES: HealthStatus[] = ['excellent', 'good', 'average', 'fair', 'poor'];
+
+export const MIN_PLANNING_HORIZON_PERCENTILE = 50;
+export const MAX_PLANNING_HORIZON_PERCENTILE = 99;
+
+// Projection length without a planning horizon
+export const DEFAULT_PROJECTION_YEARS = 60;
+
+/**
+ * The profile fields that adjust mortality (all optional)
+ */
+export type MortalityProfile = Pick<UserProfile, 'sex' | 'healthStatus' | 'smoker'>;
+
+// Probability of dying within the year at selected ages, from the SSA 2019 period life table
+// (rounded); ages between entries are interpolated log-linearly, and no one survives past 119
+const MALE_DEATH_PROBABILITIES: Record<number, number> = {
+  0: 0.0058, 1: 0.0004, 5: 0.00013, 10: 0.00011, 15: 0.00047, 20: 0.00125, 25: 0.00153,
+  30: 0.00175, 35: 0.00208, 40: 0.00251, 45: 0.0033, 50: 0.0048, 55: 0.0073, 60: 0.0109,
+  65: 0.0156, 70: 0.0232, 75: 0.0361, 80: 0.059, 85: 0.098, 90: 0.166, 95: 0.265, 100: 0.36,
+  105: 0.45, 110: 0.55, 115: 0.7, 119: 0.9,
+};
+
+const FEMALE_DEATH_PROBABILITIES: Record<number, number> = {
+  0: 0.0049, 1: 0.00033, 5: 0.0001, 10: 0.00009, 15: 0.0002, 20: 0.00042, 25: 0.00058,
+  30: 0.00078, 35: 0.00105, 40: 0.00145, 45: 0.00205, 50: 0.003, 55: 0.0045, 60: 0.0068,
+  65: 0.0099, 70: 0.0152, 75: 0.0247, 80: 0.041, 85: 0.071, 90: 0.128, 95: 0.218, 100: 0.315,
+  105: 0.42, 110: 0.53, 115: 0.68, 119: 0.9,
+};
+
+const MAX_AGE = 120;
+
+// Multipliers on death probabilities relative to the population average
+const HEALTH_MORTALITY_MULTIPLIERS: Record<HealthStatus, number> = {
+  excellent: 0.75,
+  good: 0.9,
+  average: 1,
+  fair: 1.25,
+  poor: 1.6,
+};
+const SMOKER_MORTALITY_MULTIPLIER = 2;
+
+/**
+ * Look up a death probability in a life table, interpolating log-linearly between ages
+ */
+function interpolateDeathProbability(table: Record<number, number>, age: number): number {
+  if (age >= MAX_AGE) {
+    return 1;
+  }
+
+  const ages = Object.keys(table).map(Number);
+  if (age <= ages[0]) {
+    return table[ages[0]];
+  }
+
+  for (let i = 0; i < ages.length - 1; i++) {
+    const lowerAge = ages[i];
+    const upperAge = ages[i + 1];
+    if (age <= upperAge) {
+      const fraction = (age - lowerAge) / (upperAge - lowerAge);
+      return Math.exp(
+        Math.log(table[lowerAge]) + fraction * (Math.log(table[upperAge]) - Math.log(table[lowerAge]))
+      );
+    }
+  }
+
+  return table[ages[ages.length - 1]];
+}
+
+/**
+ * Get the multiplier applied to death probabilities for health and smoking
+ */
+export function getMortalityMultiplier(profile: MortalityProfile): number {
+  const health = HEALTH_MORTALITY_MULTIPLIERS[profile.healthStatus ?? 'average'];
+  return health * (profile.smoker ? SMOKER_MORTALITY_MULTIPLIER : 1);
+}
+
+/**
+ * Get the probability of dying within the year at an age
+ * Without a recorded sex, the male and female probabilities are averaged
+ *
+ * @param age - Age at the start of the year
+ * @param profile - Sex, health and smoker status
+ * @returns Probability between 0 and 1
+ */
+export function getDeathProbability(age: number, profile: MortalityProfile = {}): number {
+  const baseRate =
+    profile.sex === 'male'
+      ? interpolateDeathProbability(MALE_DEATH_PROBABILITIES, age)
+      : profile.sex === 'female'
+        ? interpolateDeathProbability(FEMALE_DEATH_PROBABILITIES, age)
+        : (interpolateDeathProbability(MALE_DEATH_PROBABILITIES, age) +
+            interpolateDeathProbability(FEMALE_DEATH_PROBABILITIES, age)) /
+          2;
+
+  return Math.min(1, baseRate * getMortalityMultiplier(profile));
+}
+
+/**
+ * Calculate the probability of being alive at an age, given alive at the current age
+ *
+ * @param currentAge - The person's age today
+ * @param age - Age to survive to
+ * @param profile - Sex, health and smoker status
+ * @returns Probability between 0 and 1 (1 at or before the current age)
+ */
+export function calculateSurvivalProbability(
+  currentAge: number,
+  age: number,
+  profile: MortalityProfile = {}
+): number {
+  let survival = 1;
+  for (let a = currentAge; a < age && survival > 0; a++) {
+    survival *= 1 - getDeathProbability(a, profile);
+  }
+  return survival;
+}
+
+/**
+ * Calculate remaining life expectancy in years at an age
+ * Deaths are assumed to happen mid-year on average
+ */
+export function calculateLifeExpectancy(currentAge: number, profile: MortalityProfile = {}): number {
+  let survival = 1;
+  let expectedYears = 0;
+  for (let age = currentAge; age < MAX_AGE && survival > 0; age++) {
+    const deathProbability = getDeathProbability(age, profile);
+    expectedYears += survival * (1 - deathProbability / 2);
+    survival *= 1 - deathProbability;
+  }
+  return expectedYears;
+}
+
+/**
+ * Get the planning horizon age for a survival percentile
+ * The horizon is the age the person outlives with probability (100 - percentile)%, so a 90th
+ * percentile horizon leaves a 10% chance of living longer than the plan
+ *
+ * @param currentAge - The person's age today
+ * @param percentile - Survival percentile (50 to 99)
+ * @param profile - Sex, health and smoker status
+ * @returns Last age the plan should cover
+ */
+export function getPlanningHorizonAge(
+  currentAge: number,
+  percentile: number,
+  profile: MortalityProfile = {}
+): number {
+  const outliveProbability = 1 - percentile / 100;
+  let survival = 1;
+
+  for (let age = currentAge; age < MAX_AGE; age++) {
+    survival *= 1 - getDeathProbability(age, profile);
+    if (survival <= outliveProbability) {
+      return age;
+    }
+  }
+
+  return MAX_AGE - 1;
+}
+
+/**
+ * Get the last year a projection should cover
+ * With a planning horizon percentile this is the year the user reaches the horizon age;
+ * otherwise the default end year
+ *
+ * @param currentYear - This year
+ * @param currentAge - The user's age today
+ * @param percentile - The scenario's planning horizon percentile, if set
+ * @param profile - Sex, health and smoker status
+ * @param defaultEndYear - End year without a planning horizon (default: DEFAULT_PROJECTION_YEARS ahead)
+ */
+export function getProjectionEndYear(
+  currentYear: number,
+  currentAge: number,
+  percentile: number | undefined,
+  profile: MortalityProfile = {},
+  defaultEndYear: number = currentYear + DEFAULT_PROJECTION_YEARS
+): number {
+  if (!percentile) {
+    return defaultEndYear;
+  }
+  return currentYear + getPlanningHorizonAge(currentAge, percentile, profile) - currentAge;
+}
+
+/**
+ * Type guard to check if value is a valid Sex
+ */
+export function isValidSex(value: unknown): value is Sex {
+  return value === 'male' || value === 'female';
+}
+
+/**
+ * Type guard to check if value is a valid HealthStatus
+ */
+export function isValidHealthStatus(value: unknown): value is HealthStatus {
+  return HEALTH_STATUSES.includes(value as HealthStatus);
+}
+
+/**
+ * Validate the planning horizon percentile on scenario data
+ *
+ * @returns Error message if invalid, null if valid
+ */
+export function validatePlanningHorizon(data: Record<string, unknown>): string | null {
+  if (data.planningHorizonPercentile === undefined || data.planningHorizonPercentile === null) {
+    return null;
+  }
+
+  if (
+    typeof data.planningHorizonPercentile !== 'number' ||
+    data.planningHorizonPercentile < MIN_PLANNING_HORIZON_PERCENTILE ||
+    data.planningHorizonPercentile > MAX_PLANNING_HORIZON_PERCENTILE
+  ) {
+    return `Planning horizon percentile must be a number between ${MIN_PLANNING_HORIZON_PERCENTILE} and ${MAX_PLANNING_HORIZON_PERCENTILE}`;
+  }
+
+  return null;
+}
@@ -238,6 +238,32 @@ export function getMortgagePaymentForYear(
   };
 }
 
+/**
+ * Get mortgage payments for each calendar month of a year
+ *
+ * @param mortgage - Mortgage details
+ * @param year - Calendar year
+ * @returns Twelve total payments (January first), zero in months without a payment
+ */
+export function getMortgagePaymentsByMonth(mortgage: Mortgage, year: number): number[] {
+  const monthlyPayments = new Array<number>(12).fill(0);
+
+  if (!isMortgageActive(mortgage, year)) {
+    return monthlyPayments;
+  }
+
+  const [, startMonth] = mortgage.startDate.split('-').map(Number);
+
+  for (const payment of generateAmortizationSchedule(mortgage)) {
+    if (payment.year === year) {
+      // Schedule months count from the first payment; convert to the calendar month
+      monthlyPayments[(startMonth - 1 + payment.month - 1) % 12] += payment.totalPayment;
+    }
+  }
+
+  return monthlyPayments;
+}
+
 /**
  * Check if a mortgage is active in a given year
  *
@@ -0,0 +1,175 @@
+/**
+ * Partner Modeling
+ *
+ * This module models a spouse or partner as a second person in the plan, including:
+ * - The partner's employment income, retirement age and Social Security claim
+ * - Life expectancies that end a person's income and leave the other as survivor
+ * - Which person's age the scenario's assumption buckets follow
+ * - The partner-owned share of tax-deferred balances (RMDs are figured per owner)
+ *
+ * The partner's date of birth comes from the profile; a partner is modeled when the profile
+ * is married and has a spouse date of birth.
+ */
+
+import { Account, AccountType } from './accounts';
+import { UserProfile } from './profile';
+import { MIN_CLAIMING_AGE, MAX_CLAIMING_AGE } from './socialSecurity';
+
+export type HouseholdMember = 'self' | 'partner';
+
+export interface PartnerAssumptions {
+  annualIncome?: number; // Employment income in TODAY'S dollars (grows like the user's income)
+  retirementAge?: number; // Partner's age when employment income stops
+  socialSecurityAge?: number; // Partner's claiming age
+  socialSecurityIncome?: number; // Annual benefit in today's dollars (used when no PIA is entered)
+  socialSecurityPia?: number; // Monthly PIA from the partner's SSA statement (today's dollars)
+  lifeExpectancy?: number; // Partner's age at death; the user continues as survivor
+}
+
+// Tax-deferred accounts: RMDs are owed by each account's owner
+const TAX_DEFERRED_ACCOUNT_TYPES: AccountType[] = ['401k', 'traditional-ira'];
+
+/**
+ * Check whether a profile describes a partner the projection can model
+ */
+export function hasPartner(userProfile: UserProfile): boolean {
+  return userProfile.maritalStatus === 'married' && !!userProfile.spouseDateOfBirth;
+}
+
+/**
+ * Get the date of birth the scenario's assumption bucket ages refer to
+ * Falls back to the user's date of birth when no partner is modeled
+ */
+export function getBucketDateOfBirth(
+  userProfile: UserProfile,
+  bucketAgeBasis: HouseholdMember | undefined
+): string {
+  if (bucketAgeBasis === 'partner' && hasPartner(userProfile)) {
+    return userProfile.spouseDateOfBirth as string;
+  }
+  return userProfile.dateOfBirth;
+}
+
+/**
+ * Check whether a person is alive at an age
+ * A person is alive through the year they reach their life expectancy
+ */
+export function isAliveAtAge(age: number, lifeExpectancy?: number): boolean {
+  return lifeExpectancy === undefined || age <= lifeExpectancy;
+}
+
+/**
+ * Get the fraction of tax-deferred balances owned by the partner
+ */
+export function getPartnerTaxDeferredShare(accounts: Account[]): number {
+  let partnerBalance = 0;
+  let totalBalance = 0;
+
+  for (const account of accounts) {
+    if (account.status !== 'active' || !TAX_DEFERRED_ACCOUNT_TYPES.includes(account.accountType)) {
+      continue;
+    }
+    const balance = Math.max(0, account.balance);
+    totalBalance += balance;
+    if (account.owner === 'partner') {
+      partnerBalance += balance;
+    }
+  }
+
+  return totalBalance > 0 ? partnerBalance / totalBalance : 0;
+}
+
+/**
+ * Type guard to check if value is a valid HouseholdMember
+ */
+export function isValidHouseholdMember(value: unknown): value is HouseholdMember {
+  return value === 'self' || value === 'partner';
+}
+
+/**
+ * Validate a scenario's partner assumptions
+ */
+export function validatePartnerAssumptions(partner: unknown): string | null {
+  if (!partner || typeof partner !== 'object' || Array.isArray(partner)) {
+    return 'Partner must be an object';
+  }
+
+  const partnerObj = partner as Record<string, unknown>;
+
+  if (partnerObj.annualIncome !== undefined) {
+    if (typeof partnerObj.annualIncome !== 'number' || partnerObj.annualIncome < 0) {
+      return 'Partner annual income must be a non-negative number';
+    }
+  }
+
+  if (partnerObj.retirementAge !== undefined) {
+    if (typeof partnerObj.retirementAge !== 'number' || partnerObj.retirementAge < 0 || partnerObj.retirementAge > 120) {
+      return 'Partner retirement age must be a number between 0 and 120';
+    }
+  }
+
+  if (partnerObj.socialSecurityAge !== undefined) {
+    if (
+      typeof partnerObj.socialSecurityAge !== 'number' ||
+      partnerObj.socialSecurityAge < 0 ||
+      partnerObj.socialSecurityAge > MAX_CLAIMING_AGE
+    ) {
+      return `Partner Social Security age must be a number between 0 and ${MAX_CLAIMING_AGE}`;
+    }
+  }
+
+  if (partnerObj.socialSecurityIncome !== undefined) {
+    if (typeof partnerObj.socialSecurityIncome !== 'number' || partnerObj.socialSecurityIncome < 0) {
+      return 'Partner Social Security income must be a non-negative number';
+    }
+  }
+
+  if (partnerObj.socialSecurityPia !== undefined) {
+    if (typeof partnerObj.socialSecurityPia !== 'number' || partnerObj.socialSecurityPia < 0) {
+      return 'Partner Social Security PIA must be a non-negative number';
+    }
+    if (partnerObj.socialSecurityAge === undefined) {
+      return 'Partner Social Security claiming age is required when a PIA is entered';
+    }
+    if (
+      typeof partnerObj.socialSecurityAge === 'number' &&
+      (partnerObj.socialSecurityAge < MIN_CLAIMING_AGE || partnerObj.socialSecurityAge > MAX_CLAIMING_AGE)
+    ) {
+      return `Partner Social Security claiming age must be between ${MIN_CLAIMING_AGE} and ${MAX_CLAIMING_AGE} when a PIA is entered`;
+    }
+  }
+
+  if (partnerObj.lifeExpectancy !== undefined) {
+    if (typeof partnerObj.lifeExpectancy !== 'number' || partnerObj.lifeExpectancy < 0 || partnerObj.lifeExpectancy > 120) {
+      return 'Partner life expectancy must be a number between 0 and 120';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate partner fields on scenario data
+ *
+ * @returns Error message if invalid, null if valid
+ */
+export function validatePartner(data: Record<string, unknown>): string | null {
+  if (data.partner !== undefined && data.partner !== null) {
+    const partnerError = validatePartnerAssumptions(data.partner);
+    if (partnerError) {
+      return partnerError;
+    }
+  }
+
+  if (data.lifeExpectancy !== undefined && data.lifeExpectancy !== null) {
+    if (typeof data.lifeExpectancy !== 'number' || data.lifeExpectancy < 0 || data.lifeExpectancy > 120) {
+      return 'Life expectancy must be a number between 0 and 120';
+    }
+  }
+
+  if (data.bucketAgeBasis !== undefined && !isValidHouseholdMember(data.bucketAgeBasis)) {
+    return 'Bucket age basis must be either "self" or "partner"';
+  }
+
+  return null;
+}
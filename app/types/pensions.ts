@@ -0,0 +1,202 @@
+/**
+ * Pensions and Annuities
+ *
+ * This module models recurring retirement income streams, including:
+ * - Defined-benefit pensions, immediate annuities and deferred income annuities
+ * - Cost-of-living adjustments: none, a fixed yearly rate, or CPI-linked (optionally capped)
+ * - Survivor benefits: a share of the payment continues to the spouse after the owner's death
+ * - Tax treatment: fully taxable, partially taxable (e.g., an annuity's exclusion ratio) or tax-free
+ *
+ * Ages are the owner's age. Amounts are in actual dollars (like lump sum events): the payment
+ * is not inflated before it starts, and only its COLA raises it afterwards.
+ */
+
+import { HouseholdMember } from './partner';
+
+export type PensionType = 'pension' | 'immediate-annuity' | 'deferred-annuity';
+export type ColaType = 'none' | 'fixed' | 'cpi';
+export type PensionTaxTreatment = 'taxable' | 'partially-taxable' | 'tax-free';
+
+export interface Pension {
+  name: string; // e.g., "State Teachers' Pension"
+  type: PensionType;
+  owner?: HouseholdMember; // Whose benefit this is (default: self)
+  startAge: number; // Owner's age at the first payment
+  endAge?: number; // Owner's age at the last payment (paid for life when omitted)
+  annualAmount: number; // Yearly payment in the first year (this year's payment if already started)
+  colaType: ColaType;
+  colaRate?: number; // Fixed: yearly increase; CPI: cap on the increase (uncapped when omitted)
+  survivorPercent?: number; // Share paid to the surviving spouse after the owner's death (default: 0)
+  taxTreatment: PensionTaxTreatment;
+  taxablePercent?: number; // Partially taxable: share of each payment that is ordinary income
+}
+
+export interface AnnualPensionPayment {
+  name: string;
+  recipient: HouseholdMember; // The owner, or the surviving spouse
+  amount: number; // Year's dollars
+  taxable: number; // Portion taxed as ordinary income
+  survivorBenefit: boolean; // Paid to the survivor after the owner's death
+}
+
+const PENSION_TYPES: PensionType[] = ['pension', 'immediate-annuity', 'deferred-annuity'];
+const COLA_TYPES: ColaType[] = ['none', 'fixed', 'cpi'];
+const TAX_TREATMENTS: PensionTaxTreatment[] = ['taxable', 'partially-taxable', 'tax-free'];
+
+/**
+ * Get a pension's cost-of-living adjustment for a year
+ * CPI-linked adjustments follow the year's inflation (never below 0, capped at colaRate when set)
+ *
+ * @param pension - The pension
+ * @param inflationRate - The year's inflation as a percentage
+ * @returns Yearly increase as a percentage
+ */
+export function getColaRate(pension: Pension, inflationRate: number): number {
+  if (pension.colaType === 'fixed') {
+    return pension.colaRate || 0;
+  }
+  if (pension.colaType === 'cpi') {
+    return Math.min(Math.max(0, inflationRate), pension.colaRate ?? Infinity);
+  }
+  return 0;
+}
+
+/**
+ * Calculate a pension's payment for a year
+ *
+ * @param pension - The pension
+ * @param ownerAge - Owner's age during the year
+ * @param ownerAlive - Whether the owner is alive
+ * @param spouseAlive - Whether the owner's spouse is alive (false without a partner)
+ * @param colaFactor - Cumulative cost-of-living adjustments since the first payment
+ * @returns The year's payment (0 before the start age, after the end age or without a recipient)
+ */
+export function calculatePensionPayment(
+  pension: Pension,
+  ownerAge: number,
+  ownerAlive: boolean,
+  spouseAlive: boolean,
+  colaFactor: number
+): number {
+  if (ownerAge < pension.startAge || (pension.endAge !== undefined && ownerAge > pension.endAge)) {
+    return 0;
+  }
+
+  const payment = pension.annualAmount * colaFactor;
+  if (ownerAlive) {
+    return payment;
+  }
+  return spouseAlive ? payment * ((pension.survivorPercent || 0) / 100) : 0;
+}
+
+/**
+ * Get the portion of a pension payment taxed as ordinary income
+ */
+export function getTaxablePensionAmount(pension: Pension, payment: number): number {
+  if (pension.taxTreatment === 'tax-free') {
+    return 0;
+  }
+  if (pension.taxTreatment === 'partially-taxable') {
+    return payment * ((pension.taxablePercent ?? 100) / 100);
+  }
+  return payment;
+}
+
+/**
+ * Validate a pension or annuity
+ *
+ * @returns Error message if invalid, null if valid
+ */
+export function validatePension(pension: unknown): string | null {
+  if (!pension || typeof pension !== 'object' || Array.isArray(pension)) {
+    return 'Pension must be an object';
+  }
+
+  const pensionObj = pension as Record<string, unknown>;
+
+  if (typeof pensionObj.name !== 'string' || pensionObj.name.trim().length === 0) {
+    return 'Pension name is required';
+  }
+
+  if (!PENSION_TYPES.includes(pensionObj.type as PensionType)) {
+    return `Pension type must be one of: ${PENSION_TYPES.join(', ')}`;
+  }
+
+  if (pensionObj.owner !== undefined && pensionObj.owner !== 'self' && pensionObj.owner !== 'partner') {
+    return 'Pension owner must be "self" or "partner"';
+  }
+
+  if (typeof pensionObj.startAge !== 'number' || pensionObj.startAge < 0 || pensionObj.startAge > 120) {
+    return 'Pension start age must be between 0 and 120';
+  }
+
+  if (pensionObj.endAge !== undefined) {
+    if (
+      typeof pensionObj.endAge !== 'number' ||
+      pensionObj.endAge < pensionObj.startAge ||
+      pensionObj.endAge > 120
+    ) {
+      return 'Pension end age must be at or after the start age and at most 120';
+    }
+  }
+
+  if (typeof pensionObj.annualAmount !== 'number' || pensionObj.annualAmount <= 0) {
+    return 'Pension annual amount must be a positive number';
+  }
+
+  if (!COLA_TYPES.includes(pensionObj.colaType as ColaType)) {
+    return `Pension COLA type must be one of: ${COLA_TYPES.join(', ')}`;
+  }
+
+  if (pensionObj.colaRate !== undefined) {
+    if (typeof pensionObj.colaRate !== 'number' || pensionObj.colaRate < 0 || pensionObj.colaRate > 20) {
+      return 'Pension COLA rate must be a number between 0 and 20';
+    }
+  }
+
+  if (pensionObj.survivorPercent !== undefined) {
+    if (
+      typeof pensionObj.survivorPercent !== 'number' ||
+      pensionObj.survivorPercent < 0 ||
+      pensionObj.survivorPercent > 100
+    ) {
+      return 'Pension survivor percent must be a number between 0 and 100';
+    }
+  }
+
+  if (!TAX_TREATMENTS.includes(pensionObj.taxTreatment as PensionTaxTreatment)) {
+    return `Pension tax treatment must be one of: ${TAX_TREATMENTS.join(', ')}`;
+  }
+
+  if (pensionObj.taxablePercent !== undefined) {
+    if (
+      typeof pensionObj.taxablePercent !== 'number' ||
+      pensionObj.taxablePercent < 0 ||
+      pensionObj.taxablePercent > 100
+    ) {
+      return 'Pension taxable percent must be a number between 0 and 100';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate a scenario's pensions and annuities
+ *
+ * @returns Error message if invalid, null if valid
+ */
+export function validatePensions(pensions: unknown): string | null {
+  if (!Array.isArray(pensions)) {
+    return 'Pensions must be an array';
+  }
+
+  for (const pension of pensions) {
+    const pensionError = validatePension(pension);
+    if (pensionError) {
+      return pensionError;
+    }
+  }
+
+  return null;
+}
@@ -1,11 +1,22 @@
+import { StateCode } from './stateTaxes';
+
 export type MaritalStatus = 'single' | 'married' | 'divorced' | 'widowed';
 
+export type Sex = 'male' | 'female';
+
+export type HealthStatus = 'excellent' | 'good' | 'average' | 'fair' | 'poor';
+
 export interface UserProfile {
   userId: string; // Cognito sub ID
   firstname: string;
   dateOfBirth: string; // ISO date format (YYYY-MM-DD)
   maritalStatus: MaritalStatus;
+  spouseDateOfBirth?: string; // ISO date format (YYYY-MM-DD), used for joint-life RMDs
   numberOfDependents: number;
+  stateOfResidence?: StateCode; // Two-letter code used for state income tax
+  sex?: Sex; // Selects the life table (averaged when unset)
+  healthStatus?: HealthStatus; // Adjusts life table mortality (default: average)
+  smoker?: boolean; // Adjusts life table mortality
   currentAge?: number; // Calculated from dateOfBirth
   onboardingComplete: boolean;
   createdAt?: string;
@@ -16,14 +27,24 @@ export interface CreateProfileRequest {
   firstname: string;
   dateOfBirth: string;
   maritalStatus: MaritalStatus;
+  spouseDateOfBirth?: string;
   numberOfDependents: number;
+  stateOfResidence?: StateCode;
+  sex?: Sex;
+  healthStatus?: HealthStatus;
+  smoker?: boolean;
 }
 
 export interface UpdateProfileRequest {
   firstname?: string;
   dateOfBirth?: string;
   maritalStatus?: MaritalStatus;
+  spouseDateOfBirth?: string | null;
   numberOfDependents?: number;
+  stateOfResidence?: StateCode;
+  sex?: Sex | null;
+  healthStatus?: HealthStatus | null;
+  smoker?: boolean;
 }
 
 export interface ProfileResponse {
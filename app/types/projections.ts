@@ -1,19 +1,108 @@
 import { AccountType, Account } from './accounts';
-import { Scenario, AssumptionBucket, LumpSumEvent, getBucketForAge } from './scenarios';
+import {
+  Scenario,
+  Assumptions,
+  AssumptionBucket,
+  LumpSumEvent,
+  getBucketForAge,
+  getLumpSumEventAmount,
+  getLumpSumEventMonth,
+  isLumpSumEventInYear,
+} from './scenarios';
 import { UserProfile } from './profile';
-import { getMortgagePaymentForYear, AnnualMortgagePayment } from './mortgages';
+import { getMortgagePaymentForYear, getMortgagePaymentsByMonth, AnnualMortgagePayment } from './mortgages';
+import { FilingStatus, getFilingStatus, getBracketCeiling, calculateFederalIncomeTax } from './taxes';
+import { StateCode, getStateOfResidence, calculateStateIncomeTax } from './stateTaxes';
+import {
+  AssetAllocation,
+  DEFAULT_ASSET_CLASS_RETURNS,
+  getAllocationForAge,
+  calculateBlendedReturn,
+} from './allocations';
+import { DEFAULT_WITHDRAWAL_STRATEGY, getBracketRoom, withdrawFromAccounts } from './withdrawals';
+import {
+  RothConversionLayer,
+  getRothConversionPlanForAge,
+  calculateBracketFillConversion,
+  applyRothConversion,
+  getSeasonedConversions,
+  withdrawRothConversionLayers,
+} from './rothConversions';
+import { calculateRmd, getRmdStartAge } from './rmds';
+import {
+  calculateHouseholdSocialSecurity,
+  getSocialSecurityBirthYear,
+  getSocialSecurityClaim,
+} from './socialSecurity';
+import { getPartnerTaxDeferredShare, isAliveAtAge } from './partner';
+import { calculateSurvivalProbability } from './mortality';
+import { DEFAULT_INCOME_GROWTH, getIncomeGrowthRate } from './incomeGrowth';
+import { ContributionLimitWarning, applyContributionLimits } from './contributionLimits';
+import { calculateEmployerContribution, getVestedPercent } from './employerMatch';
+import {
+  calculateEarlyWithdrawalPenalty,
+  getPenalizedWithdrawals,
+  getPenaltyFreeLimits,
+  getSeppPayment,
+  isEarlyWithdrawalAge,
+} from './earlyWithdrawals';
+import {
+  AnnualPensionPayment,
+  calculatePensionPayment,
+  getColaRate,
+  getTaxablePensionAmount,
+} from './pensions';
+import {
+  EARNED_INCOME_TAX_CHARACTERS,
+  IncomeStream,
+  getIncomeStreamGrowthRate,
+  isIncomeStreamActive,
+} from './incomeStreams';
+import {
+  AnnualPropertyValue,
+  calculatePropertySale,
+  calculatePropertyValue,
+  getPropertyExpenses,
+  getRentalIncome,
+  isPropertyOwned,
+} from './realEstate';
+import {
+  AnnualLiabilityPayment,
+  DEFAULT_FORGIVENESS_YEARS,
+  Liability,
+  amortizeLiabilityYear,
+  calculateIdrMonthlyPayment,
+  getIdrHouseholdSize,
+  isIncomeDrivenRepayment,
+} from './liabilities';
 
 export interface AnnualProjection {
   year: number;
   age: number;
+  alive?: boolean; // Whether the user is alive (set only when a partner is modeled)
+
+  // Partner's share of the household figures below (undefined without a partner)
+  partner?: {
+    age: number;
+    alive: boolean;
+    employment: number; // Included in income.employment
+    socialSecurity: number; // Included in income.socialSecurity (own, spousal or survivor)
+    pension: number; // Included in income.pension (own, or survivor benefits)
+    rmd: number; // Included in income.rmd and rmd.amount
+  };
 
   // Income (inflated to year's dollars)
   income: {
     employment: number; // Inflated
     socialSecurity: number; // Inflated
-    lumpSum: number; // NOT inflated (actual dollars)
+    pension: number; // Pensions and annuities (actual dollars, raised by their COLAs)
+    byPension: AnnualPensionPayment[]; // Breakdown by pension or annuity
+    incomeStreams: number; // Part-time, consulting, rental and dividend income (grown from today's dollars)
+    rental: number; // Rent from properties after vacancy (inflated)
+    lumpSum: number; // Actual dollars (events entered in today's dollars are inflated)
+    rmd: number; // Required minimum distributions from tax-deferred accounts
     investmentGains: number;
-    reported: number; // employment + socialSecurity + lumpSum (reported income only)
+    reported: number; // employment + socialSecurity + pension + incomeStreams + rental + lumpSum + rmd (reported income only)
     withdrawals: number; // Amount withdrawn from accounts to cover expenses
     total: number; // Gross Income = reported + withdrawals
   };
@@ -23,11 +112,35 @@ export interface AnnualProjection {
     living: number; // Inflated
     travel: number; // Inflated
     healthcare: number; // Inflated
-    lumpSum: number; // NOT inflated (actual dollars)
+    lumpSum: number; // Actual dollars (events entered in today's dollars are inflated)
     mortgages: number; // Total mortgage payments (principal + interest + escrow + additional)
+    realEstate: number; // Property tax and maintenance (inflated), plus any shortfall on a sale
+    liabilities: number; // Payments on auto, student, personal, credit card and HELOC debts
+    taxes: number; // Total income taxes paid
+    earlyWithdrawalPenalty: number; // 10% additional tax on penalized withdrawals before 59½
     total: number;
   };
 
+  // Income taxes (brackets and deductions indexed to inflation)
+  taxes: {
+    filingStatus: FilingStatus;
+    grossIncome: number; // Ordinary income + taxable Social Security + capital gains
+    taxableSocialSecurity: number;
+    standardDeduction: number;
+    taxableIncome: number; // Gross income less standard deduction
+    capitalGains: number; // Long-term gains realized on brokerage withdrawals
+    capitalGainsTax: number; // Federal 0/15/20% tax on capital gains
+    netInvestmentIncomeTax: number; // Federal 3.8% NIIT
+    selfEmploymentTax: number; // Federal self-employment tax on self-employment income streams
+    federal: number; // Federal income tax (ordinary + capital gains + NIIT + self-employment tax)
+    marginalRate: number; // Federal marginal rate (percentage)
+    effectiveRate: number; // Federal tax / gross income (percentage)
+    stateOfResidence?: StateCode; // Undefined when no state is set
+    stateTaxableIncome: number;
+    state: number; // State income tax
+    total: number; // Total income taxes paid (federal + state)
+  };
+
   // Mortgage breakdown (separate from spending for tax deduction tracking)
   mortgagePayments: {
     principal: number; // Total principal paid across all mortgages
@@ -40,8 +153,45 @@ export interface AnnualProjection {
 
   // Contributions (inflated to year's dollars, by account TYPE)
   contributions: {
+    total: number; // Employee contributions (out of take-home pay)
+    byAccountType: Record<AccountType, number>;
+    employer: number; // Employer match and non-elective contributions to the 401(k) (not in total)
+    employerForfeited: number; // Unvested employer contributions removed from the 401(k) on leaving a job
+  };
+
+  // Withdrawals covering the year's shortfall (by account TYPE; excludes RMDs)
+  withdrawals: {
     total: number;
     byAccountType: Record<AccountType, number>;
+    sepp: number; // 72(t) payments from the traditional IRA (included in total, penalty-free)
+    penalized: number; // Portion owing the early withdrawal penalty (Roth earnings are also taxed)
+  };
+
+  rothConversion: number; // Moved from tax-deferred accounts to Roth (taxed as ordinary income)
+
+  // Homes and rental properties (end-of-year values; equity is value less the linked mortgage)
+  realEstate: {
+    value: number;
+    equity: number;
+    saleProceeds: number; // Net proceeds deposited this year (after selling costs and payoffs)
+    taxableGain: number; // Gains on sales beyond the Section 121 exclusion (long-term capital gains)
+    byProperty: AnnualPropertyValue[];
+  };
+
+  // Non-mortgage debts (end-of-year balances)
+  liabilities: {
+    balance: number;
+    payments: number; // Included in spending.liabilities
+    interest: number;
+    forgiven: number; // Student loan balances forgiven at the end of IDR plans (taxable income)
+    byLiability: AnnualLiabilityPayment[];
+  };
+
+  // Required minimum distribution from traditional IRA and 401(k)
+  rmd: {
+    amount: number; // Household total (each owner's RMD is figured on their own accounts)
+    distributionPeriod: number; // User's IRS divisor (partner's once only the partner owes RMDs; 0 before RMDs begin)
+    reinvested: number; // Portion not needed for spending, moved into brokerage
   };
 
   // Income after contributions (Total Income - Contributions)
@@ -49,7 +199,39 @@ export interface AnnualProjection {
 
   netIncome: number;
 
+  // Asset allocation at this age (undefined without a glide path or bucket pin)
+  assetAllocation?: AssetAllocation;
+  investmentReturnRate: number; // Base return for investment accounts before per-type overrides
+
   // Account balances (aggregated by account TYPE)
+  accountBalances: {
+    total: number;
+    byAccountType: Record<AccountType, number>;
+    brokerageCostBasis: number; // Remaining basis in brokerage accounts
+    netWorth: number; // Account total plus real estate equity, less liability balances
+  };
+
+  // Longevity (SSA period life table adjusted for the profile's sex, health and smoking)
+  survivalProbability: number; // Chance the user is alive at this age (0 to 1)
+  depletedWhileAliveProbability: number; // Chance the user is alive with accounts depleted
+}
+
+/**
+ * One month of a monthly-resolution projection (the months roll up to the AnnualProjection)
+ */
+export interface MonthlyProjection {
+  year: number;
+  month: number; // 1-12
+  age: number;
+  income: number; // Employment, Social Security, pensions, income streams, lump sums and RMDs received (excludes withdrawals)
+  spending: number; // Living, travel, healthcare, lump sums, mortgage and debt payments, taxes and penalties
+  taxes: number; // Withholding, or the year's remaining tax in December (negative for a refund)
+  contributions: number;
+  investmentGains: number;
+  withdrawals: {
+    total: number;
+    byAccountType: Record<AccountType, number>;
+  };
   accountBalances: {
     total: number;
     byAccountType: Record<AccountType, number>;
@@ -62,16 +244,20 @@ export interface ProjectionSummary {
   totalIncome: number;
   totalSpending: number;
   totalContributions: number;
-  finalNetWorth: number;
+  totalTaxes: number;
+  finalNetWorth: number; // Last year's accounts plus real estate equity, less liability balances
   yearsInDeficit: number;
   firstDeficitYear?: number;
+  outliveMoneyProbability: number; // Chance the user is alive when accounts are first depleted
 }
 
 export interface ScenarioProjection {
   scenarioId: string;
   scenarioName: string;
   years: AnnualProjection[];
+  months?: MonthlyProjection[]; // Monthly series for the years stepped monthly (monthly resolution only)
   summary: ProjectionSummary;
+  warnings: ContributionLimitWarning[]; // Contributions capped at IRS limits (excess went to brokerage)
 }
 
 export interface StoredProjection {
@@ -90,6 +276,8 @@ export interface StoredProjection {
 export interface CalculateProjectionRequest {
   startYear?: number;
   endYear?: number;
+  resolution?: ProjectionResolution;
+  monthlyHorizonMonths?: number;
 }
 
 export interface StoredProjectionResponse {
@@ -110,6 +298,45 @@ export interface ProjectionComparisonResponse {
   error?: string;
 }
 
+/**
+ * Market conditions for a single projection year
+ * Used by simulation modes to replace the scenario's fixed rates
+ */
+export interface MarketConditions {
+  returnRate: number; // Investment return as percentage (e.g., 7 for 7%)
+  inflationRate: number; // Inflation as percentage (e.g., 2.5 for 2.5%)
+}
+
+export type ProjectionResolution = 'annual' | 'monthly';
+
+// Months stepped monthly in monthly resolution unless another horizon is requested
+export const DEFAULT_MONTHLY_HORIZON_MONTHS = 24;
+
+export interface ProjectionOptions {
+  /**
+   * Per-year market conditions, indexed by years from startYear (index 0 = startYear)
+   * Years without an entry fall back to the scenario's investmentReturnRate and inflationRate
+   * The market's return in excess of investmentReturnRate is added to every investment
+   * account's rate, so per-account-type and glide path differences are preserved; cash rates
+   * are unaffected
+   */
+  marketConditions?: MarketConditions[];
+
+  /**
+   * 'monthly' steps income, spending, contributions, returns and withdrawals month by month
+   * for the first monthlyHorizonMonths months (rounded up to whole years) and returns the
+   * months as a series; later years, and every year at the default 'annual', step yearly
+   */
+  resolution?: ProjectionResolution;
+  monthlyHorizonMonths?: number;
+
+  /**
+   * The user's auto, student, personal, credit card and HELOC debts; paid-off liabilities are
+   * ignored
+   */
+  liabilities?: Liability[];
+}
+
 const ACCOUNT_TYPES: AccountType[] = [
   '401k',
   'traditional-ira',
@@ -136,11 +363,21 @@ export function calculateAge(dateOfBirth: string): number {
   return age;
 }
 
+// Accounts invested in the market (cash accounts earn only their configured interest rate)
+const INVESTMENT_ACCOUNTS: AccountType[] = ['401k', 'traditional-ira', 'roth-ira', 'brokerage'];
+
+// Tax-deferred accounts: contributions are pre-tax, withdrawals are ordinary income
+const TAX_DEFERRED_ACCOUNTS: AccountType[] = ['401k', 'traditional-ira'];
+
+// Paying taxes can force more tax-deferred withdrawals, which raise taxes again.
+// Iterate until the shortfall converges (each pass shrinks by the marginal rate).
+const MAX_TAX_ITERATIONS = 20;
+
 /**
- * Aggregate account balances by account type
+ * Create a record with a zero amount for every account type
  */
-function aggregateAccountsByType(accounts: Account[]): Record<AccountType, number> {
-  const balances: Record<AccountType, number> = {
+function createEmptyAccountTypeRecord(): Record<AccountType, number> {
+  return {
     '401k': 0,
     'traditional-ira': 0,
     'roth-ira': 0,
@@ -148,6 +385,13 @@ function aggregateAccountsByType(accounts: Account[]): Record<AccountType, numbe
     'savings': 0,
     'checking': 0,
   };
+}
+
+/**
+ * Aggregate account balances by account type
+ */
+function aggregateAccountsByType(accounts: Account[]): Record<AccountType, number> {
+  const balances = createEmptyAccountTypeRecord();
 
   for (const account of accounts) {
     if (account.status === 'active') {
@@ -158,6 +402,86 @@ function aggregateAccountsByType(accounts: Account[]): Record<AccountType, numbe
   return balances;
 }
 
+/**
+ * Aggregate cost basis across accounts of a type (brokerage principal or Roth IRA contributions)
+ * Accounts without a recorded basis are treated as all principal (basis = balance)
+ */
+function aggregateCostBasis(accounts: Account[], accountType: AccountType): number {
+  return accounts
+    .filter((account) => account.status === 'active' && account.accountType === accountType)
+    .reduce((sum, account) => sum + (account.costBasis ?? account.balance), 0);
+}
+
+/**
+ * Get the allocation and blended investment return for an age
+ * A bucket's pinned allocation wins over the scenario glide path; without either,
+ * the flat investmentReturnRate applies and no allocation is reported. A pin without
+ * scenario allocation settings uses the default asset class returns
+ */
+export function getInvestmentReturnForAge(
+  scenario: Scenario,
+  assumptions: Assumptions,
+  age: number
+): { allocation?: AssetAllocation; returnRate: number } {
+  const settings = scenario.assetAllocation;
+  const allocation =
+    assumptions.assetAllocation ?? (settings ? getAllocationForAge(settings.glidePath, age) : null);
+
+  if (!allocation) {
+    return { returnRate: scenario.investmentReturnRate || 0 };
+  }
+
+  const returns = settings?.returns ?? DEFAULT_ASSET_CLASS_RETURNS;
+  return { allocation, returnRate: calculateBlendedReturn(allocation, returns) };
+}
+
+/**
+ * Get the scenario's return rate for an account type
+ * Falls back to the investment return rate for investment accounts and 0% for cash accounts
+ */
+export function getAccountTypeReturnRate(
+  scenario: Scenario,
+  accountType: AccountType,
+  investmentReturnRate: number = scenario.investmentReturnRate || 0
+): number {
+  const typeRate = scenario.accountTypeReturnRates?.[accountType];
+  if (typeRate !== undefined) {
+    return typeRate;
+  }
+  return INVESTMENT_ACCOUNTS.includes(accountType) ? investmentReturnRate : 0;
+}
+
+/**
+ * Resolve the return rate for each account type
+ * Accounts with their own returnRate override the scenario rate; since balances are
+ * aggregated by type, the type's rate is the balance-weighted average of its accounts
+ */
+function resolveReturnRatesByType(
+  scenario: Scenario,
+  accounts: Account[],
+  investmentReturnRate: number
+): Record<AccountType, number> {
+  const rates = createEmptyAccountTypeRecord();
+
+  for (const accountType of ACCOUNT_TYPES) {
+    const typeRate = getAccountTypeReturnRate(scenario, accountType, investmentReturnRate);
+    const typeAccounts = accounts.filter(
+      (account) => account.status === 'active' && account.accountType === accountType && account.balance > 0
+    );
+    const totalBalance = typeAccounts.reduce((sum, account) => sum + account.balance, 0);
+
+    rates[accountType] =
+      totalBalance > 0
+        ? typeAccounts.reduce(
+            (sum, account) => sum + account.balance * (account.returnRate ?? typeRate),
+            0
+          ) / totalBalance
+        : typeRate;
+  }
+
+  return rates;
+}
+
 /**
  * Calculate inflation factor from base year
  */
@@ -170,12 +494,37 @@ function calculateInflationFactor(
 
 /**
  * Apply investment returns to account balance
+ * With more than one period per year, the annual rate is compounded over the periods
  */
 function applyInvestmentReturns(
   balance: number,
-  returnRate: number
+  returnRate: number,
+  periodsPerYear: number = 1
 ): number {
-  return balance * (returnRate / 100);
+  if (periodsPerYear === 1) {
+    return balance * (returnRate / 100);
+  }
+  return balance * (Math.pow(1 + returnRate / 100, 1 / periodsPerYear) - 1);
+}
+
+/**
+ * Split a brokerage withdrawal into return of basis and realized long-term gain
+ * Basis is withdrawn in proportion to its share of the balance (average cost)
+ *
+ * @param withdrawal - Amount withdrawn from brokerage
+ * @param balanceBeforeWithdrawal - Brokerage balance before the withdrawal
+ * @param costBasis - Brokerage cost basis before the withdrawal
+ * @returns Basis returned and gain realized by the withdrawal
+ */
+function splitBrokerageWithdrawal(
+  withdrawal: number,
+  balanceBeforeWithdrawal: number,
+  costBasis: number
+): { basis: number; gain: number } {
+  const basisFraction =
+    balanceBeforeWithdrawal > 0 ? Math.min(1, Math.max(0, costBasis) / balanceBeforeWithdrawal) : 1;
+  const basis = withdrawal * basisFraction;
+  return { basis, gain: withdrawal - basis };
 }
 
 /**
@@ -191,12 +540,91 @@ function applyInvestmentReturns(
  * - Inflation compounds year-over-year using each year's bucket-specific rate
  * - This ensures smooth transitions between buckets with different inflation rates
  * - Example: 2% for 26 years, then 3% for 10 years, then 2.5% thereafter
+ * - Employment income compounds separately at the bucket's or scenario's income growth
+ *   (fixed, real over inflation, or a career curve), 2% fixed by default
+ *
+ * Lump Sum Events:
+ * - An event happens at an age or on an exact date, and can repeat every N years up to an age
+ * - Amounts are actual dollars, or today's dollars inflated to each occurrence
+ *
+ * Partner:
+ * - When the profile is married with a spouse date of birth, both ages are tracked each year
+ * - The partner's employment income, Social Security (own, spousal and survivor) and RMDs on
+ *   partner-owned accounts are added to the household totals
+ * - Buckets follow the partner's age when the scenario's bucketAgeBasis is 'partner'
+ * - After either person's life expectancy their income stops, the survivor files alone and
+ *   treats the deceased's tax-deferred accounts as their own
+ *
+ * Pensions and Annuities:
+ * - Each pension or annuity pays from its owner's start age to its end age (or for life), in
+ *   actual dollars raised by its COLA: none, fixed, or the year's inflation up to a cap
+ * - After the owner's death the surviving spouse receives the survivor percentage
+ * - The taxable part is ordinary income; each stream is reported in income.byPension
+ *
+ * Income Streams:
+ * - Each stream pays the user from its start age to its end age, in today's dollars grown at
+ *   its own rate (inflation by default), on top of the bucket's annualIncome
+ * - W-2 and self-employment streams count as wages for contribution limits; self-employment
+ *   income also owes self-employment tax, rental income is ordinary income subject to the NIIT,
+ *   and qualified dividends are taxed like long-term capital gains
+ * - A stream with a target account is saved there as a contribution (within the IRS limits)
+ *
+ * Real Estate:
+ * - Each property appreciates yearly from today's value; property tax and maintenance are
+ *   spending and rent after vacancy is income (taxed net of the rental's expenses, with NIIT)
+ * - A sale at the end of the year of its sale age pays off the linked mortgage (which stops),
+ *   taxes the gain beyond the Section 121 exclusion as a long-term capital gain and deposits
+ *   the net proceeds into brokerage, savings or checking
+ * - Equity (value less the linked mortgage's balance) is added to accountBalances.netWorth;
+ *   accountBalances.total stays the account total used for depletion
+ *
+ * Liabilities:
+ * - Each debt in options.liabilities pays its monthly minimum from today's balance, with
+ *   interest at its APR, until paid off; payments are spending (in actual dollars)
+ * - Student loans on income-driven repayment pay a share of discretionary income (AGI above
+ *   150% of the inflation-indexed poverty guideline) up to the standard payment; the balance
+ *   left after the plan's years is forgiven and taxed as ordinary income
+ * - Outstanding balances are subtracted from accountBalances.netWorth
+ *
+ * Monthly Resolution:
+ * - With options.resolution 'monthly', the first years are stepped month by month (see the
+ *   periods section below) and still reported as AnnualProjection totals, plus a month series
+ *
+ * Longevity:
+ * - Each year reports the user's chance of being alive at that age from the SSA period life
+ *   table, and the chance of being alive with accounts depleted
+ *
+ * Contribution Limits:
+ * - 401(k) and IRA contributions are capped at the inflation-indexed IRS limits for the
+ *   user's age (with catch-ups) and Roth IRA contributions phase out with income
+ * - The excess is invested in brokerage and listed in the projection's warnings
+ * - Employer 401(k) match and non-elective contributions are reported separately from the
+ *   employee's contributions; unvested employer money is forfeited when a job ends
+ *
+ * Early Withdrawals:
+ * - Before 59½, traditional IRA and 401(k) withdrawals and Roth IRA earnings owe a 10% penalty,
+ *   reported as its own spending line; Roth earnings withdrawn early are also taxed
+ * - Exceptions: Roth IRA contributions, Roth conversions seasoned five years, a 401(k) after
+ *   leaving work at 55 or later (Rule of 55), and a scenario's 72(t) SEPP payments from the
+ *   traditional IRA (fixed, or recalculated each year under the RMD method)
+ * - Withdrawals draw penalty-free money first, in the strategy's order, before penalized money
+ *
+ * Taxes:
+ * - Federal income tax uses the filing status derived from the profile's marital status
+ * - Brackets and the standard deduction are indexed with the same inflation as spending
+ * - State income tax follows the profile's state of residence, or the scenario's relocation
+ *   state from the relocation age onward
+ * - Brokerage withdrawals realize long-term gains in proportion to the unrealized gain in the
+ *   account; contributions add to cost basis and investment growth does not
+ * - Taxes are paid like spending; a shortfall forces extra withdrawals, and tax-deferred
+ *   withdrawals are themselves taxable, so the tax is recalculated until it converges
  *
  * @param scenario - The scenario with assumption buckets and lump sum events
  * @param userProfile - User's profile (age calculation)
  * @param currentAccounts - Current account balances (aggregated by type)
  * @param startYear - Projection start year (typically current year)
  * @param endYear - Projection end year (calculated from max bucket age)
+ * @param options - Optional overrides (e.g., per-year market conditions for simulations)
  * @returns Complete scenario projection with annual data and summary
  */
 export function calculateScenarioProjection(
@@ -204,7 +632,8 @@ export function calculateScenarioProjection(
   userProfile: UserProfile,
   currentAccounts: Account[],
   startYear: number,
-  endYear: number
+  endYear: number,
+  options: ProjectionOptions = {}
 ): ScenarioProjection {
   // Validate input parameters
   if (!scenario.assumptionBuckets || scenario.assumptionBuckets.length === 0) {
@@ -221,26 +650,90 @@ export function calculateScenarioProjection(
 
   const currentAge = calculateAge(userProfile.dateOfBirth);
   const currentYear = new Date().getFullYear();
+  const householdFilingStatus = getFilingStatus(userProfile.maritalStatus, userProfile.numberOfDependents);
+  const withdrawalStrategy = scenario.withdrawalStrategy ?? DEFAULT_WITHDRAWAL_STRATEGY;
+  const rmdStartAge = getRmdStartAge(new Date(userProfile.dateOfBirth).getUTCFullYear());
+  // Social Security claim in today's dollars (from PIA and claiming age when entered)
+  const socialSecurityClaim = getSocialSecurityClaim(scenario, getSocialSecurityBirthYear(userProfile.dateOfBirth));
+  // Spouse's age relative to the user (partner modeling and joint-life RMDs)
+  const spouseAgeOffset =
+    userProfile.maritalStatus === 'married' && userProfile.spouseDateOfBirth
+      ? calculateAge(userProfile.spouseDateOfBirth) - currentAge
+      : undefined;
+  const partner = scenario.partner ?? {};
+  const partnerRmdStartAge = userProfile.spouseDateOfBirth
+    ? getRmdStartAge(new Date(userProfile.spouseDateOfBirth).getUTCFullYear())
+    : Infinity;
+  const partnerSocialSecurityClaim = userProfile.spouseDateOfBirth
+    ? getSocialSecurityClaim(partner, getSocialSecurityBirthYear(userProfile.spouseDateOfBirth))
+    : null;
+  // Partner-owned share of tax-deferred balances; growth, conversions and withdrawals are
+  // shared pro rata, while contributions are the user's and RMDs are figured per owner
+  let partnerTaxDeferredShare = spouseAgeOffset !== undefined ? getPartnerTaxDeferredShare(currentAccounts) : 0;
   const yearlyProjections: AnnualProjection[] = [];
+  const monthlyProjections: MonthlyProjection[] = [];
+  const contributionWarnings: ContributionLimitWarning[] = [];
+  // Employer contributions at the current job (forfeited if unvested when the job ends)
+  let employerBucketId: string | null = null;
+  let employerContributed = 0;
+  let employerVestedPercent = 100;
+  // Years from startYear stepped monthly (0 in annual resolution)
+  const monthlyYears =
+    options.resolution === 'monthly'
+      ? Math.ceil((options.monthlyHorizonMonths ?? DEFAULT_MONTHLY_HORIZON_MONTHS) / 12)
+      : 0;
 
   // Initialize balances by account TYPE (aggregate current accounts)
   const accountBalances = aggregateAccountsByType(currentAccounts);
+  let brokerageCostBasis = aggregateCostBasis(currentAccounts, 'brokerage');
+  // Roth IRA contributions not yet withdrawn (penalty-free at any age)
+  let rothContributionBasis = aggregateCostBasis(currentAccounts, 'roth-ira');
+  // Roth conversions not yet withdrawn, oldest first (penalty-free once seasoned five years)
+  const rothConversionLayers: RothConversionLayer[] = [];
+  // Age the user last left work (Rule of 55); a retirement age already reached stands in for
+  // a user who is not working when the projection starts
+  let separationAge =
+    scenario.retirementAge !== undefined && scenario.retirementAge <= currentAge ? scenario.retirementAge : undefined;
+  let employedLastYear = false;
 
   // Track cumulative inflation factor across bucket transitions
   // This compounds year-over-year as we move through different buckets with different rates
   let cumulativeInflationFactor = 1.0;
 
-  // Track separate income inflation factor (hard-coded at 2% annually)
+  // Track separate income growth factor (scenario or bucket income growth, compounded)
   let incomeInflationFactor = 1.0;
-  const INCOME_INFLATION_RATE = 2.0; // 2% annual income growth
+
+  // Track each pension's cost-of-living adjustments since its first payment
+  const pensionColaFactors = (scenario.pensions || []).map(() => 1.0);
+
+  // Track each income stream's growth from today's dollars
+  const incomeStreamGrowthFactors = (scenario.incomeStreams || []).map(() => 1.0);
+
+  // Mortgages paid off by a property sale (no payments after the year of sale)
+  const paidOffMortgageIds = new Set<string>();
+
+  // Liabilities amortize from today's balances
+  const liabilities = (options.liabilities || []).filter((liability) => liability.status !== 'paid-off');
+  const liabilityBalances = liabilities.map((liability) => liability.balance);
+  const idrHouseholdSize = getIdrHouseholdSize(userProfile);
 
   for (let year = startYear; year <= endYear; year++) {
     const age = currentAge + (year - currentYear);
+    const partnerAge = spouseAgeOffset !== undefined ? age + spouseAgeOffset : undefined;
+    // Life expectancies only end a person's income when there is a partner to survive them
+    const selfAlive = partnerAge === undefined || isAliveAtAge(age, scenario.lifeExpectancy);
+    const partnerAlive = partnerAge !== undefined && isAliveAtAge(partnerAge, partner.lifeExpectancy);
+    // The survivor files alone from the year after their spouse's death
+    const filingStatus =
+      partnerAge !== undefined && (!selfAlive || !partnerAlive)
+        ? getFilingStatus('widowed', userProfile.numberOfDependents)
+        : householdFilingStatus;
 
     // Get applicable assumption bucket for this age
     // Buckets define different financial assumptions for different life stages
     // e.g., Bucket A: working years, Bucket B: early retirement, Bucket C: late retirement
-    const bucket = getBucketForAge(scenario.assumptionBuckets, age);
+    const bucketAge = scenario.bucketAgeBasis === 'partner' && partnerAge !== undefined ? partnerAge : age;
+    const bucket = getBucketForAge(scenario.assumptionBuckets, bucketAge);
 
     if (!bucket) {
       // If no bucket applies, skip this year
@@ -250,31 +743,107 @@ export function calculateScenarioProjection(
 
     const assumptions = bucket.assumptions;
 
+    // Market conditions override the scenario's fixed rates when provided (simulation modes)
+    const market = options.marketConditions?.[year - startYear];
+
     // Apply this year's inflation rate to the cumulative factor
     // This ensures inflation compounds correctly across bucket transitions
     // Inflation rate is now scenario-level and applies uniformly across all years
-    const yearInflationRate = scenario.inflationRate || 0;
+    const yearInflationRate = market ? market.inflationRate : scenario.inflationRate || 0;
     cumulativeInflationFactor *= (1 + yearInflationRate / 100);
     const inflationFactor = cumulativeInflationFactor;
 
-    // Apply 2% income inflation separately from general inflation
-    incomeInflationFactor *= (1 + INCOME_INFLATION_RATE / 100);
+    // Apply this year's income growth separately from general inflation
+    // A bucket's income growth overrides the scenario's; without either, income grows 2% a year
+    const incomeGrowth = assumptions.incomeGrowth ?? scenario.incomeGrowth ?? DEFAULT_INCOME_GROWTH;
+    incomeInflationFactor *= (1 + getIncomeGrowthRate(incomeGrowth, age, yearInflationRate) / 100);
 
     // === INCOME (apply inflation to assumptions) ===
-    // Employment income grows at 2% annually (separate from general inflation)
+    // Employment income grows at the income growth rate (separate from general inflation)
     // Always respect bucket-specific annualIncome value (including $0 for retirement)
-    const employmentIncome = (assumptions.annualIncome || 0) * incomeInflationFactor;
+    // The partner earns their own income until their retirement age
+    const selfEmploymentIncome = selfAlive ? (assumptions.annualIncome || 0) * incomeInflationFactor : 0;
+    const partnerEmploymentIncome =
+      partnerAge !== undefined && partnerAlive && partnerAge < (partner.retirementAge ?? Infinity)
+        ? (partner.annualIncome || 0) * incomeInflationFactor
+        : 0;
+    const employmentIncome = selfEmploymentIncome + partnerEmploymentIncome;
+
+    // The user separates from service in the first year without employment income
+    if (selfEmploymentIncome > 0) {
+      separationAge = undefined;
+    } else if (employedLastYear) {
+      separationAge = age;
+    }
+    employedLastYear = selfEmploymentIncome > 0;
 
     // Social Security is scenario-level and applies uniformly across all years
-    const socialSecurityIncome =
-      age >= (scenario.socialSecurityAge || 999)
-        ? (scenario.socialSecurityIncome || 0) * inflationFactor
-        : 0;
+    // With a partner, spousal and survivor benefits are figured from both claims
+    const socialSecurityBenefits = calculateHouseholdSocialSecurity(
+      { claim: socialSecurityClaim, age, alive: selfAlive },
+      partnerAge !== undefined ? { claim: partnerSocialSecurityClaim, age: partnerAge, alive: partnerAlive } : undefined
+    );
+    const partnerSocialSecurityIncome = socialSecurityBenefits.partner * inflationFactor;
+    const socialSecurityIncome = socialSecurityBenefits.self * inflationFactor + partnerSocialSecurityIncome;
+
+    // Pensions and annuities pay from the owner's start age in actual dollars; COLAs raise them
+    // each later year, and the surviving spouse keeps the survivor share after the owner's death
+    const pensionPayments: AnnualPensionPayment[] = [];
+    (scenario.pensions || []).forEach((pension, index) => {
+      const ownerIsPartner = pension.owner === 'partner';
+      const ownerAge = ownerIsPartner ? partnerAge : age;
+      if (ownerAge === undefined) {
+        return;
+      }
+      if (ownerAge > pension.startAge && year > startYear) {
+        pensionColaFactors[index] *= 1 + getColaRate(pension, yearInflationRate) / 100;
+      }
 
-    // Lump sum income (NO inflation - already in actual dollars)
-    const lumpSumIncome = scenario.lumpSumEvents
-      .filter((e) => e.type === 'income' && e.age === age)
-      .reduce((sum, e) => sum + e.amount, 0);
+      const ownerAlive = ownerIsPartner ? partnerAlive : selfAlive;
+      const spouseAlive = ownerIsPartner ? selfAlive : partnerAlive;
+      const amount = calculatePensionPayment(pension, ownerAge, ownerAlive, spouseAlive, pensionColaFactors[index]);
+      if (amount > 0) {
+        const owner = pension.owner ?? 'self';
+        pensionPayments.push({
+          name: pension.name,
+          recipient: ownerAlive ? owner : owner === 'self' ? 'partner' : 'self',
+          amount,
+          taxable: getTaxablePensionAmount(pension, amount),
+          survivorBenefit: !ownerAlive,
+        });
+      }
+    });
+    const pensionIncome = pensionPayments.reduce((sum, payment) => sum + payment.amount, 0);
+    const taxablePensionIncome = pensionPayments.reduce((sum, payment) => sum + payment.taxable, 0);
+    const partnerPensionIncome = pensionPayments
+      .filter((payment) => payment.recipient === 'partner')
+      .reduce((sum, payment) => sum + payment.amount, 0);
+
+    // Income streams pay the user between their ages, grown from today's dollars at their own
+    // rate (the year's inflation by default); their tax character decides how they are taxed
+    const incomeStreamAmounts = (scenario.incomeStreams || []).map((stream, index) => {
+      incomeStreamGrowthFactors[index] *= 1 + getIncomeStreamGrowthRate(stream, yearInflationRate) / 100;
+      return selfAlive && isIncomeStreamActive(stream, age)
+        ? stream.annualAmount * incomeStreamGrowthFactors[index]
+        : 0;
+    });
+    const sumIncomeStreams = (include: (stream: IncomeStream) => boolean) =>
+      (scenario.incomeStreams || []).reduce(
+        (sum, stream, index) => sum + (include(stream) ? incomeStreamAmounts[index] : 0),
+        0
+      );
+    const incomeStreamIncome = sumIncomeStreams(() => true);
+    const earnedStreamIncome = sumIncomeStreams((stream) => EARNED_INCOME_TAX_CHARACTERS.includes(stream.taxCharacter));
+    const selfEmploymentStreamIncome = sumIncomeStreams((stream) => stream.taxCharacter === 'self-employment');
+    const rentalStreamIncome = sumIncomeStreams((stream) => stream.taxCharacter === 'rental');
+    const dividendStreamIncome = sumIncomeStreams((stream) => stream.taxCharacter === 'qualified-dividends');
+
+    // Lump sum events this year (first occurrences and repeats); amounts are actual dollars
+    // unless the event is in today's dollars, which are inflated like spending
+    const lumpSumEventsThisYear = scenario.lumpSumEvents.filter((e) => isLumpSumEventInYear(e, year, age));
+    const lumpSumIncome = lumpSumEventsThisYear
+      .filter((e) => e.type === 'income')
+      .reduce((sum, e) => sum + getLumpSumEventAmount(e, inflationFactor), 0);
 
     // === SPENDING (apply inflation to assumptions) ===
     const livingSpending = (assumptions.annualSpending || 0) * inflationFactor;
@@ -283,10 +852,9 @@ export function calculateScenarioProjection(
     const healthcareSpending =
       (assumptions.annualHealthcareCosts || 0) * inflationFactor;
 
-    // Lump sum expenses (NO inflation - already in actual dollars)
-    const lumpSumExpenses = scenario.lumpSumEvents
-      .filter((e) => e.type === 'expense' && e.age === age)
-      .reduce((sum, e) => sum + e.amount, 0);
+    const lumpSumExpenses = lumpSumEventsThisYear
+      .filter((e) => e.type === 'expense')
+      .reduce((sum, e) => sum + getLumpSumEventAmount(e, inflationFactor), 0);
 
     // === MORTGAGE PAYMENTS (NOT inflated - actual dollar amounts) ===
     const mortgagePaymentsForYear: AnnualMortgagePayment[] = [];
@@ -295,7 +863,8 @@ export function calculateScenarioProjection(
     let totalMortgageEscrow = 0;
     let totalMortgageAdditional = 0;
 
-    for (const mortgage of scenario.mortgages || []) {
+    const activeMortgages = (scenario.mortgages || []).filter((mortgage) => !paidOffMortgageIds.has(mortgage.id));
+    for (const mortgage of activeMortgages) {
       const payment = getMortgagePaymentForYear(mortgage, year);
       if (payment) {
         mortgagePaymentsForYear.push(payment);
@@ -312,169 +881,568 @@ export function calculateScenarioProjection(
       totalMortgageEscrow +
       totalMortgageAdditional;
 
+    // === REAL ESTATE ===
+    // Properties appreciate from today's value; property tax, maintenance and rent are in
+    // today's dollars. A sale at the end of its year pays off the linked mortgage (after the
+    // year's payments) and its gain beyond the Section 121 exclusion is a long-term capital gain
+    const propertyValues: AnnualPropertyValue[] = [];
+    let rentalIncome = 0;
+    let taxableRentalIncome = 0; // Rent less the rental's property tax and maintenance
+    let realEstateExpenses = 0;
+    let realEstateGains = 0;
+    const saleProceedsByType = createEmptyAccountTypeRecord();
+
+    for (const property of scenario.properties || []) {
+      if (!isPropertyOwned(property, age)) {
+        continue;
+      }
+
+      const value = calculatePropertyValue(property, year - startYear + 1);
+      const expenses = getPropertyExpenses(property, inflationFactor);
+      const rent = getRentalIncome(property, inflationFactor);
+      const mortgagePayment = mortgagePaymentsForYear.find((payment) => payment.mortgageId === property.mortgageId);
+      const mortgageBalance = mortgagePayment?.endingBalance ?? 0;
+      rentalIncome += rent;
+      realEstateExpenses += expenses;
+      if (rent > 0) {
+        taxableRentalIncome += Math.max(0, rent - expenses);
+      }
+
+      if (property.saleAge === age) {
+        const sale = calculatePropertySale(property, value, mortgageBalance, filingStatus);
+        realEstateGains += sale.taxableGain;
+        // Proceeds go to the account; a sale that nets less than the payoff is paid like spending
+        saleProceedsByType[property.proceedsAccount ?? 'checking'] += Math.max(0, sale.netProceeds);
+        if (property.mortgageId) {
+          paidOffMortgageIds.add(property.mortgageId);
+        }
+        propertyValues.push({
+          name: property.name,
+          value,
+          mortgageBalance: 0,
+          equity: 0,
+          rentalIncome: rent,
+          expenses,
+          sale,
+        });
+      } else {
+        propertyValues.push({
+          name: property.name,
+          value,
+          mortgageBalance,
+          equity: value - mortgageBalance,
+          rentalIncome: rent,
+          expenses,
+        });
+      }
+    }
+    const totalSaleProceeds = ACCOUNT_TYPES.reduce((sum, accountType) => sum + saleProceedsByType[accountType], 0);
+    const realEstateSaleShortfall = propertyValues.reduce(
+      (sum, property) => sum + Math.max(0, -(property.sale?.netProceeds ?? 0)),
+      0
+    );
+
     // === CONTRIBUTIONS (apply inflation, by account TYPE) ===
-    const contributionsByType: Record<AccountType, number> = {
-      '401k': 0,
-      'traditional-ira': 0,
-      'roth-ira': 0,
-      'brokerage': 0,
-      'savings': 0,
-      'checking': 0,
-    };
-    let totalContributions = 0;
+    const plannedContributions = createEmptyAccountTypeRecord();
 
     for (const accountType of ACCOUNT_TYPES) {
       const baseContribution = assumptions.contributions?.[accountType] || 0;
-      const inflatedContribution = baseContribution * inflationFactor;
-      contributionsByType[accountType] = inflatedContribution;
-      totalContributions += inflatedContribution;
+      plannedContributions[accountType] = baseContribution * inflationFactor;
     }
 
-    // === INVESTMENT RETURNS (only for investment accounts) ===
-    // Investment return rate is scenario-level and applies uniformly across all years
-    // Cash accounts (checking, savings) do not receive investment returns
-    const returnRate = scenario.investmentReturnRate || 0;
-    const INVESTMENT_ACCOUNTS: AccountType[] = ['401k', 'traditional-ira', 'roth-ira', 'brokerage'];
-    let totalGains = 0;
-
-    // Calculate returns on beginning balance (more realistic)
-    for (const accountType of ACCOUNT_TYPES) {
-      const beginningBalance = accountBalances[accountType] || 0;
-      const contribution = contributionsByType[accountType] || 0;
+    // Income streams with a target account are saved there (on top of the bucket's contributions)
+    (scenario.incomeStreams || []).forEach((stream, index) => {
+      if (stream.targetAccount) {
+        plannedContributions[stream.targetAccount] += incomeStreamAmounts[index];
+      }
+    });
 
-      // Calculate returns on beginning balance (only for investment accounts)
-      const gain = INVESTMENT_ACCOUNTS.includes(accountType)
-        ? applyInvestmentReturns(beginningBalance, returnRate)
-        : 0;
-      totalGains += gain;
+    // Cap 401(k) and IRA contributions at each person's IRS limits; the excess goes to brokerage
+    const limitedContributions = applyContributionLimits(plannedContributions, {
+      year,
+      age,
+      inflationFactor,
+      filingStatus,
+      wages: employmentIncome + earnedStreamIncome,
+      partner: partnerAge !== undefined && partnerAlive ? { age: partnerAge, wages: partnerEmploymentIncome } : undefined,
+    });
+    const contributionsByType = limitedContributions.contributions;
+    const totalContributions = ACCOUNT_TYPES.reduce((sum, accountType) => sum + contributionsByType[accountType], 0);
+    contributionWarnings.push(...limitedContributions.warnings);
+
+    // Brokerage contributions are new principal and add to cost basis
+    brokerageCostBasis += contributionsByType['brokerage'];
+    rothContributionBasis += contributionsByType['roth-ira'];
+
+    const preTaxContributions = TAX_DEFERRED_ACCOUNTS.reduce(
+      (sum, accountType) => sum + contributionsByType[accountType],
+      0
+    );
+
+    // === LIABILITY PAYMENTS (NOT inflated - actual dollar amounts) ===
+    // Each debt pays its monthly minimum until paid off; student loans on income-driven
+    // repayment pay a share of discretionary income (AGI before withdrawals), and the balance
+    // left after the plan's years is forgiven and taxed as ordinary income
+    const idrAdjustedGrossIncome =
+      Math.max(0, employmentIncome + earnedStreamIncome - preTaxContributions) +
+      rentalStreamIncome +
+      taxableRentalIncome +
+      dividendStreamIncome +
+      taxablePensionIncome;
+    const liabilityPaymentsForYear: AnnualLiabilityPayment[] = [];
+    const liabilityPaymentsByMonth = new Array<number>(12).fill(0);
+    liabilities.forEach((liability, index) => {
+      if (liabilityBalances[index] <= 0) {
+        return;
+      }
 
-      // Update balance: beginning + contributions + gains
-      accountBalances[accountType] = beginningBalance + contribution + gain;
+      const incomeDriven = isIncomeDrivenRepayment(liability);
+      const amortization = amortizeLiabilityYear(
+        liability,
+        liabilityBalances[index],
+        incomeDriven
+          ? calculateIdrMonthlyPayment(liability, idrAdjustedGrossIncome, idrHouseholdSize, inflationFactor)
+          : liability.minimumPayment,
+        incomeDriven && year - startYear + 1 === (liability.forgivenessYears ?? DEFAULT_FORGIVENESS_YEARS)
+      );
+      liabilityBalances[index] = amortization.annual.endingBalance;
+      liabilityPaymentsForYear.push(amortization.annual);
+      amortization.monthlyPayments.forEach((payment, month) => {
+        liabilityPaymentsByMonth[month] += payment;
+      });
+    });
+    const totalLiabilityPayments = liabilityPaymentsForYear.reduce((sum, payment) => sum + payment.payment, 0);
+    const forgivenDebt = liabilityPaymentsForYear.reduce((sum, payment) => sum + payment.forgiven, 0);
+
+    // === EMPLOYER CONTRIBUTIONS (401k match and non-elective) ===
+    // The bucket's employer adds to the 401(k) on the user's salary and deferral; unvested
+    // employer money is forfeited when the job ends (the bucket changes or income stops)
+    const employerMatch = selfEmploymentIncome > 0 ? assumptions.employerMatch : undefined;
+    let employerForfeited = 0;
+    if (employerBucketId !== null && (!employerMatch || employerBucketId !== bucket.id)) {
+      employerForfeited = Math.min(
+        Math.max(0, accountBalances['401k']),
+        employerContributed * (1 - employerVestedPercent / 100)
+      );
+      accountBalances['401k'] -= employerForfeited;
+      employerBucketId = null;
+      employerContributed = 0;
     }
+    const employerContribution = employerMatch
+      ? calculateEmployerContribution(employerMatch, selfEmploymentIncome, contributionsByType['401k'])
+      : 0;
+    if (employerMatch) {
+      // Service counts from the bucket's start age, and this year completes another year
+      const yearsOfService = (employerMatch.yearsOfServiceAtStart || 0) + bucketAge - bucket.startAge + 1;
+      employerBucketId = bucket.id;
+      employerContributed += employerContribution;
+      employerVestedPercent = getVestedPercent(employerMatch, yearsOfService);
+    }
+
+    // === INVESTMENT RETURNS (per account type) ===
+    // Investment accounts grow at the blended return of this age's allocation (glide path or
+    // bucket pin), unless a per-type rate or account override applies
+    // Cash accounts (checking, savings) earn their interest rate, 0% unless configured
+    const investmentReturn = getInvestmentReturnForAge(scenario, assumptions, age);
+    const returnRatesByType = resolveReturnRatesByType(
+      scenario,
+      currentAccounts,
+      investmentReturn.returnRate
+    );
+    const marketExcessReturn = market ? market.returnRate - (scenario.investmentReturnRate || 0) : 0;
+    let totalGains = 0;
 
-    // === REQUIRED MINIMUM DISTRIBUTIONS (RMDs) ===
-    // Starting at age 73, traditional IRAs and 401(k)s require minimum withdrawals
-    // Using simplified IRS Uniform Lifetime Table factors
+    // RMDs (and RMD-method SEPP payments) are based on balances at the end of the prior year
+    const priorYearEndTraditionalIra = Math.max(0, accountBalances['traditional-ira'] || 0);
+    const priorYearEndTaxDeferred = TAX_DEFERRED_ACCOUNTS.reduce(
+      (sum, accountType) => sum + Math.max(0, accountBalances[accountType] || 0),
+      0
+    );
+    // A surviving spouse treats the deceased's tax-deferred accounts as their own
+    if (!partnerAlive) {
+      partnerTaxDeferredShare = 0;
+    } else if (!selfAlive) {
+      partnerTaxDeferredShare = 1;
+    }
+    const partnerPriorYearEnd = priorYearEndTaxDeferred * partnerTaxDeferredShare;
+    const selfPriorYearEnd = priorYearEndTaxDeferred - partnerPriorYearEnd;
+
+    const spendingBeforeTaxes =
+      livingSpending +
+      travelSpending +
+      healthcareSpending +
+      lumpSumExpenses +
+      totalMortgagePayments +
+      realEstateExpenses +
+      realEstateSaleShortfall +
+      totalLiabilityPayments;
+
+    // === INCOME TAXES ===
+    // Ordinary income: wages and W-2 or self-employment income streams (less pre-tax
+    // contributions), rental income (properties net of their expenses), the taxable part of
+    // pensions and annuities, RMDs and tax-deferred withdrawals; qualified dividends and gains
+    // on property sales are taxed like long-term capital gains; forgiven student loans are
+    // ordinary income
+    // Lump sum income is treated as non-taxable (gifts, inheritances, home sale proceeds)
+    const stateOfResidence = getStateOfResidence(userProfile, scenario, age);
     let rmdAmount = 0;
-    if (age >= 73) {
-      // Simplified RMD calculation using life expectancy factors
-      // IRS Uniform Lifetime Table (approximate values)
-      const lifeExpectancyFactor = age === 73 ? 26.5 :
-                                   age === 74 ? 25.5 :
-                                   age === 75 ? 24.6 :
-                                   age === 80 ? 20.2 :
-                                   age === 85 ? 15.5 :
-                                   age === 90 ? 11.5 :
-                                   age === 95 ? 8.1 :
-                                   age >= 100 ? 5.0 :
-                                   // Linear interpolation for ages in between
-                                   27.4 - (age - 72) * 0.5;
-
-      // Calculate RMD from traditional IRA and 401k (after growth, before withdrawals)
-      const traditionalIraBalance = accountBalances['traditional-ira'] || 0;
-      const k401Balance = accountBalances['401k'] || 0;
-      const totalRetirementBalance = traditionalIraBalance + k401Balance;
-
-      if (totalRetirementBalance > 0) {
-        rmdAmount = totalRetirementBalance / lifeExpectancyFactor;
-
-        // Withdraw RMD proportionally from traditional IRA and 401k
-        if (traditionalIraBalance > 0) {
-          const iraRmd = rmdAmount * (traditionalIraBalance / totalRetirementBalance);
-          accountBalances['traditional-ira'] = Math.max(0, traditionalIraBalance - iraRmd);
+    let partnerRmdAmount = 0;
+    let rothConversion = 0;
+    const partnerTaxablePensionIncome = pensionPayments
+      .filter((payment) => payment.recipient === 'partner')
+      .reduce((sum, payment) => sum + payment.taxable, 0);
+    const calculateTaxesForYear = (taxableWithdrawals: number, capitalGains: number) => {
+      const rental = rentalStreamIncome + taxableRentalIncome;
+      const wages = Math.max(0, employmentIncome + earnedStreamIncome - preTaxContributions) + rental + forgivenDebt;
+      const retirementIncome = taxablePensionIncome + rmdAmount + rothConversion + taxableWithdrawals;
+      // The spouse's pensions, RMD and their share of conversions and withdrawals (by their
+      // share of the tax-deferred balance) qualify for the state exclusion at their age
+      const partnerRetirementIncome =
+        partnerTaxablePensionIncome + partnerRmdAmount + partnerTaxDeferredShare * (rothConversion + taxableWithdrawals);
+      const federal = calculateFederalIncomeTax({
+        ordinaryIncome: wages + retirementIncome,
+        socialSecurity: socialSecurityIncome,
+        longTermCapitalGains: capitalGains + dividendStreamIncome + realEstateGains,
+        selfEmploymentIncome: selfEmploymentStreamIncome,
+        otherInvestmentIncome: rental,
+        filingStatus,
+        inflationFactor,
+        age,
+        spouseAge: partnerAlive ? partnerAge : undefined,
+      });
+      const state = calculateStateIncomeTax({
+        state: stateOfResidence,
+        wages,
+        retirementIncome,
+        taxableSocialSecurity: federal.taxableSocialSecurity,
+        capitalGains: capitalGains + dividendStreamIncome + realEstateGains,
+        filingStatus,
+        inflationFactor,
+        age,
+        spouseRetirementIncome: partnerRetirementIncome,
+        spouseAge: partnerAlive ? partnerAge : undefined,
+      });
+      return { federal, state, total: federal.tax + state.tax };
+    };
+
+    // === PERIODS (one per year, or one per month in monthly resolution) ===
+    // Monthly years spread income, spending and contributions evenly over the months, compound
+    // returns monthly, and pay each mortgage payment in its month; lump sums land in their
+    // date's month (January without a date) and RMDs and Roth conversions in December. Taxes on wages and Social Security are
+    // withheld monthly and the rest of the year's tax is settled in December
+    const periodsPerYear = monthlyYears > year - startYear ? 12 : 1;
+    const mortgagePaymentsByPeriod =
+      periodsPerYear === 12
+        ? activeMortgages.reduce(
+            (totals, mortgage) =>
+              getMortgagePaymentsByMonth(mortgage, year).map((payment, month) => totals[month] + payment),
+            new Array<number>(12).fill(0)
+          )
+        : [totalMortgagePayments];
+    const liabilityPaymentsByPeriod = periodsPerYear === 12 ? liabilityPaymentsByMonth : [totalLiabilityPayments];
+    const getLumpSumsByPeriod = (type: LumpSumEvent['type']) =>
+      lumpSumEventsThisYear
+        .filter((e) => e.type === type)
+        .reduce((totals, e) => {
+          totals[periodsPerYear === 12 ? getLumpSumEventMonth(e) : 0] += getLumpSumEventAmount(e, inflationFactor);
+          return totals;
+        }, new Array<number>(periodsPerYear).fill(0));
+    const lumpSumIncomeByPeriod = getLumpSumsByPeriod('income');
+    const lumpSumExpensesByPeriod = getLumpSumsByPeriod('expense');
+    let yearTaxes = calculateTaxesForYear(0, 0);
+    const taxWithholding = periodsPerYear > 1 ? yearTaxes.total / periodsPerYear : 0;
+
+    const withdrawalsByType = createEmptyAccountTypeRecord();
+    let totalWithdrawals = 0;
+    let seppWithdrawals = 0;
+    let penalizedWithdrawals = 0;
+    let rothEarningsWithdrawn = 0; // Early Roth earnings are taxed as ordinary income
+    let earlyWithdrawalPenalty = 0;
+    let realizedCapitalGains = 0;
+    let taxesPaid = 0;
+    let rmdDistributionPeriod = 0;
+    let rmdReinvested = 0;
+
+    for (let period = 0; period < periodsPerYear; period++) {
+      const isLastPeriod = period === periodsPerYear - 1;
+      const periodFraction = 1 / periodsPerYear;
+      let periodGains = 0;
+
+      // Calculate returns on beginning balance (more realistic)
+      for (const accountType of ACCOUNT_TYPES) {
+        const beginningBalance = accountBalances[accountType] || 0;
+        const contribution =
+          ((contributionsByType[accountType] || 0) + (accountType === '401k' ? employerContribution : 0)) *
+          periodFraction;
+        const returnRate =
+          returnRatesByType[accountType] +
+          (INVESTMENT_ACCOUNTS.includes(accountType) ? marketExcessReturn : 0);
+
+        // Overdrawn balances (negative checking) do not earn returns
+        const gain = applyInvestmentReturns(Math.max(0, beginningBalance), returnRate, periodsPerYear);
+        periodGains += gain;
+
+        // Update balance: beginning + contributions + gains
+        accountBalances[accountType] = beginningBalance + contribution + gain;
+      }
+      totalGains += periodGains;
+
+      if (isLastPeriod) {
+        // === PROPERTY SALES ===
+        // Net proceeds are deposited at the end of the year of sale (new brokerage principal
+        // adds to cost basis)
+        for (const accountType of ACCOUNT_TYPES) {
+          accountBalances[accountType] += saleProceedsByType[accountType];
         }
-        if (k401Balance > 0) {
-          const k401Rmd = rmdAmount * (k401Balance / totalRetirementBalance);
-          accountBalances['401k'] = Math.max(0, k401Balance - k401Rmd);
+        brokerageCostBasis += saleProceedsByType['brokerage'];
+
+        // === REQUIRED MINIMUM DISTRIBUTIONS (RMDs) ===
+        // From the SECURE 2.0 start age (72, 73 or 75 by birth year), traditional IRAs and 401(k)s
+        // must distribute the prior year-end balance divided by the IRS distribution period
+        // Each owner's RMD uses their own age, balance and start age
+        const traditionalIraBalance = Math.max(0, accountBalances['traditional-ira'] || 0);
+        const k401Balance = Math.max(0, accountBalances['401k'] || 0);
+        const totalRetirementBalance = traditionalIraBalance + k401Balance;
+        let partnerTaxDeferred =
+          partnerTaxDeferredShare *
+          Math.max(0, totalRetirementBalance - preTaxContributions - employerContribution);
+
+        const selfRmd =
+          selfAlive && age >= rmdStartAge && selfPriorYearEnd > 0
+            ? calculateRmd(selfPriorYearEnd, age, partnerAlive ? partnerAge : undefined)
+            : null;
+        const partnerRmd =
+          partnerAge !== undefined && partnerAlive && partnerAge >= partnerRmdStartAge && partnerPriorYearEnd > 0
+            ? calculateRmd(partnerPriorYearEnd, partnerAge, selfAlive ? age : undefined)
+            : null;
+        const requiredRmd = (selfRmd?.amount ?? 0) + (partnerRmd?.amount ?? 0);
+        rmdDistributionPeriod = selfRmd?.distributionPeriod ?? partnerRmd?.distributionPeriod ?? 0;
+
+        if (requiredRmd > 0 && totalRetirementBalance > 0) {
+          // Withdraw RMD proportionally from traditional IRA and 401k
+          rmdAmount = Math.min(requiredRmd, totalRetirementBalance);
+          partnerRmdAmount = (partnerRmd?.amount ?? 0) * (rmdAmount / requiredRmd);
+          accountBalances['traditional-ira'] -= rmdAmount * (traditionalIraBalance / totalRetirementBalance);
+          accountBalances['401k'] -= rmdAmount * (k401Balance / totalRetirementBalance);
         }
-      }
-    }
 
-    // === CALCULATE PRE-WITHDRAWAL INCOME AND EXPENSES ===
-    // Pre-withdrawal income includes employment, social security, RMDs, lump sums
-    // Investment gains grow accounts but are NOT income until withdrawn
-    // Withdrawals are added later to balance the equation
-    const preWithdrawalIncome =
-      employmentIncome + socialSecurityIncome + lumpSumIncome + rmdAmount;
-    const totalSpending =
-      livingSpending + travelSpending + healthcareSpending + lumpSumExpenses + totalMortgagePayments;
-    const netBeforeWithdrawals = preWithdrawalIncome - totalSpending - totalContributions;
-
-    // === HANDLE DEFICIT WITH ACCOUNT WITHDRAWALS ===
-    // Track withdrawals separately so they can be counted as income
-    let totalWithdrawals = 0;
+        if (partnerTaxDeferredShare > 0 && totalRetirementBalance - rmdAmount > 0) {
+          partnerTaxDeferred -= partnerRmdAmount;
+          partnerTaxDeferredShare = Math.min(
+            1,
+            Math.max(0, partnerTaxDeferred / (totalRetirementBalance - rmdAmount))
+          );
+        }
 
-    if (netBeforeWithdrawals < 0) {
-      // Need to withdraw from accounts to cover deficit
-      // Withdrawal priority: 1) Checking, 2) Savings, 3) Brokerage, 4) Retirement accounts
-      let deficit = Math.abs(netBeforeWithdrawals);
-
-      // 1. First withdraw from checking
-      const checkingAvailable = accountBalances['checking'] || 0;
-      const checkingWithdrawal = Math.min(deficit, checkingAvailable);
-      accountBalances['checking'] = checkingAvailable - checkingWithdrawal;
-      totalWithdrawals += checkingWithdrawal;
-      deficit -= checkingWithdrawal;
-
-      // 2. Then withdraw from savings if needed
-      if (deficit > 0) {
-        const savingsAvailable = accountBalances['savings'] || 0;
-        const savingsWithdrawal = Math.min(deficit, savingsAvailable);
-        accountBalances['savings'] = savingsAvailable - savingsWithdrawal;
-        totalWithdrawals += savingsWithdrawal;
-        deficit -= savingsWithdrawal;
+        // === ROTH CONVERSIONS ===
+        // Move money from tax-deferred accounts into the Roth IRA (after RMDs, which cannot be
+        // converted); the converted amount is ordinary income this year
+        const conversionPlan = getRothConversionPlanForAge(scenario.rothConversions || [], age);
+        if (conversionPlan) {
+          const convertibleBalance =
+            Math.max(0, accountBalances['traditional-ira'] || 0) + Math.max(0, accountBalances['401k'] || 0);
+          const bracketCeiling =
+            conversionPlan.type === 'fill-bracket'
+              ? getBracketCeiling(conversionPlan.bracketRate ?? 0, filingStatus, inflationFactor)
+              : null;
+
+          const targetConversion =
+            bracketCeiling !== null
+              ? calculateBracketFillConversion(
+                  bracketCeiling,
+                  convertibleBalance,
+                  (conversion) => {
+                    rothConversion = conversion;
+                    const { federal } = calculateTaxesForYear(0, 0);
+                    return federal.grossIncome - federal.standardDeduction;
+                  },
+                  MAX_TAX_ITERATIONS
+                )
+              : Math.min(convertibleBalance, (conversionPlan.amount || 0) * inflationFactor);
+
+          rothConversion = applyRothConversion(accountBalances, targetConversion);
+          if (rothConversion > 0) {
+            rothConversionLayers.push({ age, amount: rothConversion });
+          }
+        }
       }
 
-      // 3. Then withdraw from brokerage if needed
-      if (deficit > 0) {
-        const brokerageAvailable = accountBalances['brokerage'] || 0;
-        const brokerageWithdrawal = Math.min(deficit, brokerageAvailable);
-        accountBalances['brokerage'] = brokerageAvailable - brokerageWithdrawal;
-        totalWithdrawals += brokerageWithdrawal;
-        deficit -= brokerageWithdrawal;
+      // === CALCULATE PRE-WITHDRAWAL INCOME AND EXPENSES ===
+      // Pre-withdrawal income includes employment, social security, pensions, income streams,
+      // rent, RMDs, lump sums
+      // Investment gains grow accounts but are NOT income until withdrawn
+      // Withdrawals are added later to balance the equation
+      const periodRmd = isLastPeriod ? rmdAmount : 0;
+      const periodIncome =
+        (employmentIncome + socialSecurityIncome + pensionIncome + incomeStreamIncome + rentalIncome) *
+          periodFraction +
+        lumpSumIncomeByPeriod[period] +
+        periodRmd;
+      const periodSpending =
+        (livingSpending + travelSpending + healthcareSpending + realEstateExpenses) * periodFraction +
+        lumpSumExpensesByPeriod[period] +
+        mortgagePaymentsByPeriod[period] +
+        liabilityPaymentsByPeriod[period] +
+        (isLastPeriod ? realEstateSaleShortfall : 0);
+      const periodContributions = totalContributions * periodFraction;
+
+      // === HANDLE DEFICIT WITH ACCOUNT WITHDRAWALS ===
+      // The scenario's withdrawal strategy decides which accounts cover the shortfall
+      // (conventional: checking, savings, brokerage, tax-deferred, Roth last)
+      // Track withdrawals separately so they can be counted as income
+      const periodWithdrawalsByType = createEmptyAccountTypeRecord();
+      let periodWithdrawals = 0;
+      let periodPenalty = 0;
+      const getTaxableWithdrawals = () =>
+        TAX_DEFERRED_ACCOUNTS.reduce((sum, accountType) => sum + withdrawalsByType[accountType], 0) +
+        rothEarningsWithdrawn;
+
+      // Before 59½, penalty-free money (cash, brokerage, Roth contributions, a 401(k) under
+      // the Rule of 55) is drawn before anything that owes the 10% early withdrawal penalty
+      // Returns the amount that owes the penalty
+      const withdrawForShortfall = (shortfall: number): number => {
+        const penaltyFreeLimits = getPenaltyFreeLimits(
+          age,
+          separationAge,
+          rothContributionBasis + getSeasonedConversions(rothConversionLayers, age)
+        );
+        const withdrawals = withdrawFromAccounts(
+          accountBalances,
+          shortfall,
+          withdrawalStrategy,
+          getBracketRoom(
+            withdrawalStrategy,
+            yearTaxes.federal.grossIncome - yearTaxes.federal.standardDeduction,
+            filingStatus,
+            inflationFactor
+          ),
+          penaltyFreeLimits
+        );
+        for (const accountType of ACCOUNT_TYPES) {
+          withdrawalsByType[accountType] += withdrawals[accountType];
+          periodWithdrawalsByType[accountType] += withdrawals[accountType];
+          periodWithdrawals += withdrawals[accountType];
+        }
+
+        if (withdrawals['brokerage'] > 0) {
+          const { basis, gain } = splitBrokerageWithdrawal(
+            withdrawals['brokerage'],
+            accountBalances['brokerage'] + withdrawals['brokerage'],
+            brokerageCostBasis
+          );
+          brokerageCostBasis -= basis;
+          realizedCapitalGains += gain;
+        }
+
+        // Roth IRA withdrawals return contributions first, then conversions, then earnings
+        const penalized = getPenalizedWithdrawals(withdrawals, penaltyFreeLimits);
+        const penalizedAmount = Object.values(penalized).reduce((sum, amount) => sum + amount, 0);
+        const rothFromContributions = Math.min(withdrawals['roth-ira'], Math.max(0, rothContributionBasis));
+        rothContributionBasis -= rothFromContributions;
+        const rothBeyondContributions = withdrawals['roth-ira'] - rothFromContributions;
+        const rothEarnings =
+          rothBeyondContributions - withdrawRothConversionLayers(rothConversionLayers, rothBeyondContributions);
+        if (isEarlyWithdrawalAge(age)) {
+          rothEarningsWithdrawn += rothEarnings;
+        }
+        penalizedWithdrawals += penalizedAmount;
+        return penalizedAmount;
+      };
+
+      // === 72(t) SEPP PAYMENTS ===
+      // A SEPP plan's fixed payment leaves the traditional IRA whether or not it is needed
+      // (taxable, but penalty-free); a surplus goes to checking like any other
+      const seppWithdrawal = Math.min(
+        getSeppPayment(scenario.seppPlan, age, priorYearEndTraditionalIra) * periodFraction,
+        Math.max(0, accountBalances['traditional-ira'] || 0)
+      );
+      if (seppWithdrawal > 0) {
+        accountBalances['traditional-ira'] -= seppWithdrawal;
+        withdrawalsByType['traditional-ira'] += seppWithdrawal;
+        periodWithdrawalsByType['traditional-ira'] += seppWithdrawal;
+        periodWithdrawals += seppWithdrawal;
+        seppWithdrawals += seppWithdrawal;
       }
 
-      // 4. Then withdraw from traditional IRA if needed
-      if (deficit > 0) {
-        const iraAvailable = accountBalances['traditional-ira'] || 0;
-        const iraWithdrawal = Math.min(deficit, iraAvailable);
-        accountBalances['traditional-ira'] = iraAvailable - iraWithdrawal;
-        totalWithdrawals += iraWithdrawal;
-        deficit -= iraWithdrawal;
+      yearTaxes = calculateTaxesForYear(getTaxableWithdrawals(), realizedCapitalGains);
+      let periodTaxes = isLastPeriod ? yearTaxes.total - taxesPaid : taxWithholding;
+
+      for (let iteration = 0; iteration < MAX_TAX_ITERATIONS; iteration++) {
+        const shortfall =
+          periodSpending + periodTaxes + periodPenalty + periodContributions - periodIncome - periodWithdrawals;
+        if (shortfall <= 0.01) {
+          break;
+        }
+
+        periodPenalty += calculateEarlyWithdrawalPenalty(withdrawForShortfall(shortfall));
+
+        // Tax-deferred withdrawals and realized gains raise the tax settled in the last period
+        yearTaxes = calculateTaxesForYear(getTaxableWithdrawals(), realizedCapitalGains);
+        if (isLastPeriod) {
+          periodTaxes = yearTaxes.total - taxesPaid;
+        }
       }
 
-      // 5. Then withdraw from 401k if needed
-      if (deficit > 0) {
-        const k401Available = accountBalances['401k'] || 0;
-        const k401Withdrawal = Math.min(deficit, k401Available);
-        accountBalances['401k'] = k401Available - k401Withdrawal;
-        totalWithdrawals += k401Withdrawal;
-        deficit -= k401Withdrawal;
+      // Withdraw whatever the loop leaves (under a cent once it converges) without re-running
+      // taxes or the penalty, so withdrawals cover the shortfall exactly
+      const remainingShortfall =
+        periodSpending + periodTaxes + periodPenalty + periodContributions - periodIncome - periodWithdrawals;
+      if (remainingShortfall > 0) {
+        withdrawForShortfall(remainingShortfall);
       }
 
-      // 6. Finally withdraw from Roth IRA if needed (last resort, tax-free growth)
-      if (deficit > 0) {
-        const rothAvailable = accountBalances['roth-ira'] || 0;
-        const rothWithdrawal = Math.min(deficit, rothAvailable);
-        accountBalances['roth-ira'] = rothAvailable - rothWithdrawal;
-        totalWithdrawals += rothWithdrawal;
-        deficit -= rothWithdrawal;
+      totalWithdrawals += periodWithdrawals;
+      taxesPaid += periodTaxes;
+      earlyWithdrawalPenalty += periodPenalty;
+      const netAfterWithdrawals =
+        periodIncome + periodWithdrawals - periodSpending - periodTaxes - periodPenalty - periodContributions;
+
+      if (netAfterWithdrawals > 0) {
+        // RMD cash not needed for spending is reinvested in brokerage (new basis);
+        // any other surplus goes to checking
+        const reinvested = Math.min(netAfterWithdrawals, periodRmd);
+        rmdReinvested += reinvested;
+        accountBalances['brokerage'] = (accountBalances['brokerage'] || 0) + reinvested;
+        brokerageCostBasis += reinvested;
+        accountBalances['checking'] = (accountBalances['checking'] || 0) + netAfterWithdrawals - reinvested;
       }
 
-      // If still deficit after all withdrawals, checking goes negative
-      // (represents debt/overdraft - realistic for worst-case projections)
-      if (deficit > 0) {
-        accountBalances['checking'] -= deficit;
-        totalWithdrawals += deficit; // Count forced overdraft as withdrawal
+      if (periodsPerYear === 12) {
+        monthlyProjections.push({
+          year,
+          month: period + 1,
+          age,
+          income: periodIncome,
+          spending: periodSpending + periodTaxes + periodPenalty,
+          taxes: periodTaxes,
+          contributions: periodContributions,
+          investmentGains: periodGains,
+          withdrawals: {
+            total: periodWithdrawals,
+            byAccountType: periodWithdrawalsByType,
+          },
+          accountBalances: {
+            total: Object.values(accountBalances).reduce((sum, b) => sum + b, 0),
+            byAccountType: { ...accountBalances },
+          },
+        });
       }
-    } else {
-      // Add surplus to checking account
-      accountBalances['checking'] = (accountBalances['checking'] || 0) + netBeforeWithdrawals;
     }
 
+    const federalTax = yearTaxes.federal;
+    const totalTaxes = yearTaxes.total;
+    const totalSpending = spendingBeforeTaxes + totalTaxes + earlyWithdrawalPenalty;
+
     // === FINAL INCOME CALCULATION ===
     // Reported income = only actual income sources (NOT withdrawals or investment gains)
-    const reportedIncome = employmentIncome + socialSecurityIncome + lumpSumIncome;
+    const reportedIncome =
+      employmentIncome +
+      socialSecurityIncome +
+      pensionIncome +
+      incomeStreamIncome +
+      rentalIncome +
+      lumpSumIncome +
+      rmdAmount;
 
     // Total income (Gross Income) = reported income + withdrawals
     // Withdrawals from accounts count as income (realizing saved assets)
@@ -487,16 +1455,39 @@ export function calculateScenarioProjection(
     // Net income: what's left after spending (should be ~0 for balanced projections)
     const netIncome = incomeAfterContributions - totalSpending;
 
+    // Accounts are depleted when the total balance goes negative (see findDepletionYear)
+    const totalBalance = Object.values(accountBalances).reduce((sum, b) => sum + b, 0);
+    const realEstateEquity = propertyValues.reduce((sum, property) => sum + property.equity, 0);
+    const liabilityBalance = liabilityBalances.reduce((sum, balance) => sum + Math.max(0, balance), 0);
+    const survivalProbability = calculateSurvivalProbability(currentAge, age, userProfile);
+
     // Store yearly projection
     yearlyProjections.push({
       year,
       age,
+      alive: partnerAge !== undefined ? selfAlive : undefined,
+      partner:
+        partnerAge !== undefined
+          ? {
+              age: partnerAge,
+              alive: partnerAlive,
+              employment: partnerEmploymentIncome,
+              socialSecurity: partnerSocialSecurityIncome,
+              pension: partnerPensionIncome,
+              rmd: partnerRmdAmount,
+            }
+          : undefined,
       income: {
         employment: employmentIncome,
         socialSecurity: socialSecurityIncome,
+        pension: pensionIncome,
+        byPension: pensionPayments,
+        incomeStreams: incomeStreamIncome,
+        rental: rentalIncome,
         lumpSum: lumpSumIncome,
+        rmd: rmdAmount,
         investmentGains: totalGains,
-        reported: reportedIncome, // Only reported income (employment + SS + lump sums)
+        reported: reportedIncome, // Only reported income (employment + SS + pensions + streams + lump sums + RMDs)
         withdrawals: totalWithdrawals, // Amount withdrawn from accounts
         total: totalIncome, // Gross Income = reported + withdrawals
       },
@@ -506,8 +1497,30 @@ export function calculateScenarioProjection(
         healthcare: healthcareSpending,
         lumpSum: lumpSumExpenses,
         mortgages: totalMortgagePayments,
+        realEstate: realEstateExpenses + realEstateSaleShortfall,
+        liabilities: totalLiabilityPayments,
+        taxes: totalTaxes,
+        earlyWithdrawalPenalty,
         total: totalSpending,
       },
+      taxes: {
+        filingStatus,
+        grossIncome: federalTax.grossIncome,
+        taxableSocialSecurity: federalTax.taxableSocialSecurity,
+        standardDeduction: federalTax.standardDeduction,
+        taxableIncome: federalTax.taxableIncome,
+        federal: federalTax.tax,
+        capitalGains: realizedCapitalGains,
+        capitalGainsTax: federalTax.capitalGainsTax,
+        netInvestmentIncomeTax: federalTax.netInvestmentIncomeTax,
+        selfEmploymentTax: federalTax.selfEmploymentTax,
+        marginalRate: federalTax.marginalRate,
+        effectiveRate: federalTax.grossIncome > 0 ? (federalTax.tax / federalTax.grossIncome) * 100 : 0,
+        stateOfResidence,
+        stateTaxableIncome: yearTaxes.state.taxableIncome,
+        state: yearTaxes.state.tax,
+        total: totalTaxes,
+      },
       mortgagePayments: {
         principal: totalMortgagePrincipal,
         interest: totalMortgageInterest,
@@ -519,13 +1532,47 @@ export function calculateScenarioProjection(
       contributions: {
         total: totalContributions,
         byAccountType: { ...contributionsByType },
+        employer: employerContribution,
+        employerForfeited,
+      },
+      withdrawals: {
+        total: totalWithdrawals,
+        byAccountType: { ...withdrawalsByType },
+        sepp: seppWithdrawals,
+        penalized: penalizedWithdrawals,
+      },
+      rothConversion,
+      realEstate: {
+        value: propertyValues.reduce((sum, property) => sum + (property.sale ? 0 : property.value), 0),
+        equity: realEstateEquity,
+        saleProceeds: totalSaleProceeds,
+        taxableGain: realEstateGains,
+        byProperty: propertyValues,
+      },
+      liabilities: {
+        balance: liabilityBalance,
+        payments: totalLiabilityPayments,
+        interest: liabilityPaymentsForYear.reduce((sum, payment) => sum + payment.interest, 0),
+        forgiven: forgivenDebt,
+        byLiability: liabilityPaymentsForYear,
+      },
+      rmd: {
+        amount: rmdAmount,
+        distributionPeriod: rmdDistributionPeriod,
+        reinvested: rmdReinvested,
       },
       incomeAfterContributions,
       netIncome,
+      assetAllocation: investmentReturn.allocation,
+      investmentReturnRate: investmentReturn.returnRate,
       accountBalances: {
-        total: Object.values(accountBalances).reduce((sum, b) => sum + b, 0),
+        total: totalBalance,
         byAccountType: { ...accountBalances },
+        brokerageCostBasis,
+        netWorth: totalBalance + realEstateEquity - liabilityBalance,
       },
+      survivalProbability,
+      depletedWhileAliveProbability: totalBalance < 0 ? survivalProbability : 0,
     });
   }
 
@@ -536,7 +1583,9 @@ export function calculateScenarioProjection(
     scenarioId: scenario.id,
     scenarioName: scenario.name,
     years: yearlyProjections,
+    months: options.resolution === 'monthly' ? monthlyProjections : undefined,
     summary,
+    warnings: contributionWarnings,
   };
 }
 
@@ -551,13 +1600,19 @@ export function calculateProjectionSummary(
   let totalIncome = 0;
   let totalSpending = 0;
   let totalContributions = 0;
+  let totalTaxes = 0;
   let yearsInDeficit = 0;
   let firstDeficitYear: number | undefined;
+  let outliveMoneyProbability = 0;
 
   for (const year of years) {
     totalIncome += year.income.total;
     totalSpending += year.spending.total;
     totalContributions += year.contributions.total;
+    totalTaxes += year.taxes?.total || 0;
+
+    // Depletion rarely reverses, so the first depleted year carries the highest chance
+    outliveMoneyProbability = Math.max(outliveMoneyProbability, year.depletedWhileAliveProbability);
 
     if (year.netIncome < 0) {
       yearsInDeficit++;
@@ -568,7 +1623,7 @@ export function calculateProjectionSummary(
   }
 
   const finalNetWorth =
-    years.length > 0 ? years[years.length - 1].accountBalances.total : 0;
+    years.length > 0 ? years[years.length - 1].accountBalances.netWorth : 0;
 
   return {
     startYear,
@@ -576,8 +1631,22 @@ export function calculateProjectionSummary(
     totalIncome,
     totalSpending,
     totalContributions,
+    totalTaxes,
     finalNetWorth,
     yearsInDeficit,
     firstDeficitYear,
+    outliveMoneyProbability,
   };
 }
+
+/**
+ * Find the first year in which accounts were depleted
+ * Accounts are depleted when the total balance goes negative (forced overdraft after all
+ * accounts have been drawn down)
+ *
+ * @returns The calendar year of depletion, or undefined if accounts never ran out
+ */
+export function findDepletionYear(years: AnnualProjection[]): number | undefined {
+  const depletedYear = years.find((year) => year.accountBalances.total < 0);
+  return depletedYear?.year;
+}
@@ -0,0 +1,245 @@
+/**
+ * Real Estate
+ *
+ * This module models homes and rental properties as assets, including:
+ * - Market value appreciating yearly from today's value
+ * - Property tax and maintenance in today's dollars (inflated like spending)
+ * - Rental income less vacancy, taxed net of the property's tax and maintenance
+ * - A sale at an age that pays off the linked mortgage, excludes a primary residence's gain
+ *   under Section 121 ($250k, or $500k filing jointly) and deposits the net proceeds
+ * - Equity (value less the linked mortgage's balance) for net worth
+ *
+ * Mortgage payments stay with the scenario's mortgages; a property links to the mortgage it
+ * secures by mortgageId, and that mortgage stops after the sale.
+ */
+
+import { FilingStatus } from './taxes';
+
+export type ProceedsAccountType = 'brokerage' | 'savings' | 'checking';
+
+export interface Property {
+  name: string; // e.g., "Primary Home", "Duplex"
+  purchasePrice: number; // Cost basis for the gain on sale (including improvements)
+  currentValue: number; // Today's market value
+  appreciationRate: number; // Yearly appreciation as a percentage (can be negative)
+  annualPropertyTax?: number; // Today's dollars (leave out when paid through mortgage escrow)
+  annualMaintenance?: number; // Today's dollars (repairs, insurance, HOA dues)
+  annualRentalIncome?: number; // Today's dollars, before vacancy
+  vacancyRate?: number; // Percentage of rent lost to vacancy (default: 0)
+  primaryResidence?: boolean; // Qualifies for the Section 121 exclusion when sold
+  mortgageId?: string; // Scenario mortgage secured by this property
+  saleAge?: number; // Sold at the end of the year the user reaches this age (kept when omitted)
+  sellingCostPercent?: number; // Commissions and closing costs as a percentage of the price (default: 6)
+  proceedsAccount?: ProceedsAccountType; // Account the net proceeds go to (default: checking)
+}
+
+export interface PropertySale {
+  salePrice: number;
+  sellingCosts: number;
+  mortgagePayoff: number;
+  gain: number; // Sale price less selling costs and the purchase price
+  excludedGain: number; // Section 121 exclusion (primary residence only)
+  taxableGain: number; // Long-term capital gain
+  netProceeds: number; // Sale price less selling costs and payoff (taxes are paid separately)
+}
+
+export interface AnnualPropertyValue {
+  name: string;
+  value: number; // Market value at the end of the year (the sale price in the year of sale)
+  mortgageBalance: number; // Linked mortgage balance at the end of the year (0 once sold)
+  equity: number; // Value less mortgage balance (0 once sold)
+  rentalIncome: number; // Rent collected after vacancy
+  expenses: number; // Property tax and maintenance
+  sale?: PropertySale; // Set in the year of sale
+}
+
+export const DEFAULT_SELLING_COST_PERCENT = 6;
+
+// Section 121 exclusion of gain on a primary residence (set by statute, NOT inflation indexed)
+export const SECTION_121_EXCLUSION = 250000;
+export const SECTION_121_EXCLUSION_JOINT = 500000;
+
+const PROCEEDS_ACCOUNT_TYPES: ProceedsAccountType[] = ['brokerage', 'savings', 'checking'];
+
+/**
+ * Check whether a property is still owned at an age (owned through the year of sale)
+ */
+export function isPropertyOwned(property: Property, age: number): boolean {
+  return property.saleAge === undefined || age <= property.saleAge;
+}
+
+/**
+ * Calculate a property's market value after a number of years of appreciation
+ */
+export function calculatePropertyValue(property: Property, years: number): number {
+  return property.currentValue * Math.pow(1 + property.appreciationRate / 100, years);
+}
+
+/**
+ * Get a property's yearly property tax and maintenance
+ *
+ * @param property - The property
+ * @param inflationFactor - Cumulative inflation since today
+ */
+export function getPropertyExpenses(property: Property, inflationFactor: number): number {
+  return ((property.annualPropertyTax || 0) + (property.annualMaintenance || 0)) * inflationFactor;
+}
+
+/**
+ * Get a property's yearly rent after vacancy
+ *
+ * @param property - The property
+ * @param inflationFactor - Cumulative inflation since today
+ */
+export function getRentalIncome(property: Property, inflationFactor: number): number {
+  return (property.annualRentalIncome || 0) * (1 - (property.vacancyRate || 0) / 100) * inflationFactor;
+}
+
+/**
+ * Get the Section 121 exclusion for a filing status
+ */
+export function getSection121Exclusion(filingStatus: FilingStatus): number {
+  return filingStatus === 'married-filing-jointly' ? SECTION_121_EXCLUSION_JOINT : SECTION_121_EXCLUSION;
+}
+
+/**
+ * Calculate the proceeds and taxable gain of a property sale
+ *
+ * @param property - The property sold
+ * @param salePrice - Market value at the sale
+ * @param mortgagePayoff - Linked mortgage balance paid off at closing
+ * @param filingStatus - Federal filing status in the year of sale
+ * @returns The sale (net proceeds are negative when the mortgage exceeds what the sale nets)
+ */
+export function calculatePropertySale(
+  property: Property,
+  salePrice: number,
+  mortgagePayoff: number,
+  filingStatus: FilingStatus
+): PropertySale {
+  const sellingCosts = salePrice * ((property.sellingCostPercent ?? DEFAULT_SELLING_COST_PERCENT) / 100);
+  const gain = salePrice - sellingCosts - property.purchasePrice;
+  const excludedGain = property.primaryResidence ? Math.min(Math.max(0, gain), getSection121Exclusion(filingStatus)) : 0;
+
+  return {
+    salePrice,
+    sellingCosts,
+    mortgagePayoff,
+    gain,
+    excludedGain,
+    taxableGain: Math.max(0, gain - excludedGain),
+    netProceeds: salePrice - sellingCosts - mortgagePayoff,
+  };
+}
+
+/**
+ * Validate a property
+ *
+ * @returns Error message if invalid, null if valid
+ */
+export function validateProperty(property: unknown): string | null {
+  if (!property || typeof property !== 'object' || Array.isArray(property)) {
+    return 'Property must be an object';
+  }
+
+  const propertyObj = property as Record<string, unknown>;
+
+  if (typeof propertyObj.name !== 'string' || propertyObj.name.trim().length === 0) {
+    return 'Property name is required';
+  }
+
+  if (typeof propertyObj.purchasePrice !== 'number' || propertyObj.purchasePrice < 0) {
+    return 'Property purchase price must be 0 or greater';
+  }
+
+  if (typeof propertyObj.currentValue !== 'number' || propertyObj.currentValue <= 0) {
+    return 'Property current value must be a positive number';
+  }
+
+  if (
+    typeof propertyObj.appreciationRate !== 'number' ||
+    propertyObj.appreciationRate < -20 ||
+    propertyObj.appreciationRate > 20
+  ) {
+    return 'Property appreciation rate must be a number between -20 and 20';
+  }
+
+  for (const field of ['annualPropertyTax', 'annualMaintenance', 'annualRentalIncome'] as const) {
+    if (propertyObj[field] !== undefined && (typeof propertyObj[field] !== 'number' || propertyObj[field] < 0)) {
+      return `Property ${field} must be 0 or greater`;
+    }
+  }
+
+  if (propertyObj.vacancyRate !== undefined) {
+    if (typeof propertyObj.vacancyRate !== 'number' || propertyObj.vacancyRate < 0 || propertyObj.vacancyRate > 100) {
+      return 'Property vacancy rate must be a number between 0 and 100';
+    }
+  }
+
+  if (propertyObj.primaryResidence !== undefined && typeof propertyObj.primaryResidence !== 'boolean') {
+    return 'Property primaryResidence must be a boolean';
+  }
+
+  if (propertyObj.mortgageId !== undefined && typeof propertyObj.mortgageId !== 'string') {
+    return 'Property mortgage ID must be a string';
+  }
+
+  if (propertyObj.saleAge !== undefined) {
+    if (typeof propertyObj.saleAge !== 'number' || propertyObj.saleAge < 0 || propertyObj.saleAge > 120) {
+      return 'Property sale age must be between 0 and 120';
+    }
+  }
+
+  if (propertyObj.sellingCostPercent !== undefined) {
+    if (
+      typeof propertyObj.sellingCostPercent !== 'number' ||
+      propertyObj.sellingCostPercent < 0 ||
+      propertyObj.sellingCostPercent > 20
+    ) {
+      return 'Property selling cost percent must be a number between 0 and 20';
+    }
+  }
+
+  if (
+    propertyObj.proceedsAccount !== undefined &&
+    !PROCEEDS_ACCOUNT_TYPES.includes(propertyObj.proceedsAccount as ProceedsAccountType)
+  ) {
+    return `Property proceeds account must be one of: ${PROCEEDS_ACCOUNT_TYPES.join(', ')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a scenario's properties
+ *
+ * @param properties - Properties to validate
+ * @param mortgageIds - The scenario's mortgage IDs, to check links (skipped when undefined)
+ * @returns Error message if invalid, null if valid
+ */
+export function validateProperties(properties: unknown, mortgageIds?: string[]): string | null {
+  if (!Array.isArray(properties)) {
+    return 'Properties must be an array';
+  }
+
+  const linkedMortgageIds = new Set<string>();
+  for (const property of properties) {
+    const propertyError = validateProperty(property);
+    if (propertyError) {
+      return propertyError;
+    }
+
+    const { mortgageId } = property as Property;
+    if (mortgageId !== undefined) {
+      if (mortgageIds && !mortgageIds.includes(mortgageId)) {
+        return `Property mortgage ${mortgageId} does not exist in this scenario`;
+      }
+      if (linkedMortgageIds.has(mortgageId)) {
+        return 'A mortgage can only be linked to one property';
+      }
+      linkedMortgageIds.add(mortgageId);
+    }
+  }
+
+  return null;
+}
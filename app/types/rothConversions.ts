@@ -0,0 +1,207 @@
+/**
+ * Roth Conversion Types and Calculations
+ *
+ * This module models scenario-level Roth conversion plans, including:
+ * - Fixed conversions (today's dollars, inflated) for an age range
+ * - Converting up to the top of a federal bracket each year in an age range
+ * - Drawing conversions from traditional IRA first, then 401(k)
+ * - Five-year seasoning before each conversion can be withdrawn penalty-free before 59½
+ *
+ * Converted amounts move from tax-deferred accounts into the Roth IRA and are taxed as
+ * ordinary income in the year of conversion.
+ */
+
+import { AccountType } from './accounts';
+import { getBracketCeiling } from './taxes';
+
+export type RothConversionPlanType = 'fixed' | 'fill-bracket';
+
+export interface RothConversionPlan {
+  type: RothConversionPlanType;
+  startAge: number;
+  endAge: number; // Inclusive
+  amount?: number; // fixed: annual conversion in TODAY'S dollars (will be inflated)
+  bracketRate?: number; // fill-bracket: convert up to the top of this federal bracket
+}
+
+export interface RothConversionLayer {
+  age: number; // Age in the conversion year (the 5-year clock starts January 1 of that year)
+  amount: number; // Converted amount not yet withdrawn
+}
+
+// Years a conversion must season before withdrawing it before 59½ is penalty-free
+export const ROTH_CONVERSION_SEASONING_YEARS = 5;
+
+// Tax-deferred accounts converted from, in order
+const CONVERSION_SOURCE_ORDER: AccountType[] = ['traditional-ira', '401k'];
+
+/**
+ * Get the conversion plan that applies at an age
+ */
+export function getRothConversionPlanForAge(
+  plans: RothConversionPlan[],
+  age: number
+): RothConversionPlan | null {
+  return plans.find((plan) => age >= plan.startAge && age <= plan.endAge) || null;
+}
+
+/**
+ * Calculate the conversion needed to fill a bracket
+ *
+ * Taxable Social Security rises with conversions, so taxable income grows by more than the
+ * converted amount; the conversion is refined until taxable income lands on the bracket top.
+ *
+ * @param bracketCeiling - Top of the bracket in taxable income
+ * @param availableBalance - Tax-deferred balance available to convert
+ * @param getTaxableIncome - Gross income less the standard deduction for a conversion amount
+ * @param maxIterations - Refinement passes
+ * @returns Amount to convert
+ */
+export function calculateBracketFillConversion(
+  bracketCeiling: number,
+  availableBalance: number,
+  getTaxableIncome: (conversion: number) => number,
+  maxIterations: number
+): number {
+  let conversion = 0;
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const room = bracketCeiling - getTaxableIncome(conversion);
+    if (Math.abs(room) <= 0.01) {
+      break;
+    }
+
+    const next = Math.min(availableBalance, Math.max(0, conversion + room));
+    if (next === conversion) {
+      break;
+    }
+    conversion = next;
+  }
+
+  return conversion;
+}
+
+/**
+ * Move a conversion from tax-deferred accounts into the Roth IRA
+ *
+ * @param accountBalances - Balances by account type (mutated)
+ * @param amount - Amount to convert (capped at the tax-deferred balance)
+ * @returns Amount actually converted
+ */
+export function applyRothConversion(
+  accountBalances: Record<AccountType, number>,
+  amount: number
+): number {
+  let remaining = amount;
+
+  for (const accountType of CONVERSION_SOURCE_ORDER) {
+    const converted = Math.min(remaining, Math.max(0, accountBalances[accountType] || 0));
+    accountBalances[accountType] -= converted;
+    remaining -= converted;
+  }
+
+  const totalConverted = amount - remaining;
+  accountBalances['roth-ira'] = (accountBalances['roth-ira'] || 0) + totalConverted;
+  return totalConverted;
+}
+
+/**
+ * Get the converted amount that has seasoned five years by an age
+ */
+export function getSeasonedConversions(layers: RothConversionLayer[], age: number): number {
+  return layers
+    .filter((layer) => age >= layer.age + ROTH_CONVERSION_SEASONING_YEARS)
+    .reduce((sum, layer) => sum + layer.amount, 0);
+}
+
+/**
+ * Take a Roth IRA withdrawal out of conversions, oldest first
+ * (Roth ordering rules: contributions come out before conversions, earnings last)
+ *
+ * @param layers - Conversions not yet withdrawn (mutated)
+ * @param amount - Withdrawal left after contributions
+ * @returns Amount taken from conversions; the rest is earnings
+ */
+export function withdrawRothConversionLayers(layers: RothConversionLayer[], amount: number): number {
+  let remaining = amount;
+
+  for (const layer of layers) {
+    if (remaining <= 0) {
+      break;
+    }
+    const withdrawn = Math.min(remaining, layer.amount);
+    layer.amount -= withdrawn;
+    remaining -= withdrawn;
+  }
+
+  return amount - remaining;
+}
+
+/**
+ * Validate a Roth conversion plan
+ *
+ * @returns Error message if invalid, null if valid
+ */
+export function validateRothConversionPlan(plan: unknown): string | null {
+  if (!plan || typeof plan !== 'object' || plan === null) {
+    return 'Roth conversion plan must be an object';
+  }
+
+  const planObj = plan as Record<string, unknown>;
+
+  if (planObj.type !== 'fixed' && planObj.type !== 'fill-bracket') {
+    return 'Roth conversion plan type must be "fixed" or "fill-bracket"';
+  }
+
+  if (typeof planObj.startAge !== 'number' || planObj.startAge < 0 || planObj.startAge > 120) {
+    return 'Roth conversion start age must be a number between 0 and 120';
+  }
+
+  if (typeof planObj.endAge !== 'number' || planObj.endAge < planObj.startAge || planObj.endAge > 120) {
+    return 'Roth conversion end age must be between the start age and 120';
+  }
+
+  if (planObj.type === 'fixed') {
+    if (typeof planObj.amount !== 'number' || planObj.amount <= 0) {
+      return 'Fixed Roth conversion amount must be a positive number';
+    }
+  }
+
+  if (planObj.type === 'fill-bracket') {
+    if (
+      typeof planObj.bracketRate !== 'number' ||
+      getBracketCeiling(planObj.bracketRate, 'single', 1) === null
+    ) {
+      return 'Roth conversion bracket rate must be a federal bracket below the top rate (10, 12, 22, 24, 32 or 35)';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate a scenario's Roth conversion plans (each plan valid, age ranges not overlapping)
+ *
+ * @returns Error message if invalid, null if valid
+ */
+export function validateRothConversionPlans(plans: unknown): string | null {
+  if (!Array.isArray(plans)) {
+    return 'Roth conversions must be an array';
+  }
+
+  for (const plan of plans) {
+    const planError = validateRothConversionPlan(plan);
+    if (planError) {
+      return planError;
+    }
+  }
+
+  const sortedPlans = [...(plans as RothConversionPlan[])].sort((a, b) => a.startAge - b.startAge);
+  for (let i = 0; i < sortedPlans.length - 1; i++) {
+    if (sortedPlans[i].endAge >= sortedPlans[i + 1].startAge) {
+      return 'Roth conversion age ranges must not overlap';
+    }
+  }
+
+  return null;
+}
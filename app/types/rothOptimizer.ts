@@ -0,0 +1,228 @@
+/**
+ * Roth Conversion Optimizer
+ *
+ * This module searches Roth conversion schedules for a scenario, including:
+ * - Fill-to-bracket and fixed-amount conversions over candidate age windows
+ * - Ranking by after-tax ending net worth or lifetime taxes
+ * - Valuing remaining tax-deferred balances at an assumed terminal tax rate, so leaving
+ *   money unconverted is not mistaken for avoiding tax on it
+ */
+
+import { Account } from './accounts';
+import { Scenario } from './scenarios';
+import { UserProfile } from './profile';
+import { Liability } from './liabilities';
+import { calculateAge, calculateScenarioProjection } from './projections';
+import { RothConversionPlan } from './rothConversions';
+import { getRmdStartAge } from './rmds';
+
+export type RothOptimizerObjective = 'max-after-tax-net-worth' | 'min-lifetime-taxes';
+
+export interface RothOptimizerSettings {
+  objective: RothOptimizerObjective;
+  terminalTaxRate: number; // Tax rate (percentage) applied to tax-deferred balances left at the end
+}
+
+export interface RothConversionCandidate {
+  plans: RothConversionPlan[]; // Empty for the no-conversion baseline
+  totalConverted: number;
+  lifetimeTaxes: number; // Taxes paid during the projection plus terminal tax on tax-deferred balances
+  afterTaxNetWorth: number; // Final net worth less terminal tax on tax-deferred balances
+}
+
+export interface RothOptimizationResult {
+  scenarioId: string;
+  scenarioName: string;
+  settings: RothOptimizerSettings;
+  baseline: RothConversionCandidate;
+  best: RothConversionCandidate;
+  candidates: RothConversionCandidate[]; // Best first, limited to MAX_REPORTED_CANDIDATES
+}
+
+export interface RunRothOptimizerRequest extends Partial<RothOptimizerSettings> {
+  startYear?: number;
+  endYear?: number;
+}
+
+export interface RothOptimizationResponse {
+  success: boolean;
+  optimization?: RothOptimizationResult;
+  error?: string;
+}
+
+export const DEFAULT_ROTH_OPTIMIZER_OBJECTIVE: RothOptimizerObjective = 'max-after-tax-net-worth';
+export const DEFAULT_TERMINAL_TAX_RATE = 22;
+
+// Candidate schedules searched for each age window
+const CANDIDATE_BRACKET_RATES = [10, 12, 22, 24, 32];
+const CANDIDATE_FIXED_AMOUNTS = [10000, 25000, 50000, 75000, 100000];
+
+const MAX_REPORTED_CANDIDATES = 10;
+
+/**
+ * Validate optimizer settings from a request body
+ *
+ * @returns Error message if invalid, null if valid
+ */
+export function validateRothOptimizerSettings(data: unknown): string | null {
+  if (!data || typeof data !== 'object' || data === null) {
+    return 'Optimizer settings must be an object';
+  }
+
+  const dataObj = data as Record<string, unknown>;
+
+  if (
+    dataObj.objective !== undefined &&
+    dataObj.objective !== 'max-after-tax-net-worth' &&
+    dataObj.objective !== 'min-lifetime-taxes'
+  ) {
+    return 'objective must be "max-after-tax-net-worth" or "min-lifetime-taxes"';
+  }
+
+  if (dataObj.terminalTaxRate !== undefined) {
+    if (
+      typeof dataObj.terminalTaxRate !== 'number' ||
+      dataObj.terminalTaxRate < 0 ||
+      dataObj.terminalTaxRate > 100
+    ) {
+      return 'terminalTaxRate must be a number between 0 and 100';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the conversion schedules to evaluate
+ * Windows start now or at retirement and end before Social Security, before RMDs,
+ * or ten years after starting
+ */
+export function buildRothConversionCandidates(
+  scenario: Scenario,
+  currentAge: number,
+  rmdStartAge: number
+): RothConversionPlan[][] {
+  const startAges = Array.from(
+    new Set([currentAge, Math.max(currentAge, scenario.retirementAge ?? currentAge)])
+  );
+  const candidates: RothConversionPlan[][] = [];
+
+  for (const startAge of startAges) {
+    const endAges = Array.from(
+      new Set([
+        (scenario.socialSecurityAge ?? rmdStartAge) - 1,
+        rmdStartAge - 1,
+        startAge + 9,
+      ])
+    ).filter((endAge) => endAge >= startAge);
+
+    for (const endAge of endAges) {
+      for (const bracketRate of CANDIDATE_BRACKET_RATES) {
+        candidates.push([{ type: 'fill-bracket', startAge, endAge, bracketRate }]);
+      }
+      for (const amount of CANDIDATE_FIXED_AMOUNTS) {
+        candidates.push([{ type: 'fixed', startAge, endAge, amount }]);
+      }
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Project a scenario with a conversion schedule and measure the outcome
+ */
+function evaluateCandidate(
+  scenario: Scenario,
+  userProfile: UserProfile,
+  currentAccounts: Account[],
+  startYear: number,
+  endYear: number,
+  plans: RothConversionPlan[],
+  terminalTaxRate: number,
+  liabilities: Liability[]
+): RothConversionCandidate {
+  const projection = calculateScenarioProjection(
+    { ...scenario, rothConversions: plans },
+    userProfile,
+    currentAccounts,
+    startYear,
+    endYear,
+    { liabilities }
+  );
+
+  const finalYear = projection.years[projection.years.length - 1];
+  const remainingTaxDeferred = finalYear
+    ? Math.max(0, finalYear.accountBalances.byAccountType['401k']) +
+      Math.max(0, finalYear.accountBalances.byAccountType['traditional-ira'])
+    : 0;
+  const terminalTax = remainingTaxDeferred * (terminalTaxRate / 100);
+
+  return {
+    plans,
+    totalConverted: projection.years.reduce((sum, year) => sum + year.rothConversion, 0),
+    lifetimeTaxes: projection.summary.totalTaxes + terminalTax,
+    afterTaxNetWorth: projection.summary.finalNetWorth - terminalTax,
+  };
+}
+
+/**
+ * Search Roth conversion schedules for a scenario
+ *
+ * Every candidate runs the full yearly projection with the scenario's own conversion plans
+ * replaced by the candidate schedule; the baseline converts nothing.
+ *
+ * @param scenario - The scenario to optimize
+ * @param userProfile - User's profile (age calculation)
+ * @param currentAccounts - Current account balances
+ * @param startYear - Projection start year
+ * @param endYear - Projection end year
+ * @param settings - Optimizer settings
+ * @param liabilities - The user's debts (minimum payments add to spending)
+ * @returns Baseline, best schedule and top-ranked candidates
+ */
+export function optimizeRothConversions(
+  scenario: Scenario,
+  userProfile: UserProfile,
+  currentAccounts: Account[],
+  startYear: number,
+  endYear: number,
+  settings: RothOptimizerSettings,
+  liabilities: Liability[] = []
+): RothOptimizationResult {
+  const evaluate = (plans: RothConversionPlan[]) =>
+    evaluateCandidate(
+      scenario,
+      userProfile,
+      currentAccounts,
+      startYear,
+      endYear,
+      plans,
+      settings.terminalTaxRate,
+      liabilities
+    );
+
+  const currentAge = calculateAge(userProfile.dateOfBirth) + (startYear - new Date().getFullYear());
+  const baseline = evaluate([]);
+  const candidates = [
+    baseline,
+    ...buildRothConversionCandidates(
+      scenario,
+      currentAge,
+      getRmdStartAge(new Date(userProfile.dateOfBirth).getUTCFullYear())
+    ).map(evaluate),
+  ];
+
+  const score = (candidate: RothConversionCandidate) =>
+    settings.objective === 'min-lifetime-taxes' ? -candidate.lifetimeTaxes : candidate.afterTaxNetWorth;
+  candidates.sort((a, b) => score(b) - score(a));
+
+  return {
+    scenarioId: scenario.id,
+    scenarioName: scenario.name,
+    settings,
+    baseline,
+    best: candidates[0],
+    candidates: candidates.slice(0, MAX_REPORTED_CANDIDATES),
+  };
+}
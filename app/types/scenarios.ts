@@ -1,17 +1,40 @@
 import { AccountType } from './accounts';
 import { Mortgage } from './mortgages';
+import { StateCode, isValidStateCode } from './stateTaxes';
+import {
+  AssetAllocation,
+  AllocationSettings,
+  validateAssetAllocation,
+  validateAllocationSettings,
+} from './allocations';
+import { WithdrawalStrategy, validateWithdrawalStrategy } from './withdrawals';
+import { RothConversionPlan, validateRothConversionPlans } from './rothConversions';
+import { validateSocialSecurity } from './socialSecurity';
+import { HouseholdMember, PartnerAssumptions, validatePartner } from './partner';
+import { validatePlanningHorizon } from './mortality';
+import { IncomeGrowth, validateIncomeGrowth } from './incomeGrowth';
+import { SeppPlan, validateSeppPlan } from './earlyWithdrawals';
+import { EmployerMatch, validateEmployerMatch } from './employerMatch';
+import { Pension, validatePensions } from './pensions';
+import { IncomeStream, validateIncomeStreams } from './incomeStreams';
+import { Property, validateProperties } from './realEstate';
 
 export interface LumpSumEvent {
   id: string;
   type: 'income' | 'expense';
-  age: number;
-  amount: number;
+  age: number; // Age at the first occurrence
+  amount: number; // Nominal (actual) dollars unless inflationIndexed
   description: string;
+  date?: string; // Exact date of the first occurrence (YYYY-MM-DD); takes precedence over age
+  inflationIndexed?: boolean; // Amount is in TODAY'S dollars and is inflated to each occurrence
+  repeatEveryYears?: number; // Repeats every N years (e.g., a car every 8 years)
+  repeatUntilAge?: number; // Last age a repeat can happen (required with repeatEveryYears)
 }
 
 export interface Assumptions {
   // Income (in TODAY'S dollars - will be inflated)
   annualIncome?: number;
+  incomeGrowth?: IncomeGrowth; // Overrides the scenario's income growth for this bucket's ages
 
   // Account Contributions (in TODAY'S dollars - per account TYPE)
   contributions?: {
@@ -22,11 +45,15 @@ export interface Assumptions {
     'savings'?: number;
     'checking'?: number;
   };
+  employerMatch?: EmployerMatch; // Employer 401(k) contributions while working this bucket's job
 
   // Spending (in TODAY'S dollars - will be inflated)
   annualSpending?: number;
   annualTravelBudget?: number;
   annualHealthcareCosts?: number;
+
+  // Allocation pinned for this bucket's ages (overrides the scenario glide path)
+  assetAllocation?: AssetAllocation;
 }
 
 export interface AssumptionBucket {
@@ -46,10 +73,26 @@ export interface Scenario {
 
   // Scenario-level assumptions (apply to entire scenario)
   retirementAge?: number;
-  socialSecurityAge?: number;
-  socialSecurityIncome?: number;
-  investmentReturnRate?: number; // Same rate for ALL accounts
+  socialSecurityAge?: number; // Claiming age (62-70 when socialSecurityPia is set)
+  socialSecurityIncome?: number; // Annual benefit in today's dollars (used when no PIA is entered)
+  socialSecurityPia?: number; // Monthly Primary Insurance Amount from the SSA statement (today's dollars)
+  investmentReturnRate?: number; // Default rate for investment accounts
+  accountTypeReturnRates?: Partial<Record<AccountType, number>>; // Per-type overrides (e.g., savings APY)
+  assetAllocation?: AllocationSettings; // Glide path; replaces investmentReturnRate when set
+  withdrawalStrategy?: WithdrawalStrategy; // Which accounts cover shortfalls (default: conventional order)
+  rothConversions?: RothConversionPlan[]; // Non-overlapping age ranges
   inflationRate?: number;
+  relocationAge?: number; // Age at which the user moves to relocationState
+  relocationState?: StateCode; // State of residence from relocationAge onward
+  partner?: PartnerAssumptions; // Spouse's income and Social Security (needs a spouse date of birth)
+  lifeExpectancy?: number; // User's age at death; with a partner, the partner continues as survivor
+  bucketAgeBasis?: HouseholdMember; // Whose age assumption buckets follow (default: self)
+  planningHorizonPercentile?: number; // Project to the age outlived with (100 - this)% probability (50-99)
+  incomeGrowth?: IncomeGrowth; // How employment income grows (default: 2% fixed)
+  seppPlan?: SeppPlan; // 72(t) payments from the traditional IRA, penalty-free before 59½
+  pensions?: Pension[]; // Defined-benefit pensions and annuities
+  incomeStreams?: IncomeStream[]; // Part-time, consulting, rental and dividend income added to annualIncome
+  properties?: Property[]; // Homes and rental properties (linked to mortgages by mortgageId)
 
   assumptionBuckets: AssumptionBucket[];
   lumpSumEvents: LumpSumEvent[];
@@ -70,11 +113,27 @@ export interface CreateScenarioRequest {
   retirementAge?: number;
   socialSecurityAge?: number;
   socialSecurityIncome?: number;
+  socialSecurityPia?: number;
   investmentReturnRate?: number;
+  accountTypeReturnRates?: Partial<Record<AccountType, number>>;
+  assetAllocation?: AllocationSettings;
+  withdrawalStrategy?: WithdrawalStrategy;
+  rothConversions?: RothConversionPlan[];
   inflationRate?: number;
+  relocationAge?: number;
+  relocationState?: StateCode;
+  partner?: PartnerAssumptions;
+  lifeExpectancy?: number;
+  bucketAgeBasis?: HouseholdMember;
+  planningHorizonPercentile?: number;
+  incomeGrowth?: IncomeGrowth;
+  seppPlan?: SeppPlan;
+  pensions?: Pension[];
+  incomeStreams?: IncomeStream[];
+  properties?: Property[];
   assumptionBuckets: Omit<AssumptionBucket, 'id'>[];
   lumpSumEvents?: Omit<LumpSumEvent, 'id'>[];
-  mortgages?: Omit<Mortgage, 'id'>[];
+  mortgages?: (Omit<Mortgage, 'id'> & { id?: string })[]; // An ID lets a property link to its mortgage
 }
 
 export interface UpdateScenarioRequest {
@@ -83,8 +142,24 @@ export interface UpdateScenarioRequest {
   retirementAge?: number;
   socialSecurityAge?: number;
   socialSecurityIncome?: number;
+  socialSecurityPia?: number | null;
   investmentReturnRate?: number;
+  accountTypeReturnRates?: Partial<Record<AccountType, number>>;
+  assetAllocation?: AllocationSettings | null;
+  withdrawalStrategy?: WithdrawalStrategy;
+  rothConversions?: RothConversionPlan[];
   inflationRate?: number;
+  relocationAge?: number | null;
+  relocationState?: StateCode | null;
+  partner?: PartnerAssumptions | null;
+  lifeExpectancy?: number | null;
+  bucketAgeBasis?: HouseholdMember;
+  planningHorizonPercentile?: number | null;
+  incomeGrowth?: IncomeGrowth | null;
+  seppPlan?: SeppPlan | null;
+  pensions?: Pension[];
+  incomeStreams?: IncomeStream[];
+  properties?: Property[];
   assumptionBuckets?: AssumptionBucket[];
   lumpSumEvents?: LumpSumEvent[];
   mortgages?: Mortgage[];
@@ -94,6 +169,7 @@ export interface UpdateScenarioRequest {
 export interface ScenarioResponse {
   success: boolean;
   scenario?: Scenario;
+  warnings?: string[]; // Non-blocking validation warnings (e.g., contributions over IRS limits)
   error?: string;
 }
 
@@ -136,9 +212,79 @@ export function validateLumpSumEvent(event: unknown): string | null {
     return 'Lump sum event description must be a non-empty string';
   }
 
+  if (eventObj.date !== undefined) {
+    if (
+      typeof eventObj.date !== 'string' ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(eventObj.date) ||
+      isNaN(Date.parse(eventObj.date))
+    ) {
+      return 'Lump sum event date must be a valid date (YYYY-MM-DD)';
+    }
+  }
+
+  if (eventObj.inflationIndexed !== undefined && typeof eventObj.inflationIndexed !== 'boolean') {
+    return 'Lump sum event inflationIndexed must be a boolean';
+  }
+
+  if (eventObj.repeatEveryYears !== undefined) {
+    if (
+      typeof eventObj.repeatEveryYears !== 'number' ||
+      !Number.isInteger(eventObj.repeatEveryYears) ||
+      eventObj.repeatEveryYears < 1
+    ) {
+      return 'Lump sum event repeat interval must be a whole number of years (1 or more)';
+    }
+    if (
+      typeof eventObj.repeatUntilAge !== 'number' ||
+      eventObj.repeatUntilAge < eventObj.age ||
+      eventObj.repeatUntilAge > 120
+    ) {
+      return 'Lump sum event repeat-until age must be at or after its age and at most 120';
+    }
+  } else if (eventObj.repeatUntilAge !== undefined) {
+    return 'Lump sum event repeat-until age needs a repeat interval';
+  }
+
   return null;
 }
 
+/**
+ * Check whether a lump sum event happens in a year (its first occurrence or a repeat)
+ *
+ * @param event - The lump sum event
+ * @param year - Calendar year
+ * @param age - User's age during the year
+ */
+export function isLumpSumEventInYear(event: LumpSumEvent, year: number, age: number): boolean {
+  const firstYear = event.date ? Number(event.date.slice(0, 4)) : year - (age - event.age);
+  const yearsSinceFirst = year - firstYear;
+
+  if (yearsSinceFirst === 0) {
+    return true;
+  }
+  if (yearsSinceFirst < 0 || !event.repeatEveryYears) {
+    return false;
+  }
+  return yearsSinceFirst % event.repeatEveryYears === 0 && age <= (event.repeatUntilAge ?? -Infinity);
+}
+
+/**
+ * Get the month a lump sum event happens in (0-11; January without a date)
+ */
+export function getLumpSumEventMonth(event: LumpSumEvent): number {
+  return event.date ? Number(event.date.slice(5, 7)) - 1 : 0;
+}
+
+/**
+ * Get a lump sum event's amount in the year's dollars
+ *
+ * @param event - The lump sum event
+ * @param inflationFactor - Cumulative inflation from today to the year
+ */
+export function getLumpSumEventAmount(event: LumpSumEvent, inflationFactor: number): number {
+  return event.inflationIndexed ? event.amount * inflationFactor : event.amount;
+}
+
 /**
  * Type guard to check if value is a valid AccountType
  */
@@ -163,6 +309,13 @@ export function validateAssumptions(assumptions: unknown): string | null {
     }
   }
 
+  if (assumptionsObj.incomeGrowth !== undefined) {
+    const incomeGrowthError = validateIncomeGrowth(assumptionsObj.incomeGrowth);
+    if (incomeGrowthError) {
+      return incomeGrowthError;
+    }
+  }
+
   if (assumptionsObj.annualSpending !== undefined) {
     if (typeof assumptionsObj.annualSpending !== 'number' || assumptionsObj.annualSpending < 0) {
       return 'Annual spending must be a non-negative number';
@@ -199,6 +352,61 @@ export function validateAssumptions(assumptions: unknown): string | null {
     }
   }
 
+  if (assumptionsObj.employerMatch !== undefined) {
+    const employerMatchError = validateEmployerMatch(assumptionsObj.employerMatch);
+    if (employerMatchError) {
+      return employerMatchError;
+    }
+  }
+
+  if (assumptionsObj.assetAllocation !== undefined) {
+    const allocationError = validateAssetAllocation(assumptionsObj.assetAllocation);
+    if (allocationError) {
+      return allocationError;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate per-account-type return rates
+ */
+export function validateAccountTypeReturnRates(rates: unknown): string | null {
+  if (!rates || typeof rates !== 'object' || Array.isArray(rates)) {
+    return 'Account type return rates must be an object';
+  }
+
+  for (const [accountType, rate] of Object.entries(rates as Record<string, unknown>)) {
+    if (!isValidAccountType(accountType)) {
+      return `Invalid account type: ${accountType}`;
+    }
+    if (rate !== undefined) {
+      if (typeof rate !== 'number' || rate < -100 || rate > 100) {
+        return `Return rate for ${accountType} must be a number between -100 and 100`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate scenario relocation fields
+ */
+export function validateRelocation(data: Record<string, unknown>): string | null {
+  if (data.relocationAge !== undefined && data.relocationAge !== null) {
+    if (typeof data.relocationAge !== 'number' || data.relocationAge < 0 || data.relocationAge > 120) {
+      return 'Relocation age must be a number between 0 and 120';
+    }
+  }
+
+  if (data.relocationState !== undefined && data.relocationState !== null) {
+    if (!isValidStateCode(data.relocationState)) {
+      return 'Relocation state must be a valid two-letter state code';
+    }
+  }
+
   return null;
 }
 
@@ -297,6 +505,86 @@ export function validateCreateScenario(data: unknown): string | null {
     return 'Scenario description must be a string';
   }
 
+  const relocationError = validateRelocation(dataObj);
+  if (relocationError) {
+    return relocationError;
+  }
+
+  const socialSecurityError = validateSocialSecurity(dataObj);
+  if (socialSecurityError) {
+    return socialSecurityError;
+  }
+
+  const partnerError = validatePartner(dataObj);
+  if (partnerError) {
+    return partnerError;
+  }
+
+  const planningHorizonError = validatePlanningHorizon(dataObj);
+  if (planningHorizonError) {
+    return planningHorizonError;
+  }
+
+  if (dataObj.incomeGrowth !== undefined && dataObj.incomeGrowth !== null) {
+    const incomeGrowthError = validateIncomeGrowth(dataObj.incomeGrowth);
+    if (incomeGrowthError) {
+      return incomeGrowthError;
+    }
+  }
+
+  if (dataObj.seppPlan !== undefined && dataObj.seppPlan !== null) {
+    const seppError = validateSeppPlan(dataObj.seppPlan);
+    if (seppError) {
+      return seppError;
+    }
+  }
+
+  if (dataObj.pensions !== undefined) {
+    const pensionsError = validatePensions(dataObj.pensions);
+    if (pensionsError) {
+      return pensionsError;
+    }
+  }
+
+  if (dataObj.incomeStreams !== undefined) {
+    const incomeStreamsError = validateIncomeStreams(dataObj.incomeStreams);
+    if (incomeStreamsError) {
+      return incomeStreamsError;
+    }
+  }
+
+  if (dataObj.accountTypeReturnRates !== undefined) {
+    const returnRatesError = validateAccountTypeReturnRates(dataObj.accountTypeReturnRates);
+    if (returnRatesError) {
+      return returnRatesError;
+    }
+  }
+
+  if (dataObj.assetAllocation !== undefined && dataObj.assetAllocation !== null) {
+    const allocationError = validateAllocationSettings(dataObj.assetAllocation);
+    if (allocationError) {
+      return allocationError;
+    }
+  }
+
+  if (dataObj.withdrawalStrategy !== undefined) {
+    const strategyError = validateWithdrawalStrategy(dataObj.withdrawalStrategy);
+    if (strategyError) {
+      return strategyError;
+    }
+  }
+
+  if (dataObj.rothConversions !== undefined) {
+    const conversionsError = validateRothConversionPlans(dataObj.rothConversions);
+    if (conversionsError) {
+      return conversionsError;
+    }
+  }
+
+  if ((dataObj.relocationAge !== undefined) !== (dataObj.relocationState !== undefined)) {
+    return 'Relocation age and relocation state must be provided together';
+  }
+
   if (!dataObj.assumptionBuckets || !Array.isArray(dataObj.assumptionBuckets)) {
     return 'Scenario must have assumption buckets array';
   }
@@ -366,6 +654,19 @@ export function validateCreateScenario(data: unknown): string | null {
     }
   }
 
+  if (dataObj.properties !== undefined) {
+    // A new scenario's properties can only link to its own mortgages
+    const mortgageIds = Array.isArray(dataObj.mortgages)
+      ? dataObj.mortgages
+          .map((mortgage: { id?: unknown }) => mortgage.id)
+          .filter((id): id is string => typeof id === 'string')
+      : [];
+    const propertiesError = validateProperties(dataObj.properties, mortgageIds);
+    if (propertiesError) {
+      return propertiesError;
+    }
+  }
+
   return null;
 }
 
@@ -392,6 +693,82 @@ export function validateUpdateScenario(data: unknown): string | null {
     return 'Scenario description must be a string';
   }
 
+  const relocationError = validateRelocation(dataObj);
+  if (relocationError) {
+    return relocationError;
+  }
+
+  const socialSecurityError = validateSocialSecurity(dataObj, true);
+  if (socialSecurityError) {
+    return socialSecurityError;
+  }
+
+  const partnerError = validatePartner(dataObj);
+  if (partnerError) {
+    return partnerError;
+  }
+
+  const planningHorizonError = validatePlanningHorizon(dataObj);
+  if (planningHorizonError) {
+    return planningHorizonError;
+  }
+
+  if (dataObj.incomeGrowth !== undefined && dataObj.incomeGrowth !== null) {
+    const incomeGrowthError = validateIncomeGrowth(dataObj.incomeGrowth);
+    if (incomeGrowthError) {
+      return incomeGrowthError;
+    }
+  }
+
+  if (dataObj.seppPlan !== undefined && dataObj.seppPlan !== null) {
+    const seppError = validateSeppPlan(dataObj.seppPlan);
+    if (seppError) {
+      return seppError;
+    }
+  }
+
+  if (dataObj.pensions !== undefined) {
+    const pensionsError = validatePensions(dataObj.pensions);
+    if (pensionsError) {
+      return pensionsError;
+    }
+  }
+
+  if (dataObj.incomeStreams !== undefined) {
+    const incomeStreamsError = validateIncomeStreams(dataObj.incomeStreams);
+    if (incomeStreamsError) {
+      return incomeStreamsError;
+    }
+  }
+
+  if (dataObj.accountTypeReturnRates !== undefined) {
+    const returnRatesError = validateAccountTypeReturnRates(dataObj.accountTypeReturnRates);
+    if (returnRatesError) {
+      return returnRatesError;
+    }
+  }
+
+  if (dataObj.assetAllocation !== undefined && dataObj.assetAllocation !== null) {
+    const allocationError = validateAllocationSettings(dataObj.assetAllocation);
+    if (allocationError) {
+      return allocationError;
+    }
+  }
+
+  if (dataObj.withdrawalStrategy !== undefined) {
+    const strategyError = validateWithdrawalStrategy(dataObj.withdrawalStrategy);
+    if (strategyError) {
+      return strategyError;
+    }
+  }
+
+  if (dataObj.rothConversions !== undefined) {
+    const conversionsError = validateRothConversionPlans(dataObj.rothConversions);
+    if (conversionsError) {
+      return conversionsError;
+    }
+  }
+
   if (dataObj.assumptionBuckets !== undefined) {
     if (!Array.isArray(dataObj.assumptionBuckets)) {
       return 'Assumption buckets must be an array';
@@ -436,6 +813,19 @@ export function validateUpdateScenario(data: unknown): string | null {
     }
   }
 
+  if (dataObj.properties !== undefined) {
+    // Links are checked only when the request carries the mortgages
+    const mortgageIds = Array.isArray(dataObj.mortgages)
+      ? dataObj.mortgages
+          .map((mortgage: { id?: unknown }) => mortgage.id)
+          .filter((id): id is string => typeof id === 'string')
+      : undefined;
+    const propertiesError = validateProperties(dataObj.properties, mortgageIds);
+    if (propertiesError) {
+      return propertiesError;
+    }
+  }
+
   if (dataObj.isDefault !== undefined && typeof dataObj.isDefault !== 'boolean') {
     return 'isDefault must be a boolean';
   }
@@ -443,6 +833,19 @@ export function validateUpdateScenario(data: unknown): string | null {
   return null;
 }
 
+/**
+ * Validate fields that depend on each other on a scenario merged with its update
+ */
+export function validateMergedScenario(data: Record<string, unknown>): string | null {
+  const hasRelocationAge = data.relocationAge !== undefined && data.relocationAge !== null;
+  const hasRelocationState = data.relocationState !== undefined && data.relocationState !== null;
+  if (hasRelocationAge !== hasRelocationState) {
+    return 'Relocation age and relocation state must be provided together';
+  }
+
+  return validateSocialSecurity(data);
+}
+
 /**
  * Get the bucket that applies for a given age
  */
@@ -460,6 +863,7 @@ export function getBucketForAge(buckets: AssumptionBucket[], age: number): Assum
 
 /**
  * Merge assumptions: carry forward from previous bucket if not specified
+ * (a pinned asset allocation applies only to the bucket that sets it)
  */
 export function mergeAssumptions(current: Assumptions, previous?: Assumptions): Assumptions {
   if (!previous) {
@@ -479,5 +883,6 @@ export function mergeAssumptions(current: Assumptions, previous?: Assumptions):
       'savings': current.contributions?.['savings'] ?? previous.contributions?.['savings'],
       'checking': current.contributions?.['checking'] ?? previous.contributions?.['checking'],
     },
+    assetAllocation: current.assetAllocation,
   };
 }
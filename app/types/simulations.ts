@@ -0,0 +1,368 @@
+/**
+ * Monte Carlo Simulation Types and Calculations
+ *
+ * This module runs a scenario through many randomized market paths, including:
+ * - Normally distributed annual investment returns and inflation
+ * - Configurable correlation between returns and inflation
+ * - Seeded random number generation for reproducible results
+ * - Per-year net worth percentile bands (P10/P50/P90)
+ * - Probability of success (accounts never depleted)
+ * - Per-year probability of being alive with accounts depleted
+ */
+
+import { Account } from './accounts';
+import { Scenario } from './scenarios';
+import { UserProfile } from './profile';
+import { Liability } from './liabilities';
+import {
+  MarketConditions,
+  calculateScenarioProjection,
+  findDepletionYear,
+} from './projections';
+
+export interface MonteCarloSettings {
+  numSimulations: number; // Number of randomized paths to run
+  returnMean: number; // Mean annual investment return as percentage
+  returnVolatility: number; // Standard deviation of annual returns as percentage
+  inflationMean: number; // Mean annual inflation as percentage
+  inflationVolatility: number; // Standard deviation of annual inflation as percentage
+  correlation: number; // Correlation between returns and inflation (-1 to 1)
+  seed: number; // Seed for the random number generator (same seed = same results)
+}
+
+export interface PercentileBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface SimulationYearBand extends PercentileBand {
+  year: number;
+  age: number;
+  depletedWhileAliveProbability: number; // Share of paths depleted this year times the chance of being alive
+}
+
+export interface MonteCarloResult {
+  scenarioId: string;
+  scenarioName: string;
+  settings: MonteCarloSettings;
+  probabilityOfSuccess: number; // Fraction of paths that never depleted accounts (0 to 1)
+  successfulRuns: number;
+  years: SimulationYearBand[]; // Net worth percentile bands by year
+  finalNetWorth: PercentileBand;
+  medianDepletionYear?: number; // Median depletion year across failed paths
+}
+
+export interface StoredSimulation {
+  id: string;
+  userId: string; // Cognito sub ID
+  scenarioId: string;
+  scenarioName: string;
+  calculatedAt: string;
+  startYear: number;
+  endYear: number;
+  simulation: MonteCarloResult;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface RunSimulationRequest extends Partial<MonteCarloSettings> {
+  startYear?: number;
+  endYear?: number;
+}
+
+export interface StoredSimulationResponse {
+  success: boolean;
+  storedSimulation?: StoredSimulation;
+  error?: string;
+}
+
+export const DEFAULT_NUM_SIMULATIONS = 1000;
+export const MAX_NUM_SIMULATIONS = 5000;
+// Each path replays the full projection, so a request may run at most this many path-years
+// (e.g. 4000 paths over 30 years, or 2000 over 60)
+export const MAX_SIMULATION_PATH_YEARS = 120000;
+const DEFAULT_RETURN_VOLATILITY = 12; // Roughly a 60/40 portfolio
+const DEFAULT_INFLATION_VOLATILITY = 1.5;
+
+/**
+ * Create a seeded pseudo-random number generator (mulberry32)
+ *
+ * @param seed - Integer seed
+ * @returns Function returning uniformly distributed numbers in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draw a pair of independent standard normal values using the Box-Muller transform
+ */
+function standardNormalPair(random: () => number): [number, number] {
+  // Avoid log(0)
+  const u1 = Math.max(random(), Number.EPSILON);
+  const u2 = random();
+  const radius = Math.sqrt(-2 * Math.log(u1));
+  return [radius * Math.cos(2 * Math.PI * u2), radius * Math.sin(2 * Math.PI * u2)];
+}
+
+/**
+ * Generate one randomized market path
+ * Returns and inflation are drawn from a bivariate normal distribution with the given correlation
+ *
+ * @param settings - Simulation settings (means, volatilities, correlation)
+ * @param numberOfYears - Length of the path
+ * @param random - Uniform random number generator
+ * @returns Market conditions for each year of the path
+ */
+export function generateMarketPath(
+  settings: MonteCarloSettings,
+  numberOfYears: number,
+  random: () => number
+): MarketConditions[] {
+  const path: MarketConditions[] = [];
+  const correlationComplement = Math.sqrt(1 - settings.correlation * settings.correlation);
+
+  for (let i = 0; i < numberOfYears; i++) {
+    const [z1, z2] = standardNormalPair(random);
+    const returnShock = z1;
+    const inflationShock = settings.correlation * z1 + correlationComplement * z2;
+
+    path.push({
+      // A portfolio cannot lose more than everything
+      returnRate: Math.max(-100, settings.returnMean + settings.returnVolatility * returnShock),
+      inflationRate: settings.inflationMean + settings.inflationVolatility * inflationShock,
+    });
+  }
+
+  return path;
+}
+
+/**
+ * Calculate a percentile from sorted values using linear interpolation
+ *
+ * @param sortedValues - Values sorted ascending
+ * @param percentile - Percentile between 0 and 100
+ */
+export function calculatePercentile(sortedValues: number[], percentile: number): number {
+  if (sortedValues.length === 0) {
+    return 0;
+  }
+
+  const position = (percentile / 100) * (sortedValues.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+
+  if (lower === upper) {
+    return sortedValues[lower];
+  }
+
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (position - lower);
+}
+
+/**
+ * Build percentile band from unsorted values
+ */
+function calculatePercentileBand(values: number[]): PercentileBand {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: calculatePercentile(sorted, 10),
+    p50: calculatePercentile(sorted, 50),
+    p90: calculatePercentile(sorted, 90),
+  };
+}
+
+/**
+ * Resolve simulation settings from a request, defaulting means to the scenario's fixed rates
+ */
+export function resolveMonteCarloSettings(
+  scenario: Scenario,
+  request: Partial<MonteCarloSettings> = {}
+): MonteCarloSettings {
+  return {
+    numSimulations: request.numSimulations ?? DEFAULT_NUM_SIMULATIONS,
+    returnMean: request.returnMean ?? scenario.investmentReturnRate ?? 0,
+    returnVolatility: request.returnVolatility ?? DEFAULT_RETURN_VOLATILITY,
+    inflationMean: request.inflationMean ?? scenario.inflationRate ?? 0,
+    inflationVolatility: request.inflationVolatility ?? DEFAULT_INFLATION_VOLATILITY,
+    correlation: request.correlation ?? 0,
+    seed: request.seed ?? Math.floor(Math.random() * 2 ** 31),
+  };
+}
+
+/**
+ * Validate simulation settings from a request body
+ *
+ * @returns Error message if invalid, null if valid
+ */
+export function validateMonteCarloSettings(data: unknown): string | null {
+  if (!data || typeof data !== 'object' || data === null) {
+    return 'Simulation settings must be an object';
+  }
+
+  const dataObj = data as Record<string, unknown>;
+
+  if (dataObj.numSimulations !== undefined) {
+    if (
+      typeof dataObj.numSimulations !== 'number' ||
+      !Number.isInteger(dataObj.numSimulations) ||
+      dataObj.numSimulations < 1 ||
+      dataObj.numSimulations > MAX_NUM_SIMULATIONS
+    ) {
+      return `numSimulations must be an integer between 1 and ${MAX_NUM_SIMULATIONS}`;
+    }
+  }
+
+  for (const field of ['returnMean', 'inflationMean'] as const) {
+    if (dataObj[field] !== undefined) {
+      if (typeof dataObj[field] !== 'number' || (dataObj[field] as number) < -100 || (dataObj[field] as number) > 100) {
+        return `${field} must be a number between -100 and 100`;
+      }
+    }
+  }
+
+  for (const field of ['returnVolatility', 'inflationVolatility'] as const) {
+    if (dataObj[field] !== undefined) {
+      if (typeof dataObj[field] !== 'number' || (dataObj[field] as number) < 0 || (dataObj[field] as number) > 100) {
+        return `${field} must be a number between 0 and 100`;
+      }
+    }
+  }
+
+  if (dataObj.correlation !== undefined) {
+    if (typeof dataObj.correlation !== 'number' || dataObj.correlation < -1 || dataObj.correlation > 1) {
+      return 'correlation must be a number between -1 and 1';
+    }
+  }
+
+  if (dataObj.seed !== undefined) {
+    if (typeof dataObj.seed !== 'number' || !Number.isInteger(dataObj.seed)) {
+      return 'seed must be an integer';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check that a simulation fits the per-request budget of projected path-years
+ *
+ * @returns Error message if the request is over budget, null otherwise
+ */
+export function validateSimulationBudget(numSimulations: number, startYear: number, endYear: number): string | null {
+  const numberOfYears = endYear - startYear + 1;
+  if (numSimulations * numberOfYears > MAX_SIMULATION_PATH_YEARS) {
+    const maxSimulations = Math.floor(MAX_SIMULATION_PATH_YEARS / numberOfYears);
+    return `A ${numberOfYears}-year simulation can run at most ${maxSimulations} paths`;
+  }
+  return null;
+}
+
+/**
+ * Run a Monte Carlo simulation of a scenario
+ *
+ * Each path replays the full yearly projection (buckets, mortgages, lump sums, RMDs) with
+ * randomized returns and inflation in place of the scenario's fixed rates. A path succeeds
+ * when accounts are never depleted.
+ *
+ * @param scenario - The scenario to simulate
+ * @param userProfile - User's profile (age calculation)
+ * @param currentAccounts - Current account balances
+ * @param startYear - Projection start year
+ * @param endYear - Projection end year
+ * @param settings - Resolved simulation settings
+ * @param liabilities - The user's debts (minimum payments add to spending)
+ * @returns Percentile bands by year and probability of success
+ */
+export function runMonteCarloSimulation(
+  scenario: Scenario,
+  userProfile: UserProfile,
+  currentAccounts: Account[],
+  startYear: number,
+  endYear: number,
+  settings: MonteCarloSettings,
+  liabilities: Liability[] = []
+): MonteCarloResult {
+  if (settings.numSimulations < 1) {
+    throw new Error('Simulation must run at least one path');
+  }
+
+  const random = createSeededRandom(settings.seed);
+  const numberOfYears = endYear - startYear + 1;
+
+  // Net worth by projection year index, one entry per path
+  const netWorthByYear: number[][] = [];
+  const yearLabels: { year: number; age: number; survivalProbability: number }[] = [];
+  const depletedPathsByYear: number[] = [];
+  const finalNetWorths: number[] = [];
+  const depletionYears: number[] = [];
+  let successfulRuns = 0;
+
+  for (let run = 0; run < settings.numSimulations; run++) {
+    const marketConditions = generateMarketPath(settings, numberOfYears, random);
+    const projection = calculateScenarioProjection(
+      scenario,
+      userProfile,
+      currentAccounts,
+      startYear,
+      endYear,
+      { marketConditions, liabilities }
+    );
+
+    projection.years.forEach((annual, index) => {
+      if (!netWorthByYear[index]) {
+        netWorthByYear[index] = [];
+        depletedPathsByYear[index] = 0;
+        yearLabels[index] = {
+          year: annual.year,
+          age: annual.age,
+          survivalProbability: annual.survivalProbability,
+        };
+      }
+      netWorthByYear[index].push(annual.accountBalances.netWorth);
+      if (annual.accountBalances.total < 0) {
+        depletedPathsByYear[index]++;
+      }
+    });
+
+    finalNetWorths.push(projection.summary.finalNetWorth);
+
+    const depletionYear = findDepletionYear(projection.years);
+    if (depletionYear === undefined) {
+      successfulRuns++;
+    } else {
+      depletionYears.push(depletionYear);
+    }
+  }
+
+  const years: SimulationYearBand[] = netWorthByYear.map((values, index) => ({
+    year: yearLabels[index].year,
+    age: yearLabels[index].age,
+    ...calculatePercentileBand(values),
+    depletedWhileAliveProbability:
+      (depletedPathsByYear[index] / values.length) * yearLabels[index].survivalProbability,
+  }));
+
+  const sortedDepletionYears = [...depletionYears].sort((a, b) => a - b);
+
+  return {
+    scenarioId: scenario.id,
+    scenarioName: scenario.name,
+    settings,
+    probabilityOfSuccess: successfulRuns / settings.numSimulations,
+    successfulRuns,
+    years,
+    finalNetWorth: calculatePercentileBand(finalNetWorths),
+    medianDepletionYear:
+      sortedDepletionYears.length > 0
+        ? Math.round(calculatePercentile(sortedDepletionYears, 50))
+        : undefined,
+  };
+}
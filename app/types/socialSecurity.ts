@@ -0,0 +1,272 @@
+/**
+ * Social Security Benefit Calculations
+ *
+ * This module turns a Primary Insurance Amount (PIA) from the user's SSA statement into a
+ * benefit for any claiming age, including:
+ * - Full retirement age (FRA) by birth year
+ * - Early-claiming reductions (5/9 of 1% per month for the first 36 months, 5/12 of 1% after)
+ * - Delayed retirement credits (2/3 of 1% per month, 8% a year) up to age 70
+ * - Spousal benefits (up to half the other spouse's PIA) and survivor benefits
+ */
+
+export const MIN_CLAIMING_AGE = 62;
+export const MAX_CLAIMING_AGE = 70;
+
+// Early-claiming reduction per month before FRA
+const EARLY_REDUCTION_FIRST_36_MONTHS = 5 / 9 / 100;
+const EARLY_REDUCTION_AFTER_36_MONTHS = 5 / 12 / 100;
+
+// Delayed retirement credit per month after FRA (born 1943 or later)
+const DELAYED_CREDIT_PER_MONTH = 2 / 3 / 100;
+
+// Spousal benefit: up to half the other spouse's PIA, reduced faster when claimed early
+const SPOUSAL_PIA_FRACTION = 0.5;
+const SPOUSAL_REDUCTION_FIRST_36_MONTHS = 25 / 36 / 100;
+const SPOUSAL_REDUCTION_AFTER_36_MONTHS = 5 / 12 / 100;
+
+// Survivor benefit floor when the deceased claimed early (RIB-LIM)
+const SURVIVOR_MINIMUM_PIA_FRACTION = 0.825;
+
+/**
+ * A person's Social Security claim (amounts in today's dollars)
+ */
+export interface SocialSecurityClaim {
+  pia?: number; // Monthly PIA; spousal benefits need both spouses' PIAs
+  annualBenefit: number; // Own benefit at the claiming age
+  claimingAge: number;
+  birthYear: number; // SSA birth year
+}
+
+/**
+ * A person's claim and status in a projection year
+ */
+export interface SocialSecurityClaimant {
+  claim: SocialSecurityClaim | null;
+  age: number;
+  alive: boolean;
+}
+
+/**
+ * Get full retirement age (in years, with months as a fraction) for a birth year
+ * Born 1937 or earlier: 65; 1938-1942: 65 plus 2 months per year; 1943-1954: 66;
+ * 1955-1959: 66 plus 2 months per year; 1960 or later: 67
+ */
+export function getFullRetirementAge(birthYear: number): number {
+  if (birthYear <= 1937) {
+    return 65;
+  }
+  if (birthYear <= 1942) {
+    return 65 + ((birthYear - 1937) * 2) / 12;
+  }
+  if (birthYear <= 1954) {
+    return 66;
+  }
+  if (birthYear <= 1959) {
+    return 66 + ((birthYear - 1954) * 2) / 12;
+  }
+  return 67;
+}
+
+/**
+ * Get the birth year SSA uses for benefit rules
+ * People born on January 1st are treated as born in the prior year
+ */
+export function getSocialSecurityBirthYear(dateOfBirth: string): number {
+  const birthDate = new Date(dateOfBirth);
+  const birthYear = birthDate.getUTCFullYear();
+  return birthDate.getUTCMonth() === 0 && birthDate.getUTCDate() === 1 ? birthYear - 1 : birthYear;
+}
+
+/**
+ * Get the fraction of PIA paid when claiming at an age
+ *
+ * @param claimingAge - Age benefits start (62 to 70)
+ * @param fullRetirementAge - Full retirement age in years
+ * @returns Benefit as a fraction of PIA (e.g. 0.7 at 62 with an FRA of 67, 1.24 at 70)
+ */
+export function getClaimingAdjustment(claimingAge: number, fullRetirementAge: number): number {
+  const age = Math.min(MAX_CLAIMING_AGE, Math.max(MIN_CLAIMING_AGE, claimingAge));
+  const monthsFromFra = Math.round((age - fullRetirementAge) * 12);
+
+  if (monthsFromFra < 0) {
+    const monthsEarly = -monthsFromFra;
+    const reduction =
+      Math.min(36, monthsEarly) * EARLY_REDUCTION_FIRST_36_MONTHS +
+      Math.max(0, monthsEarly - 36) * EARLY_REDUCTION_AFTER_36_MONTHS;
+    return 1 - reduction;
+  }
+
+  return 1 + monthsFromFra * DELAYED_CREDIT_PER_MONTH;
+}
+
+/**
+ * Calculate the annual benefit for a PIA and claiming age
+ *
+ * @param pia - Monthly Primary Insurance Amount (today's dollars)
+ * @param claimingAge - Age benefits start (62 to 70)
+ * @param birthYear - SSA birth year (see getSocialSecurityBirthYear)
+ * @returns Annual benefit in today's dollars
+ */
+export function calculateAnnualBenefit(pia: number, claimingAge: number, birthYear: number): number {
+  return pia * getClaimingAdjustment(claimingAge, getFullRetirementAge(birthYear)) * 12;
+}
+
+/**
+ * Get a scenario's annual Social Security benefit in today's dollars
+ * Uses the PIA and claiming age when a PIA is entered, otherwise the flat benefit amount
+ */
+export function getScenarioSocialSecurityBenefit(
+  scenario: { socialSecurityAge?: number; socialSecurityIncome?: number; socialSecurityPia?: number },
+  birthYear: number
+): number {
+  if (typeof scenario.socialSecurityPia === 'number' && scenario.socialSecurityAge !== undefined) {
+    return calculateAnnualBenefit(scenario.socialSecurityPia, scenario.socialSecurityAge, birthYear);
+  }
+  return scenario.socialSecurityIncome || 0;
+}
+
+/**
+ * Get a person's Social Security claim from scenario or partner fields
+ *
+ * @returns The claim, or null when no claiming age is set
+ */
+export function getSocialSecurityClaim(
+  person: { socialSecurityAge?: number; socialSecurityIncome?: number; socialSecurityPia?: number },
+  birthYear: number
+): SocialSecurityClaim | null {
+  if (!person.socialSecurityAge) {
+    return null;
+  }
+
+  return {
+    pia: typeof person.socialSecurityPia === 'number' ? person.socialSecurityPia : undefined,
+    annualBenefit: getScenarioSocialSecurityBenefit(person, birthYear),
+    claimingAge: person.socialSecurityAge,
+    birthYear,
+  };
+}
+
+/**
+ * Calculate the annual spousal benefit paid on top of a person's own benefit
+ * The spousal benefit is half the other spouse's PIA less the person's own PIA, reduced
+ * 25/36 of 1% per month for the first 36 months before FRA and 5/12 of 1% after; it earns
+ * no delayed retirement credits
+ *
+ * @param ownPia - The person's monthly PIA
+ * @param spousePia - The other spouse's monthly PIA
+ * @param claimingAge - Age the person claims
+ * @param birthYear - The person's SSA birth year
+ * @returns Annual spousal benefit in today's dollars (0 when the own PIA is higher)
+ */
+export function calculateSpousalBenefit(
+  ownPia: number,
+  spousePia: number,
+  claimingAge: number,
+  birthYear: number
+): number {
+  const excess = spousePia * SPOUSAL_PIA_FRACTION - ownPia;
+  if (excess <= 0) {
+    return 0;
+  }
+
+  const age = Math.max(MIN_CLAIMING_AGE, claimingAge);
+  const monthsEarly = Math.max(0, Math.round((getFullRetirementAge(birthYear) - age) * 12));
+  const reduction =
+    Math.min(36, monthsEarly) * SPOUSAL_REDUCTION_FIRST_36_MONTHS +
+    Math.max(0, monthsEarly - 36) * SPOUSAL_REDUCTION_AFTER_36_MONTHS;
+
+  return excess * (1 - reduction) * 12;
+}
+
+/**
+ * Calculate a survivor's annual benefit after their spouse dies
+ * The survivor keeps the larger of their own benefit and the deceased's benefit; when the
+ * deceased claimed early, the survivor still receives at least 82.5% of the deceased's PIA
+ *
+ * @param ownBenefit - The survivor's own annual benefit
+ * @param deceased - The deceased spouse's claim
+ * @returns Annual benefit in today's dollars
+ */
+export function calculateSurvivorBenefit(ownBenefit: number, deceased: SocialSecurityClaim): number {
+  const minimumBenefit = deceased.pia !== undefined ? deceased.pia * SURVIVOR_MINIMUM_PIA_FRACTION * 12 : 0;
+  return Math.max(ownBenefit, deceased.annualBenefit, minimumBenefit);
+}
+
+/**
+ * Calculate one person's benefit in a household for a projection year
+ * Benefits start at the person's own claiming age; spousal benefits start once both spouses
+ * have claimed, and a survivor benefit replaces them after the spouse dies
+ */
+function calculateClaimantBenefit(person: SocialSecurityClaimant, spouse?: SocialSecurityClaimant): number {
+  if (!person.alive || !person.claim || person.age < person.claim.claimingAge) {
+    return 0;
+  }
+
+  const ownBenefit = person.claim.annualBenefit;
+  if (!spouse?.claim) {
+    return ownBenefit;
+  }
+
+  if (!spouse.alive) {
+    return calculateSurvivorBenefit(ownBenefit, spouse.claim);
+  }
+
+  if (spouse.age >= spouse.claim.claimingAge && person.claim.pia !== undefined && spouse.claim.pia !== undefined) {
+    return (
+      ownBenefit +
+      calculateSpousalBenefit(person.claim.pia, spouse.claim.pia, person.claim.claimingAge, person.claim.birthYear)
+    );
+  }
+
+  return ownBenefit;
+}
+
+/**
+ * Calculate each person's annual Social Security benefit for a projection year
+ *
+ * @param self - The user's claim, age and whether they are alive
+ * @param partner - The partner's claim, age and whether they are alive (undefined without a partner)
+ * @returns Annual benefits in today's dollars for the user and partner
+ */
+export function calculateHouseholdSocialSecurity(
+  self: SocialSecurityClaimant,
+  partner?: SocialSecurityClaimant
+): { self: number; partner: number } {
+  return {
+    self: calculateClaimantBenefit(self, partner),
+    partner: partner ? calculateClaimantBenefit(partner, self) : 0,
+  };
+}
+
+/**
+ * Validate Social Security fields on scenario data
+ * A PIA requires a claiming age between 62 and 70
+ *
+ * @param data - Scenario data
+ * @param isUpdate - Only validate the fields present (the claiming age may already be stored)
+ * @returns Error message if invalid, null if valid
+ */
+export function validateSocialSecurity(data: Record<string, unknown>, isUpdate = false): string | null {
+  if (data.socialSecurityPia === undefined || data.socialSecurityPia === null) {
+    return null;
+  }
+
+  if (typeof data.socialSecurityPia !== 'number' || data.socialSecurityPia < 0) {
+    return 'Social Security PIA must be a non-negative number';
+  }
+
+  if (!isUpdate && (data.socialSecurityAge === undefined || data.socialSecurityAge === null)) {
+    return 'Social Security claiming age is required when a PIA is entered';
+  }
+
+  if (
+    data.socialSecurityAge !== undefined &&
+    (typeof data.socialSecurityAge !== 'number' ||
+      data.socialSecurityAge < MIN_CLAIMING_AGE ||
+      data.socialSecurityAge > MAX_CLAIMING_AGE)
+  ) {
+    return `Social Security claiming age must be between ${MIN_CLAIMING_AGE} and ${MAX_CLAIMING_AGE} when a PIA is entered`;
+  }
+
+  return null;
+}
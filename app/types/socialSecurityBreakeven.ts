@@ -0,0 +1,171 @@
+/**
+ * Social Security Claiming Age Comparison
+ *
+ * This module projects the same scenario at several claiming ages side by side, including:
+ * - The benefit at each claiming age from the scenario's PIA
+ * - Cumulative benefits and net worth by year for each claiming age
+ * - Breakeven ages where a later claim's cumulative benefits catch up with an earlier claim
+ */
+
+import { Account } from './accounts';
+import { Scenario } from './scenarios';
+import { UserProfile } from './profile';
+import { Liability } from './liabilities';
+import { calculateScenarioProjection } from './projections';
+import {
+  calculateAnnualBenefit,
+  getClaimingAdjustment,
+  getFullRetirementAge,
+  getSocialSecurityBirthYear,
+} from './socialSecurity';
+
+export const BREAKEVEN_CLAIMING_AGES = [62, 67, 70];
+
+export interface ClaimingAgeYear {
+  year: number;
+  age: number;
+  benefit: number; // Social Security received this year (inflated)
+  cumulativeBenefits: number;
+  netWorth: number;
+}
+
+export interface ClaimingAgeProjection {
+  claimingAge: number;
+  annualBenefit: number; // Benefit at the claiming age in today's dollars
+  lifetimeBenefits: number; // Total received over the projection (inflated)
+  finalNetWorth: number;
+  years: ClaimingAgeYear[];
+}
+
+export interface ClaimingAgeBreakeven {
+  earlierClaimingAge: number;
+  laterClaimingAge: number;
+  breakevenAge: number | null; // First age the later claim's cumulative benefits are ahead (null if never)
+}
+
+export interface SocialSecurityBreakevenResult {
+  scenarioId: string;
+  scenarioName: string;
+  pia: number; // Monthly PIA used (entered, or derived from the scenario's benefit)
+  fullRetirementAge: number;
+  claimingAges: ClaimingAgeProjection[];
+  breakevens: ClaimingAgeBreakeven[];
+}
+
+export interface SocialSecurityBreakevenResponse {
+  success: boolean;
+  breakeven?: SocialSecurityBreakevenResult;
+  error?: string;
+}
+
+/**
+ * Get the scenario's PIA, deriving it from the flat benefit at the claiming age when no PIA
+ * has been entered
+ */
+function resolvePia(scenario: Scenario, fullRetirementAge: number): number {
+  if (typeof scenario.socialSecurityPia === 'number') {
+    return scenario.socialSecurityPia;
+  }
+
+  if (scenario.socialSecurityIncome && scenario.socialSecurityAge !== undefined) {
+    return (
+      scenario.socialSecurityIncome / 12 / getClaimingAdjustment(scenario.socialSecurityAge, fullRetirementAge)
+    );
+  }
+
+  throw new Error('Scenario must have a Social Security PIA or benefit to compare claiming ages');
+}
+
+/**
+ * Find the first age a later claim's cumulative benefits reach an earlier claim's
+ */
+function findBreakevenAge(earlier: ClaimingAgeProjection, later: ClaimingAgeProjection): number | null {
+  for (let i = 0; i < later.years.length; i++) {
+    const laterYear = later.years[i];
+    if (laterYear.benefit > 0 && laterYear.cumulativeBenefits >= earlier.years[i].cumulativeBenefits) {
+      return laterYear.age;
+    }
+  }
+  return null;
+}
+
+/**
+ * Project a scenario at several Social Security claiming ages side by side
+ *
+ * @param scenario - The scenario to compare
+ * @param userProfile - User's profile (age and full retirement age)
+ * @param currentAccounts - Current account balances
+ * @param startYear - Projection start year
+ * @param endYear - Projection end year
+ * @param claimingAges - Claiming ages to compare (default 62, 67 and 70)
+ * @param liabilities - The user's debts (minimum payments add to spending)
+ * @returns Projections per claiming age and breakeven ages between each pair
+ */
+export function compareClaimingAges(
+  scenario: Scenario,
+  userProfile: UserProfile,
+  currentAccounts: Account[],
+  startYear: number,
+  endYear: number,
+  claimingAges: number[] = BREAKEVEN_CLAIMING_AGES,
+  liabilities: Liability[] = []
+): SocialSecurityBreakevenResult {
+  const birthYear = getSocialSecurityBirthYear(userProfile.dateOfBirth);
+  const fullRetirementAge = getFullRetirementAge(birthYear);
+  const pia = resolvePia(scenario, fullRetirementAge);
+
+  const projections: ClaimingAgeProjection[] = claimingAges.map((claimingAge) => {
+    const projection = calculateScenarioProjection(
+      { ...scenario, socialSecurityAge: claimingAge, socialSecurityPia: pia },
+      userProfile,
+      currentAccounts,
+      startYear,
+      endYear,
+      { liabilities }
+    );
+
+    let cumulativeBenefits = 0;
+    const years = projection.years.map((year) => {
+      cumulativeBenefits += year.income.socialSecurity;
+      return {
+        year: year.year,
+        age: year.age,
+        benefit: year.income.socialSecurity,
+        cumulativeBenefits,
+        netWorth: year.accountBalances.netWorth,
+      };
+    });
+
+    return {
+      claimingAge,
+      annualBenefit: calculateAnnualBenefit(pia, claimingAge, birthYear),
+      lifetimeBenefits: cumulativeBenefits,
+      finalNetWorth: projection.summary.finalNetWorth,
+      years,
+    };
+  });
+
+  const breakevens: ClaimingAgeBreakeven[] = [];
+  for (let i = 0; i < projections.length; i++) {
+    for (let j = i + 1; j < projections.length; j++) {
+      const [earlier, later] =
+        projections[i].claimingAge <= projections[j].claimingAge
+          ? [projections[i], projections[j]]
+          : [projections[j], projections[i]];
+      breakevens.push({
+        earlierClaimingAge: earlier.claimingAge,
+        laterClaimingAge: later.claimingAge,
+        breakevenAge: findBreakevenAge(earlier, later),
+      });
+    }
+  }
+
+  return {
+    scenarioId: scenario.id,
+    scenarioName: scenario.name,
+    pia,
+    fullRetirementAge,
+    claimingAges: projections,
+    breakevens,
+  };
+}
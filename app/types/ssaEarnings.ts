@@ -0,0 +1,362 @@
+/**
+ * SSA Earnings Record Import and PIA Calculation
+ *
+ * This module computes a Primary Insurance Amount (PIA) from the user's SSA earnings record,
+ * including:
+ * - Parsing the XML download or PDF-extracted text from the user's SSA account
+ * - Projecting future covered earnings from each bucket's annualIncome until retirement
+ * - Indexing earnings with the national average wage index (AWI)
+ * - Averaged indexed monthly earnings (AIME) over the highest 35 years
+ * - PIA from the 90% / 32% / 15% bend-point formula
+ *
+ * Estimates are in today's dollars: wage indexing and bend points for years after the latest
+ * published AWI hold at the latest level, and projected earnings are not inflated.
+ */
+
+import { AssumptionBucket, getBucketForAge } from './scenarios';
+
+export interface YearlyEarnings {
+  year: number;
+  earnings: number; // Earnings taxed for Social Security
+  projected?: boolean; // Estimated from scenario income rather than the SSA record
+}
+
+export type SsaEarningsFormat = 'xml' | 'text';
+
+export interface SsaEarningsRecord {
+  userId: string;
+  format: SsaEarningsFormat;
+  earnings: YearlyEarnings[];
+  importedAt: string;
+}
+
+export interface UploadSsaEarningsRequest {
+  content: string; // XML download or text extracted from the PDF statement
+  format?: SsaEarningsFormat; // Detected from the content when omitted
+}
+
+export interface SsaEarningsResponse {
+  success: boolean;
+  earningsRecord?: SsaEarningsRecord;
+  error?: string;
+}
+
+export interface PiaEstimate {
+  eligibilityYear: number; // Year the user turns 62
+  indexingYear: number; // Earnings before this year are wage-indexed to it
+  bendPoints: [number, number];
+  aime: number; // Averaged indexed monthly earnings
+  pia: number; // Monthly Primary Insurance Amount
+  yearsCounted: number; // Years with earnings among the highest 35
+  earnings: YearlyEarnings[]; // Recorded and projected earnings used
+  annualBenefit?: number; // Annual benefit at the requested claiming age (today's dollars)
+}
+
+export interface EstimatePiaRequest {
+  retirementAge?: number;
+  socialSecurityAge?: number;
+  assumptionBuckets?: AssumptionBucket[];
+}
+
+export interface PiaEstimateResponse {
+  success: boolean;
+  estimate?: PiaEstimate;
+  error?: string;
+}
+
+// National average wage index (SSA), 1951 through the latest published year
+const NATIONAL_AVERAGE_WAGE_INDEX: Record<number, number> = {
+  1951: 2799.16, 1952: 2973.32, 1953: 3139.44, 1954: 3155.64, 1955: 3301.44,
+  1956: 3532.36, 1957: 3641.72, 1958: 3673.80, 1959: 3855.80, 1960: 4007.12,
+  1961: 4086.76, 1962: 4291.40, 1963: 4396.64, 1964: 4576.32, 1965: 4658.72,
+  1966: 4938.36, 1967: 5213.44, 1968: 5571.76, 1969: 5893.76, 1970: 6186.24,
+  1971: 6497.08, 1972: 7133.80, 1973: 7580.16, 1974: 8030.76, 1975: 8630.92,
+  1976: 9226.48, 1977: 9779.44, 1978: 10556.03, 1979: 11479.46, 1980: 12513.46,
+  1981: 13773.10, 1982: 14531.34, 1983: 15239.24, 1984: 16135.07, 1985: 16822.51,
+  1986: 17321.82, 1987: 18426.51, 1988: 19334.04, 1989: 20099.55, 1990: 21027.98,
+  1991: 21811.60, 1992: 22935.42, 1993: 23132.67, 1994: 23753.53, 1995: 24705.66,
+  1996: 25913.90, 1997: 27426.00, 1998: 28861.44, 1999: 30469.84, 2000: 32154.82,
+  2001: 32921.92, 2002: 33252.09, 2003: 34064.95, 2004: 35648.55, 2005: 36952.94,
+  2006: 38651.41, 2007: 40405.48, 2008: 41334.97, 2009: 40711.61, 2010: 41673.83,
+  2011: 42979.61, 2012: 44321.67, 2013: 44888.16, 2014: 46481.52, 2015: 48098.63,
+  2016: 48642.15, 2017: 50321.89, 2018: 52145.80, 2019: 54099.99, 2020: 55628.60,
+  2021: 60575.07, 2022: 63795.13, 2023: 66621.80,
+};
+
+const FIRST_WAGE_INDEX_YEAR = 1951;
+const LATEST_WAGE_INDEX_YEAR = 2023;
+
+// Bend points for 1979 eligibility, scaled by wage growth since 1977 for later years
+const BASE_BEND_POINTS: [number, number] = [180, 1085];
+const BEND_POINT_BASE_WAGE_INDEX_YEAR = 1977;
+
+// Contribution and benefit base for 1994, scaled by wage growth since 1992 for later years
+const BASE_TAXABLE_MAXIMUM = 60600;
+const TAXABLE_MAXIMUM_BASE_WAGE_INDEX_YEAR = 1992;
+
+const PIA_FACTORS = [0.9, 0.32, 0.15];
+const COMPUTATION_YEARS = 35;
+const MAX_UPLOAD_LENGTH = 1_000_000;
+
+/**
+ * Get the average wage index for a year
+ * Years after the latest published index hold at the latest level (today's dollars)
+ */
+export function getAverageWageIndex(year: number): number {
+  const indexYear = Math.min(LATEST_WAGE_INDEX_YEAR, Math.max(FIRST_WAGE_INDEX_YEAR, year));
+  return NATIONAL_AVERAGE_WAGE_INDEX[indexYear];
+}
+
+/**
+ * Get the PIA bend points for an eligibility year (the year the worker turns 62)
+ */
+export function getBendPoints(eligibilityYear: number): [number, number] {
+  const wageGrowth =
+    getAverageWageIndex(eligibilityYear - 2) / getAverageWageIndex(BEND_POINT_BASE_WAGE_INDEX_YEAR);
+  return [
+    Math.round(BASE_BEND_POINTS[0] * wageGrowth),
+    Math.round(BASE_BEND_POINTS[1] * wageGrowth),
+  ];
+}
+
+/**
+ * Get the maximum earnings taxed for Social Security in a year (rounded to a multiple of $300)
+ */
+export function getTaxableMaximum(year: number): number {
+  const wageGrowth =
+    getAverageWageIndex(year - 2) / getAverageWageIndex(TAXABLE_MAXIMUM_BASE_WAGE_INDEX_YEAR);
+  return Math.round((BASE_TAXABLE_MAXIMUM * wageGrowth) / 300) * 300;
+}
+
+/**
+ * Parse a dollar amount such as "$12,345" or "12345.00"
+ */
+function parseAmount(value: string): number {
+  return parseFloat(value.replace(/[$,\s]/g, ''));
+}
+
+/**
+ * Parse the XML earnings record downloaded from the user's SSA account
+ * Each <Earnings startYear endYear> element holds <FicaEarnings> (namespace prefixes ignored)
+ */
+export function parseSsaEarningsXml(xml: string): YearlyEarnings[] {
+  const earningsByYear = new Map<number, number>();
+  const elementPattern = /<(?:[\w-]+:)?Earnings\b([^>]*)>([\s\S]*?)<\/(?:[\w-]+:)?Earnings>/g;
+
+  for (const match of xml.matchAll(elementPattern)) {
+    const startYear = match[1].match(/startYear="(\d{4})"/);
+    const endYear = match[1].match(/endYear="(\d{4})"/);
+    const ficaEarnings = match[2].match(/<(?:[\w-]+:)?FicaEarnings>\s*([-\d.,]+)\s*</);
+
+    if (!startYear || !ficaEarnings) {
+      continue;
+    }
+
+    const earnings = parseAmount(ficaEarnings[1]);
+    if (isNaN(earnings) || earnings < 0) {
+      continue; // Negative values mark years not yet recorded
+    }
+
+    spreadEarnings(
+      earningsByYear,
+      parseInt(startYear[1], 10),
+      endYear ? parseInt(endYear[1], 10) : parseInt(startYear[1], 10),
+      earnings
+    );
+  }
+
+  return toSortedEarnings(earningsByYear);
+}
+
+/**
+ * Parse the earnings table from text extracted from the SSA statement PDF
+ * Rows look like "2019 $52,000 $52,000" (work year, taxed Social Security earnings, taxed
+ * Medicare earnings); multi-year rows such as "1991-2000 $250,000" are spread evenly
+ */
+export function parseSsaEarningsText(text: string): YearlyEarnings[] {
+  const earningsByYear = new Map<number, number>();
+  const rowPattern = /^\s*(\d{4})(?:\s*[-–]\s*(\d{4}))?\s+\$?\s*([\d,]+(?:\.\d{2})?)\b/;
+  const currentYear = new Date().getFullYear();
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(rowPattern);
+    if (!match) {
+      continue;
+    }
+
+    const startYear = parseInt(match[1], 10);
+    const endYear = match[2] ? parseInt(match[2], 10) : startYear;
+    if (startYear < 1937 || endYear > currentYear || endYear < startYear) {
+      continue;
+    }
+
+    spreadEarnings(earningsByYear, startYear, endYear, parseAmount(match[3]));
+  }
+
+  return toSortedEarnings(earningsByYear);
+}
+
+/**
+ * Parse an uploaded earnings record, detecting XML when no format is given
+ */
+export function parseSsaEarnings(content: string, format?: SsaEarningsFormat): YearlyEarnings[] {
+  const resolvedFormat = format ?? detectSsaEarningsFormat(content);
+  return resolvedFormat === 'xml' ? parseSsaEarningsXml(content) : parseSsaEarningsText(content);
+}
+
+/**
+ * Detect whether uploaded content is the XML download or extracted text
+ */
+export function detectSsaEarningsFormat(content: string): SsaEarningsFormat {
+  return content.trimStart().startsWith('<') ? 'xml' : 'text';
+}
+
+/**
+ * Record earnings for a year range, split evenly across its years
+ */
+function spreadEarnings(
+  earningsByYear: Map<number, number>,
+  startYear: number,
+  endYear: number,
+  earnings: number
+): void {
+  const years = endYear - startYear + 1;
+  for (let year = startYear; year <= endYear; year++) {
+    earningsByYear.set(year, earnings / years);
+  }
+}
+
+function toSortedEarnings(earningsByYear: Map<number, number>): YearlyEarnings[] {
+  return Array.from(earningsByYear.entries())
+    .map(([year, earnings]) => ({ year, earnings }))
+    .sort((a, b) => a.year - b.year);
+}
+
+/**
+ * Project covered earnings from each bucket's annualIncome (today's dollars, capped at the
+ * taxable maximum) for the years before retirement
+ *
+ * @param buckets - Scenario assumption buckets
+ * @param currentAge - User's age this year
+ * @param fromYear - First year to project
+ * @param retirementAge - Earnings stop at this age
+ */
+export function projectFutureEarnings(
+  buckets: AssumptionBucket[],
+  currentAge: number,
+  fromYear: number,
+  retirementAge: number
+): YearlyEarnings[] {
+  const currentYear = new Date().getFullYear();
+  const taxableMaximum = getTaxableMaximum(LATEST_WAGE_INDEX_YEAR + 2);
+  const projected: YearlyEarnings[] = [];
+
+  for (let year = fromYear; currentAge + (year - currentYear) < retirementAge; year++) {
+    const bucket = getBucketForAge(buckets, currentAge + (year - currentYear));
+    const income = bucket?.assumptions.annualIncome || 0;
+    if (income > 0) {
+      projected.push({ year, earnings: Math.min(income, taxableMaximum), projected: true });
+    }
+  }
+
+  return projected;
+}
+
+/**
+ * Calculate AIME and PIA from yearly earnings
+ *
+ * Earnings through the indexing year (two years before eligibility) are multiplied by
+ * AWI(indexing year) / AWI(year); later earnings count at face value. The highest 35 years
+ * are averaged per month and rounded down to the dollar, then run through the bend points;
+ * the PIA is rounded down to the dime.
+ *
+ * @param earnings - Yearly covered earnings
+ * @param birthYear - SSA birth year (see getSocialSecurityBirthYear)
+ */
+export function calculatePiaFromEarnings(earnings: YearlyEarnings[], birthYear: number): PiaEstimate {
+  const eligibilityYear = birthYear + 62;
+  const indexingYear = Math.min(eligibilityYear - 2, LATEST_WAGE_INDEX_YEAR);
+  const indexingWage = getAverageWageIndex(indexingYear);
+
+  const indexedEarnings = earnings
+    .map((entry) =>
+      entry.year <= indexingYear
+        ? entry.earnings * (indexingWage / getAverageWageIndex(entry.year))
+        : entry.earnings
+    )
+    .filter((amount) => amount > 0)
+    .sort((a, b) => b - a)
+    .slice(0, COMPUTATION_YEARS);
+
+  const aime = Math.floor(
+    indexedEarnings.reduce((sum, amount) => sum + amount, 0) / (COMPUTATION_YEARS * 12)
+  );
+
+  const bendPoints = getBendPoints(eligibilityYear);
+  const unroundedPia =
+    PIA_FACTORS[0] * Math.min(aime, bendPoints[0]) +
+    PIA_FACTORS[1] * Math.max(0, Math.min(aime, bendPoints[1]) - bendPoints[0]) +
+    PIA_FACTORS[2] * Math.max(0, aime - bendPoints[1]);
+
+  return {
+    eligibilityYear,
+    indexingYear,
+    bendPoints,
+    aime,
+    pia: Math.floor(unroundedPia * 10 + 1e-9) / 10,
+    yearsCounted: indexedEarnings.length,
+    earnings,
+  };
+}
+
+/**
+ * Estimate PIA from an SSA earnings record plus earnings projected from scenario buckets
+ *
+ * @param recorded - Earnings from the SSA record
+ * @param birthYear - SSA birth year
+ * @param currentAge - User's age this year
+ * @param buckets - Scenario assumption buckets (omit to use recorded earnings only)
+ * @param retirementAge - Age covered earnings stop
+ */
+export function estimatePia(
+  recorded: YearlyEarnings[],
+  birthYear: number,
+  currentAge: number,
+  buckets: AssumptionBucket[] = [],
+  retirementAge: number = currentAge
+): PiaEstimate {
+  const lastRecordedYear = recorded.reduce((latest, entry) => Math.max(latest, entry.year), 0);
+  const fromYear = Math.max(new Date().getFullYear(), lastRecordedYear + 1);
+
+  return calculatePiaFromEarnings(
+    [...recorded, ...projectFutureEarnings(buckets, currentAge, fromYear, retirementAge)],
+    birthYear
+  );
+}
+
+/**
+ * Validate an earnings record upload
+ *
+ * @returns Error message if invalid, null if valid
+ */
+export function validateSsaEarningsUpload(data: unknown): string | null {
+  if (!data || typeof data !== 'object' || data === null) {
+    return 'Upload data must be an object';
+  }
+
+  const dataObj = data as Record<string, unknown>;
+
+  if (typeof dataObj.content !== 'string' || dataObj.content.trim() === '') {
+    return 'Earnings record content is required';
+  }
+
+  if (dataObj.content.length > MAX_UPLOAD_LENGTH) {
+    return 'Earnings record must be 1 MB or less';
+  }
+
+  if (dataObj.format !== undefined && dataObj.format !== 'xml' && dataObj.format !== 'text') {
+    return 'format must be "xml" or "text"';
+  }
+
+  return null;
+}
@@ -0,0 +1,675 @@
+/**
+ * State Income Tax Types and Calculations
+ *
+ * This module models state income tax within projections, including:
+ * - A bundled rules table for all 50 states plus DC (tax year 2025, today's dollars)
+ * - Whether the state taxes Social Security benefits
+ * - Retirement distribution exclusions (amount per taxpayer and qualifying age), applied to each
+ *   spouse's own retirement income at their own age on joint returns
+ * - Relocation: a scenario can move the user to a new state from a given age
+ *
+ * The rules are simplified: joint filers get double the single bracket widths and standard
+ * deduction, states that tax Social Security tax the federally taxable portion, and
+ * income-tested exemptions and local (city/county) income taxes are not modeled.
+ * Brackets and deductions are indexed with the projection's inflation factor.
+ */
+
+import { TaxBracket, FilingStatus, calculateBracketTax } from './taxes';
+import { UserProfile } from './profile';
+import { Scenario } from './scenarios';
+
+export type StateCode =
+  | 'AL' | 'AK' | 'AZ' | 'AR' | 'CA' | 'CO' | 'CT' | 'DE' | 'DC' | 'FL'
+  | 'GA' | 'HI' | 'ID' | 'IL' | 'IN' | 'IA' | 'KS' | 'KY' | 'LA' | 'ME'
+  | 'MD' | 'MA' | 'MI' | 'MN' | 'MS' | 'MO' | 'MT' | 'NE' | 'NV' | 'NH'
+  | 'NJ' | 'NM' | 'NY' | 'NC' | 'ND' | 'OH' | 'OK' | 'OR' | 'PA' | 'RI'
+  | 'SC' | 'SD' | 'TN' | 'TX' | 'UT' | 'VT' | 'VA' | 'WA' | 'WV' | 'WI'
+  | 'WY';
+
+export interface StateTaxRules {
+  name: string;
+  brackets: TaxBracket[]; // Single filer schedule (empty if no income tax)
+  standardDeduction: number; // Single filer standard deduction / personal exemption
+  taxesSocialSecurity: boolean;
+  retirementExclusion: number; // Retirement distributions excluded per taxpayer (Infinity = fully exempt)
+  retirementExclusionAge: number; // Minimum age to claim the exclusion
+}
+
+export interface StateTaxInput {
+  state?: StateCode; // Undefined = no state income tax modeled
+  wages: number; // Employment income after pre-tax contributions
+  retirementIncome: number; // RMDs and tax-deferred account withdrawals (household total)
+  spouseRetirementIncome?: number; // The spouse's share of retirementIncome (joint filers)
+  taxableSocialSecurity: number; // Federally taxable portion of Social Security
+  capitalGains?: number; // Realized long-term gains (taxed as ordinary income by states)
+  filingStatus: FilingStatus;
+  inflationFactor: number; // Cumulative inflation since base tax year
+  age: number;
+  spouseAge?: number; // Joint filers with a spouse only
+}
+
+export interface StateTaxResult {
+  state?: StateCode;
+  retirementExclusion: number; // Retirement income excluded this year
+  taxableIncome: number;
+  tax: number;
+}
+
+const NO_INCOME_TAX = {
+  brackets: [],
+  standardDeduction: 0,
+  taxesSocialSecurity: false,
+  retirementExclusion: 0,
+  retirementExclusionAge: 0,
+};
+
+/**
+ * Single-bracket schedule for flat-tax states
+ */
+function flatRate(rate: number): TaxBracket[] {
+  return [{ rate, upTo: Infinity }];
+}
+
+export const STATE_TAX_RULES: Record<StateCode, StateTaxRules> = {
+  AL: {
+    name: 'Alabama',
+    brackets: [
+      { rate: 2, upTo: 500 },
+      { rate: 4, upTo: 3000 },
+      { rate: 5, upTo: Infinity },
+    ],
+    standardDeduction: 2500,
+    taxesSocialSecurity: false,
+    retirementExclusion: 6000,
+    retirementExclusionAge: 65,
+  },
+  AK: { name: 'Alaska', ...NO_INCOME_TAX },
+  AZ: {
+    name: 'Arizona',
+    brackets: flatRate(2.5),
+    standardDeduction: 15750,
+    taxesSocialSecurity: false,
+    retirementExclusion: 0,
+    retirementExclusionAge: 0,
+  },
+  AR: {
+    name: 'Arkansas',
+    brackets: [
+      { rate: 0, upTo: 5499 },
+      { rate: 2, upTo: 10899 },
+      { rate: 3, upTo: 15599 },
+      { rate: 3.4, upTo: 25699 },
+      { rate: 3.9, upTo: Infinity },
+    ],
+    standardDeduction: 2410,
+    taxesSocialSecurity: false,
+    retirementExclusion: 6000,
+    retirementExclusionAge: 59.5,
+  },
+  CA: {
+    name: 'California',
+    brackets: [
+      { rate: 1, upTo: 10756 },
+      { rate: 2, upTo: 25499 },
+      { rate: 4, upTo: 40245 },
+      { rate: 6, upTo: 55866 },
+      { rate: 8, upTo: 70606 },
+      { rate: 9.3, upTo: 360659 },
+      { rate: 10.3, upTo: 432787 },
+      { rate: 11.3, upTo: 721314 },
+      { rate: 12.3, upTo: Infinity },
+    ],
+    standardDeduction: 5540,
+    taxesSocialSecurity: false,
+    retirementExclusion: 0,
+    retirementExclusionAge: 0,
+  },
+  CO: {
+    name: 'Colorado',
+    brackets: flatRate(4.4),
+    standardDeduction: 15750,
+    taxesSocialSecurity: true,
+    retirementExclusion: 24000,
+    retirementExclusionAge: 65,
+  },
+  CT: {
+    name: 'Connecticut',
+    brackets: [
+      { rate: 2, upTo: 10000 },
+      { rate: 4.5, upTo: 50000 },
+      { rate: 5.5, upTo: 100000 },
+      { rate: 6, upTo: 200000 },
+      { rate: 6.5, upTo: 250000 },
+      { rate: 6.9, upTo: 500000 },
+      { rate: 6.99, upTo: Infinity },
+    ],
+    standardDeduction: 15000,
+    taxesSocialSecurity: true,
+    retirementExclusion: 0,
+    retirementExclusionAge: 0,
+  },
+  DE: {
+    name: 'Delaware',
+    brackets: [
+      { rate: 0, upTo: 2000 },
+      { rate: 2.2, upTo: 5000 },
+      { rate: 3.9, upTo: 10000 },
+      { rate: 4.8, upTo: 20000 },
+      { rate: 5.2, upTo: 25000 },
+      { rate: 5.55, upTo: 60000 },
+      { rate: 6.6, upTo: Infinity },
+    ],
+    standardDeduction: 3250,
+    taxesSocialSecurity: false,
+    retirementExclusion: 12500,
+    retirementExclusionAge: 60,
+  },
+  DC: {
+    name: 'District of Columbia',
+    brackets: [
+      { rate: 4, upTo: 10000 },
+      { rate: 6, upTo: 40000 },
+      { rate: 6.5, upTo: 60000 },
+      { rate: 8.5, upTo: 250000 },
+      { rate: 9.25, upTo: 500000 },
+      { rate: 9.75, upTo: 1000000 },
+      { rate: 10.75, upTo: Infinity },
+    ],
+    standardDeduction: 15750,
+    taxesSocialSecurity: false,
+    retirementExclusion: 0,
+    retirementExclusionAge: 0,
+  },
+  FL: { name: 'Florida', ...NO_INCOME_TAX },
+  GA: {
+    name: 'Georgia',
+    brackets: flatRate(5.19),
+    standardDeduction: 12000,
+    taxesSocialSecurity: false,
+    retirementExclusion: 65000,
+    retirementExclusionAge: 65,
+  },
+  HI: {
+    name: 'Hawaii',
+    brackets: [
+      { rate: 1.4, upTo: 9600 },
+      { rate: 3.2, upTo: 14400 },
+      { rate: 5.5, upTo: 19200 },
+      { rate: 6.4, upTo: 24000 },
+      { rate: 6.8, upTo: 36000 },
+      { rate: 7.2, upTo: 48000 },
+      { rate: 7.6, upTo: 125000 },
+      { rate: 7.9, upTo: 175000 },
+      { rate: 8.25, upTo: 225000 },
+      { rate: 9, upTo: 275000 },
+      { rate: 10, upTo: 325000 },
+      { rate: 11, upTo: Infinity },
+    ],
+    standardDeduction: 4400,
+    taxesSocialSecurity: false,
+    retirementExclusion: 0,
+    retirementExclusionAge: 0,
+  },
+  ID: {
+    name: 'Idaho',
+    brackets: flatRate(5.3),
+    standardDeduction: 15750,
+    taxesSocialSecurity: false,
+    retirementExclusion: 0,
+    retirementExclusionAge: 0,
+  },
+  IL: {
+    name: 'Illinois',
+    brackets: flatRate(4.95),
+    standardDeduction: 2850,
+    taxesSocialSecurity: false,
+    retirementExclusion: Infinity,
+    retirementExclusionAge: 0,
+  },
+  IN: {
+    name: 'Indiana',
+    brackets: flatRate(3.0),
+    standardDeduction: 1000,
+    taxesSocialSecurity: false,
+    retirementExclusion: 0,
+    retirementExclusionAge: 0,
+  },
+  IA: {
+    name: 'Iowa',
+    brackets: flatRate(3.8),
+    standardDeduction: 15750,
+    taxesSocialSecurity: false,
+    retirementExclusion: Infinity,
+    retirementExclusionAge: 55,
+  },
+  KS: {
+    name: 'Kansas',
+    brackets: [
+      { rate: 5.2, upTo: 23000 },
+      { rate: 5.58, upTo: Infinity },
+    ],
+    standardDeduction: 3605,
+    taxesSocialSecurity: false,
+    retirementExclusion: 0,
+    retirementExclusionAge: 0,
+  },
+  KY: {
+    name: 'Kentucky',
+    brackets: flatRate(4.0),
+    standardDeduction: 3270,
+    taxesSocialSecurity: false,
+    retirementExclusion: 31110,
+    retirementExclusionAge: 0,
+  },
+  LA: {
+    name: 'Louisiana',
+    brackets: flatRate(3.0),
+    standardDeduction: 12500,
+    taxesSocialSecurity: false,
+    retirementExclusion: 12000,
+    retirementExclusionAge: 65,
+  },
+  ME: {
+    name: 'Maine',
+    brackets: [
+      { rate: 5.8, upTo: 26800 },
+      { rate: 6.75, upTo: 63450 },
+      { rate: 7.15, upTo: Infinity },
+    ],
+    standardDeduction: 15750,
+    taxesSocialSecurity: false,
+    retirementExclusion: 45864,
+    retirementExclusionAge: 0,
+  },
+  MD: {
+    name: 'Maryland',
+    brackets: [
+      { rate: 2, upTo: 1000 },
+      { rate: 3, upTo: 2000 },
+      { rate: 4, upTo: 3000 },
+      { rate: 4.75, upTo: 100000 },
+      { rate: 5, upTo: 125000 },
+      { rate: 5.25, upTo: 150000 },
+      { rate: 5.5, upTo: 250000 },
+      { rate: 5.75, upTo: 500000 },
+      { rate: 6.25, upTo: 1000000 },
+      { rate: 6.5, upTo: Infinity },
+    ],
+    standardDeduction: 3350,
+    taxesSocialSecurity: false,
+    retirementExclusion: 41200,
+    retirementExclusionAge: 65,
+  },
+  MA: {
+    name: 'Massachusetts',
+    brackets: [
+      { rate: 5, upTo: 1083150 },
+      { rate: 9, upTo: Infinity },
+    ],
+    standardDeduction: 4400,
+    taxesSocialSecurity: false,
+    retirementExclusion: 0,
+    retirementExclusionAge: 0,
+  },
+  MI: {
+    name: 'Michigan',
+    brackets: flatRate(4.25),
+    standardDeduction: 5800,
+    taxesSocialSecurity: false,
+    retirementExclusion: Infinity,
+    retirementExclusionAge: 59.5,
+  },
+  MN: {
+    name: 'Minnesota',
+    brackets: [
+      { rate: 5.35, upTo: 32570 },
+      { rate: 6.8, upTo: 106990 },
+      { rate: 7.85, upTo: 198630 },
+      { rate: 9.85, upTo: Infinity },
+    ],
+    standardDeduction: 14950,
+    taxesSocialSecurity: true,
+    retirementExclusion: 0,
+    retirementExclusionAge: 0,
+  },
+  MS: {
+    name: 'Mississippi',
+    brackets: [
+      { rate: 0, upTo: 10000 },
+      { rate: 4.4, upTo: Infinity },
+    ],
+    standardDeduction: 8300,
+    taxesSocialSecurity: false,
+    retirementExclusion: Infinity,
+    retirementExclusionAge: 0,
+  },
+  MO: {
+    name: 'Missouri',
+    brackets: [
+      { rate: 0, upTo: 1313 },
+      { rate: 2, upTo: 2626 },
+      { rate: 2.5, upTo: 3939 },
+      { rate: 3, upTo: 5252 },
+      { rate: 3.5, upTo: 6565 },
+      { rate: 4, upTo: 7878 },
+      { rate: 4.5, upTo: 9191 },
+      { rate: 4.7, upTo: Infinity },
+    ],
+    standardDeduction: 15750,
+    taxesSocialSecurity: false,
+    retirementExclusion: 6000,
+    retirementExclusionAge: 62,
+  },
+  MT: {
+    name: 'Montana',
+    brackets: [
+      { rate: 4.7, upTo: 21100 },
+      { rate: 5.9, upTo: Infinity },
+    ],
+    standardDeduction: 15750,
+    taxesSocialSecurity: true,
+    retirementExclusion: 5500,
+    retirementExclusionAge: 65,
+  },
+  NE: {
+    name: 'Nebraska',
+    brackets: [
+      { rate: 2.46, upTo: 4030 },
+      { rate: 3.51, upTo: 24120 },
+      { rate: 5.01, upTo: 38870 },
+      { rate: 5.2, upTo: Infinity },
+    ],
+    standardDeduction: 8600,
+    taxesSocialSecurity: false,
+    retirementExclusion: 0,
+    retirementExclusionAge: 0,
+  },
+  NV: { name: 'Nevada', ...NO_INCOME_TAX },
+  NH: { name: 'New Hampshire', ...NO_INCOME_TAX },
+  NJ: {
+    name: 'New Jersey',
+    brackets: [
+      { rate: 1.4, upTo: 20000 },
+      { rate: 1.75, upTo: 35000 },
+      { rate: 3.5, upTo: 40000 },
+      { rate: 5.525, upTo: 75000 },
+      { rate: 6.37, upTo: 500000 },
+      { rate: 8.97, upTo: 1000000 },
+      { rate: 10.75, upTo: Infinity },
+    ],
+    standardDeduction: 1000,
+    taxesSocialSecurity: false,
+    retirementExclusion: 75000,
+    retirementExclusionAge: 62,
+  },
+  NM: {
+    name: 'New Mexico',
+    brackets: [
+      { rate: 1.5, upTo: 5500 },
+      { rate: 3.2, upTo: 16500 },
+      { rate: 4.3, upTo: 33500 },
+      { rate: 4.7, upTo: 66500 },
+      { rate: 4.9, upTo: 210000 },
+      { rate: 5.9, upTo: Infinity },
+    ],
+    standardDeduction: 15750,
+    taxesSocialSecurity: true,
+    retirementExclusion: 0,
+    retirementExclusionAge: 0,
+  },
+  NY: {
+    name: 'New York',
+    brackets: [
+      { rate: 4, upTo: 8500 },
+      { rate: 4.5, upTo: 11700 },
+      { rate: 5.25, upTo: 13900 },
+      { rate: 5.5, upTo: 80650 },
+      { rate: 6, upTo: 215400 },
+      { rate: 6.85, upTo: 1077550 },
+      { rate: 9.65, upTo: 5000000 },
+      { rate: 10.3, upTo: 25000000 },
+      { rate: 10.9, upTo: Infinity },
+    ],
+    standardDeduction: 8000,
+    taxesSocialSecurity: false,
+    retirementExclusion: 20000,
+    retirementExclusionAge: 59.5,
+  },
+  NC: {
+    name: 'North Carolina',
+    brackets: flatRate(4.25),
+    standardDeduction: 12750,
+    taxesSocialSecurity: false,
+    retirementExclusion: 0,
+    retirementExclusionAge: 0,
+  },
+  ND: {
+    name: 'North Dakota',
+    brackets: [
+      { rate: 0, upTo: 48475 },
+      { rate: 1.95, upTo: 244825 },
+      { rate: 2.5, upTo: Infinity },
+    ],
+    standardDeduction: 15750,
+    taxesSocialSecurity: false,
+    retirementExclusion: 0,
+    retirementExclusionAge: 0,
+  },
+  OH: {
+    name: 'Ohio',
+    brackets: [
+      { rate: 0, upTo: 26050 },
+      { rate: 2.75, upTo: 100000 },
+      { rate: 3.5, upTo: Infinity },
+    ],
+    standardDeduction: 2400,
+    taxesSocialSecurity: false,
+    retirementExclusion: 0,
+    retirementExclusionAge: 0,
+  },
+  OK: {
+    name: 'Oklahoma',
+    brackets: [
+      { rate: 0.25, upTo: 1000 },
+      { rate: 0.75, upTo: 2500 },
+      { rate: 1.75, upTo: 3750 },
+      { rate: 2.75, upTo: 4900 },
+      { rate: 3.75, upTo: 7200 },
+      { rate: 4.75, upTo: Infinity },
+    ],
+    standardDeduction: 6350,
+    taxesSocialSecurity: false,
+    retirementExclusion: 10000,
+    retirementExclusionAge: 65,
+  },
+  OR: {
+    name: 'Oregon',
+    brackets: [
+      { rate: 4.75, upTo: 4400 },
+      { rate: 6.75, upTo: 11050 },
+      { rate: 8.75, upTo: 125000 },
+      { rate: 9.9, upTo: Infinity },
+    ],
+    standardDeduction: 2835,
+    taxesSocialSecurity: false,
+    retirementExclusion: 0,
+    retirementExclusionAge: 0,
+  },
+  PA: {
+    name: 'Pennsylvania',
+    brackets: flatRate(3.07),
+    standardDeduction: 0,
+    taxesSocialSecurity: false,
+    retirementExclusion: Infinity,
+    retirementExclusionAge: 59.5,
+  },
+  RI: {
+    name: 'Rhode Island',
+    brackets: [
+      { rate: 3.75, upTo: 79900 },
+      { rate: 4.75, upTo: 181650 },
+      { rate: 5.99, upTo: Infinity },
+    ],
+    standardDeduction: 10900,
+    taxesSocialSecurity: true,
+    retirementExclusion: 20000,
+    retirementExclusionAge: 67,
+  },
+  SC: {
+    name: 'South Carolina',
+    brackets: [
+      { rate: 0, upTo: 3560 },
+      { rate: 3, upTo: 17830 },
+      { rate: 6.2, upTo: Infinity },
+    ],
+    standardDeduction: 15750,
+    taxesSocialSecurity: false,
+    retirementExclusion: 10000,
+    retirementExclusionAge: 65,
+  },
+  SD: { name: 'South Dakota', ...NO_INCOME_TAX },
+  TN: { name: 'Tennessee', ...NO_INCOME_TAX },
+  TX: { name: 'Texas', ...NO_INCOME_TAX },
+  UT: {
+    name: 'Utah',
+    brackets: flatRate(4.5),
+    standardDeduction: 15750,
+    taxesSocialSecurity: true,
+    retirementExclusion: 0,
+    retirementExclusionAge: 0,
+  },
+  VT: {
+    name: 'Vermont',
+    brackets: [
+      { rate: 3.35, upTo: 47900 },
+      { rate: 6.6, upTo: 116000 },
+      { rate: 7.6, upTo: 242000 },
+      { rate: 8.75, upTo: Infinity },
+    ],
+    standardDeduction: 7400,
+    taxesSocialSecurity: true,
+    retirementExclusion: 0,
+    retirementExclusionAge: 0,
+  },
+  VA: {
+    name: 'Virginia',
+    brackets: [
+      { rate: 2, upTo: 3000 },
+      { rate: 3, upTo: 5000 },
+      { rate: 5, upTo: 17000 },
+      { rate: 5.75, upTo: Infinity },
+    ],
+    standardDeduction: 8500,
+    taxesSocialSecurity: false,
+    retirementExclusion: 12000,
+    retirementExclusionAge: 65,
+  },
+  WA: { name: 'Washington', ...NO_INCOME_TAX },
+  WV: {
+    name: 'West Virginia',
+    brackets: [
+      { rate: 2.22, upTo: 10000 },
+      { rate: 2.96, upTo: 25000 },
+      { rate: 3.33, upTo: 40000 },
+      { rate: 4.44, upTo: 60000 },
+      { rate: 4.82, upTo: Infinity },
+    ],
+    standardDeduction: 2000,
+    taxesSocialSecurity: false,
+    retirementExclusion: 8000,
+    retirementExclusionAge: 65,
+  },
+  WI: {
+    name: 'Wisconsin',
+    brackets: [
+      { rate: 3.5, upTo: 14680 },
+      { rate: 4.4, upTo: 29370 },
+      { rate: 5.3, upTo: 323290 },
+      { rate: 7.65, upTo: Infinity },
+    ],
+    standardDeduction: 13560,
+    taxesSocialSecurity: false,
+    retirementExclusion: 5000,
+    retirementExclusionAge: 65,
+  },
+  WY: { name: 'Wyoming', ...NO_INCOME_TAX },
+};
+
+/**
+ * Type guard to check if value is a valid StateCode
+ */
+export function isValidStateCode(code: unknown): code is StateCode {
+  return typeof code === 'string' && Object.prototype.hasOwnProperty.call(STATE_TAX_RULES, code);
+}
+
+/**
+ * Get the state the user lives in at a given age
+ * A scenario relocation applies from the relocation age onward
+ */
+export function getStateOfResidence(
+  userProfile: UserProfile,
+  scenario: Scenario,
+  age: number
+): StateCode | undefined {
+  if (
+    scenario.relocationState &&
+    scenario.relocationAge !== undefined &&
+    age >= scenario.relocationAge
+  ) {
+    return scenario.relocationState;
+  }
+  return userProfile.stateOfResidence;
+}
+
+/**
+ * Calculate the retirement exclusion for one taxpayer's own retirement income
+ */
+function calculateRetirementExclusion(rules: StateTaxRules, retirementIncome: number, age: number): number {
+  return age >= rules.retirementExclusionAge ? Math.min(retirementIncome, rules.retirementExclusion) : 0;
+}
+
+/**
+ * Calculate state income tax for a projection year
+ * On a joint return each spouse claims the retirement exclusion on their own retirement income
+ * once they reach the qualifying age
+ */
+export function calculateStateIncomeTax(input: StateTaxInput): StateTaxResult {
+  if (!input.state) {
+    return { retirementExclusion: 0, taxableIncome: 0, tax: 0 };
+  }
+
+  const rules = STATE_TAX_RULES[input.state];
+  const filers = input.filingStatus === 'married-filing-jointly' ? 2 : 1;
+
+  const retirementIncome = Math.max(0, input.retirementIncome);
+  const spouseRetirementIncome =
+    filers === 2 && input.spouseAge !== undefined
+      ? Math.min(retirementIncome, Math.max(0, input.spouseRetirementIncome || 0))
+      : 0;
+  const retirementExclusion =
+    calculateRetirementExclusion(rules, retirementIncome - spouseRetirementIncome, input.age) +
+    (spouseRetirementIncome > 0
+      ? calculateRetirementExclusion(rules, spouseRetirementIncome, input.spouseAge ?? 0)
+      : 0);
+
+  const stateIncome =
+    Math.max(0, input.wages) +
+    retirementIncome -
+    retirementExclusion +
+    Math.max(0, input.capitalGains || 0) +
+    (rules.taxesSocialSecurity ? input.taxableSocialSecurity : 0);
+  const standardDeduction = rules.standardDeduction * filers * input.inflationFactor;
+  const taxableIncome = Math.max(0, stateIncome - standardDeduction);
+
+  const brackets = rules.brackets.map((bracket) => ({
+    rate: bracket.rate,
+    upTo: bracket.upTo * filers,
+  }));
+
+  return {
+    state: input.state,
+    retirementExclusion,
+    taxableIncome,
+    tax: calculateBracketTax(taxableIncome, brackets, input.inflationFactor),
+  };
+}
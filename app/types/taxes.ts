@@ -0,0 +1,401 @@
+/**
+ * Federal Income Tax Types and Calculations
+ *
+ * This module models federal ordinary income tax within projections, including:
+ * - Progressive brackets and the standard deduction by filing status
+ * - Additional standard deduction at age 65+
+ * - Taxation of Social Security benefits (up to 85% based on provisional income)
+ * - Long-term capital gains at 0/15/20%, stacked on top of ordinary income
+ * - Net investment income tax (3.8% above statutory MAGI thresholds)
+ * - Self-employment tax on net self-employment earnings (half is deductible)
+ * - Inflation indexing of brackets and deductions
+ *
+ * Bracket and deduction amounts are for tax year 2025 (today's dollars) and are indexed with
+ * the same inflation factor the projection applies to spending.
+ */
+
+import { MaritalStatus } from './profile';
+
+export type FilingStatus = 'single' | 'married-filing-jointly' | 'head-of-household';
+
+export interface TaxBracket {
+  rate: number; // Marginal rate as percentage (e.g., 22 for 22%)
+  upTo: number; // Upper bound of taxable income for this bracket (Infinity for top bracket)
+}
+
+export interface FederalTaxInput {
+  ordinaryIncome: number; // Wages, RMDs, tax-deferred withdrawals (after pre-tax contributions)
+  socialSecurity: number; // Gross Social Security benefits
+  longTermCapitalGains?: number; // Realized long-term gains and qualified dividends
+  selfEmploymentIncome?: number; // Net self-employment earnings (included in ordinaryIncome)
+  otherInvestmentIncome?: number; // Rental income (included in ordinaryIncome); subject to NIIT
+  filingStatus: FilingStatus;
+  inflationFactor: number; // Cumulative inflation since base tax year
+  age: number;
+  spouseAge?: number; // Set on joint returns (a spouse 65+ adds a second additional deduction)
+}
+
+export interface FederalTaxResult {
+  grossIncome: number; // Ordinary income + taxable Social Security + capital gains
+  taxableSocialSecurity: number;
+  standardDeduction: number;
+  taxableIncome: number; // Gross income less standard deduction
+  ordinaryIncomeTax: number;
+  capitalGainsTax: number;
+  netInvestmentIncomeTax: number;
+  selfEmploymentTax: number;
+  tax: number; // Ordinary income tax + capital gains tax + NIIT + self-employment tax
+  marginalRate: number; // Ordinary income marginal rate (percentage)
+}
+
+export const TAX_BASE_YEAR = 2025;
+
+export const FEDERAL_TAX_BRACKETS: Record<FilingStatus, TaxBracket[]> = {
+  single: [
+    { rate: 10, upTo: 11925 },
+    { rate: 12, upTo: 48475 },
+    { rate: 22, upTo: 103350 },
+    { rate: 24, upTo: 197300 },
+    { rate: 32, upTo: 250525 },
+    { rate: 35, upTo: 626350 },
+    { rate: 37, upTo: Infinity },
+  ],
+  'married-filing-jointly': [
+    { rate: 10, upTo: 23850 },
+    { rate: 12, upTo: 96950 },
+    { rate: 22, upTo: 206700 },
+    { rate: 24, upTo: 394600 },
+    { rate: 32, upTo: 501050 },
+    { rate: 35, upTo: 751600 },
+    { rate: 37, upTo: Infinity },
+  ],
+  'head-of-household': [
+    { rate: 10, upTo: 17000 },
+    { rate: 12, upTo: 64850 },
+    { rate: 22, upTo: 103350 },
+    { rate: 24, upTo: 197300 },
+    { rate: 32, upTo: 250500 },
+    { rate: 35, upTo: 626350 },
+    { rate: 37, upTo: Infinity },
+  ],
+};
+
+// Long-term capital gains brackets: upTo is total taxable income (ordinary + gains)
+export const CAPITAL_GAINS_BRACKETS: Record<FilingStatus, TaxBracket[]> = {
+  single: [
+    { rate: 0, upTo: 48350 },
+    { rate: 15, upTo: 533400 },
+    { rate: 20, upTo: Infinity },
+  ],
+  'married-filing-jointly': [
+    { rate: 0, upTo: 96700 },
+    { rate: 15, upTo: 600050 },
+    { rate: 20, upTo: Infinity },
+  ],
+  'head-of-household': [
+    { rate: 0, upTo: 64750 },
+    { rate: 15, upTo: 566700 },
+    { rate: 20, upTo: Infinity },
+  ],
+};
+
+export const NET_INVESTMENT_INCOME_TAX_RATE = 3.8;
+
+// Self-employment tax: Social Security (up to the wage base) and Medicare on 92.35% of net earnings
+export const SELF_EMPLOYMENT_EARNINGS_FACTOR = 0.9235;
+export const SELF_EMPLOYMENT_SOCIAL_SECURITY_RATE = 12.4;
+export const SELF_EMPLOYMENT_MEDICARE_RATE = 2.9;
+export const SOCIAL_SECURITY_WAGE_BASE = 176100; // 2025, indexed with inflation
+
+// Net investment income tax MAGI thresholds (set by statute, NOT inflation indexed)
+const NET_INVESTMENT_INCOME_THRESHOLDS: Record<FilingStatus, number> = {
+  single: 200000,
+  'married-filing-jointly': 250000,
+  'head-of-household': 200000,
+};
+
+export const STANDARD_DEDUCTION: Record<FilingStatus, number> = {
+  single: 15750,
+  'married-filing-jointly': 31500,
+  'head-of-household': 23625,
+};
+
+// Additional standard deduction per person age 65 or older
+const ADDITIONAL_DEDUCTION_65: Record<FilingStatus, number> = {
+  single: 2000,
+  'married-filing-jointly': 1600,
+  'head-of-household': 2000,
+};
+
+// Social Security provisional income thresholds (set by statute, NOT inflation indexed)
+const SOCIAL_SECURITY_THRESHOLDS: Record<FilingStatus, { base: number; adjusted: number }> = {
+  single: { base: 25000, adjusted: 34000 },
+  'married-filing-jointly': { base: 32000, adjusted: 44000 },
+  'head-of-household': { base: 25000, adjusted: 34000 },
+};
+
+/**
+ * Derive the federal filing status from the user's profile
+ * Married users file jointly; unmarried users with dependents file as head of household
+ */
+export function getFilingStatus(
+  maritalStatus: MaritalStatus,
+  numberOfDependents: number = 0
+): FilingStatus {
+  if (maritalStatus === 'married') {
+    return 'married-filing-jointly';
+  }
+  return numberOfDependents > 0 ? 'head-of-household' : 'single';
+}
+
+/**
+ * Get the standard deduction for a filing status, indexed to inflation
+ * On a joint return each spouse 65 or older adds the additional deduction
+ */
+export function getStandardDeduction(
+  filingStatus: FilingStatus,
+  inflationFactor: number,
+  age: number,
+  spouseAge?: number
+): number {
+  const base = STANDARD_DEDUCTION[filingStatus];
+  const qualifyingFilers =
+    (age >= 65 ? 1 : 0) +
+    (filingStatus === 'married-filing-jointly' && spouseAge !== undefined && spouseAge >= 65 ? 1 : 0);
+  return (base + qualifyingFilers * ADDITIONAL_DEDUCTION_65[filingStatus]) * inflationFactor;
+}
+
+/**
+ * Calculate tax on taxable income using a progressive bracket schedule
+ *
+ * @param taxableIncome - Income after deductions
+ * @param brackets - Bracket schedule in base-year dollars
+ * @param inflationFactor - Cumulative inflation since the base tax year (scales bracket bounds)
+ * @returns Tax owed
+ */
+export function calculateBracketTax(
+  taxableIncome: number,
+  brackets: TaxBracket[],
+  inflationFactor: number
+): number {
+  let tax = 0;
+  let lowerBound = 0;
+
+  for (const bracket of brackets) {
+    const upperBound = bracket.upTo * inflationFactor;
+    if (taxableIncome <= lowerBound) {
+      break;
+    }
+    const incomeInBracket = Math.min(taxableIncome, upperBound) - lowerBound;
+    tax += incomeInBracket * (bracket.rate / 100);
+    lowerBound = upperBound;
+  }
+
+  return tax;
+}
+
+/**
+ * Calculate federal tax on taxable income using progressive brackets indexed to inflation
+ *
+ * @param taxableIncome - Income after deductions
+ * @param filingStatus - Federal filing status
+ * @param inflationFactor - Cumulative inflation since the base tax year
+ * @returns Tax owed
+ */
+export function calculateOrdinaryIncomeTax(
+  taxableIncome: number,
+  filingStatus: FilingStatus,
+  inflationFactor: number
+): number {
+  return calculateBracketTax(taxableIncome, FEDERAL_TAX_BRACKETS[filingStatus], inflationFactor);
+}
+
+/**
+ * Get the top of a federal ordinary income bracket in taxable income, indexed to inflation
+ *
+ * @returns Upper bound of the bracket, or null if no bracket has that rate (or it is the top bracket)
+ */
+export function getBracketCeiling(
+  rate: number,
+  filingStatus: FilingStatus,
+  inflationFactor: number
+): number | null {
+  const bracket = FEDERAL_TAX_BRACKETS[filingStatus].find((b) => b.rate === rate);
+  if (!bracket || bracket.upTo === Infinity) {
+    return null;
+  }
+  return bracket.upTo * inflationFactor;
+}
+
+/**
+ * Get the marginal rate that applies to the next dollar of taxable income
+ */
+export function getMarginalRate(
+  taxableIncome: number,
+  filingStatus: FilingStatus,
+  inflationFactor: number
+): number {
+  for (const bracket of FEDERAL_TAX_BRACKETS[filingStatus]) {
+    if (taxableIncome < bracket.upTo * inflationFactor) {
+      return bracket.rate;
+    }
+  }
+  return FEDERAL_TAX_BRACKETS[filingStatus][FEDERAL_TAX_BRACKETS[filingStatus].length - 1].rate;
+}
+
+/**
+ * Calculate the taxable portion of Social Security benefits (IRS Publication 915 worksheet)
+ *
+ * @param benefits - Gross Social Security benefits
+ * @param otherIncome - Other ordinary income
+ * @param filingStatus - Federal filing status
+ * @returns Taxable benefits (0% to 85% of benefits)
+ */
+export function calculateTaxableSocialSecurity(
+  benefits: number,
+  otherIncome: number,
+  filingStatus: FilingStatus
+): number {
+  if (benefits <= 0) {
+    return 0;
+  }
+
+  const { base, adjusted } = SOCIAL_SECURITY_THRESHOLDS[filingStatus];
+  const provisionalIncome = otherIncome + benefits * 0.5;
+
+  if (provisionalIncome <= base) {
+    return 0;
+  }
+
+  if (provisionalIncome <= adjusted) {
+    return Math.min(benefits * 0.5, (provisionalIncome - base) * 0.5);
+  }
+
+  const firstTier = Math.min(benefits * 0.5, (adjusted - base) * 0.5);
+  return Math.min(benefits * 0.85, (provisionalIncome - adjusted) * 0.85 + firstTier);
+}
+
+/**
+ * Calculate tax on long-term capital gains
+ * Gains are stacked on top of ordinary taxable income, so they fill the 0/15/20% brackets
+ * starting where ordinary income ends
+ *
+ * @param ordinaryTaxableIncome - Taxable ordinary income (after deductions)
+ * @param taxableGains - Taxable long-term capital gains
+ * @param filingStatus - Federal filing status
+ * @param inflationFactor - Cumulative inflation since the base tax year
+ * @returns Capital gains tax owed
+ */
+export function calculateCapitalGainsTax(
+  ordinaryTaxableIncome: number,
+  taxableGains: number,
+  filingStatus: FilingStatus,
+  inflationFactor: number
+): number {
+  if (taxableGains <= 0) {
+    return 0;
+  }
+
+  const stackedIncome = ordinaryTaxableIncome + taxableGains;
+  return (
+    calculateBracketTax(stackedIncome, CAPITAL_GAINS_BRACKETS[filingStatus], inflationFactor) -
+    calculateBracketTax(ordinaryTaxableIncome, CAPITAL_GAINS_BRACKETS[filingStatus], inflationFactor)
+  );
+}
+
+/**
+ * Calculate the net investment income tax
+ * 3.8% of the lesser of net investment income or MAGI above the threshold
+ *
+ * @param investmentIncome - Net investment income (capital gains, qualified dividends, rentals)
+ * @param modifiedAdjustedGrossIncome - MAGI
+ * @param filingStatus - Federal filing status
+ * @returns NIIT owed
+ */
+export function calculateNetInvestmentIncomeTax(
+  investmentIncome: number,
+  modifiedAdjustedGrossIncome: number,
+  filingStatus: FilingStatus
+): number {
+  const excessIncome = modifiedAdjustedGrossIncome - NET_INVESTMENT_INCOME_THRESHOLDS[filingStatus];
+  if (investmentIncome <= 0 || excessIncome <= 0) {
+    return 0;
+  }
+  return Math.min(investmentIncome, excessIncome) * (NET_INVESTMENT_INCOME_TAX_RATE / 100);
+}
+
+/**
+ * Calculate self-employment tax
+ * W-2 wages are not counted against the Social Security wage base (payroll taxes on wages
+ * are not modeled)
+ *
+ * @param selfEmploymentIncome - Net self-employment earnings
+ * @param inflationFactor - Cumulative inflation since base tax year
+ * @returns Self-employment tax owed
+ */
+export function calculateSelfEmploymentTax(selfEmploymentIncome: number, inflationFactor: number): number {
+  const netEarnings = Math.max(0, selfEmploymentIncome) * SELF_EMPLOYMENT_EARNINGS_FACTOR;
+  const socialSecurityEarnings = Math.min(netEarnings, SOCIAL_SECURITY_WAGE_BASE * inflationFactor);
+  return (
+    socialSecurityEarnings * (SELF_EMPLOYMENT_SOCIAL_SECURITY_RATE / 100) +
+    netEarnings * (SELF_EMPLOYMENT_MEDICARE_RATE / 100)
+  );
+}
+
+/**
+ * Calculate federal income tax for a projection year
+ * The standard deduction offsets ordinary income first; any remainder offsets capital gains
+ * Half of any self-employment tax is deducted from ordinary income
+ */
+export function calculateFederalIncomeTax(input: FederalTaxInput): FederalTaxResult {
+  const selfEmploymentTax = calculateSelfEmploymentTax(input.selfEmploymentIncome || 0, input.inflationFactor);
+  const ordinaryIncome = Math.max(0, input.ordinaryIncome - selfEmploymentTax / 2);
+  const longTermCapitalGains = Math.max(0, input.longTermCapitalGains || 0);
+  const taxableSocialSecurity = calculateTaxableSocialSecurity(
+    input.socialSecurity,
+    ordinaryIncome + longTermCapitalGains,
+    input.filingStatus
+  );
+  const grossOrdinaryIncome = ordinaryIncome + taxableSocialSecurity;
+  const grossIncome = grossOrdinaryIncome + longTermCapitalGains;
+  const standardDeduction = getStandardDeduction(
+    input.filingStatus,
+    input.inflationFactor,
+    input.age,
+    input.spouseAge
+  );
+
+  const ordinaryTaxableIncome = Math.max(0, grossOrdinaryIncome - standardDeduction);
+  const remainingDeduction = Math.max(0, standardDeduction - grossOrdinaryIncome);
+  const taxableGains = Math.max(0, longTermCapitalGains - remainingDeduction);
+
+  const ordinaryIncomeTax = calculateOrdinaryIncomeTax(
+    ordinaryTaxableIncome,
+    input.filingStatus,
+    input.inflationFactor
+  );
+  const capitalGainsTax = calculateCapitalGainsTax(
+    ordinaryTaxableIncome,
+    taxableGains,
+    input.filingStatus,
+    input.inflationFactor
+  );
+  const netInvestmentIncomeTax = calculateNetInvestmentIncomeTax(
+    longTermCapitalGains + Math.max(0, input.otherInvestmentIncome || 0),
+    grossIncome,
+    input.filingStatus
+  );
+
+  return {
+    grossIncome,
+    taxableSocialSecurity,
+    standardDeduction,
+    taxableIncome: ordinaryTaxableIncome + taxableGains,
+    ordinaryIncomeTax,
+    capitalGainsTax,
+    netInvestmentIncomeTax,
+    selfEmploymentTax,
+    tax: ordinaryIncomeTax + capitalGainsTax + netInvestmentIncomeTax + selfEmploymentTax,
+    marginalRate: getMarginalRate(ordinaryTaxableIncome, input.filingStatus, input.inflationFactor),
+  };
+}
@@ -0,0 +1,271 @@
+/**
+ * Withdrawal Strategy Types and Calculations
+ *
+ * This module decides which accounts cover a year's shortfall, including:
+ * - Conventional order: cash, then taxable, then tax-deferred, Roth last
+ * - Proportional draw across every account with a balance
+ * - Filling a federal bracket (12% by default) from tax-deferred accounts first
+ * - Fully custom user-specified order
+ * - Drawing penalty-free sources before any withdrawal that owes the early withdrawal penalty
+ */
+
+import { AccountType } from './accounts';
+import { FilingStatus, getBracketCeiling } from './taxes';
+
+export type WithdrawalStrategyType = 'conventional' | 'proportional' | 'fill-bracket' | 'custom';
+
+export interface WithdrawalStrategy {
+  type: WithdrawalStrategyType;
+  bracketRate?: number; // fill-bracket: federal bracket to fill from tax-deferred accounts (default 12)
+  customOrder?: AccountType[]; // custom: accounts drawn first to last; omitted types are drawn afterwards
+}
+
+// Conventional withdrawal order: cash first, then taxable, then tax-deferred, Roth last
+export const CONVENTIONAL_WITHDRAWAL_ORDER: AccountType[] = [
+  'checking',
+  'savings',
+  'brokerage',
+  'traditional-ira',
+  '401k',
+  'roth-ira',
+];
+
+export const DEFAULT_WITHDRAWAL_STRATEGY: WithdrawalStrategy = { type: 'conventional' };
+
+export const DEFAULT_FILL_BRACKET_RATE = 12;
+
+const WITHDRAWAL_STRATEGY_TYPES: WithdrawalStrategyType[] = [
+  'conventional',
+  'proportional',
+  'fill-bracket',
+  'custom',
+];
+
+// Tax-deferred accounts drawn first by the fill-bracket strategy, in conventional order
+const TAX_DEFERRED_WITHDRAWAL_ORDER: AccountType[] = ['traditional-ira', '401k'];
+
+/**
+ * Get the order accounts are drawn in for a strategy
+ * Custom orders are completed with any omitted account types in conventional order
+ */
+export function getWithdrawalOrder(strategy: WithdrawalStrategy): AccountType[] {
+  if (strategy.type !== 'custom' || !strategy.customOrder) {
+    return CONVENTIONAL_WITHDRAWAL_ORDER;
+  }
+
+  return [
+    ...strategy.customOrder,
+    ...CONVENTIONAL_WITHDRAWAL_ORDER.filter((type) => !strategy.customOrder!.includes(type)),
+  ];
+}
+
+/**
+ * Get how much more taxable income fits under the fill-bracket strategy's bracket
+ *
+ * @param strategy - Withdrawal strategy
+ * @param taxableIncome - Gross income less the standard deduction so far this year
+ *   (negative while part of the deduction is unused, which adds to the room)
+ * @returns Room left in the bracket (0 for other strategies or a full bracket)
+ */
+export function getBracketRoom(
+  strategy: WithdrawalStrategy,
+  taxableIncome: number,
+  filingStatus: FilingStatus,
+  inflationFactor: number
+): number {
+  if (strategy.type !== 'fill-bracket') {
+    return 0;
+  }
+
+  const ceiling = getBracketCeiling(
+    strategy.bracketRate ?? DEFAULT_FILL_BRACKET_RATE,
+    filingStatus,
+    inflationFactor
+  );
+  return ceiling === null ? 0 : Math.max(0, ceiling - taxableIncome);
+}
+
+/**
+ * Withdraw up to an amount from accounts in order
+ *
+ * @returns Amount not covered by the accounts
+ */
+function withdrawInOrder(
+  accountBalances: Record<AccountType, number>,
+  withdrawals: Record<AccountType, number>,
+  amount: number,
+  order: AccountType[]
+): number {
+  let remaining = amount;
+
+  for (const accountType of order) {
+    if (remaining <= 0) {
+      break;
+    }
+    const available = Math.max(0, accountBalances[accountType] || 0);
+    const withdrawal = Math.min(remaining, available);
+    accountBalances[accountType] = (accountBalances[accountType] || 0) - withdrawal;
+    withdrawals[accountType] += withdrawal;
+    remaining -= withdrawal;
+  }
+
+  return remaining;
+}
+
+/**
+ * Withdraw up to an amount from every account in proportion to its balance
+ *
+ * @returns Amount not covered by the accounts
+ */
+function withdrawProportionally(
+  accountBalances: Record<AccountType, number>,
+  withdrawals: Record<AccountType, number>,
+  amount: number
+): number {
+  const totalAvailable = CONVENTIONAL_WITHDRAWAL_ORDER.reduce(
+    (sum, accountType) => sum + Math.max(0, accountBalances[accountType] || 0),
+    0
+  );
+  if (totalAvailable <= 0) {
+    return amount;
+  }
+
+  const fraction = Math.min(1, amount / totalAvailable);
+  for (const accountType of CONVENTIONAL_WITHDRAWAL_ORDER) {
+    const withdrawal = Math.max(0, accountBalances[accountType] || 0) * fraction;
+    accountBalances[accountType] = (accountBalances[accountType] || 0) - withdrawal;
+    withdrawals[accountType] += withdrawal;
+  }
+
+  return Math.max(0, amount - totalAvailable);
+}
+
+/**
+ * Withdraw up to an amount from accounts following a withdrawal strategy
+ *
+ * @returns Amount not covered by the accounts
+ */
+function withdrawWithStrategy(
+  accountBalances: Record<AccountType, number>,
+  withdrawals: Record<AccountType, number>,
+  amount: number,
+  strategy: WithdrawalStrategy,
+  bracketRoom: number
+): number {
+  if (strategy.type === 'proportional') {
+    return withdrawProportionally(accountBalances, withdrawals, amount);
+  }
+
+  let remaining = amount;
+  if (strategy.type === 'fill-bracket' && bracketRoom > 0) {
+    const bracketAmount = Math.min(remaining, bracketRoom);
+    remaining -= bracketAmount;
+    remaining += withdrawInOrder(accountBalances, withdrawals, bracketAmount, TAX_DEFERRED_WITHDRAWAL_ORDER);
+  }
+  return withdrawInOrder(accountBalances, withdrawals, remaining, getWithdrawalOrder(strategy));
+}
+
+/**
+ * Withdraw an amount from accounts following a withdrawal strategy
+ * With penalty-free limits, the strategy first runs on balances capped at those limits and
+ * only then draws on penalized money
+ * Any amount the accounts cannot cover overdraws checking
+ * (represents debt/overdraft - realistic for worst-case projections)
+ *
+ * @param accountBalances - Balances by account type (mutated)
+ * @param amount - Amount to withdraw
+ * @param strategy - Withdrawal strategy
+ * @param bracketRoom - Taxable income left in the fill-bracket strategy's bracket
+ * @param penaltyFreeLimits - Amount each account type can give without the early withdrawal
+ *   penalty (types without a limit are penalty-free)
+ * @returns Amount withdrawn from each account type
+ */
+export function withdrawFromAccounts(
+  accountBalances: Record<AccountType, number>,
+  amount: number,
+  strategy: WithdrawalStrategy = DEFAULT_WITHDRAWAL_STRATEGY,
+  bracketRoom: number = 0,
+  penaltyFreeLimits?: Partial<Record<AccountType, number>>
+): Record<AccountType, number> {
+  const withdrawals = Object.fromEntries(
+    CONVENTIONAL_WITHDRAWAL_ORDER.map((type) => [type, 0])
+  ) as Record<AccountType, number>;
+  let remaining = amount;
+  let remainingBracketRoom = bracketRoom;
+
+  if (penaltyFreeLimits && Object.keys(penaltyFreeLimits).length > 0) {
+    const penaltyFreeBalances = Object.fromEntries(
+      CONVENTIONAL_WITHDRAWAL_ORDER.map((type) => [
+        type,
+        Math.min(accountBalances[type] || 0, penaltyFreeLimits[type] ?? Infinity),
+      ])
+    ) as Record<AccountType, number>;
+
+    remaining = withdrawWithStrategy(penaltyFreeBalances, withdrawals, remaining, strategy, bracketRoom);
+    for (const accountType of CONVENTIONAL_WITHDRAWAL_ORDER) {
+      accountBalances[accountType] = (accountBalances[accountType] || 0) - withdrawals[accountType];
+    }
+    remainingBracketRoom -= TAX_DEFERRED_WITHDRAWAL_ORDER.reduce((sum, type) => sum + withdrawals[type], 0);
+  }
+
+  if (remaining > 0) {
+    remaining = withdrawWithStrategy(
+      accountBalances,
+      withdrawals,
+      remaining,
+      strategy,
+      Math.max(0, remainingBracketRoom)
+    );
+  }
+
+  if (remaining > 0) {
+    accountBalances['checking'] -= remaining;
+    withdrawals['checking'] += remaining; // Count forced overdraft as withdrawal
+  }
+
+  return withdrawals;
+}
+
+/**
+ * Validate a withdrawal strategy
+ *
+ * @returns Error message if invalid, null if valid
+ */
+export function validateWithdrawalStrategy(strategy: unknown): string | null {
+  if (!strategy || typeof strategy !== 'object' || strategy === null) {
+    return 'Withdrawal strategy must be an object';
+  }
+
+  const strategyObj = strategy as Record<string, unknown>;
+
+  if (!WITHDRAWAL_STRATEGY_TYPES.includes(strategyObj.type as WithdrawalStrategyType)) {
+    return `Withdrawal strategy type must be one of: ${WITHDRAWAL_STRATEGY_TYPES.join(', ')}`;
+  }
+
+  if (strategyObj.bracketRate !== undefined) {
+    if (
+      typeof strategyObj.bracketRate !== 'number' ||
+      getBracketCeiling(strategyObj.bracketRate, 'single', 1) === null
+    ) {
+      return 'Bracket rate must be a federal bracket below the top rate (10, 12, 22, 24, 32 or 35)';
+    }
+  }
+
+  if (strategyObj.type === 'custom') {
+    if (!Array.isArray(strategyObj.customOrder) || strategyObj.customOrder.length === 0) {
+      return 'Custom withdrawal strategy must include a withdrawal order';
+    }
+
+    for (const accountType of strategyObj.customOrder) {
+      if (!CONVENTIONAL_WITHDRAWAL_ORDER.includes(accountType as AccountType)) {
+        return `Invalid account type: ${accountType}`;
+      }
+    }
+
+    if (new Set(strategyObj.customOrder).size !== strategyObj.customOrder.length) {
+      return 'Custom withdrawal order must not repeat account types';
+    }
+  }
+
+  return null;
+}